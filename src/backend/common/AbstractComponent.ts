@@ -4,16 +4,19 @@ import {
 } from "@foxxmd/regex-buddy-core";
 import deepEqual from 'fast-deep-equal';
 import { Simulate } from "react-dom/test-utils";
-import { PlayData, PlayObject, TransformResult } from "../../core/Atomic.js";
+import { PlayData, PlayFilterResult, PlayObject, TransformPreviewResult, TransformResult } from "../../core/Atomic.js";
 import { buildPlayHumanDiffable, buildTrackString } from "../../core/StringUtils.js";
 import { CommonClientConfig } from "./infrastructure/config/client/index.js";
 import { CommonSourceConfig } from "./infrastructure/config/source/index.js";
-import { mergeSimpleError, SkipTransformStageError, StagePrerequisiteError, StageTransformError, TransformRulesError } from "./errors/MSErrors.js";
+import { FilterRulesError, mergeSimpleError, SkipTransformStageError, StagePrerequisiteError, StageTransformError, TransformRulesError } from "./errors/MSErrors.js";
+import { PlayFilterRules } from "./infrastructure/Filter.js";
 import {
+    PlayTransformConfig,
     PlayTransformRules,
     StageConfig,
     TRANSFORM_HOOK,
-    TransformHook
+    TransformHook,
+    TransformPreviewContext
 } from "./infrastructure/Transform.js";
 import AbstractInitializable from "./AbstractInitializable.js";
 import play = Simulate.play;
@@ -23,10 +26,14 @@ import { nanoid } from "nanoid";
 import {diffStringsUnified, DiffOptionsColor} from 'jest-diff';
 import chalk from 'chalk';
 import { isDebugMode } from "../utils.js";
-import { findCauseByReference } from "../utils/ErrorUtils.js";
+import { findCauseByReference, messageWithCauses } from "../utils/ErrorUtils.js";
 import { hashObject } from "../utils/StringUtils.js";
+import { rehydratePlay } from "../utils/CacheUtils.js";
+import { buildFilterRules, filterPlay } from "../utils/PlayFilterUtils.js";
+import { defaultLifecycle } from "../utils/PlayTransformUtils.js";
 import { metaInvariantTransform, playContentInvariantTransform } from "../utils/PlayComparisonUtils.js";
 import { MSCache } from "./Cache.js";
+import { MSHistory } from "./History.js";
 import { jdiff } from "../utils/DataUtils.js";
 import ConsoleFormatter from "jsondiffpatch/formatters/console";
 
@@ -39,19 +46,23 @@ export default abstract class AbstractComponent extends AbstractInitializable {
     declare config: CommonClientConfig | CommonSourceConfig;
 
     transformRules: PlayTransformRules = {};
+    filterRules: PlayFilterRules = {include: [], exclude: []};
     regexCache!: ReturnType<typeof cacheFunctions>;
     protected transformManager: TransformerManager;
     protected cache: MSCache;
+    protected history: MSHistory;
 
     protected constructor(config: AbstractComponentConfig) {
         super(config);
         this.transformManager = config.transformManager ?? getRoot().items.transformerManager;
         this.cache = getRoot().items.cache();
+        this.history = getRoot().items.history;
     }
 
     protected postCache(): Promise<void> {
         try {
             this.buildTransformRules();
+            this.buildFilterRules();
             return;
         } catch (e) {
             throw e;
@@ -74,6 +85,43 @@ export default abstract class AbstractComponent extends AbstractInitializable {
         }
     }
 
+    public buildFilterRules() {
+        try {
+            this.filterRules = buildFilterRules(this.config.options?.filters);
+        } catch (e) {
+            this.buildOK = false;
+            throw new FilterRulesError('Could not build filter rules. Check your configuration is valid.', {cause: e});
+        }
+        const {include, exclude} = this.filterRules;
+        if(include.length > 0 || exclude.length > 0) {
+            this.logger.debug(`Filters built! Include: ${include.length} | Exclude: ${exclude.length}`);
+        }
+    }
+
+    /**
+     * Test Play against configured filters
+     *
+     * @returns undefined if Play is not filtered, otherwise a copy of the Play with the filter result recorded in its lifecycle
+     * */
+    public filterPlay = (play: PlayObject): PlayObject | undefined => {
+        const result = filterPlay(this.filterRules, play, {testMaybeRegex: this.regexCache?.testMaybeRegex});
+        if(result === undefined) {
+            return undefined;
+        }
+        const filtered: PlayFilterResult = {source: this.getIdentifier(), ...result};
+        // plays may be shared between components so don't mutate the original
+        return {
+            ...play,
+            meta: {
+                ...play.meta,
+                lifecycle: {
+                    ...defaultLifecycle(play.meta.lifecycle),
+                    filtered
+                }
+            }
+        };
+    }
+
     protected doBuildTransformRules() {
         const {
             options: {
@@ -86,6 +134,13 @@ export default abstract class AbstractComponent extends AbstractInitializable {
             return;
         }
 
+        this.transformRules = this.parseTransformRules(playTransform);
+    }
+
+    /**
+     * Parse and validate user-facing playTransform config into strongly-typed hooks
+     * */
+    public parseTransformRules(playTransform: PlayTransformConfig): PlayTransformRules {
         const {
             preCompare: preConfig,
             compare: {
@@ -148,7 +203,7 @@ export default abstract class AbstractComponent extends AbstractInitializable {
 
         this.logger.debug(`Hooks built! Empty: ${emptyHooks.join(', ')} | Configured: ${builtHooks.length === 0 ? 'None' : `\n${builtHooks.join('\n')}`}`);
 
-        this.transformRules = {
+        return {
             preCompare,
             compare: {
                 candidate,
@@ -168,7 +223,7 @@ export default abstract class AbstractComponent extends AbstractInitializable {
         return partArr.map(x => this.transformManager.parseTransformerConfig(x));
     }
 
-    public transformPlay = async (play: PlayObject, hookType: TransformHook, log?: boolean) => {
+    public transformPlay = async (play: PlayObject, hookType: TransformHook, log?: boolean, preview?: TransformPreviewContext) => {
 
 
         const asyncId = nanoid(6);
@@ -176,19 +231,20 @@ export default abstract class AbstractComponent extends AbstractInitializable {
 
         try {
             let hook: StageConfig[];
+            const rules = preview?.rules ?? this.transformRules;
 
             switch (hookType) {
                 case TRANSFORM_HOOK.preCompare:
-                    hook = this.transformRules.preCompare;
+                    hook = rules.preCompare;
                     break;
                 case TRANSFORM_HOOK.candidate:
-                    hook = this.transformRules.compare?.candidate;
+                    hook = rules.compare?.candidate;
                     break;
                 case TRANSFORM_HOOK.existing:
-                    hook = this.transformRules.compare?.existing;
+                    hook = rules.compare?.existing;
                     break;
                 case TRANSFORM_HOOK.postCompare:
-                    hook = this.transformRules.postCompare;
+                    hook = rules.postCompare;
                     break;
             }
 
@@ -199,7 +255,7 @@ export default abstract class AbstractComponent extends AbstractInitializable {
             const shouldLog = log ?? this.config.options?.playTransform?.log ?? isDebugMode();
 
             const transformHash = `playTransform-${hashObject(hook)}-${hashObject(playContentInvariantTransform(play))}`;
-            const cachedTransformPlay = await this.cache.cacheTransform.get<PlayObject>(transformHash);
+            const cachedTransformPlay = preview === undefined ? await this.cache.cacheTransform.get<PlayObject>(transformHash) : undefined;
             if(cachedTransformPlay !== undefined) {
                 // if(shouldLog) {
                 //     logger.debug(`Used cached Transform for => ${buildTrackString(play)}`);
@@ -236,6 +292,13 @@ export default abstract class AbstractComponent extends AbstractInitializable {
                 if(err !== undefined) {
                     const merged = mergeSimpleError(err);
                     const skipError = findCauseByReference(err, SkipTransformStageError);
+                    preview?.stages.push({
+                        hook: hookType,
+                        type: hookItem.type,
+                        name: stageName,
+                        status: skipError !== undefined ? 'skipped' : 'failed',
+                        error: messageWithCauses(err)
+                    });
                     if(skipError !== undefined) {
                         let skipMsg = `Stage '${stageName}' was skipped`;
                         if(onSkip === 'stop') {
@@ -269,6 +332,13 @@ export default abstract class AbstractComponent extends AbstractInitializable {
                         name: stageName,
                         play: newTransformedPlay.data
                     });
+                    preview?.stages.push({
+                        hook: hookType,
+                        type: hookItem.type,
+                        name: stageName,
+                        status: 'success',
+                        play: newTransformedPlay.data
+                    });
                     transformedPlay = newTransformedPlay;
                 }
 
@@ -351,11 +421,49 @@ export default abstract class AbstractComponent extends AbstractInitializable {
             //         }
             //     ]
             // }
-            await this.cache.cacheTransform.set<PlayObject>(transformHash, transformedPlay, '10m');
+            if(preview === undefined) {
+                await this.cache.cacheTransform.set<PlayObject>(transformHash, transformedPlay, '10m');
+            }
             return transformedPlay;
         } catch (e) {
             logger.warn(new Error(`Unexpected error occurred, returning original play.`, {cause: e}));
             return play;
         }
     }
+
+    /**
+     * Run a Play through transform hooks, in order, without caching or scrobbling anything
+     *
+     * @param play The Play to transform. It is copied so the given Play is never modified.
+     * @param playTransform If present, these rules are used instead of this component's configured rules
+     * @param hooks Hooks to run. Defaults to the hooks that modify a Play before it is scrobbled.
+     * */
+    public previewTransform = async (play: PlayObject, playTransform?: PlayTransformConfig, hooks: TransformHook[] = [TRANSFORM_HOOK.preCompare, TRANSFORM_HOOK.postCompare]): Promise<TransformPreviewResult<PlayObject>> => {
+        const preview: TransformPreviewContext = {
+            rules: playTransform !== undefined ? this.parseTransformRules(playTransform) : this.transformRules,
+            stages: []
+        };
+
+        const {lifecycle, ...meta} = play.meta;
+        let transformed = rehydratePlay(JSON.parse(JSON.stringify({
+            data: play.data,
+            meta: {
+                ...meta,
+                lifecycle: {
+                    original: {data: play.data, meta},
+                    steps: []
+                }
+            }
+        })));
+
+        for(const hook of hooks) {
+            transformed = await this.transformPlay(transformed, hook, undefined, preview);
+        }
+
+        return {
+            play: transformed,
+            steps: transformed.meta.lifecycle.steps,
+            stages: preview.stages
+        };
+    }
 }
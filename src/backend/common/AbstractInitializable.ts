@@ -1,4 +1,5 @@
 import { childLogger, Logger } from "@foxxmd/logging";
+import dayjs, { Dayjs } from "dayjs";
 import { Simulate } from "react-dom/test-utils";
 import {truncateStringToLength } from "../../core/StringUtils.js";
 import { hasNodeNetworkException } from "./errors/NodeErrors.js";
@@ -13,6 +14,8 @@ export default abstract class AbstractInitializable {
     requiresAuthInteraction: boolean = false;
     authed: boolean = false;
     authFailure?: boolean;
+    /** When authentication last succeeded */
+    authedAt?: Dayjs;
 
     buildOK?: boolean | null;
     connectionOK?: boolean | null;
@@ -244,6 +247,9 @@ export default abstract class AbstractInitializable {
         try {
             this.authed = await this.doAuthentication();
             this.authFailure = !this.authed;
+            if(this.authed) {
+                this.authedAt = dayjs();
+            }
         } catch (e) {
             // only signal as auth failure if error was NOT either a node network error or a non-showstopping upstream error
             this.authFailure = !(hasNodeNetworkException(e) || hasUpstreamError(e, false));
@@ -275,4 +281,13 @@ export default abstract class AbstractInitializable {
     public additionalApiData(): Record<string, any> {
         return {};
     }
+
+    /**
+     * Stop any running processes and release resources so the component can be discarded
+     *
+     * Used when a component is removed or rebuilt from a changed config while the app is running.
+     * */
+    public async destroy(): Promise<void> {
+        return;
+    }
 }
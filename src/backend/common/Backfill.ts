@@ -0,0 +1,295 @@
+import { childLogger, Logger } from '@foxxmd/logging';
+import dayjs from 'dayjs';
+import { nanoid } from 'nanoid';
+import { PlayObject, QueuedScrobble } from '../../core/Atomic.js';
+import AbstractSource from '../sources/AbstractSource.js';
+import ScrobbleSources from '../sources/ScrobbleSources.js';
+import ScrobbleClients from '../scrobblers/ScrobbleClients.js';
+import AbstractScrobbleClient from '../scrobblers/AbstractScrobbleClient.js';
+import { sleep, sortByOldestPlayDate } from '../utils.js';
+import { messageWithCauses } from '../utils/ErrorUtils.js';
+import { todayAwareFormat } from '../utils/TimeUtils.js';
+import { MSCache } from './Cache.js';
+import { BackfillJobData, BackfillOptions, ScrobbleRangeFetchable } from './infrastructure/Atomic.js';
+
+export const BACKFILL_CACHE_KEY = 'backfill-jobs';
+export const BACKFILL_DEFAULT_WINDOW = 86400;
+export const BACKFILL_DEFAULT_DELAY = 2;
+
+export const isScrobbleRangeFetchable = (obj: object): obj is ScrobbleRangeFetchable => 'getScrobblesForTimeRange' in obj && typeof obj.getScrobblesForTimeRange === 'function';
+
+/**
+ * Copies history from a Source that can fetch listens by time range into Clients
+ *
+ * History is fetched in time windows (oldest first) and each window is sent to Clients the same way as discovered plays.
+ * The next window is not fetched until Clients have finished processing the previous one, so duplicate checking
+ * against each Client's existing scrobbles happens normally and the stored cursor is always safe to resume from.
+ * */
+export class BackfillManager {
+
+    jobs: Map<string, BackfillJobData> = new Map();
+
+    logger: Logger;
+
+    protected sources: ScrobbleSources;
+    protected clients: ScrobbleClients;
+    protected cache: MSCache;
+    protected stopSignals: Set<string> = new Set();
+    protected running: Map<string, Promise<void>> = new Map();
+
+    pollInterval: number = 1000;
+
+    constructor(sources: ScrobbleSources, clients: ScrobbleClients, cache: MSCache, logger: Logger) {
+        this.sources = sources;
+        this.clients = clients;
+        this.cache = cache;
+        this.logger = childLogger(logger, 'Backfill');
+    }
+
+    init = async () => {
+        const cached = await this.cache.cacheScrobble.get<BackfillJobData[]>(BACKFILL_CACHE_KEY) ?? [];
+        for(const job of cached) {
+            if(job.status === 'running') {
+                // process stopped while job was running
+                job.status = 'paused';
+                job.error = 'Interrupted by restart';
+            }
+            this.jobs.set(job.id, job);
+        }
+        if(this.jobs.size > 0) {
+            this.logger.info(`Loaded ${this.jobs.size} backfill jobs from cache`);
+        }
+    }
+
+    getJobs = (): BackfillJobData[] => Array.from(this.jobs.values());
+
+    getJob = (id: string): BackfillJobData | undefined => this.jobs.get(id);
+
+    create = async (opts: BackfillOptions): Promise<BackfillJobData> => {
+        const {
+            source: sourceName,
+            sourceType,
+            from,
+            to = dayjs().unix(),
+            windowSize = BACKFILL_DEFAULT_WINDOW,
+            delay = BACKFILL_DEFAULT_DELAY,
+        } = opts;
+
+        const source = this.getSource(sourceName, sourceType);
+        if(!isScrobbleRangeFetchable(source)) {
+            throw new Error(`Source ${source.getIdentifier()} does not support fetching history by time range`);
+        }
+        const clients = opts.clients ?? source.clients;
+        for(const c of clients) {
+            if(this.clients.getByName(c) === undefined) {
+                throw new Error(`No Client with the name ${c}`);
+            }
+        }
+        if(from >= to) {
+            throw new Error(`'from' must be before 'to'`);
+        }
+        if(windowSize < 1) {
+            throw new Error(`'windowSize' must be greater than 0`);
+        }
+
+        const now = dayjs().unix();
+        const job: BackfillJobData = {
+            id: nanoid(),
+            source: source.name,
+            sourceType: source.type,
+            clients,
+            from,
+            to,
+            windowSize,
+            delay: Math.max(0, delay),
+            cursor: from,
+            processed: 0,
+            status: 'paused',
+            createdAt: now,
+            updatedAt: now,
+        };
+        this.jobs.set(job.id, job);
+        await this.persist();
+        return job;
+    }
+
+    /**
+     * Starts (or resumes) processing a job in the background
+     * */
+    start = async (id: string): Promise<BackfillJobData> => {
+        const job = this.getExistingJob(id);
+        if(this.running.has(id)) {
+            throw new Error(`Backfill job ${id} is already running`);
+        }
+        if(job.status === 'completed') {
+            throw new Error(`Backfill job ${id} is already completed`);
+        }
+        job.status = 'running';
+        job.error = undefined;
+        await this.updateJob(job);
+        const run = this.run(job).finally(() => {
+            this.running.delete(id);
+            this.stopSignals.delete(id);
+        });
+        this.running.set(id, run);
+        return job;
+    }
+
+    /**
+     * Stops a running job after its current time window is finished
+     * */
+    stop = async (id: string): Promise<BackfillJobData> => {
+        const job = this.getExistingJob(id);
+        const run = this.running.get(id);
+        if(run !== undefined) {
+            this.stopSignals.add(id);
+            await run;
+        }
+        return job;
+    }
+
+    remove = async (id: string) => {
+        await this.stop(id);
+        this.jobs.delete(id);
+        await this.persist();
+    }
+
+    /**
+     * Resolves when the job is no longer running
+     * */
+    waitFor = async (id: string) => {
+        const run = this.running.get(id);
+        if(run !== undefined) {
+            await run;
+        }
+        return this.getExistingJob(id);
+    }
+
+    protected run = async (job: BackfillJobData) => {
+        const logger = childLogger(this.logger, job.id);
+        try {
+            const source = this.getSource(job.source, job.sourceType);
+            if(!isScrobbleRangeFetchable(source)) {
+                throw new Error(`Source ${source.getIdentifier()} does not support fetching history by time range`);
+            }
+            const clients = this.getClients(job.clients);
+            logger.info(`Backfilling ${source.getIdentifier()} => ${clients.map(x => x.name).join(', ')} from ${todayAwareFormat(dayjs.unix(job.cursor))} to ${todayAwareFormat(dayjs.unix(job.to))}`);
+
+            while(job.cursor <= job.to) {
+                if(this.stopSignals.has(job.id)) {
+                    logger.info('Stopped by user');
+                    job.status = 'paused';
+                    await this.updateJob(job);
+                    return;
+                }
+                if(!source.isReady()) {
+                    throw new Error(`Source ${source.getIdentifier()} is not ready`);
+                }
+
+                const windowEnd = Math.min(job.cursor + job.windowSize - 1, job.to);
+                const plays = (await source.getScrobblesForTimeRange({from: job.cursor, to: windowEnd}))
+                    .filter(x => x.meta.nowPlaying !== true && x.data.playDate !== undefined && x.data.playDate.unix() >= job.cursor && x.data.playDate.unix() <= windowEnd);
+                plays.sort(sortByOldestPlayDate);
+
+                logger.verbose(`Found ${plays.length} plays between ${todayAwareFormat(dayjs.unix(job.cursor))} and ${todayAwareFormat(dayjs.unix(windowEnd))}`);
+
+                if(plays.length > 0) {
+                    await this.scrobble(plays, source, clients);
+                }
+
+                job.processed += plays.length;
+                job.cursor = windowEnd + 1;
+                await this.updateJob(job);
+
+                if(job.cursor <= job.to && job.delay > 0) {
+                    await sleep(job.delay * 1000);
+                }
+            }
+            job.status = 'completed';
+            await this.updateJob(job);
+            logger.info(`Completed after processing ${job.processed} plays`);
+        } catch (e) {
+            logger.error(new Error('Backfill job failed', {cause: e}));
+            job.status = 'failed';
+            job.error = messageWithCauses(e);
+            await this.updateJob(job);
+        }
+    }
+
+    protected scrobble = async (plays: PlayObject[], source: AbstractSource, clients: AbstractScrobbleClient[]) => {
+        for(const client of clients) {
+            if(!client.scrobbling) {
+                throw new Error(`Client ${client.name} is not processing scrobbles`);
+            }
+        }
+        const scrobbleFrom = source.getIdentifier();
+        await this.clients.scrobble(plays, {scrobbleFrom, scrobbleTo: clients.map(x => x.name)});
+
+        // wait for clients to finish processing this window before fetching the next one
+        // so the cursor only advances past plays that clients have already compared against their existing scrobbles
+        const pending = new Set<string>(clients.map(x => x.queuedScrobbles.filter(y => y.source === scrobbleFrom).map(y => y.id)).flat());
+        const onDequeue = (payload: { data: { queuedScrobble: QueuedScrobble<PlayObject> } }) => {
+            pending.delete(payload.data.queuedScrobble.id);
+        };
+        for(const client of clients) {
+            client.emitter.on('scrobbleDequeued', onDequeue);
+        }
+        try {
+            while(pending.size > 0) {
+                for(const client of clients) {
+                    if(!client.scrobbling) {
+                        throw new Error(`Client ${client.name} stopped processing scrobbles`);
+                    }
+                }
+                await sleep(this.pollInterval);
+            }
+        } finally {
+            for(const client of clients) {
+                client.emitter.off('scrobbleDequeued', onDequeue);
+            }
+        }
+    }
+
+    protected getSource = (name: string, type?: string): AbstractSource => {
+        const source = type !== undefined ? this.sources.getByNameAndType(name, type as AbstractSource['type']) : this.sources.getByName(name);
+        if(source === undefined) {
+            throw new Error(`No Source with the name ${name}${type !== undefined ? ` and type ${type}` : ''}`);
+        }
+        return source;
+    }
+
+    protected getClients = (names: string[]): AbstractScrobbleClient[] => {
+        if(names.length === 0) {
+            return this.clients.clients;
+        }
+        return names.map((x) => {
+            const client = this.clients.getByName(x);
+            if(client === undefined) {
+                throw new Error(`No Client with the name ${x}`);
+            }
+            return client;
+        });
+    }
+
+    protected getExistingJob = (id: string): BackfillJobData => {
+        const job = this.jobs.get(id);
+        if(job === undefined) {
+            throw new Error(`No backfill job with ID ${id}`);
+        }
+        return job;
+    }
+
+    protected updateJob = async (job: BackfillJobData) => {
+        job.updatedAt = dayjs().unix();
+        this.jobs.set(job.id, job);
+        await this.persist();
+    }
+
+    protected persist = async () => {
+        try {
+            await this.cache.cacheScrobble.set(BACKFILL_CACHE_KEY, this.getJobs());
+        } catch (e) {
+            this.logger.warn(new Error('Could not persist backfill jobs to cache', {cause: e}));
+        }
+    }
+}
@@ -0,0 +1,418 @@
+import { childLogger, Logger } from '@foxxmd/logging';
+import { promises } from 'fs';
+import path from 'path';
+import { ComponentConfigEntry, ComponentConfigRole, ComponentConfigTypes, REDACTED_CONFIG_VALUE } from '../../core/Atomic.js';
+import ScrobbleClients from '../scrobblers/ScrobbleClients.js';
+import ScrobbleSources from '../sources/ScrobbleSources.js';
+import { writeFile } from '../utils.js';
+import { readJson, replaceInterpolatedValues } from '../utils/DataUtils.js';
+import { md5 } from '../utils/StringUtils.js';
+import { getJsonSchema, validateJson } from '../utils/ValidationUtils.js';
+import { ConfigMeta } from './infrastructure/Atomic.js';
+import { ClientAIOConfig, ClientType, clientTypes } from './infrastructure/config/client/clients.js';
+import { SourceAIOConfig, SourceType, sourceTypes } from './infrastructure/config/source/sources.js';
+
+/**
+ * Types that can be configured as either a Source or a Client. In a `[type].json` file these are Sources only if `configureAs` is `source`
+ * */
+const dualTypes: string[] = sourceTypes.filter(x => (clientTypes as string[]).includes(x));
+
+interface ConfigLocation {
+    file: string
+    /**
+     * Property in config.json that contains the list of configs
+     * */
+    key?: 'sources' | 'clients'
+    /**
+     * Identifies the config within the file by its role, type, and name so that an id still points to the same config
+     * after other configs in the file are added, removed, or re-ordered
+     * */
+    hash?: string
+}
+
+export const configHash = (role: ComponentConfigRole, type: string, name: string): string => md5(`${role}:${type}:${name}`).substring(0, 12);
+
+const isPlainJson = (content: string): boolean => {
+    try {
+        JSON.parse(content);
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+export const formatConfigId = (loc: ConfigLocation): string => loc.key !== undefined ? `${loc.file}:${loc.key}:${loc.hash}` : `${loc.file}:${loc.hash}`;
+
+export const parseConfigId = (id: string): ConfigLocation => {
+    const parts = id.split(':');
+    if(parts[0] === 'config.json' && parts.length === 3 && ['sources', 'clients'].includes(parts[1])) {
+        return {file: parts[0], key: parts[1] as ConfigLocation['key'], hash: parts[2]};
+    }
+    if(parts.length === 2 && parts[0].endsWith('.json') && parts[0] !== 'config.json') {
+        return {file: parts[0], hash: parts[1]};
+    }
+    throw new Error(`'${id}' is not a valid config location`);
+}
+
+/**
+ * Property names of config values that should never be sent to the dashboard
+ * */
+const SECRET_PROPERTY = /^keys?$|password|token|secret|api_?key|cookie|session_?keys?/i;
+const INTERPOLATED_VALUE = /^\[\[.+]]$/;
+
+const redactValue = (val: any): any => {
+    if(typeof val === 'string') {
+        // ENV placeholders are not secret and are needed to understand where the value comes from
+        return INTERPOLATED_VALUE.test(val) ? val : REDACTED_CONFIG_VALUE;
+    }
+    if(Array.isArray(val)) {
+        return val.map(redactValue);
+    }
+    return val;
+}
+
+/**
+ * Replace the values of secret properties (passwords, tokens, api keys...) with REDACTED_CONFIG_VALUE
+ * */
+export const redactConfig = <T>(config: T): T => {
+    if(Array.isArray(config)) {
+        return config.map(redactConfig) as T;
+    }
+    if(config === null || typeof config !== 'object') {
+        return config;
+    }
+    return Object.fromEntries(Object.entries(config).map(([k, v]) => [k, SECRET_PROPERTY.test(k) ? redactValue(v) : redactConfig(v)])) as T;
+}
+
+/**
+ * Replace any REDACTED_CONFIG_VALUE in an edited config with the value at the same location in the stored config
+ * */
+export const restoreRedacted = <T>(config: T, stored: any): T => {
+    if(config === REDACTED_CONFIG_VALUE) {
+        return stored ?? config;
+    }
+    if(Array.isArray(config)) {
+        return config.map((x, index) => restoreRedacted(x, Array.isArray(stored) ? stored[index] : undefined)) as T;
+    }
+    if(config === null || typeof config !== 'object') {
+        return config;
+    }
+    const storedObj = stored !== null && typeof stored === 'object' ? stored : {};
+    return Object.fromEntries(Object.entries(config).map(([k, v]) => [k, restoreRedacted(v, storedObj[k])])) as T;
+}
+
+/**
+ * Reads, validates, and writes Source/Client configs in the config directory and rebuilds the affected component when a config changes
+ *
+ * Files are read without ENV interpolation so that `[[MY_ENV]]` values are written back unchanged. Files are re-written as plain JSON
+ * so any JSON5 comments in an edited file are not preserved. A copy of the original file is kept as `[file].bak` when this happens.
+ * */
+export class ConfigManager {
+
+    logger: Logger;
+    configDir: string;
+
+    protected sources: ScrobbleSources;
+    protected clients: ScrobbleClients;
+
+    constructor(configDir: string, sources: ScrobbleSources, clients: ScrobbleClients, logger: Logger) {
+        this.configDir = configDir;
+        this.sources = sources;
+        this.clients = clients;
+        this.logger = childLogger(logger, 'Config Editor');
+    }
+
+    getTypes = (): ComponentConfigTypes => ({source: [...sourceTypes], client: [...clientTypes]});
+
+    isValidType = (role: ComponentConfigRole, type: string): boolean => role === 'source' ? (sourceTypes as string[]).includes(type) : (clientTypes as string[]).includes(type);
+
+    protected getSchemaName = (role: ComponentConfigRole, type: string): string => {
+        if(!this.isValidType(role, type)) {
+            throw new Error(`'${type}' is not a valid ${role} type`);
+        }
+        return role === 'source' ? this.sources.getSchemaByType(type as SourceType) : this.clients.getSchemaByType(type as ClientType);
+    }
+
+    getSchema = async (role: ComponentConfigRole, type: string): Promise<object> => await getJsonSchema(this.getSchemaName(role, type), this.logger);
+
+    /**
+     * Validate a config against the schema for its type. ENVs are interpolated before validation, the same as when config is read at startup
+     *
+     * Returns a list of errors, empty if the config is valid
+     * */
+    validate = async (role: ComponentConfigRole, type: string, config: object): Promise<string[]> => {
+        if(config === null || typeof config !== 'object' || Array.isArray(config)) {
+            return ['Config must be an object'];
+        }
+        try {
+            await validateJson(role, this.interpolate(config), this.getSchemaName(role, type), this.logger);
+            return [];
+        } catch (e) {
+            return e.message.split('\n\n').filter((x: string) => !x.startsWith('Json config was not valid'));
+        }
+    }
+
+    /**
+     * All Source/Client configs with secret values redacted
+     * */
+    getEntries = async (): Promise<ComponentConfigEntry[]> => (await this.readEntries()).map(x => x.config === undefined ? x : {...x, config: redactConfig(x.config)});
+
+    protected readEntries = async (): Promise<ComponentConfigEntry[]> => {
+        const entries: ComponentConfigEntry[] = [];
+
+        const mainConfig = await this.readConfigFile('config.json');
+        if(mainConfig !== undefined && mainConfig !== null && typeof mainConfig === 'object') {
+            for(const key of ['sources', 'clients'] as ConfigLocation['key'][]) {
+                const role: ComponentConfigRole = key === 'sources' ? 'source' : 'client';
+                const list = mainConfig[key];
+                if(!Array.isArray(list)) {
+                    continue;
+                }
+                for(const c of list) {
+                    entries.push(this.buildEntry({file: 'config.json', key}, role, c.type, c));
+                }
+            }
+        }
+
+        for(const type of new Set<string>([...sourceTypes, ...clientTypes])) {
+            const file = `${type}.json`;
+            const fileConfigs = await this.readConfigFile(file);
+            if(fileConfigs === undefined || fileConfigs === null || typeof fileConfigs !== 'object') {
+                continue;
+            }
+            for(const c of (Array.isArray(fileConfigs) ? fileConfigs : [fileConfigs])) {
+                entries.push(this.buildEntry({file}, this.getFileRole(type, c), type, c));
+            }
+        }
+
+        for(const source of this.sources.sources.filter(x => (x.config as {source?: string}).source === 'ENV')) {
+            entries.push({id: `ENV:source:${source.type}:${source.name}`, role: 'source', type: source.type, name: source.name, origin: 'ENV', editable: false, running: true});
+        }
+        for(const client of this.clients.clients.filter(x => (x.config as {source?: string}).source === 'ENV')) {
+            entries.push({id: `ENV:client:${client.type}:${client.name}`, role: 'client', type: client.type, name: client.name, origin: 'ENV', editable: false, running: true});
+        }
+
+        return entries;
+    }
+
+    getEntry = async (id: string): Promise<ComponentConfigEntry | undefined> => (await this.getEntries()).find(x => x.id === id);
+
+    /**
+     * Create or replace a config then rebuild the affected component
+     *
+     * New configs are added to `[type].json`. Existing configs (by id) are replaced in the file they were read from.
+     * Any REDACTED_CONFIG_VALUE in config is replaced with the existing config's secret.
+     * */
+    save = async (role: ComponentConfigRole, type: string, config: Record<string, any>, id?: string): Promise<ComponentConfigEntry> => {
+        const existing = id !== undefined ? (await this.readEntries()).find(x => x.id === id) : undefined;
+        if(id !== undefined) {
+            if(existing === undefined) {
+                throw new Error(`No config exists at ${id}`);
+            }
+            if(!existing.editable) {
+                throw new Error(`Config at ${id} cannot be edited`);
+            }
+            if(existing.role !== role || existing.type !== type) {
+                throw new Error(`Config at ${id} is a ${existing.type} ${existing.role}, it cannot be changed to a ${type} ${role}`);
+            }
+        }
+
+        // secrets are redacted when configs are listed, keep stored secrets that were not changed
+        const newConfig = this.prepareConfig(role, type, restoreRedacted(config, existing?.config), existing !== undefined ? existing.origin : `${type}.json`);
+
+        const errors = await this.validate(role, type, newConfig);
+        if(errors.length > 0) {
+            throw new Error(`Config is not valid\n\n${errors.join('\n\n')}`);
+        }
+
+        const name = newConfig.name ?? 'unnamed';
+        const conflict = (await this.getEntries()).find(x => x.role === role && x.type === type && x.name === name && x.id !== id);
+        if(conflict !== undefined) {
+            throw new Error(`A ${type} ${role} named '${name}' already exists (${conflict.origin})`);
+        }
+
+        let savedLoc: ConfigLocation;
+        if(existing !== undefined) {
+            const loc = parseConfigId(existing.id);
+            await this.updateFile(loc, (list, index) => {
+                list[index] = newConfig;
+            });
+            savedLoc = {...loc, hash: configHash(role, type, name)};
+        } else {
+            savedLoc = {file: `${type}.json`, hash: configHash(role, type, name)};
+            await this.updateFile({file: savedLoc.file}, (list) => {
+                list.push(newConfig);
+            });
+        }
+        const savedId = formatConfigId(savedLoc);
+        this.logger.info(`${existing === undefined ? 'Added' : 'Updated'} ${type} ${role} '${name}' in ${savedLoc.file}`);
+
+        if(existing !== undefined) {
+            await this.stopComponent(role, type, existing.name);
+        }
+        await this.startComponent(role, type, newConfig, savedLoc.file);
+
+        return await this.getEntry(savedId);
+    }
+
+    /**
+     * Remove a config from its file and stop the running component
+     * */
+    remove = async (id: string): Promise<void> => {
+        const existing = await this.getEntry(id);
+        if(existing === undefined) {
+            throw new Error(`No config exists at ${id}`);
+        }
+        if(!existing.editable) {
+            throw new Error(`Config at ${id} cannot be removed`);
+        }
+        const loc = parseConfigId(id);
+        await this.updateFile(loc, (list, index) => {
+            list.splice(index, 1);
+        });
+        this.logger.info(`Removed ${existing.type} ${existing.role} '${existing.name}' from ${loc.file}`);
+        await this.stopComponent(existing.role, existing.type, existing.name);
+    }
+
+    protected buildEntry = (loc: Omit<ConfigLocation, 'hash'>, role: ComponentConfigRole, type: string, config: Record<string, any>): ComponentConfigEntry => {
+        const name = config.name ?? 'unnamed';
+        return {
+            id: formatConfigId({...loc, hash: configHash(role, type, name)}),
+            role,
+            type,
+            name,
+            origin: loc.file,
+            editable: true,
+            running: this.getRunning(role, type, name) !== undefined,
+            config
+        };
+    }
+
+    protected getHash = (loc: ConfigLocation, config: Record<string, any>): string => {
+        if(loc.key !== undefined) {
+            return configHash(loc.key === 'sources' ? 'source' : 'client', config.type, config.name ?? 'unnamed');
+        }
+        const type = loc.file.replace(/\.json$/, '');
+        return configHash(this.getFileRole(type, config), type, config.name ?? 'unnamed');
+    }
+
+    protected getFileRole = (type: string, config: Record<string, any>): ComponentConfigRole => {
+        if(dualTypes.includes(type)) {
+            return config.configureAs === 'source' ? 'source' : 'client';
+        }
+        return (sourceTypes as string[]).includes(type) ? 'source' : 'client';
+    }
+
+    protected prepareConfig = (role: ComponentConfigRole, type: string, config: Record<string, any>, file: string): Record<string, any> => {
+        const newConfig = {...config};
+        if(file === 'config.json') {
+            newConfig.type = type;
+        } else {
+            // type is implied by file name
+            delete newConfig.type;
+        }
+        if(dualTypes.includes(type)) {
+            if(role === 'source') {
+                newConfig.configureAs = 'source';
+            } else if(newConfig.configureAs === 'source') {
+                delete newConfig.configureAs;
+            }
+        }
+        return newConfig;
+    }
+
+    protected interpolate = <T extends object>(config: T): T => JSON.parse(replaceInterpolatedValues(JSON.stringify(config), process.env, this.logger));
+
+    protected readConfigFile = async (file: string) => {
+        try {
+            return await readJson(path.join(this.configDir, file), {throwOnNotFound: false, interpolateEnvs: false});
+        } catch (e) {
+            this.logger.warn(new Error(`Could not read ${file}, configs from it will not be listed`, {cause: e}));
+            return undefined;
+        }
+    }
+
+    protected readRawFile = async (filePath: string): Promise<string | undefined> => {
+        try {
+            return await promises.readFile(filePath, 'utf8');
+        } catch (e) {
+            if(e.code === 'ENOENT') {
+                return undefined;
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Read the list of configs that contains location, modify it, and write the file back
+     *
+     * If location has a hash then index is the position of the config it identifies. Throws if that config is no longer in the file.
+     * */
+    protected updateFile = async (loc: ConfigLocation, modify: (list: Record<string, any>[], index: number) => void) => {
+        const filePath = path.join(this.configDir, loc.file);
+        const data = await readJson(filePath, {throwOnNotFound: false, interpolateEnvs: false});
+        let fileData: any;
+        let list: Record<string, any>[];
+        if(loc.key !== undefined) {
+            fileData = data ?? {};
+            fileData[loc.key] = fileData[loc.key] ?? [];
+            list = fileData[loc.key];
+        } else {
+            list = data === undefined || data === null ? [] : (Array.isArray(data) ? data : [data]);
+            fileData = list;
+        }
+        let index = -1;
+        if(loc.hash !== undefined) {
+            index = list.findIndex(c => this.getHash(loc, c) === loc.hash);
+            if(index === -1) {
+                throw new Error(`Config at ${formatConfigId(loc)} no longer exists in ${loc.file}, it may have been changed outside of the editor`);
+            }
+        }
+        modify(list, index);
+
+        const original = await this.readRawFile(filePath);
+        if(original !== undefined && !isPlainJson(original)) {
+            // comments and JSON5 syntax are lost when the file is written as JSON so keep the file as the user wrote it
+            await writeFile(`${filePath}.bak`, original);
+            this.logger.warn(`${loc.file} has comments or JSON5 syntax that are removed when it is saved, the original was copied to ${loc.file}.bak`);
+        }
+        await writeFile(filePath, JSON.stringify(fileData, null, 2));
+    }
+
+    protected getRunning = (role: ComponentConfigRole, type: string, name: string) => role === 'source'
+        ? this.sources.sources.find(x => x.type === type && x.name === name)
+        : this.clients.clients.find(x => x.type === type && x.name === name);
+
+    protected stopComponent = async (role: ComponentConfigRole, type: string, name: string) => {
+        if(role === 'source') {
+            const source = this.sources.sources.find(x => x.type === type && x.name === name);
+            if(source !== undefined) {
+                await this.sources.removeSource(source);
+            }
+        } else {
+            const client = this.clients.clients.find(x => x.type === type && x.name === name);
+            if(client !== undefined) {
+                await this.clients.removeClient(client);
+            }
+        }
+    }
+
+    protected startComponent = async (role: ComponentConfigRole, type: string, config: Record<string, any>, file: string) => {
+        const parsed = {
+            ...this.interpolate(config),
+            name: config.name ?? 'unnamed',
+            type,
+            source: file,
+            configureAs: role,
+        };
+        try {
+            if(role === 'source') {
+                await this.sources.startSource(parsed as unknown as SourceAIOConfig & ConfigMeta);
+            } else {
+                await this.clients.startClient(parsed as unknown as ClientAIOConfig & ConfigMeta);
+            }
+        } catch (e) {
+            this.logger.error(new Error(`Could not start ${type} ${role} '${parsed.name}' after config change`, {cause: e}));
+        }
+    }
+}
@@ -0,0 +1,240 @@
+import { childLogger, Logger } from "@foxxmd/logging";
+import dayjs from "dayjs";
+import { promises } from "fs";
+import path from "path";
+import { PlayObject } from "../../core/Atomic.js";
+import { parseBool, sortByOldestPlayDate, writeFile } from "../utils.js";
+import { HISTORY_MAX_LIMIT, MSHistory, queryPlays } from "./History.js";
+import { projectDir } from "./index.js";
+import { EXPORT_FORMATS, ExportConfigOptions, ExportFormat, HistoryQuery } from "./infrastructure/Atomic.js";
+import { playToClientPayload as playToLastfmPayload } from "./vendor/LastfmApiClient.js";
+import { playToListenPayload } from "./vendor/ListenbrainzApiClient.js";
+import { playToScrobblePayload as playToMalojaPayload } from "./vendor/maloja/MalojaApiClient.js";
+
+const configDir = process.env.CONFIG_DIR || path.resolve(projectDir, `./config`);
+
+export const EXPORT_DEFAULT_INTERVAL = 24;
+
+export interface ExportFileInfo {
+    extension: string
+    contentType: string
+}
+
+export const EXPORT_FILE_INFO: Record<ExportFormat, ExportFileInfo> = {
+    listenbrainz: {extension: 'jsonl', contentType: 'application/x-ndjson'},
+    lastfm: {extension: 'csv', contentType: 'text/csv'},
+    maloja: {extension: 'json', contentType: 'application/json'},
+    scrobblerlog: {extension: 'scrobbler.log', contentType: 'text/plain'},
+}
+
+export interface SerializeOptions {
+    /** multi-scrobbler version included in file headers, where the format supports it */
+    version?: string
+}
+
+export const parseExportFormat = (val: any): ExportFormat => {
+    if(val === undefined || val === null || val === '') {
+        return 'listenbrainz';
+    }
+    const format = val.toString().trim().toLocaleLowerCase();
+    if(!EXPORT_FORMATS.includes(format)) {
+        throw new Error(`'format' must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+    return format as ExportFormat;
+}
+
+export const serializePlays = (plays: PlayObject[], format: ExportFormat, options: SerializeOptions = {}): string => {
+    switch (format) {
+        case 'listenbrainz':
+            return playsToListenbrainz(plays);
+        case 'lastfm':
+            return playsToLastfmCsv(plays);
+        case 'maloja':
+            return playsToMaloja(plays);
+        case 'scrobblerlog':
+            return playsToScrobblerLog(plays, options);
+    }
+}
+
+/**
+ * Same structure as listens in a ListenBrainz user data export
+ * */
+export const playsToListenbrainz = (plays: PlayObject[]): string => plays.map(x => `${JSON.stringify(playToListenPayload(x))}\n`).join('');
+
+const csvField = (val?: string | number): string => {
+    if(val === undefined || val === null) {
+        return '';
+    }
+    const str = val.toString();
+    if(/[",\r\n]/.test(str)) {
+        return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+}
+
+export const playsToLastfmCsv = (plays: PlayObject[]): string => {
+    const lines = ['artist,album,track,timestamp'];
+    for(const play of plays) {
+        const {artist, album, track, timestamp} = playToLastfmPayload(play);
+        lines.push([artist, album, track, timestamp].map(csvField).join(','));
+    }
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Structure matches Maloja's own backup export so it can be used with `maloja import`
+ *
+ * https://github.com/krateng/maloja/blob/master/maloja/proccontrol/tasks/import_scrobbles.py
+ * */
+export const playsToMaloja = (plays: PlayObject[]): string => {
+    const scrobbles = plays.map((x) => {
+        const {
+            title,
+            artists,
+            album,
+            albumartists,
+            time,
+            length,
+            duration
+        } = playToMalojaPayload(x);
+        return {
+            time,
+            track: {
+                artists,
+                title,
+                album: album !== undefined && album !== null && album !== '' ? {
+                    albumtitle: album,
+                    artists: albumartists ?? artists
+                } : null,
+                length: length ?? null
+            },
+            duration: duration ?? null,
+            origin: 'client:multi-scrobbler'
+        };
+    });
+    return JSON.stringify({maloja: {export_time: dayjs().unix()}, scrobbles});
+}
+
+const logField = (val?: string | number): string => val === undefined || val === null ? '' : val.toString().replace(/[\t\r\n]+/g, ' ');
+
+/**
+ * Audioscrobbler portable player log
+ *
+ * https://web.archive.org/web/20170107015006/http://www.audioscrobbler.net/wiki/Portable_Player_Logging
+ * */
+export const playsToScrobblerLog = (plays: PlayObject[], options: SerializeOptions = {}): string => {
+    return `${scrobblerLogHeader(options)}${plays.map(x => `${playToScrobblerLogLine(x)}\n`).join('')}`;
+}
+
+export const scrobblerLogHeader = (options: SerializeOptions = {}): string => [
+    '#AUDIOSCROBBLER/1.1',
+    '#TZ/UTC',
+    `#CLIENT/multi-scrobbler ${options.version ?? ''}`.trim()
+].map(x => `${x}\n`).join('');
+
+export const playToScrobblerLogLine = (play: PlayObject): string => {
+    const {artist, album, track, timestamp, duration, mbid} = playToLastfmPayload(play);
+    // ARTIST ALBUM TITLE TRACKNUM LENGTH RATING TIMESTAMP MBTRACKID
+    return [artist, album, track, '', duration !== undefined ? Math.round(duration) : '', 'L', timestamp, mbid].map(logField).join('\t');
+}
+
+/**
+ * Get all plays matching query, oldest first
+ *
+ * Uses History when it is enabled, otherwise uses the provided in-memory plays
+ * */
+export const getExportPlays = (history: MSHistory, query: Omit<HistoryQuery, 'page' | 'limit'>, inMemory: () => PlayObject[]): PlayObject[] => {
+    let plays: PlayObject[] = [];
+    if(history.isReady()) {
+        let page = 1;
+        let more = true;
+        while(more) {
+            const res = history.query({...query, page, limit: HISTORY_MAX_LIMIT});
+            plays = plays.concat(res.data.map(x => x.play));
+            more = res.data.length === HISTORY_MAX_LIMIT && plays.length < res.total;
+            page++;
+        }
+    } else {
+        const memoryPlays = inMemory();
+        [plays] = queryPlays(memoryPlays, {...query, limit: Math.max(memoryPlays.length, 1)});
+    }
+    return [...plays].sort(sortByOldestPlayDate);
+}
+
+export const exportFileName = (role: 'client' | 'source', type: string, name: string, format: ExportFormat, date = dayjs()): string => {
+    const safe = (str: string) => str.replace(/[^a-zA-Z0-9_-]+/g, '_');
+    return `${role}-${safe(type)}-${safe(name)}-${date.format('YYYYMMDDHHmmss')}.${EXPORT_FILE_INFO[format].extension}`;
+}
+
+export interface ExportBackupTarget {
+    type: string
+    name: string
+    plays: PlayObject[]
+}
+
+/**
+ * Writes export files for Clients to a directory and removes old exports
+ * */
+export class ExportBackups {
+
+    config: Required<Omit<ExportConfigOptions, 'retain'>> & Pick<ExportConfigOptions, 'retain'>;
+    logger: Logger;
+    version?: string;
+
+    constructor(config: ExportConfigOptions = {}, parentLogger: Logger, version?: string) {
+        this.logger = childLogger(parentLogger, 'Export');
+        this.version = version;
+        const {
+            enable = parseBool(process.env.EXPORT_ENABLE, false),
+            dir = process.env.EXPORT_DIR ?? path.resolve(configDir, 'exports'),
+            interval = EXPORT_DEFAULT_INTERVAL,
+            formats = ['listenbrainz'],
+            retain
+        } = config;
+        const invalid = formats.filter(x => !EXPORT_FORMATS.includes(x));
+        if(invalid.length > 0) {
+            throw new Error(`Export 'formats' has invalid values: ${invalid.join(', ')} -- must be one of: ${EXPORT_FORMATS.join(', ')}`);
+        }
+        if(typeof interval !== 'number' || interval <= 0) {
+            throw new Error(`Export 'interval' must be a number greater than 0`);
+        }
+        this.config = {enable, dir, interval, formats, retain};
+    }
+
+    write = async (targets: ExportBackupTarget[]): Promise<string[]> => {
+        await promises.mkdir(this.config.dir, {recursive: true});
+        const date = dayjs();
+        const written: string[] = [];
+        for(const target of targets) {
+            for(const format of this.config.formats) {
+                const filePath = path.join(this.config.dir, exportFileName('client', target.type, target.name, format, date));
+                await writeFile(filePath, serializePlays(target.plays, format, {version: this.version}));
+                written.push(filePath);
+                this.logger.verbose(`Wrote ${target.plays.length} plays for ${target.type} - ${target.name} to ${filePath}`);
+                await this.prune(target, format);
+            }
+        }
+        return written;
+    }
+
+    protected prune = async (target: ExportBackupTarget, format: ExportFormat) => {
+        if(this.config.retain === undefined) {
+            return;
+        }
+        // file names end in a sortable timestamp so lexical order is oldest first
+        const prefix = exportFileName('client', target.type, target.name, format).replace(/\d{14}\..+$/, '');
+        const suffix = `.${EXPORT_FILE_INFO[format].extension}`;
+        const existing = (await promises.readdir(this.config.dir))
+            .filter(x => x.startsWith(prefix) && x.endsWith(suffix) && /^\d{14}$/.test(x.slice(prefix.length, -suffix.length)))
+            .sort();
+        const toRemove = existing.slice(0, Math.max(existing.length - this.config.retain, 0));
+        for(const file of toRemove) {
+            try {
+                await promises.rm(path.join(this.config.dir, file));
+                this.logger.debug(`Removed old export ${file}`);
+            } catch (e) {
+                this.logger.warn(new Error(`Could not remove old export ${file}`, {cause: e}));
+            }
+        }
+    }
+}
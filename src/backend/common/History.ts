@@ -0,0 +1,312 @@
+import Database from 'better-sqlite3';
+import dayjs from 'dayjs';
+import { childLogger, Logger } from '@foxxmd/logging';
+import path from 'path';
+import { PlayObject } from '../../core/Atomic.js';
+import { projectDir } from './index.js';
+import { fileOrDirectoryIsWriteable, parseBool } from '../utils.js';
+import { rehydratePlay } from '../utils/CacheUtils.js';
+import {
+    HistoryConfigOptions,
+    HistoryQuery,
+    HistoryQueryResult,
+    HistoryRecord,
+    HistoryRecordKind,
+    ScrobbleResultStatus
+} from './infrastructure/Atomic.js';
+
+const configDir = process.env.CONFIG_DIR || path.resolve(projectDir, `./config`);
+
+export const HISTORY_DEFAULT_LIMIT = 100;
+export const HISTORY_MAX_LIMIT = 1000;
+
+export interface HistoryComponent {
+    type: string
+    name: string
+}
+
+export interface ScrobbleResultRecord {
+    status: ScrobbleResultStatus
+    /** Identifier of the Source the Play came from */
+    source?: string
+    error?: string
+}
+
+interface HistoryRow {
+    id: number
+    kind: HistoryRecordKind
+    componentType: string
+    componentName: string
+    source: string | null
+    client: string | null
+    status: ScrobbleResultStatus | null
+    recordedAt: number
+    play: string
+    error: string | null
+}
+
+/**
+ * Persistent record of every play discovered by Sources and every scrobble attempt made by Clients
+ *
+ * Writes are no-ops until init() is called so components can use it unconditionally
+ * */
+export class MSHistory {
+
+    config: Required<Omit<HistoryConfigOptions, 'retention'>> & Pick<HistoryConfigOptions, 'retention'>;
+
+    db?: Database.Database;
+
+    logger: Logger;
+
+    protected insertStatement?: Database.Statement;
+
+    constructor(logger: Logger, config: HistoryConfigOptions = {}) {
+        this.logger = childLogger(logger, 'History');
+
+        const {
+            enable = parseBool(process.env.HISTORY_ENABLE, false),
+            connection = process.env.HISTORY_CONN ?? path.join(configDir, 'history.db'),
+            retention
+        } = config;
+
+        this.config = {
+            enable,
+            connection,
+            retention
+        };
+    }
+
+    init = async () => {
+        if(this.db !== undefined) {
+            return;
+        }
+        if(!this.config.enable) {
+            this.logger.verbose('History is disabled');
+            return;
+        }
+        if(this.config.connection !== ':memory:') {
+            fileOrDirectoryIsWriteable(this.config.connection);
+        }
+        this.logger.verbose(`Using database at ${this.config.connection}`);
+        this.db = new Database(this.config.connection);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(`
+CREATE TABLE IF NOT EXISTS history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    componentType TEXT NOT NULL,
+    componentName TEXT NOT NULL,
+    source TEXT,
+    client TEXT,
+    status TEXT,
+    playDate INTEGER,
+    recordedAt INTEGER NOT NULL,
+    track TEXT,
+    artists TEXT,
+    album TEXT,
+    play TEXT NOT NULL,
+    error TEXT
+);
+CREATE INDEX IF NOT EXISTS history_component ON history (kind, componentType, componentName, playDate);
+`);
+        this.insertStatement = this.db.prepare(`
+INSERT INTO history (kind, componentType, componentName, source, client, status, playDate, recordedAt, track, artists, album, play, error)
+VALUES (@kind, @componentType, @componentName, @source, @client, @status, @playDate, @recordedAt, @track, @artists, @album, @play, @error)`);
+
+        if(this.config.retention !== undefined) {
+            const res = this.db.prepare('DELETE FROM history WHERE recordedAt < ?').run(dayjs().subtract(this.config.retention, 'days').valueOf());
+            if(res.changes > 0) {
+                this.logger.verbose(`Removed ${res.changes} records older than ${this.config.retention} days`);
+            }
+        }
+    }
+
+    isReady = () => this.db !== undefined;
+
+    /**
+     * @param status 'filtered' if the Play matched the Source's filters. Filtered plays are only returned when querying for that status.
+     * */
+    addDiscovered = (source: HistoryComponent & {identifier: string}, play: PlayObject, status?: Extract<ScrobbleResultStatus, 'filtered'>) => {
+        this.insert({
+            kind: 'discovered',
+            componentType: source.type,
+            componentName: source.name,
+            source: source.identifier,
+            status,
+            play
+        });
+    }
+
+    addScrobbleResult = (client: HistoryComponent & {identifier: string}, play: PlayObject, result: ScrobbleResultRecord) => {
+        this.insert({
+            kind: 'scrobble',
+            componentType: client.type,
+            componentName: client.name,
+            source: result.source,
+            client: client.identifier,
+            status: result.status,
+            error: result.error,
+            play
+        });
+    }
+
+    protected insert = (data: {kind: HistoryRecordKind, componentType: string, componentName: string, source?: string, client?: string, status?: ScrobbleResultStatus, error?: string, play: PlayObject}) => {
+        if(this.insertStatement === undefined) {
+            return;
+        }
+        const {play} = data;
+        try {
+            this.insertStatement.run({
+                kind: data.kind,
+                componentType: data.componentType,
+                componentName: data.componentName,
+                source: data.source ?? null,
+                client: data.client ?? null,
+                status: data.status ?? null,
+                playDate: play.data.playDate !== undefined ? play.data.playDate.valueOf() : null,
+                recordedAt: dayjs().valueOf(),
+                track: play.data.track ?? null,
+                artists: (play.data.artists ?? []).join(', '),
+                album: play.data.album ?? null,
+                play: JSON.stringify(serializablePlay(play)),
+                error: data.error ?? null,
+            });
+        } catch (e) {
+            this.logger.warn(new Error('Could not record play to history', {cause: e}));
+        }
+    }
+
+    query = (query: HistoryQuery): HistoryQueryResult => {
+        const {
+            page = 1,
+            limit = HISTORY_DEFAULT_LIMIT,
+        } = query;
+
+        if(this.db === undefined) {
+            return {data: [], total: 0, page, limit};
+        }
+
+        const [where, params] = buildWhereClause(query);
+
+        const {total} = this.db.prepare(`SELECT COUNT(*) as total FROM history ${where}`).get(params) as {total: number};
+        const rows = this.db.prepare(`SELECT id, kind, componentType, componentName, source, client, status, recordedAt, play, error FROM history ${where} ORDER BY playDate DESC, id DESC LIMIT @limit OFFSET @offset`)
+            .all({...params, limit, offset: (page - 1) * limit}) as HistoryRow[];
+
+        return {
+            data: rows.map(rowToRecord),
+            total,
+            page,
+            limit
+        };
+    }
+
+    close = () => {
+        if(this.db !== undefined) {
+            this.db.close();
+            this.db = undefined;
+            this.insertStatement = undefined;
+        }
+    }
+}
+
+/**
+ * Applies the same date range, text search, and paging as query() to an in-memory list of plays
+ *
+ * Used when History is not enabled so API consumers get consistent behavior
+ * */
+export const queryPlays = (plays: PlayObject[], query: Omit<HistoryQuery, 'kind'>): [PlayObject[], number] => {
+    const {
+        page = 1,
+        limit = HISTORY_DEFAULT_LIMIT,
+        from,
+        to,
+        search
+    } = query;
+    const searchVal = search !== undefined && search.trim() !== '' ? search.trim().toLocaleLowerCase() : undefined;
+    const filtered = plays.filter((x) => {
+        if(from !== undefined && (x.data.playDate === undefined || x.data.playDate.isBefore(from))) {
+            return false;
+        }
+        if(to !== undefined && (x.data.playDate === undefined || x.data.playDate.isAfter(to))) {
+            return false;
+        }
+        if(searchVal !== undefined) {
+            return [x.data.track, ...(x.data.artists ?? []), x.data.album].some(y => y !== undefined && y !== null && y.toLocaleLowerCase().includes(searchVal));
+        }
+        return true;
+    });
+    return [filtered.slice((page - 1) * limit, page * limit), filtered.length];
+}
+
+const buildWhereClause = (query: HistoryQuery): [string, Record<string, string | number>] => {
+    const clauses: string[] = ['kind = @kind'];
+    const params: Record<string, string | number> = {kind: query.kind};
+
+    if(query.componentType !== undefined) {
+        clauses.push('componentType = @componentType');
+        params.componentType = query.componentType;
+    }
+    if(query.componentName !== undefined) {
+        clauses.push('componentName = @componentName');
+        params.componentName = query.componentName;
+    }
+    if(query.status !== undefined && query.status.length > 0) {
+        const statusParams = query.status.map((x, index) => {
+            params[`status${index}`] = x;
+            return `@status${index}`;
+        });
+        clauses.push(`status IN (${statusParams.join(', ')})`);
+    } else if(query.kind === 'discovered') {
+        // filtered discovered plays are not listens
+        clauses.push('status IS NULL');
+    }
+    if(query.from !== undefined) {
+        clauses.push('playDate >= @from');
+        params.from = query.from.valueOf();
+    }
+    if(query.to !== undefined) {
+        clauses.push('playDate <= @to');
+        params.to = query.to.valueOf();
+    }
+    if(query.search !== undefined && query.search.trim() !== '') {
+        clauses.push(`(track LIKE @search ESCAPE '\\' OR artists LIKE @search ESCAPE '\\' OR album LIKE @search ESCAPE '\\')`);
+        params.search = `%${query.search.trim().replace(/[\\%_]/g, '\\$&')}%`;
+    }
+
+    return [`WHERE ${clauses.join(' AND ')}`, params];
+}
+
+/**
+ * Lifecycle original may be the same object as the play (when lifecycle was missing and built during scrobble processing)
+ * so drop any lifecycle on original to avoid circular references
+ * */
+const serializablePlay = (play: PlayObject): PlayObject => {
+    if(play.meta.lifecycle?.original === undefined) {
+        return play;
+    }
+    const {original, ...lifecycleRest} = play.meta.lifecycle;
+    const {lifecycle, ...originalMetaRest} = original.meta as PlayObject['meta'];
+    return {
+        ...play,
+        meta: {
+            ...play.meta,
+            lifecycle: {
+                ...lifecycleRest,
+                original: {...original, meta: originalMetaRest}
+            }
+        }
+    };
+}
+
+const rowToRecord = (row: HistoryRow): HistoryRecord => ({
+    id: row.id,
+    kind: row.kind,
+    componentType: row.componentType,
+    componentName: row.componentName,
+    source: row.source ?? undefined,
+    client: row.client ?? undefined,
+    status: row.status ?? undefined,
+    recordedAt: dayjs(row.recordedAt),
+    play: rehydratePlay(JSON.parse(row.play)),
+    error: row.error ?? undefined
+});
@@ -21,6 +21,10 @@ export class TransformRulesError extends StageError {
     name = 'Transform Rules';
 }
 
+export class FilterRulesError extends StageError {
+    name = 'Filter Rules';
+}
+
 export class ConnectionCheckError extends StageError {
     name = 'Connection Check';
 }
@@ -270,6 +270,183 @@ export interface CacheConfigOptions {
     regex?: number
 }
 
+export interface HistoryConfigOptions {
+    /**
+     * Record discovered plays and scrobble results to a persistent database
+     *
+     * Can also be set with HISTORY_ENABLE env
+     *
+     * @default false
+     * */
+    enable?: boolean
+    /**
+     * Path to the SQLite database file
+     *
+     * Can also be set with HISTORY_CONN env
+     *
+     * @default "CONFIG_DIR/history.db"
+     * */
+    connection?: string
+    /**
+     * Number of days to keep records for. Older records are removed on startup.
+     *
+     * If not set records are kept forever.
+     *
+     * @examples [90]
+     * */
+    retention?: number
+}
+
+export type HistoryRecordKind = 'discovered' | 'scrobble';
+/**
+ * * scrobbled - Play was successfully scrobbled to Client
+ * * duplicate - Play was not scrobbled because Client already had a matching scrobble
+ * * failed - Play could not be scrobbled and was added (or returned) to the dead letter queue
+ * * filtered - Play was not queued because it matched the Client's filters, or for discovered records, the Source's filters
+ * */
+export type ScrobbleResultStatus = 'scrobbled' | 'duplicate' | 'failed' | 'filtered';
+export const SCROBBLE_RESULT_STATUSES: ScrobbleResultStatus[] = ['scrobbled', 'duplicate', 'failed', 'filtered'];
+
+export interface HistoryQuery {
+    kind: HistoryRecordKind
+    componentType?: string
+    componentName?: string
+    /**
+     * If not set all scrobble records are returned but only discovered records that were not filtered
+     * */
+    status?: ScrobbleResultStatus[]
+    from?: Dayjs
+    to?: Dayjs
+    /** Case-insensitive text matched against track, artists, and album */
+    search?: string
+    /** 1-indexed */
+    page?: number
+    limit?: number
+}
+
+export interface HistoryRecord {
+    id: number
+    kind: HistoryRecordKind
+    componentType: string
+    componentName: string
+    source?: string
+    client?: string
+    status?: ScrobbleResultStatus
+    recordedAt: Dayjs
+    play: PlayObject
+    error?: string
+}
+
+export interface HistoryQueryResult {
+    data: HistoryRecord[]
+    total: number
+    page: number
+    limit: number
+}
+
+/**
+ * * running - Job is fetching plays from Source
+ * * paused - Job was stopped by user or interrupted by a restart and can be resumed
+ * * failed - Job stopped due to an error and can be resumed
+ * * completed - All plays in the time range were fetched and processed
+ * */
+export type BackfillJobStatus = 'running' | 'paused' | 'failed' | 'completed';
+
+export interface BackfillOptions {
+    /** Name of Source to fetch history from */
+    source: string
+    /** Type of Source, only required if multiple Sources have the same name */
+    sourceType?: string
+    /**
+     * Names of Clients to scrobble to
+     *
+     * If not defined the Source's configured `clients` are used
+     * */
+    clients?: string[]
+    /** Date to start fetching history from */
+    from: UnixTimestamp
+    /**
+     * Date to stop fetching history at
+     *
+     * If not defined now is used
+     * */
+    to?: UnixTimestamp
+    /**
+     * Number of seconds of history to fetch in each request to the Source
+     *
+     * @default 86400
+     * */
+    windowSize?: number
+    /**
+     * Number of seconds to wait between requests to the Source
+     *
+     * @default 2
+     * */
+    delay?: number
+}
+
+export interface BackfillJobData extends Required<Omit<BackfillOptions, 'sourceType'>> {
+    id: string
+    sourceType: string
+    status: BackfillJobStatus
+    /** Start of the next time window to fetch */
+    cursor: UnixTimestamp
+    /** Number of plays fetched from Source and sent to Clients */
+    processed: number
+    error?: string
+    createdAt: UnixTimestamp
+    updatedAt: UnixTimestamp
+}
+
+/**
+ * * listenbrainz - ListenBrainz listens, one JSON object per line
+ * * lastfm - Last.fm compatible CSV with `artist,album,track,timestamp` columns
+ * * maloja - Maloja backup format that can be used with `maloja import`
+ * * scrobblerlog - Audioscrobbler portable player `.scrobbler.log`
+ * */
+export type ExportFormat = 'listenbrainz' | 'lastfm' | 'maloja' | 'scrobblerlog';
+export const EXPORT_FORMATS: ExportFormat[] = ['listenbrainz', 'lastfm', 'maloja', 'scrobblerlog'];
+
+export interface ExportConfigOptions {
+    /**
+     * Periodically write each Client's scrobbled plays to files in `dir`
+     *
+     * Can also be set with EXPORT_ENABLE env
+     *
+     * @default false
+     * */
+    enable?: boolean
+    /**
+     * Directory to write export files to
+     *
+     * Can also be set with EXPORT_DIR env
+     *
+     * @default "CONFIG_DIR/exports"
+     * */
+    dir?: string
+    /**
+     * Number of hours between exports
+     *
+     * @default 24
+     * @examples [24]
+     * */
+    interval?: number
+    /**
+     * Formats to write a file for
+     *
+     * @default ["listenbrainz"]
+     * */
+    formats?: ExportFormat[]
+    /**
+     * Number of exports to keep for each Client and format. Oldest files are removed after each export.
+     *
+     * If not set all exports are kept.
+     *
+     * @examples [7]
+     * */
+    retain?: number
+}
+
 export interface MusicbrainzApiConfigData {
     url?: string
     rateLimit?: [number, number]
@@ -0,0 +1,86 @@
+import { WhenParts } from "./Transform.js";
+
+export type FilterDay = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+// ordered to match dayjs day() index
+export const FILTER_DAYS: FilterDay[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface PlayFilterDurationRange {
+    /**
+     * Play duration must be equal to or greater than this number of seconds
+     * */
+    min?: number
+    /**
+     * Play duration must be equal to or less than this number of seconds
+     * */
+    max?: number
+}
+
+export interface PlayFilterTimeRange {
+    /**
+     * Start of the time range, in 24-hour HH:mm format
+     *
+     * @examples ["22:00"]
+     * */
+    from: string
+    /**
+     * End of the time range (exclusive), in 24-hour HH:mm format
+     *
+     * If this is earlier than `from` the range wraps past midnight
+     *
+     * @examples ["06:00"]
+     * */
+    to: string
+}
+
+/**
+ * A single filter rule. Every property that is defined must match for the rule to match the Play.
+ *
+ * `title`, `artists`, and `album` are tested the same way as `when` conditions in `playTransform` -- a string or regular expression.
+ * */
+export interface PlayFilterRule extends Pick<WhenParts<string>, 'title' | 'artists' | 'album'> {
+    /**
+     * Optional name used in logs and the Play lifecycle when this rule matches
+     * */
+    name?: string
+    duration?: PlayFilterDurationRange
+    /**
+     * Matches Play's media type, if the Source provides it. Multiple values are OR'd.
+     *
+     * @examples [["podcast", "audiobook"]]
+     * */
+    mediaType?: string | string[]
+    /**
+     * String or regular expression tested against the device ID of the Play
+     * */
+    deviceId?: string
+    /**
+     * String or regular expression tested against the user of the Play
+     * */
+    user?: string
+    /**
+     * Matches if the Play's date (local time) falls within this range
+     * */
+    time?: PlayFilterTimeRange
+    /**
+     * Matches if the Play's date (local time) falls on one of these days
+     *
+     * @examples [["sat", "sun"]]
+     * */
+    days?: FilterDay[]
+}
+
+export interface PlayFilterOptions {
+    /**
+     * If any rules are defined then a Play must match at least one of them or it is filtered
+     * */
+    include?: PlayFilterRule[]
+    /**
+     * A Play matching any of these rules is filtered
+     * */
+    exclude?: PlayFilterRule[]
+}
+
+export interface PlayFilterRules {
+    include: PlayFilterRule[]
+    exclude: PlayFilterRule[]
+}
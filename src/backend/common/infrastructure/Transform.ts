@@ -1,4 +1,5 @@
 import { SearchAndReplaceRegExp } from "@foxxmd/regex-buddy-core";
+import { TransformStageResult } from "../../../core/Atomic.js";
 
 export interface ConditionalSearchAndReplaceRegExp extends SearchAndReplaceRegExp, Whennable {
 }
@@ -128,6 +129,16 @@ export const TRANSFORM_HOOK = {
 export type PlayTransformConfig = PlayTransformHooksConfig<SearchAndReplaceTerm[] | ExternalMetadataTerm>;
 export type PlayTransformOptions = PlayTransformConfig & { log?: boolean | 'all' }
 
+/**
+ * Used to run transforms with rules other than a component's configured rules and record the outcome of each stage
+ *
+ * Transforms run with a preview context are not cached
+ * */
+export interface TransformPreviewContext {
+    rules: PlayTransformRules
+    stages: TransformStageResult[]
+}
+
 export type WhenParts<T> = PlayTransformPartsAtomic<T>;
 export type WhenConditions<T> = WhenParts<T>[];
 export type WhenConditionsConfig = WhenConditions<string>;
\ No newline at end of file
@@ -2,10 +2,11 @@ import { LogOptions } from "@foxxmd/logging";
 import { ClientAIOConfig } from "./client/clients.js";
 import { CommonClientOptions } from "./client/index.js";
 import { RequestRetryOptions } from "./common.js";
+import { MqttConfig } from "./health/mqtt.js";
 import { WebhookConfig } from "./health/webhooks.js";
 import { CommonSourceOptions, SourceRetryOptions } from "./source/index.js";
 import { SourceAIOConfig } from "./source/sources.js";
-import { CacheConfigOptions } from "../Atomic.js";
+import { CacheConfigOptions, ExportConfigOptions, HistoryConfigOptions } from "../Atomic.js";
 import { TransformerCommonConfig } from "../../../../core/Atomic.js";
 
 
@@ -23,6 +24,11 @@ export interface AIOConfig {
 
     webhooks?: WebhookConfig[]
 
+    /**
+     * Publish Source player state, Client now playing, and scrobbles to an MQTT broker
+     * */
+    mqtt?: MqttConfig
+
     /**
      * Set the port the multi-scrobbler UI will be served from
      *
@@ -68,6 +74,13 @@ export interface AIOConfig {
 
     cache?: CacheConfigOptions
 
+    history?: HistoryConfigOptions
+
+    /**
+     * Periodically back up scrobbled plays to files
+     * */
+    export?: ExportConfigOptions
+
     transformers?: TransformerCommonConfig[]
 }
 
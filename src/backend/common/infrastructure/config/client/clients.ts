@@ -6,6 +6,8 @@ import { TealClientAIOConfig, TealClientConfig } from "./tealfm.js";
 import { RockSkyClientAIOConfig, RockSkyClientConfig } from "./rocksky.js";
 import { LibrefmClientConfig, LibrefmClientAIOConfig } from "./librefm.js";
 import { DiscordClientAIOConfig, DiscordClientConfig } from "./discord.js";
+import { FunkwhaleClientAIOConfig, FunkwhaleClientConfig } from "./funkwhale.js";
+import { FileClientAIOConfig, FileClientConfig } from "./file.js";
 
 export type ClientConfig = 
 MalojaClientConfig 
@@ -15,7 +17,9 @@ MalojaClientConfig
 | KoitoClientConfig 
 | TealClientConfig 
 | RockSkyClientConfig 
-| DiscordClientConfig;
+| DiscordClientConfig
+| FunkwhaleClientConfig
+| FileClientConfig;
 
 export type ClientAIOConfig = MalojaClientAIOConfig 
 | LastfmClientAIOConfig 
@@ -24,7 +28,9 @@ export type ClientAIOConfig = MalojaClientAIOConfig
 | KoitoClientAIOConfig 
 | TealClientAIOConfig 
 | RockSkyClientAIOConfig 
-| DiscordClientAIOConfig;
+| DiscordClientAIOConfig
+| FunkwhaleClientAIOConfig
+| FileClientAIOConfig;
 
 /** Used for docusaurus schemas
  *  We need to show "array of" for each type of config when looking at File Config
@@ -40,6 +46,8 @@ export type KoitoClientConfigs = KoitoClientConfig[];
 export type TealClientConfigs = TealClientConfig[];
 export type RockSkyClientConfigs = RockSkyClientConfig[];
 export type DiscordClientConfigs = DiscordClientConfig[];
+export type FunkwhaleClientConfigs = FunkwhaleClientConfig[];
+export type FileClientConfigs = FileClientConfig[];
 
 export const atomicClientInterfaces = [
     'MalojaClientConfig',
@@ -49,7 +57,9 @@ export const atomicClientInterfaces = [
     'KoitoClientConfig',
     'TealClientConfig',
     'RockSkyClientConfig',
-    'DiscordClientConfig'
+    'DiscordClientConfig',
+    'FunkwhaleClientConfig',
+    'FileClientConfig'
 ];
 
 export const clientInterfaces = [
@@ -65,7 +75,9 @@ export type ClientType =
     | 'koito'
     | 'tealfm'
     | 'rocksky'
-    | 'discord';
+    | 'discord'
+    | 'funkwhale'
+    | 'file';
     
 export const clientTypes: ClientType[] = [
     'maloja',
@@ -75,5 +87,7 @@ export const clientTypes: ClientType[] = [
     'koito',
     'tealfm',
     'rocksky',
-    'discord'
+    'discord',
+    'funkwhale',
+    'file'
 ];
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { CommonClientConfig, CommonClientData } from "./index.js"
+
+/**
+ * * `jsonl` - One multi-scrobbler Play object per line
+ * * `listenbrainz` - One ListenBrainz listen per line, the same format as a ListenBrainz JSONL export
+ * * `scrobblerlog` - Audioscrobbler `.scrobbler.log` TSV
+ * */
+export type FileClientFormat = 'jsonl' | 'listenbrainz' | 'scrobblerlog';
+
+export type FileClientRotation = 'daily' | 'none';
+
+export interface FileClientData extends CommonClientData {
+    /**
+     * Directory to write scrobble files to
+     *
+     * @examples ["/data/scrobbles-archive"]
+     * */
+    path: string
+
+    /**
+     * Format scrobbles are written in
+     *
+     * @default jsonl
+     * @examples ["jsonl"]
+     * */
+    format?: FileClientFormat
+
+    /**
+     * Name scrobble files start with. The date, part number, and a format specific extension are appended to this.
+     *
+     * @default scrobbles
+     * @examples ["scrobbles"]
+     * */
+    fileName?: string
+
+    /**
+     * Start a new file every day (`daily`) or always write to the same file (`none`)
+     *
+     * @default daily
+     * @examples ["daily"]
+     * */
+    rotate?: FileClientRotation
+
+    /**
+     * Start a new file (part) when the current file is larger than this size, in MB
+     *
+     * If not set files are not rotated by size
+     *
+     * @examples [10]
+     * */
+    maxSize?: number
+}
+
+export interface FileClientConfig extends CommonClientConfig {
+    /**
+     * Must be `client` when using File as a client. Configs in `file.json` without `configureAs` are treated as a File Source.
+     *
+     * @examples ["client"]
+     * */
+    configureAs?: 'client' | 'source'
+    data: FileClientData
+}
+
+export interface FileClientAIOConfig extends FileClientConfig {
+    type: 'file'
+}
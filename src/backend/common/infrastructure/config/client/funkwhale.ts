@@ -0,0 +1,115 @@
+import { RequestRetryOptions } from "../common.js"
+import { CommonClientConfig, CommonClientData } from "./index.js"
+
+export interface FunkwhalePaginatedResponse<T> {
+    count: number
+    next: string | null
+    previous: string | null
+    results: T[]
+}
+
+export type ListeningsResponse = FunkwhalePaginatedResponse<ListeningResponse>;
+export type TracksResponse = FunkwhalePaginatedResponse<FunkwhaleTrackResponse>;
+
+export interface ListeningResponse {
+    id: number
+    track: FunkwhaleTrackResponse
+    /** ISO8601 timestamp */
+    creation_date: string
+}
+
+export interface ListeningPayload {
+    /** ID of the track in the pod's library. Not known until the library has been searched for the Play */
+    track?: number
+    /** ISO8601 timestamp */
+    creation_date: string
+}
+
+export interface FunkwhaleArtistResponse {
+    id: number
+    name: string
+    mbid?: string | null
+}
+
+export interface FunkwhaleArtistCreditResponse {
+    artist: FunkwhaleArtistResponse
+    credit: string
+    joinphrase: string
+}
+
+export interface FunkwhaleAlbumResponse {
+    id: number
+    title: string
+    mbid?: string | null
+    /** Funkwhale < 1.4 */
+    artist?: FunkwhaleArtistResponse
+    /** Funkwhale >= 1.4 */
+    artist_credit?: FunkwhaleArtistCreditResponse[]
+}
+
+export interface FunkwhaleUploadResponse {
+    uuid: string
+    /** Length of the upload, in seconds */
+    duration?: number | null
+}
+
+export interface FunkwhaleTrackResponse {
+    id: number
+    title: string
+    mbid?: string | null
+    /** Funkwhale < 1.4 */
+    artist?: FunkwhaleArtistResponse
+    /** Funkwhale >= 1.4 */
+    artist_credit?: FunkwhaleArtistCreditResponse[]
+    album?: FunkwhaleAlbumResponse | null
+    uploads?: FunkwhaleUploadResponse[]
+}
+
+export interface FunkwhaleUserResponse {
+    id: number
+    username: string
+    full_username?: string
+}
+
+export interface GetListeningsOptions {
+    page?: number
+    page_size?: number
+    scope?: 'me' | 'all' | string
+    ordering?: string
+}
+
+export interface FunkwhaleData extends RequestRetryOptions {
+    /**
+     * URL for the Funkwhale pod
+     *
+     * @examples ["https://funkwhale.mydomain.com"]
+     * */
+    url: string
+    /**
+     * Access token for the user to scrobble for
+     *
+     * Use the Access token of an Application created in Funkwhale (Settings => Your applications). Only static tokens are supported,
+     * multi-scrobbler does not perform the OAuth authorization flow or refresh expired tokens.
+     * The token must have the `read:listenings` and `write:listenings` scopes. `read:libraries` is also required for scrobbling as a Client.
+     *
+     * @examples ["hwDWbuJOn6tnCRKcfQ8EPkTXwEv2Vp"]
+     * */
+    token: string
+}
+
+export interface FunkwhaleClientData extends FunkwhaleData, CommonClientData {}
+
+export interface FunkwhaleClientConfig extends CommonClientConfig {
+    /**
+     * Should always be `client` when using Funkwhale as a client
+     *
+     * @default client
+     * @examples ["client"]
+     * */
+    configureAs?: 'client' | 'source'
+    data: FunkwhaleClientData
+}
+
+export interface FunkwhaleClientAIOConfig extends FunkwhaleClientConfig {
+    type: 'funkwhale'
+}
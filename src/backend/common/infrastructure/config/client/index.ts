@@ -1,3 +1,4 @@
+import { PlayFilterOptions } from "../../Filter.js";
 import { PlayTransformConfig, PlayTransformOptions } from "../../Transform.js";
 import { CommonConfig, CommonData, RequestRetryOptions } from "../common.js";
 
@@ -81,6 +82,33 @@ export interface NowPlayingOptions {
     nowPlaying?: boolean | string[]
 }
 
+export interface CrossSourceDedupeOptions {
+    /**
+     * Do not scrobble a Play if the same Play was already queued or scrobbled by this Client from a different Source
+     *
+     * Works independently of `checkExistingScrobbles` and `refreshEnabled`
+     *
+     * @default false
+     * @examples [true]
+     * */
+    enable?: boolean
+    /**
+     * Maximum number of seconds between the timestamps of Plays from different Sources for them to be considered the same Play
+     *
+     * @default 60
+     * @examples [60]
+     * */
+    window?: number
+    /**
+     * List of Source names. When the same Play is received from multiple Sources the Play from the Source listed first is kept, if it has not already been scrobbled.
+     *
+     * Sources not in the list have the lowest priority. If Sources have the same priority the first Play received is kept.
+     *
+     * @examples [["myJellyfin", "myWebScrobbler"]]
+     * */
+    sourcePriority?: string[]
+}
+
 export interface CommonClientOptions extends RequestRetryOptions, UpstreamRefreshOptions {
 
     /**
@@ -97,7 +125,9 @@ export interface CommonClientOptions extends RequestRetryOptions, UpstreamRefres
         match?: MatchLoggingOptions
     }
     /**
-     * Number of times MS should automatically retry scrobbles in dead letter queue
+     * Number of times MS should automatically retry scrobbles in dead letter queue that failed for an unknown reason
+     *
+     * Scrobbles that failed due to rate limits or network/upstream outages are retried with backoff regardless of this setting. Scrobbles rejected by the Client are never retried automatically.
      *
      * @default 1
      * @examples [1]
@@ -105,6 +135,28 @@ export interface CommonClientOptions extends RequestRetryOptions, UpstreamRefres
     deadLetterRetries?: number
 
     playTransform?: PlayTransformOptions
+
+    /**
+     * Include/exclude rules used to filter Plays before they are queued for scrobbling
+     *
+     * Filtered Plays are not scrobbled. The reason is recorded in the Play's lifecycle.
+     * */
+    filters?: PlayFilterOptions
+
+    /**
+     * Options for detecting the same Play reported by multiple Sources
+     * */
+    dedupe?: CrossSourceDedupeOptions
+
+    /**
+     * Love/favorite a track on this Client when a scrobbled Play was loved in its Source, if the Client supports it
+     *
+     * Only loving is synced. Tracks are never unloved on the Client.
+     *
+     * @default false
+     * @examples [true]
+     * */
+    syncLoved?: boolean
 }
 
 export interface CommonClientConfig extends CommonConfig {
@@ -0,0 +1,63 @@
+export interface MqttConfig {
+    /**
+     * URL of the MQTT broker
+     *
+     * Can also be set with the ENV MQTT_URL
+     *
+     * @examples ["mqtt://192.168.0.100:1883"]
+     * */
+    url?: string
+
+    /**
+     * Can also be set with the ENV MQTT_USERNAME
+     * */
+    username?: string
+
+    /**
+     * Can also be set with the ENV MQTT_PASSWORD
+     * */
+    password?: string
+
+    /**
+     * Client ID to connect with
+     *
+     * @default "multi-scrobbler"
+     * */
+    clientId?: string
+
+    /**
+     * Prefix for all topics published by multi-scrobbler
+     *
+     * Can also be set with the ENV MQTT_TOPIC_PREFIX
+     *
+     * @default "multi-scrobbler"
+     * */
+    topicPrefix?: string
+
+    /**
+     * QoS level used for published messages
+     *
+     * @default 0
+     * */
+    qos?: 0 | 1 | 2
+
+    homeAssistant?: MqttHomeAssistantOptions
+}
+
+export interface MqttHomeAssistantOptions {
+    /**
+     * Publish [Home Assistant MQTT Discovery](https://www.home-assistant.io/integrations/mqtt/#mqtt-discovery) configs so each Source is available as a sensor
+     *
+     * Can also be set with the ENV MQTT_HA_DISCOVERY
+     *
+     * @default true
+     * */
+    discovery?: boolean
+
+    /**
+     * Discovery prefix configured in Home Assistant
+     *
+     * @default "homeassistant"
+     * */
+    discoveryPrefix?: string
+}
@@ -1,9 +1,39 @@
+import { PlayObject } from "../../../../../core/Atomic.js";
+
 export interface WebhookPayload {
     title?: string
     message: string
     priority: Priority
+    /**
+     * The event that triggered this notification. Undefined is the same as `notify`
+     * */
+    event?: WebhookEventType
+    /**
+     * The Source or Client that triggered this notification, if known
+     * */
+    component?: WebhookComponent
+    /**
+     * The Play associated with this notification, if any
+     * */
+    play?: PlayObject
+}
+
+export interface WebhookComponent {
+    type: string
+    name: string
+    role: 'source' | 'client'
 }
 
+/**
+ * Events that can trigger a webhook
+ *
+ * * `notify` - Errors, warnings, and status messages from Sources and Clients (polling started/stopped, scrobble failures, etc...)
+ * * `scrobble` - A Client successfully scrobbled a Play
+ * * `nowPlaying` - A Client updated its Now Playing status
+ * * `deadLetter` - A Client added a failed scrobble to its Dead Letter queue
+ * */
+export type WebhookEventType = 'notify' | 'scrobble' | 'nowPlaying' | 'deadLetter';
+
 export type Priority = 'info' | 'warn' | 'error';
 
 export interface PrioritiesConfig {
@@ -27,10 +57,12 @@ export interface CommonWebhookConfig {
      *
      * * gotify
      * * ntfy
+     * * apprise
+     * * webhook
      *
      * @examples ["gotify"]
      * */
-    type: 'gotify' | 'ntfy' | 'apprise'
+    type: 'gotify' | 'ntfy' | 'apprise' | 'webhook'
     /**
      * A friendly name used to identify webhook config in logs
      * */
@@ -123,4 +155,59 @@ export interface AppriseConfig extends CommonWebhookConfig {
     tags?: string | string[]
 }
 
-export type WebhookConfig = GotifyConfig | NtfyConfig | AppriseConfig;
+export interface GenericWebhookConfig extends CommonWebhookConfig {
+    /**
+     * The URL to send the notification to
+     *
+     * @examples ["http://192.168.0.100:8123/api/webhook/my-webhook-id"]
+     * */
+    url: string
+
+    /**
+     * HTTP method used to send the notification
+     *
+     * @default POST
+     * */
+    method?: 'POST' | 'PUT'
+
+    /**
+     * Additional headers to send with the request
+     *
+     * @examples [{"Authorization": "Bearer MyToken"}]
+     * */
+    headers?: Record<string, string>
+
+    /**
+     * If defined, the request body is signed with HMAC-SHA256 using this secret and the hex digest is sent in the signature header as `sha256=<digest>`
+     * */
+    secret?: string
+
+    /**
+     * Header name used for the HMAC signature
+     *
+     * @default X-Multi-Scrobbler-Signature
+     * */
+    signatureHeader?: string
+
+    /**
+     * Events that should trigger this webhook
+     *
+     * @default ["notify"]
+     * @examples [["notify", "scrobble", "deadLetter"]]
+     * */
+    events?: WebhookEventType[]
+
+    /**
+     * A template for the JSON body of the request. Can be any JSON value.
+     *
+     * Any string containing `{{path}}` has the placeholder replaced with the value at that path from the notification, EX `{{play.data.track}}`.
+     * If a string is *only* a placeholder then the raw value (number, list, object) is used instead of a string.
+     *
+     * If not defined then the entire notification is sent.
+     *
+     * @examples [{"content": "{{component.name}} scrobbled {{trackString}}"}]
+     * */
+    body?: unknown
+}
+
+export type WebhookConfig = GotifyConfig | NtfyConfig | AppriseConfig | GenericWebhookConfig;
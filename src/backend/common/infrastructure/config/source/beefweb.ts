@@ -0,0 +1,95 @@
+import { PollingOptions } from "../common.js";
+import { CommonSourceConfig, CommonSourceData, CommonSourceOptions } from "./index.js";
+
+/**
+ * foobar2000/DeaDBeeF title formatting expressions used to get track metadata from beefweb
+ *
+ * https://wiki.hydrogenaud.io/index.php?title=Foobar2000:Title_Formatting_Reference
+ * */
+export interface BeefwebColumns {
+    /**
+     * @default "[%artist%]"
+     * */
+    artist?: string
+    /**
+     * @default "%title%"
+     * */
+    title?: string
+    /**
+     * @default "[%album%]"
+     * */
+    album?: string
+    /**
+     * @default "[%album artist%]"
+     * */
+    albumArtist?: string
+    /**
+     * Should return length of the track in seconds
+     *
+     * @default "[%length_seconds_fp%]"
+     * */
+    duration?: string
+}
+
+export interface BeefwebData extends CommonSourceData, PollingOptions {
+    /**
+     * URL:PORT of the beefweb plugin web server
+     *
+     * If no port is given `8880` is used.
+     *
+     * @examples ["http://localhost:8880"]
+     * @default "http://localhost:8880"
+     * */
+    url?: string
+
+    /**
+     * Username, if authentication is enabled in beefweb preferences
+     * */
+    username?: string
+    /**
+     * Password, if authentication is enabled in beefweb preferences
+     * */
+    password?: string
+
+    /**
+     * Override the title formatting expressions used for track metadata
+     *
+     * Only the fields specified are replaced, others use their default. Expressions cannot contain commas.
+     *
+     * @examples [{"artist": "[%track artist%]", "albumArtist": "[%album artist%]"}]
+     * */
+    columns?: BeefwebColumns
+}
+
+export interface BeefwebSourceConfig extends CommonSourceConfig {
+    data: BeefwebData
+    options?: CommonSourceOptions
+}
+
+export interface BeefwebSourceAIOConfig extends BeefwebSourceConfig {
+    type: 'beefweb'
+}
+
+export type BeefwebPlaybackState = 'playing' | 'paused' | 'stopped';
+
+export interface BeefwebPlayerResponse {
+    player: {
+        info: {
+            name: string
+            title: string
+            version: string
+            pluginVersion: string
+        }
+        activeItem: {
+            playlistId: string
+            playlistIndex: number
+            index: number
+            /** in seconds */
+            position: number
+            /** in seconds */
+            duration: number
+            columns?: string[]
+        }
+        playbackState: BeefwebPlaybackState
+    }
+}
@@ -0,0 +1,160 @@
+import { CommonSourceConfig, CommonSourceData, CommonSourceOptions } from "./index.js";
+
+export interface EmbyData extends CommonSourceData {
+    /**
+     * HOST:PORT of the Emby server to connect to
+     *
+     * If no path is given `/emby` is used
+     *
+     * @examples ["http://192.168.0.100:8096"]
+     * */
+    url: string
+    /**
+     * The username of the user to authenticate for or track scrobbles for
+     * */
+    user: string
+    /**
+     * Password of the username to authenticate for
+     *
+     * Required if `apiKey` is not provided.
+     * */
+    password?: string
+    /**
+     * API Key to authenticate with.
+     *
+     * Required if `password` is not provided.
+     * */
+    apiKey?: string
+
+    /**
+     * Only scrobble for specific users (case-insensitive)
+     *
+     * If `true` MS will scrobble activity from all users
+     * */
+    usersAllow?: string | true | string[]
+    /**
+     * Do not scrobble for these users (case-insensitive)
+     * */
+    usersBlock?: string | string[]
+
+    /**
+     * Only scrobble if device or application name contains strings from this list (case-insensitive)
+     * */
+    devicesAllow?: string | string[]
+    /**
+     * Do not scrobble if device or application name contains strings from this list (case-insensitive)
+     * */
+    devicesBlock?: string | string[]
+
+    /**
+     * Only scrobble if library name contains string from this list (case-insensitive)
+     * */
+    librariesAllow?: string | string[]
+    /**
+     * Do not scrobble if library name contains strings from this list (case-insensitive)
+     * */
+    librariesBlock?: string | string[]
+
+    /**
+     * Allow MS to scrobble audio media in libraries classified other than 'music'
+     *
+     * `librariesAllow` will achieve the same result as this but this is more convenient if you do not want to explicitly list every library name or are only using `librariesBlock`
+     *
+     * @examples [["musicvideos"]]
+     */
+    additionalAllowedLibraryTypes?: string | string[]
+
+    /**
+     * Allow these media types to be scrobbled.
+     *
+     * If not defined or empty, uses 'Audio' as default. If non-empty then *only* uses these types (make sure you include Audio!)
+     *
+     * Values are case-insensitive.
+     *
+     * @examples [["Audio", "MusicVideo"]]
+     * */
+    allowMediaTypes?: string | string[]
+
+    /**
+     * HOST:PORT of the Emby server that your browser will be able to access from the frontend (and thus load images and links from)
+     * If unspecified it will use the normal server HOST and PORT from the `url`
+     * Necessary if you are using a reverse proxy or other network configuration that prevents the frontend from accessing the server directly
+     *
+     * ENV: EMBY_FRONTEND_URL_OVERRIDE
+     * */
+    frontendUrlOverride?: string
+}
+
+export interface EmbyOptions extends CommonSourceOptions {
+}
+
+export interface EmbySourceConfig extends CommonSourceConfig {
+    data: EmbyData
+    options?: EmbyOptions
+}
+
+export interface EmbySourceAIOConfig extends EmbySourceConfig {
+    type: 'emby'
+}
+
+export interface EmbyPublicSystemInfo {
+    ServerName: string
+    Version: string
+    Id: string
+}
+
+export interface EmbyUser {
+    Name: string
+    Id: string
+}
+
+export interface EmbyAuthenticationResult {
+    User: EmbyUser
+    AccessToken: string
+}
+
+export interface EmbyVirtualFolder {
+    Name: string
+    Locations: string[]
+    CollectionType?: string
+}
+
+export interface EmbyNameIdPair {
+    Name: string
+    Id: string
+}
+
+export interface EmbyBaseItem {
+    Id: string
+    Name: string
+    ServerId?: string
+    Type?: string
+    MediaType?: string
+    ExtraType?: string
+    Path?: string
+    ParentId?: string
+    Album?: string
+    AlbumId?: string
+    AlbumPrimaryImageTag?: string
+    AlbumArtist?: string
+    AlbumArtists?: EmbyNameIdPair[]
+    Artists?: string[]
+    ArtistItems?: EmbyNameIdPair[]
+    RunTimeTicks?: number
+    ProviderIds?: Record<string, string>
+}
+
+export interface EmbySessionInfo {
+    Id: string
+    UserId?: string
+    UserName?: string
+    Client?: string
+    DeviceId: string
+    DeviceName?: string
+    LastActivityDate?: string
+    NowPlayingItem?: EmbyBaseItem
+    PlayState?: {
+        PositionTicks?: number
+        IsPaused?: boolean
+    }
+}
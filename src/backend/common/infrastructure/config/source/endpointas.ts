@@ -0,0 +1,101 @@
+import { CommonSourceConfig, CommonSourceData } from "./index.js";
+
+export interface AudioscrobblerEndpointData extends CommonSourceData {
+    /**
+     * The URL ending that should be used to identify scrobbles for this source
+     *
+     * If you are using multiple Audioscrobbler endpoint sources (scrobbles for many users) you can use a slug to match Sources with individual users/origins
+     *
+     * Example:
+     *
+     * * slug: 'usera' => Handshake URL: http://localhost:9078/api/audioscrobbler/usera
+     * * slug: 'originb' => Handshake URL: http://localhost:9078/api/audioscrobbler/originb
+     *
+     * If no slug is used the Handshake URL is the root of multi-scrobbler EX http://localhost:9078/
+     * */
+    slug?: string | null
+
+    /**
+     * If set, only handshakes from a client using this username will be matched with this Source
+     * */
+    username?: string | null
+
+    /**
+     * If set, handshakes must be authenticated using this password
+     *
+     * If not set any password given by a client is accepted.
+     * */
+    password?: string | null
+}
+
+export interface AudioscrobblerEndpointSourceConfig extends CommonSourceConfig {
+    data?: AudioscrobblerEndpointData
+}
+
+export interface AudioscrobblerEndpointSourceAIOConfig extends AudioscrobblerEndpointSourceConfig {
+    type: 'endpointas'
+}
+
+/**
+ * Query parameters sent by a client during the handshake
+ *
+ * https://web.archive.org/web/20170107015006/http://www.last.fm/api/submissions#handshake
+ * */
+export interface AudioscrobblerHandshakeRequest {
+    hs?: string
+    /** protocol version */
+    p?: string
+    /** client id */
+    c?: string
+    /** client version */
+    v?: string
+    /** username */
+    u?: string
+    /** unix timestamp */
+    t?: string
+    /** md5(md5(password) + timestamp) */
+    a?: string
+}
+
+export type AudioscrobblerHandshakeStatus = 'OK' | 'BANNED' | 'BADAUTH' | 'BADTIME' | 'FAILED';
+
+export interface AudioscrobblerSession {
+    id: string
+    username: string
+    client: string
+    clientVersion?: string
+    /** unix timestamp */
+    created: number
+}
+
+export interface AudioscrobblerTrack {
+    /** artist */
+    a: string
+    /** track */
+    t: string
+    /** album */
+    b?: string
+    /** length in seconds */
+    l?: string
+    /** track number */
+    n?: string
+    /** MusicBrainz track id */
+    m?: string
+}
+
+export interface AudioscrobblerSubmissionTrack extends AudioscrobblerTrack {
+    /** unix timestamp the track started playing */
+    i: string
+    /**
+     * source of the track
+     *
+     * P (user chosen), R (radio), E (personalised recommendation), L (Last.fm)
+     * */
+    o?: string
+    /**
+     * rating
+     *
+     * L (love), B (ban), S (skip)
+     * */
+    r?: string
+}
@@ -14,6 +14,30 @@ export interface LastFMEndpointData extends CommonSourceData {
      * If no slug is found from an extension's incoming webhook event the first Last.fm source without a slug will be used
      * */
     slug?: string | null
+
+    /**
+     * If set, apps logging in (auth.getMobileSession) must use this username
+     * */
+    username?: string | null
+
+    /**
+     * If set, apps logging in (auth.getMobileSession) must use this password
+     *
+     * When a password is set the auth.getToken/auth.getSession web flow cannot be used and scrobbles are only accepted from apps using a valid session key
+     * */
+    password?: string | null
+
+    /**
+     * Session keys that are always accepted for this Source
+     *
+     * Scrobble requests containing one of these session keys (sk param) are matched with this Source regardless of slug.
+     * The first key is also returned to apps that log in with the configured password. If none are set a key derived from the password is returned instead.
+     *
+     * If session keys are set without a password then apps cannot log in and must be configured with one of these keys directly.
+     *
+     * @examples [["a2f6b0c1d4e3f5a6b7c8d9e0f1a2b3c4"]]
+     * */
+    sessionKeys?: string | string[] | null
 }
 
 export interface LastFMEndpointSourceConfig extends CommonSourceConfig {
@@ -23,3 +47,28 @@ export interface LastFMEndpointSourceConfig extends CommonSourceConfig {
 export interface LastFMEndpointSourceAIOConfig extends LastFMEndpointSourceConfig {
     type: 'endpointlfm'
 }
+
+export type LastFMEndpointAuthMethod = 'auth.getMobileSession' | 'auth.getToken' | 'auth.getSession' | 'user.getInfo';
+
+export type LastFMEndpointMethod = 'track.updateNowPlaying' | 'track.scrobble' | LastFMEndpointAuthMethod;
+
+/**
+ * Params sent by apps for auth/user methods
+ *
+ * https://www.last.fm/api/mobileauth
+ * https://www.last.fm/api/desktopauth
+ * */
+export interface LastFMEndpointAuthRequest {
+    method: LastFMEndpointAuthMethod
+    username?: string
+    password?: string
+    /** legacy login, md5(username + md5(password)) */
+    authToken?: string
+    token?: string
+    /** session key */
+    sk?: string
+    user?: string
+    api_key?: string
+    api_sig?: string
+    format?: string
+}
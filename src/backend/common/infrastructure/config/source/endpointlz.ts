@@ -21,6 +21,13 @@ export interface ListenbrainzEndpointData extends CommonSourceData {
      * See: https://listenbrainz.readthedocs.io/en/latest/users/api/index.html#add-the-user-token-to-your-requests
      * */
     token?: string | null
+
+    /**
+     * The username returned to apps validating their token and used for this Source's read endpoints (/1/user/{username}/listens, etc...)
+     *
+     * @default "Multi-Scrobbler"
+     * */
+    username?: string | null
 }
 
 export interface ListenbrainzEndpointSourceConfig extends CommonSourceConfig {
@@ -0,0 +1,48 @@
+import { PollingOptions } from "../common.js";
+import { CommonSourceConfig, CommonSourceData, CommonSourceOptions } from "./index.js";
+
+export type FileSourceFormat = 'scrobblerlog' | 'lastfm' | 'listenbrainz' | 'plays';
+
+export interface FileSourceData extends CommonSourceData, PollingOptions {
+    /**
+     * Directory to check for new `.scrobbler.log`, Last.fm CSV, or ListenBrainz JSON export files
+     *
+     * @examples ["/data/scrobbles"]
+     * */
+    path: string
+
+    /**
+     * Directory processed files are moved to
+     *
+     * @default "PATH/archive"
+     * @examples ["/data/scrobbles/archive"]
+     * */
+    archivePath?: string
+}
+
+export interface FileSourceOptions extends CommonSourceOptions {
+    /**
+     * Number of seconds a file must be unmodified before it is processed
+     *
+     * Prevents reading files that are still being copied into the directory
+     *
+     * @default 5
+     * */
+    settleTime?: number
+}
+
+export interface FileSourceConfig extends CommonSourceConfig {
+    /**
+     * When used in `file.json` this tells multi-scrobbler whether to use this data to configure a source or client.
+     *
+     * @default source
+     * @examples ["source"]
+     * */
+    configureAs?: 'source'
+    data: FileSourceData
+    options?: FileSourceOptions
+}
+
+export interface FileSourceAIOConfig extends FileSourceConfig {
+    type: 'file'
+}
@@ -0,0 +1,21 @@
+import { FunkwhaleData } from "../client/funkwhale.js";
+import { PollingOptions } from "../common.js";
+import { CommonSourceConfig, CommonSourceData } from "./index.js";
+
+export interface FunkwhaleSourceData extends FunkwhaleData, CommonSourceData, PollingOptions {
+}
+
+export interface FunkwhaleSourceConfig extends CommonSourceConfig {
+    /**
+     * When used in `funkwhale.config` this tells multi-scrobbler whether to use this data to configure a source or client.
+     *
+     * @default source
+     * @examples ["source"]
+     * */
+    configureAs?: 'source'
+    data: FunkwhaleSourceData
+}
+
+export interface FunkwhaleSourceAIOConfig extends FunkwhaleSourceConfig {
+    type: 'funkwhale'
+}
@@ -0,0 +1,124 @@
+import { PollingOptions } from "../common.js";
+import { CommonSourceConfig, CommonSourceData, CommonSourceOptions } from "./index.js";
+
+export interface HomeAssistantData extends CommonSourceData, PollingOptions {
+    /**
+     * URL of the Home Assistant instance
+     *
+     * If no port is given `8123` is used. The WebSocket API path (`/api/websocket`) is added automatically.
+     *
+     * @examples ["http://192.168.0.100:8123", "https://homeassistant.mydomain.com"]
+     * */
+    url: string
+
+    /**
+     * A Long-Lived Access Token
+     *
+     * Create one from your Home Assistant Profile -> Security -> Long-lived access tokens
+     * */
+    token: string
+
+    /**
+     * Only scrobble from media_player entities matching these entity ids
+     *
+     * Supports globs (`*`, `?`) and is case-insensitive. If not set all `media_player.*` entities are monitored.
+     *
+     * @examples [["media_player.living_room", "media_player.kitchen_*"]]
+     * */
+    entitiesAllow?: string | string[]
+
+    /**
+     * Do not scrobble from media_player entities matching these entity ids
+     *
+     * Supports globs (`*`, `?`) and is case-insensitive.
+     *
+     * @examples [["media_player.*_tv"]]
+     * */
+    entitiesBlock?: string | string[]
+
+    /**
+     * Only scrobble media with these `media_content_type` values
+     *
+     * Entities that do not report a content type are always allowed.
+     *
+     * @default ["music"]
+     * @examples [["music", "podcast"]]
+     * */
+    allowContentTypes?: string | string[]
+}
+
+export interface HomeAssistantSourceOptions extends CommonSourceOptions {
+    logEmptyPlayer?: boolean
+}
+
+export interface HomeAssistantSourceConfig extends CommonSourceConfig {
+    data: HomeAssistantData
+    options?: HomeAssistantSourceOptions
+}
+
+export interface HomeAssistantSourceAIOConfig extends HomeAssistantSourceConfig {
+    type: 'homeassistant'
+}
+
+export interface HassMediaPlayerAttributes {
+    friendly_name?: string
+    media_title?: string
+    media_artist?: string
+    media_album_name?: string
+    media_album_artist?: string
+    media_content_id?: string
+    media_content_type?: string
+    /** in seconds */
+    media_duration?: number
+    /** in seconds, position at the time of media_position_updated_at */
+    media_position?: number
+    /** ISO8601 timestamp */
+    media_position_updated_at?: string
+    entity_picture?: string
+    app_name?: string
+    [key: string]: unknown
+}
+
+export interface HassState {
+    entity_id: string
+    /** playing | paused | idle | buffering | on | off | standby | unavailable */
+    state: string
+    attributes: HassMediaPlayerAttributes
+    last_changed?: string
+    last_updated?: string
+}
+
+export interface HassMessage {
+    type: string
+    id?: number
+}
+
+export interface HassAuthMessage extends HassMessage {
+    type: 'auth_required' | 'auth_ok' | 'auth_invalid'
+    ha_version?: string
+    message?: string
+}
+
+export interface HassResultMessage<T = unknown> extends HassMessage {
+    type: 'result'
+    id: number
+    success: boolean
+    result?: T
+    error?: {
+        code: string
+        message: string
+    }
+}
+
+export interface HassStateChangedEventMessage extends HassMessage {
+    type: 'event'
+    id: number
+    event: {
+        event_type: 'state_changed'
+        data: {
+            entity_id: string
+            old_state?: HassState | null
+            new_state?: HassState | null
+        }
+    }
+}
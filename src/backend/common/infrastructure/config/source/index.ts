@@ -1,5 +1,6 @@
 import { FileLogOptions, LogLevel } from "@foxxmd/logging";
 
+import { PlayFilterOptions } from "../../Filter.js";
 import { PlayTransformConfig, PlayTransformOptions } from "../../Transform.js";
 import { CommonConfig, CommonData, RequestRetryOptions } from "../common.js";
 
@@ -108,6 +109,13 @@ export interface CommonSourceOptions extends SourceRetryOptions {
     scrobbleBacklogCount?: number
 
     playTransform?: PlayTransformOptions
+
+    /**
+     * Include/exclude rules used to filter Plays before they are discovered
+     *
+     * Filtered Plays are not scrobbled. The reason is recorded in the Play's lifecycle.
+     * */
+    filters?: PlayFilterOptions
 }
 
 export interface ManualListeningOptions {
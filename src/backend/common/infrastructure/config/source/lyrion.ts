@@ -0,0 +1,108 @@
+import { PollingOptions } from "../common.js";
+import { CommonSourceConfig, CommonSourceData, CommonSourceOptions } from "./index.js";
+
+export interface LyrionData extends CommonSourceData, PollingOptions {
+    /**
+     * HOST:PORT of the Lyrion Music Server (Logitech Media Server) web interface
+     *
+     * If no port is given `9000` is used. If no path is given `/jsonrpc.js` is used.
+     *
+     * @examples ["http://192.168.0.100:9000", "192.168.0.100"]
+     * */
+    url: string
+
+    /**
+     * Username, if password protection is enabled in LMS (Settings -> Advanced -> Security)
+     * */
+    username?: string
+    /**
+     * Password, if password protection is enabled in LMS (Settings -> Advanced -> Security)
+     * */
+    password?: string
+
+    /**
+     * Only scrobble if player name contains strings from this list (case-insensitive)
+     * */
+    devicesAllow?: string | string[]
+    /**
+     * Do not scrobble if player name contains strings from this list (case-insensitive)
+     * */
+    devicesBlock?: string | string[]
+}
+
+export interface LyrionSourceOptions extends CommonSourceOptions {
+    logEmptyPlayer?: boolean
+}
+
+export interface LyrionSourceConfig extends CommonSourceConfig {
+    data: LyrionData
+    options?: LyrionSourceOptions
+}
+
+export interface LyrionSourceAIOConfig extends LyrionSourceConfig {
+    type: 'lyrion'
+}
+
+export interface LyrionResponse<T> {
+    id: number
+    method: string
+    params: [string, (string | number)[]]
+    result: T
+}
+
+export interface LyrionServerStatusResult {
+    version: string
+    'player count': number
+}
+
+export interface LyrionPlayer {
+    /** MAC address of the player */
+    playerid: string
+    name: string
+    model?: string
+    modelname?: string
+    ip?: string
+    connected: 0 | 1
+    isplayer: 0 | 1
+    power?: 0 | 1
+}
+
+export interface LyrionPlayersResult {
+    count: number
+    players_loop?: LyrionPlayer[]
+}
+
+export interface LyrionTrack {
+    id: number | string
+    title?: string
+    artist?: string
+    albumartist?: string
+    trackartist?: string
+    album?: string
+    /** in seconds */
+    duration?: number
+    coverid?: string
+    artwork_url?: string
+    remote?: 0 | 1
+    remote_title?: string
+}
+
+export type LyrionPlayerMode = 'play' | 'pause' | 'stop';
+
+export interface LyrionStatusResult {
+    player_name?: string
+    player_connected?: 0 | 1
+    power?: 0 | 1
+    mode?: LyrionPlayerMode
+    /** position in current track, in seconds */
+    time?: number
+    /** duration of current track, in seconds */
+    duration?: number
+    remote?: 0 | 1
+    current_title?: string
+    /** playerid of the master player in this player's sync group, only present if synced */
+    sync_master?: string
+    /** comma-separated playerids of the slave players in this player's sync group, only present if synced */
+    sync_slaves?: string
+    playlist_loop?: LyrionTrack[]
+}
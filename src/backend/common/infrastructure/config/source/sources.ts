@@ -26,6 +26,13 @@ import { TealSourceAIOConfig, TealSourceConfig } from "./tealfm.js";
 import { RockskySourceAIOConfig, RockskySourceConfig } from "./rocksky.js";
 import { LibrefmSouceAIOConfig, LibrefmSourceConfig } from "./librefm.js";
 import { SonosSourceAIOConfig, SonosSourceConfig } from "./sonos.js";
+import { FileSourceAIOConfig, FileSourceConfig } from "./file.js";
+import { EmbySourceAIOConfig, EmbySourceConfig } from "./emby.js";
+import { LyrionSourceAIOConfig, LyrionSourceConfig } from "./lyrion.js";
+import { HomeAssistantSourceAIOConfig, HomeAssistantSourceConfig } from "./homeassistant.js";
+import { BeefwebSourceAIOConfig, BeefwebSourceConfig } from "./beefweb.js";
+import { AudioscrobblerEndpointSourceAIOConfig, AudioscrobblerEndpointSourceConfig } from "./endpointas.js";
+import { FunkwhaleSourceAIOConfig, FunkwhaleSourceConfig } from "./funkwhale.js";
 
 
 export type SourceConfig =
@@ -57,7 +64,14 @@ export type SourceConfig =
     | KoitoSourceConfig
     | TealSourceConfig
     | RockskySourceConfig
-    | SonosSourceConfig;
+    | SonosSourceConfig
+    | FileSourceConfig
+    | EmbySourceConfig
+    | LyrionSourceConfig
+    | HomeAssistantSourceConfig
+    | BeefwebSourceConfig
+    | AudioscrobblerEndpointSourceConfig
+    | FunkwhaleSourceConfig;
 
 export type SourceAIOConfig =
     SpotifySourceAIOConfig
@@ -88,7 +102,14 @@ export type SourceAIOConfig =
     | KoitoSourceAIOConfig
     | TealSourceAIOConfig
     | RockskySourceAIOConfig
-    | SonosSourceAIOConfig;
+    | SonosSourceAIOConfig
+    | FileSourceAIOConfig
+    | EmbySourceAIOConfig
+    | LyrionSourceAIOConfig
+    | HomeAssistantSourceAIOConfig
+    | BeefwebSourceAIOConfig
+    | AudioscrobblerEndpointSourceAIOConfig
+    | FunkwhaleSourceAIOConfig;
 
 /** Used for docusaurus schemas
  *  We need to show "array of" for each type of config when looking at File Config
@@ -126,6 +147,13 @@ export type KoitoSourceConfigs = KoitoSourceConfig[];
 export type TealSourceConfigs = TealSourceConfig[];
 export type RockskySourceConfigs = RockskySourceConfig[];
 export type SonosSourceConfigs = SonosSourceConfig[];
+export type FileSourceConfigs = FileSourceConfig[];
+export type EmbySourceConfigs = EmbySourceConfig[];
+export type LyrionSourceConfigs = LyrionSourceConfig[];
+export type HomeAssistantSourceConfigs = HomeAssistantSourceConfig[];
+export type BeefwebSourceConfigs = BeefwebSourceConfig[];
+export type AudioscrobblerEndpointSourceConfigs = AudioscrobblerEndpointSourceConfig[];
+export type FunkwhaleSourceConfigs = FunkwhaleSourceConfig[];
 
 
 export type SourceType =
@@ -156,7 +184,14 @@ export type SourceType =
     | 'koito'
     | 'tealfm'
     | 'rocksky'
-    | 'sonos';
+    | 'sonos'
+    | 'file'
+    | 'emby'
+    | 'lyrion'
+    | 'homeassistant'
+    | 'beefweb'
+    | 'endpointas'
+    | 'funkwhale';
     
 export const sourceTypes: SourceType[] = [
     'spotify',
@@ -186,7 +221,14 @@ export const sourceTypes: SourceType[] = [
     'koito',
     'tealfm',
     'rocksky',
-    'sonos'
+    'sonos',
+    'file',
+    'emby',
+    'lyrion',
+    'homeassistant',
+    'beefweb',
+    'endpointas',
+    'funkwhale'
 ];
 
 export const atomicSourceInterfaces = [
@@ -217,7 +259,14 @@ export const atomicSourceInterfaces = [
     'KoitoSourceConfig',
     'TealSourceConfig',
     'RockskySourceConfig',
-    'SonosSourceConfig'
+    'SonosSourceConfig',
+    'FileSourceConfig',
+    'EmbySourceConfig',
+    'LyrionSourceConfig',
+    'HomeAssistantSourceConfig',
+    'BeefwebSourceConfig',
+    'AudioscrobblerEndpointSourceConfig',
+    'FunkwhaleSourceConfig'
 ];
 
 export const sourceInterfaces = [
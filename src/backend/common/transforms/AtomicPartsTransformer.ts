@@ -89,7 +89,7 @@ export default abstract class AtomicPartsTransformer<Y, T = any, Z extends Atomi
             };
             if (parts.meta !== undefined) {
                 try {
-                    const meta = await this.handleMeta(play, parts.duration, transformData);
+                    const meta = await this.handleMeta(play, parts.meta, transformData);
 
                     if (meta !== undefined) {
                         for (const [k, v] of Object.entries(meta)) {
@@ -0,0 +1,339 @@
+import { childLogger } from "@foxxmd/logging";
+import { PlayObject, TrackMeta, TransformerCommon, TransformOptions } from "../../../core/Atomic.js";
+import { isWhenCondition, testWhenConditions } from "../../utils/PlayTransformUtils.js";
+import { WebhookPayload } from "../infrastructure/config/health/webhooks.js";
+import { ExternalMetadataTerm, PlayTransformMetadataStage } from "../infrastructure/Transform.js";
+import AtomicPartsTransformer from "./AtomicPartsTransformer.js";
+import { TransformerOptions } from "./AbstractTransformer.js";
+import { ARTIST_WEIGHT, TITLE_WEIGHT } from "../infrastructure/Atomic.js";
+import { MaybeLogger } from "../logging.js";
+import { SimpleError, SkipTransformStageError, StagePrerequisiteError } from "../errors/MSErrors.js";
+import { SpotifyApiClient, SpotifyApiClientConfig, SpotifyTrackSearchResult, trackToPlay } from "../vendor/spotify/SpotifyApiClient.js";
+import { scorePlaySameness } from "../../utils/PlayComparisonUtils.js";
+
+export type SpotifySearchType = 'isrc' | 'basic' | 'album' | 'freetext';
+
+export const asSpotifySearchType = (str: string): SpotifySearchType => {
+    const clean = str.trim().toLocaleLowerCase();
+    switch(clean) {
+        case 'isrc':
+            return 'isrc';
+        case 'basic':
+            return 'basic';
+        case 'album':
+            return 'album';
+        case 'freetext':
+            return 'freetext';
+    }
+    throw new Error(`SearchType must be one of 'isrc' | 'basic' | 'album' | 'freetext' -- given: ${clean}`);
+}
+
+export const DEFAULT_SPOTIFY_SEARCHTYPE_ORDER: SpotifySearchType[] = ['isrc', 'basic'];
+
+export interface SpotifyTransformerData {
+    /** Search even if Play already has a Spotify track ID
+     *
+     * @default false
+     */
+    forceSearch?: boolean
+    /** Minimum score (0-100) a Spotify track must have, compared to the Play, to be used as a match
+     *
+     * @default 85
+     */
+    score?: number
+    /** Order of searches to try. Stops on first search that returns any results
+     *
+     * * `isrc` - search by ISRC, if Play has one
+     * * `basic` - search by title + primary artist
+     * * `album` - search by title + album, without artists
+     * * `freetext` - search using all Play data without field filters
+     *
+     * @default ["isrc", "basic"]
+     */
+    searchOrder?: SpotifySearchType[]
+}
+
+export interface SpotifyTransformerDataStage extends SpotifyTransformerData, PlayTransformMetadataStage {
+}
+
+export type SpotifyTransformerDataConfig = SpotifyApiClientConfig;
+
+export type SpotifyTransformerConfig = TransformerCommon<SpotifyTransformerData, SpotifyTransformerDataConfig> & {options?: TransformOptions}
+
+export type SpotifyRankedTrack = {play: PlayObject, score: number};
+
+export const parseStageConfig = (data: SpotifyTransformerData | undefined = {}, logger: MaybeLogger = new MaybeLogger()): SpotifyTransformerData => {
+    if (data === null || typeof data !== 'object') {
+        throw new Error('Spotify Transformer data should be an object or not defined.');
+    }
+
+    const {
+        searchOrder,
+        ...rest
+    } = data;
+
+    const config: SpotifyTransformerData = {
+        score: 85,
+        ...rest
+    };
+
+    if(searchOrder !== undefined) {
+        config.searchOrder = Array.from(new Set(searchOrder.map(asSpotifySearchType)));
+        logger.debug(`Search Order => ${config.searchOrder.join(' | ')}`);
+    }
+
+    logger.debug(`Match if score is >= ${config.score}`);
+
+    return config;
+}
+
+/**
+ * Scores how similar a Spotify track is to the Play, from 0 to 100
+ *
+ * Album is only considered if the Play has one, otherwise it would penalize every candidate equally
+ * */
+export const scoreSpotifyCandidate = (play: PlayObject, candidate: PlayObject): number => {
+    if(play.data.isrc !== undefined && candidate.data.isrc !== undefined && play.data.isrc.toLocaleUpperCase() === candidate.data.isrc.toLocaleUpperCase()) {
+        return 100;
+    }
+    const albumWeight = play.data.album !== undefined && play.data.album.trim() !== '' ? 0.3 : 0;
+    const score = scorePlaySameness(play, candidate, {
+        weights: {
+            track: TITLE_WEIGHT,
+            artist: ARTIST_WEIGHT,
+            album: albumWeight,
+            albumBonuses: {
+                exact: albumWeight === 0 ? 0 : 0.05
+            }
+        }
+    });
+    return Math.min(score / (TITLE_WEIGHT + ARTIST_WEIGHT + albumWeight), 1) * 100;
+}
+
+export default class SpotifyTransformer extends AtomicPartsTransformer<ExternalMetadataTerm, PlayObject, SpotifyTransformerDataStage> {
+
+    declare config: SpotifyTransformerConfig;
+
+    protected defaults: SpotifyTransformerData;
+
+    protected api: SpotifyApiClient;
+
+    public constructor(config: SpotifyTransformerConfig, options: TransformerOptions) {
+        super(config, options);
+    }
+
+    protected async doBuildInitData(): Promise<true | string | undefined> {
+        this.defaults = parseStageConfig(this.config.defaults, childLogger(this.logger, 'Defaults'));
+
+        this.api = new SpotifyApiClient(this.config.name, this.config.data ?? {}, {
+            logger: this.logger,
+            cache: this.cache
+        });
+
+        return true;
+    }
+
+    protected async doCheckConnection(): Promise<true | string | undefined> {
+        await this.api.refreshToken(true);
+        return true;
+    }
+
+    protected doParseConfig(data: SpotifyTransformerDataStage) {
+        if (data.type !== 'spotify') {
+            throw new Error(`Spotify Transformer is only usable with 'spotify' type stages`);
+        }
+
+        const stage: SpotifyTransformerDataStage = {
+            ...data,
+            ...parseStageConfig(data),
+            type: 'spotify'
+        }
+
+        for (const k of ['artists', 'albumArtists', 'title', 'album', 'meta', 'duration']) {
+            if (!(k in stage)) {
+                stage[k] = true;
+                continue;
+            }
+            if (Array.isArray(stage[k])) {
+                throw new Error(`${k} must be a boolean or when object`);
+            }
+            if (typeof stage[k] === 'boolean') {
+                continue;
+            }
+            if (typeof stage[k] === 'object' && !isWhenCondition(stage[k])) {
+                throw new Error(`${k} is not a valid when object`);
+            }
+        }
+        return stage;
+    }
+
+    public async handlePreFetch(play: PlayObject, stageConfig: SpotifyTransformerDataStage): Promise<void> {
+        const {
+            forceSearch = this.defaults.forceSearch ?? false,
+        } = stageConfig;
+
+        if(play.data.meta?.spotify?.track !== undefined) {
+            if(forceSearch) {
+                this.logger.debug(`Play already has Spotify track ID but forceSearch = true`);
+            } else {
+                throw new SkipTransformStageError(`Play already has Spotify track ID`, {shortStack: true});
+            }
+        }
+    }
+
+    public async getTransformerData(play: PlayObject, stageConfig: SpotifyTransformerDataStage): Promise<SpotifyTrackSearchResult> {
+        const {
+            searchOrder = this.defaults.searchOrder ?? DEFAULT_SPOTIFY_SEARCHTYPE_ORDER
+        } = stageConfig;
+
+        let results: SpotifyTrackSearchResult;
+
+        for(const searchType of searchOrder) {
+            switch(searchType) {
+                case 'isrc':
+                    if(play.data.isrc === undefined) {
+                        this.logger.debug(`Search type ${searchType} did not meet prerequesites: Play does not have ISRC`);
+                        continue;
+                    }
+                    this.logger.debug({labels: ['ISRC Search']}, 'Searching with ISRC');
+                    results = await this.api.searchTracks(play, {using: ['isrc']});
+                    break;
+                case 'basic':
+                    this.logger.debug({labels: ['Basic Search']}, 'Searching by artist/track');
+                    results = await this.api.searchTracks(play, {using: ['title', 'artist']});
+                    break;
+                case 'album':
+                    if(play.data.album === undefined) {
+                        this.logger.debug(`Search type ${searchType} did not meet prerequesites: Play does not have an album`);
+                        continue;
+                    }
+                    this.logger.debug({labels: ['Album Search']}, 'Searching with only track+album');
+                    results = await this.api.searchTracks(play, {using: ['title', 'album']});
+                    break;
+                case 'freetext':
+                    this.logger.debug({labels: ['Freetext Search']}, 'Trying freetext search');
+                    results = await this.api.searchTracks(play, {freetext: true});
+                    break;
+            }
+            if(results !== undefined && results.tracks.length > 0) {
+                break;
+            }
+            this.logger.debug(`'${searchType}' search type returned no matches`);
+        }
+
+        return results ?? {tracks: [], requestQuery: ''};
+    }
+
+    public async handlePostFetch(play: PlayObject, transformData: SpotifyTrackSearchResult, stageConfig: SpotifyTransformerDataStage): Promise<PlayObject> {
+        if(transformData.tracks.length === 0) {
+            throw new StagePrerequisiteError('No matches returned from Spotify API', {shortStack: true});
+        }
+
+        const {
+            score = this.defaults.score ?? 85
+        } = stageConfig;
+
+        const ranked: SpotifyRankedTrack[] = transformData.tracks.map((x) => {
+            const candidate = trackToPlay(x);
+            return {play: candidate, score: scoreSpotifyCandidate(play, candidate)};
+        });
+        ranked.sort((a, b) => b.score - a.score);
+
+        const filtered = ranked.filter(x => x.score >= score);
+        if(filtered.length === 0) {
+            throw new StagePrerequisiteError(`All ${ranked.length} fetched matches had a score < ${score}, best match was ${ranked[0].score.toFixed(2)}`, {shortStack: true});
+        }
+
+        this.logger.debug(`${filtered.length} of ${ranked.length} matches had a valid score. Using match with best score of ${filtered[0].score.toFixed(2)}`);
+
+        const best = filtered[0].play;
+        best.meta.lifecycleInputs = [...(best.meta.lifecycleInputs ?? []), {type: 'spotifyQuery', input: transformData.requestQuery}, {type: 'spotifyTrack', input: best.meta.lifecycle.input}];
+        return best;
+    }
+
+    protected async doHandle(parts: SpotifyTransformerDataStage, play: PlayObject, transformData: PlayObject): Promise<PlayObject> {
+        const transformed = await super.doHandle(parts, play, transformData);
+        // ISRC is not an atomic part so fill it alongside meta, but never overwrite what the Source gave us
+        if(transformed.data.isrc === undefined && transformData.data.isrc !== undefined && parts.meta !== false) {
+            transformed.data.isrc = transformData.data.isrc;
+        }
+        return transformed;
+    }
+
+    protected async handleTitle(play: PlayObject, parts: ExternalMetadataTerm, transformData: PlayObject): Promise<string | undefined> {
+        if (!this.partApplies(play, parts, 'title')) {
+            return play.data.track;
+        }
+        return transformData.data.track;
+    }
+
+    protected async handleArtists(play: PlayObject, parts: ExternalMetadataTerm, transformData: PlayObject): Promise<string[] | undefined> {
+        if (!this.partApplies(play, parts, 'artists')) {
+            return play.data.artists;
+        }
+        return transformData.data.artists;
+    }
+
+    protected async handleAlbumArtists(play: PlayObject, parts: ExternalMetadataTerm, transformData: PlayObject): Promise<string[] | undefined> {
+        if (!this.partApplies(play, parts, 'albumArtists')) {
+            return play.data.albumArtists;
+        }
+        return transformData.data.albumArtists;
+    }
+
+    protected async handleAlbum(play: PlayObject, parts: ExternalMetadataTerm, transformData: PlayObject): Promise<string | undefined> {
+        if (!this.partApplies(play, parts, 'album')) {
+            return play.data.album;
+        }
+        return transformData.data.album;
+    }
+
+    protected async handleDuration(play: PlayObject, parts: ExternalMetadataTerm, transformData: PlayObject): Promise<number | undefined> {
+        if (transformData.data.duration === undefined || !this.partApplies(play, parts, 'duration')) {
+            return play.data.duration;
+        }
+        return transformData.data.duration;
+    }
+
+    protected async handleMeta(play: PlayObject, parts: ExternalMetadataTerm, transformData: PlayObject): Promise<TrackMeta | undefined> {
+        if (!this.partApplies(play, parts, 'meta')) {
+            return play.data.meta;
+        }
+        return transformData.data.meta;
+    }
+
+    protected partApplies(play: PlayObject, parts: ExternalMetadataTerm, name: string): boolean {
+        if (parts === false) {
+            return false;
+        }
+        if (typeof parts === 'object' && parts.when !== undefined) {
+            if (!testWhenConditions(parts.when, play, { testMaybeRegex: this.regex.testMaybeRegex })) {
+                this.logger.debug(`When condition for ${name} not met, returning original ${name}`);
+                return false;
+            }
+        }
+        return true;
+    }
+
+    public notify(payload: WebhookPayload): Promise<void> {
+        return;
+    }
+}
+
+export const configFromEnv = (logger: MaybeLogger = new MaybeLogger()): SpotifyTransformerConfig | undefined => {
+    const enabled = process.env.SPOTIFY_TRANSFORMER;
+    if(enabled === undefined || enabled.trim().toLocaleLowerCase() !== 'true') {
+        return undefined;
+    }
+    if(process.env.SPOTIFY_CLIENT_ID === undefined || process.env.SPOTIFY_CLIENT_SECRET === undefined) {
+        throw new SimpleError('SPOTIFY_TRANSFORMER is true but SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET are not both set!');
+    }
+    logger.debug('Building Spotify Transformer from ENV');
+    return {
+        type: 'spotify',
+        name: 'MSDefault',
+        data: {
+            market: process.env.SPOTIFY_TRANSFORMER_MARKET
+        }
+    };
+}
@@ -0,0 +1,22 @@
+import { childLogger, Logger } from "@foxxmd/logging";
+import AbstractComponent from "../AbstractComponent.js";
+import { WebhookPayload } from "../infrastructure/config/health/webhooks.js";
+
+/**
+ * A component with no configuration of its own, used to preview transforms that are not tied to a Source or Client
+ * */
+export default class TransformPreviewComponent extends AbstractComponent {
+
+    constructor(logger: Logger) {
+        super({});
+        this.logger = childLogger(logger, this.getIdentifier());
+    }
+
+    public notify(payload: WebhookPayload): Promise<void> {
+        return Promise.resolve();
+    }
+
+    protected getIdentifier(): string {
+        return 'Transform Preview';
+    }
+}
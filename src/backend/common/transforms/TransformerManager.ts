@@ -8,6 +8,7 @@ import { isStageTyped } from "../../utils/PlayTransformUtils.js";
 import { MSCache } from "../Cache.js";
 import NativeTransformer from "./NativeTransformer.js";
 import MusicbrainzTransformer, { configFromEnv, MusicbrainzTransformerConfig } from "./MusicbrainzTransformer.js";
+import SpotifyTransformer, { configFromEnv as spotifyConfigFromEnv, SpotifyTransformerConfig } from "./SpotifyTransformer.js";
 import { AsyncLocalStorage } from 'node:async_hooks';
 import { nanoid } from "nanoid";
 import { SimpleError, StageTransformError } from "../errors/MSErrors.js";
@@ -55,6 +56,9 @@ export default class TransformerManager {
             case 'musicbrainz':
                 t = new MusicbrainzTransformer({ name: tName, ...config as MusicbrainzTransformerConfig }, {logger: tLogger, regexCache: this.cache.regexCache, cache: this.cache.cacheTransform});
                 break;
+            case 'spotify':
+                t = new SpotifyTransformer({ name: tName, ...config as SpotifyTransformerConfig }, {logger: tLogger, regexCache: this.cache.regexCache, cache: this.cache.cacheTransform});
+                break;
             default:
                 throw new Error(`No transformer of type '${config.type}' exists.`);
         }
@@ -72,12 +76,12 @@ export default class TransformerManager {
     }
 
     public async registerFromEnv() {
+        let registered = false;
         try {
             const mbConfig = configFromEnv(this.logger);
             if(mbConfig !== undefined) {
                 this.register(mbConfig);
-            } else {
-                this.logger.debug('No transformers to build from ENV');
+                registered = true;
             }
         } catch (e) {
             if(e instanceof SimpleError) {
@@ -85,6 +89,23 @@ export default class TransformerManager {
             }
             this.logger.error(new Error('Unable to build Musicbrainz Transformer from ENV', {cause: e}));
         }
+        if(!this.hasTransformerType('spotify')) {
+            try {
+                const spotifyConfig = spotifyConfigFromEnv(this.logger);
+                if(spotifyConfig !== undefined) {
+                    this.register(spotifyConfig);
+                    registered = true;
+                }
+            } catch (e) {
+                if(e instanceof SimpleError) {
+                    this.logger.error(`Unable to build Spotify Transformer from ENV: ${e.message}`);
+                }
+                this.logger.error(new Error('Unable to build Spotify Transformer from ENV', {cause: e}));
+            }
+        }
+        if(!registered) {
+            this.logger.debug('No transformers to build from ENV');
+        }
     }
 
     public async initTransformers() {
@@ -10,11 +10,13 @@ import week from 'dayjs/plugin/weekOfYear.js';
 import utc from 'dayjs/plugin/utc.js';
 import * as path from "path";
 import { SimpleIntervalJob, ToadScheduler } from "toad-scheduler";
+import { ExportBackups } from "./common/Export.js";
 import { projectDir } from "./common/index.js";
 import { AIOConfig } from "./common/infrastructure/config/aioConfig.js";
 import { appLogger, initLogger as getInitLogger } from "./common/logging.js";
 import { getRoot, parseVersion } from "./ioc.js";
 import { initServer } from "./server/index.js";
+import { createExportClientsTask } from "./tasks/exportClients.js";
 import { createHeartbeatClientsTask } from "./tasks/heartbeatClients.js";
 import { createHeartbeatSourcesTask } from "./tasks/heartbeatSources.js";
 import { isDebugMode, parseBool, retry, sleep } from "./utils.js";
@@ -23,6 +25,7 @@ import { readJson } from './utils/DataUtils.js';
 import ScrobbleClients from './scrobblers/ScrobbleClients.js';
 import ScrobbleSources from './sources/ScrobbleSources.js';
 import { Notifiers } from './notifier/Notifiers.js';
+import { MqttPublisher } from './notifier/MqttPublisher.js';
 
 dayjs.extend(utc)
 dayjs.extend(isBetween);
@@ -72,6 +75,8 @@ const configDir = process.env.CONFIG_DIR || path.resolve(projectDir, `./config`)
 
         const {
             webhooks = [],
+            mqtt,
+            export: exportConfig,
             logging = {},
             debugMode,
         } = (config || {}) as AIOConfig;
@@ -109,6 +114,11 @@ const configDir = process.env.CONFIG_DIR || path.resolve(projectDir, `./config`)
         const scrobbleSources = new ScrobbleSources(root.get('sourceEmitter'), internalConfigOptional, root.get('logger'));
 
         await root.items.cache().init();
+        try {
+            await root.items.history.init();
+        } catch (e) {
+            logger.warn(new Error('Could not initialize history database, discovered plays and scrobble results will not be persisted', {cause: e}));
+        }
 
         initServer(logger, appLoggerStream, output, scrobbleSources, scrobbleClients);
 
@@ -124,6 +134,56 @@ const configDir = process.env.CONFIG_DIR || path.resolve(projectDir, `./config`)
         const notifiers = new Notifiers(root.get('notifierEmitter'), root.get('clientEmitter'), root.get('sourceEmitter'), root.get('logger')); //root.get('notifiers');
         await notifiers.buildWebhooks(webhooks);
 
+        let mqttPublisher: MqttPublisher | undefined;
+        if(mqtt !== undefined || process.env.MQTT_URL !== undefined) {
+            mqttPublisher = new MqttPublisher(mqtt ?? {}, root.get('clientEmitter'), root.get('sourceEmitter'), root.get('logger'));
+            try {
+                await mqttPublisher.init();
+            } catch (e) {
+                logger.warn(new Error('Could not initialize MQTT publisher', {cause: e}));
+            }
+        }
+
+        const shutdown = async (signal: string) => {
+            logger.info(`Received ${signal}, shutting down...`);
+            scheduler.stop();
+            // stop Sources first so no new plays are queued while Clients are stopping
+            await Promise.all(scrobbleSources.sources.filter(x => x.polling).map(async (x) => {
+                try {
+                    await x.tryStopPolling();
+                } catch (e) {
+                    logger.warn(new Error(`Could not stop polling for ${x.type} - ${x.name}`, {cause: e}));
+                }
+            }));
+            await Promise.all(scrobbleClients.clients.map(async (x) => {
+                x.scheduler.stop();
+                if(x.scrobbling) {
+                    try {
+                        await x.tryStopScrobbling();
+                    } catch (e) {
+                        logger.warn(new Error(`Could not stop scrobble processing for ${x.type} - ${x.name}`, {cause: e}));
+                    }
+                }
+            }));
+            if(mqttPublisher !== undefined) {
+                try {
+                    // publishes retained 'offline' availability before disconnecting
+                    await mqttPublisher.destroy();
+                } catch (e) {
+                    logger.warn(new Error('Could not cleanly disconnect MQTT publisher', {cause: e}));
+                }
+            }
+            try {
+                // checkpoints WAL so history.db is complete without its -wal file
+                root.items.history.close();
+            } catch (e) {
+                logger.warn(new Error('Could not cleanly close history database', {cause: e}));
+            }
+            process.exit(0);
+        }
+        process.once('SIGTERM', () => shutdown('SIGTERM'));
+        process.once('SIGINT', () => shutdown('SIGINT'));
+
         await root.items.transformerManager.registerFromEnv();
         await root.items.transformerManager.registeryDefaults();
         await root.items.transformerManager.initTransformers();
@@ -170,6 +230,19 @@ const configDir = process.env.CONFIG_DIR || path.resolve(projectDir, `./config`)
             runImmediately: true
         }, sourceTask, {id: 'sources_heart'}));
 
+        try {
+            const exporter = new ExportBackups(exportConfig, logger, root.get('version'));
+            if(exporter.config.enable) {
+                scheduler.addSimpleIntervalJob(new SimpleIntervalJob({
+                    hours: exporter.config.interval,
+                    runImmediately: false
+                }, createExportClientsTask(scrobbleClients, exporter, root.items.history, logger), {id: 'clients_export'}));
+                logger.info(`Exporting scrobbles every ${exporter.config.interval} hours to ${exporter.config.dir}`);
+            }
+        } catch (e) {
+            logger.warn(new Error('Could not setup scheduled exports', {cause: e}));
+        }
+
         logger.info('Scheduler started.');
 
     } catch (e) {
@@ -8,8 +8,9 @@ import { WildcardEmitter } from "./common/WildcardEmitter.js";
 
 import { generateBaseURL } from "./utils/NetworkUtils.js";
 import { PassThrough } from "stream";
-import { CacheConfigOptions, MusicBrainzSingletonMap } from "./common/infrastructure/Atomic.js";
+import { CacheConfigOptions, HistoryConfigOptions, MusicBrainzSingletonMap } from "./common/infrastructure/Atomic.js";
 import { MSCache } from "./common/Cache.js";
+import { MSHistory } from "./common/History.js";
 import TransformerManager from "./common/transforms/TransformerManager.js";
 import { TransformerCommonConfig } from "../core/Atomic.js";
 import prom, { Counter, Gauge } from 'prom-client';
@@ -32,6 +33,7 @@ export interface RootOptions {
     loggerStream?: PassThrough
     loggingConfig?: LogOptions
     cache?: CacheConfigOptions | MSCache | (() => MSCache)
+    history?: HistoryConfigOptions | MSHistory
     mbMap?: MusicBrainzSingletonMap | (() => MusicBrainzSingletonMap)
     transformers?: TransformerCommonConfig[]
 }
@@ -66,6 +68,7 @@ const createRoot = (options: RootOptions = {logger: loggerDebug}) => {
         loggingConfig,
         logger,
         cache,
+        history,
         mbMap,
         transformers = [],
     } = options || {};
@@ -86,6 +89,8 @@ const createRoot = (options: RootOptions = {logger: loggerDebug}) => {
         maybeSingletonCache = new MSCache(logger, cache);
     }
 
+    const historyStore = history instanceof MSHistory ? history : new MSHistory(logger, history);
+
     let mbFunc: () => MusicBrainzSingletonMap;
     let maybeSingletonMb: MusicBrainzSingletonMap;
     if(typeof mbMap === 'function') {
@@ -153,6 +158,7 @@ const createRoot = (options: RootOptions = {logger: loggerDebug}) => {
         logger: logger,
         transformerManager,
         cache: () => maybeSingletonCache !== undefined ? () => maybeSingletonCache : cacheFunc,
+        history: () => historyStore,
         mbMap: () => maybeSingletonMb !== undefined ? () => maybeSingletonMb : mbFunc,
         coverArtApi
     }).add((items) => {
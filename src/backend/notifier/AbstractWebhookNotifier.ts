@@ -1,21 +1,22 @@
 import { childLogger, Logger } from "@foxxmd/logging";
 import {
-    AppriseConfig,
-    GotifyConfig,
-    NtfyConfig,
+    WebhookConfig,
+    WebhookEventType,
     WebhookPayload
 } from "../common/infrastructure/config/health/webhooks.js";
 
 export abstract class AbstractWebhookNotifier {
 
-    config: GotifyConfig | NtfyConfig | AppriseConfig
+    config: WebhookConfig
     logger: Logger;
 
+    events: WebhookEventType[] = ['notify'];
+
     initialized: boolean = false;
     requiresAuth: boolean = false;
     authed: boolean = false;
 
-    protected constructor(type: string, defaultName: string, config: GotifyConfig | NtfyConfig | AppriseConfig, logger: Logger) {
+    protected constructor(type: string, defaultName: string, config: WebhookConfig, logger: Logger) {
         this.config = config;
         const label = `${type} - ${config.name ?? defaultName}`
         this.logger = childLogger(logger, label);
@@ -31,6 +32,9 @@ export abstract class AbstractWebhookNotifier {
     }
 
     notify = async (payload: WebhookPayload) =>  {
+        if(!this.events.includes(payload.event ?? 'notify')) {
+            return;
+        }
         if(!this.initialized) {
             this.logger.debug('Will not use notifier because it is not initialized.');
             return;
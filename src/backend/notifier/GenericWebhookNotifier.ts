@@ -0,0 +1,118 @@
+import { Logger } from "@foxxmd/logging";
+import { createHmac } from "node:crypto";
+import request from "superagent";
+import { buildTrackString } from "../../core/StringUtils.js";
+import { GenericWebhookConfig, WebhookPayload } from "../common/infrastructure/config/health/webhooks.js";
+import { isDebugMode } from "../utils.js";
+import { AbstractWebhookNotifier } from "./AbstractWebhookNotifier.js";
+import { serializePlay } from "./NotifierEvents.js";
+
+export const DEFAULT_SIGNATURE_HEADER = 'X-Multi-Scrobbler-Signature';
+
+const TEMPLATE_EXACT_REGEX = /^{{\s*([\w.]+)\s*}}$/;
+const TEMPLATE_REGEX = /{{\s*([\w.]+)\s*}}/g;
+
+export class GenericWebhookNotifier extends AbstractWebhookNotifier {
+
+    declare config: GenericWebhookConfig;
+
+    constructor(defaultName: string, config: GenericWebhookConfig, logger: Logger) {
+        super('Webhook', defaultName, config, logger);
+        const {
+            url,
+            events = ['notify'],
+        } = this.config;
+        if (url === undefined) {
+            throw new Error(`'url' must be defined in configuration for this notification`);
+        }
+        this.events = events;
+    }
+
+    doNotify = async (payload: WebhookPayload) => {
+        const {
+            url,
+            method = 'POST',
+            headers = {},
+            secret,
+            signatureHeader = DEFAULT_SIGNATURE_HEADER,
+            body: template,
+        } = this.config;
+
+        const context = buildTemplateContext(payload);
+        const body = JSON.stringify(template === undefined ? context : renderTemplate(template, context));
+
+        try {
+            const req = (method === 'PUT' ? request.put(url) : request.post(url))
+                .set(headers)
+                .type('json');
+            if(secret !== undefined) {
+                req.set(signatureHeader, signBody(body, secret));
+            }
+            await req.send(body);
+            this.logger.verbose(`Pushed ${context.event} notification.`);
+        } catch (e) {
+            this.logger.warn(new Error(`Failed to push ${context.event} notification for '${payload.title}'`, {cause: e}));
+            if(isDebugMode()) {
+                this.logger.debug({body}, 'Webhook Request');
+            }
+        }
+    }
+}
+
+export const signBody = (body: string, secret: string): string => `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+export type WebhookTemplateContext = Omit<WebhookPayload, 'play'> & {
+    event: NonNullable<WebhookPayload['event']>
+    play?: object
+    trackString?: string
+    timestamp: string
+}
+
+export const buildTemplateContext = (payload: WebhookPayload): WebhookTemplateContext => {
+    const {play, event = 'notify', ...rest} = payload;
+    const context: WebhookTemplateContext = {
+        ...rest,
+        event,
+        timestamp: new Date().toISOString(),
+    };
+    if(play !== undefined) {
+        context.play = serializePlay(play);
+        context.trackString = buildTrackString(play, {include: ['artist', 'track']});
+    }
+    return context;
+}
+
+const getPath = (obj: object, path: string): unknown => path.split('.').reduce((acc, key) => {
+    if(acc === undefined || acc === null || typeof acc !== 'object') {
+        return undefined;
+    }
+    return (acc as Record<string, unknown>)[key];
+}, obj as unknown);
+
+/**
+ * Replace `{{path}}` placeholders in all strings of a JSON-like template with values from context
+ *
+ * A string that is only a placeholder is replaced with the raw value so numbers, lists, and objects keep their type
+ * */
+export const renderTemplate = (template: unknown, context: object): unknown => {
+    if(typeof template === 'string') {
+        const exact = template.match(TEMPLATE_EXACT_REGEX);
+        if(exact !== null) {
+            return getPath(context, exact[1]) ?? null;
+        }
+        return template.replace(TEMPLATE_REGEX, (_, path: string) => {
+            const val = getPath(context, path);
+            if(val === undefined || val === null) {
+                return '';
+            }
+            return typeof val === 'object' ? JSON.stringify(val) : String(val);
+        });
+    }
+    if(Array.isArray(template)) {
+        return template.map(x => renderTemplate(x, context));
+    }
+    if(template !== null && typeof template === 'object') {
+        return Object.fromEntries(Object.entries(template).map(([k, v]) => [k, renderTemplate(v, context)]));
+    }
+    return template;
+}
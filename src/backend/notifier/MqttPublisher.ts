@@ -0,0 +1,223 @@
+import { childLogger, Logger } from "@foxxmd/logging";
+import { EventEmitter } from "events";
+import mqtt, { MqttClient } from "mqtt";
+import { PlayObject, SourcePlayerObj } from "../../core/Atomic.js";
+import { buildTrackString } from "../../core/StringUtils.js";
+import { MqttConfig } from "../common/infrastructure/config/health/mqtt.js";
+import { parseBool } from "../utils.js";
+import { ComponentEventPayload, serializePlay } from "./NotifierEvents.js";
+
+export const MQTT_DEFAULT_PREFIX = 'multi-scrobbler';
+export const MQTT_DEFAULT_DISCOVERY_PREFIX = 'homeassistant';
+
+export interface MqttSourceState {
+    status: string
+    platformId?: string
+    track?: string
+    artists?: string
+    album?: string
+    trackString?: string
+    duration?: number
+    position?: number
+    listenedDuration?: number
+    playDate?: string
+    updatedAt: string
+}
+
+/**
+ * Publishes Source player state, Client now playing, and successful scrobbles to an MQTT broker
+ *
+ * Listens to the same Source/Client events that are forwarded to the dashboard.
+ * */
+export class MqttPublisher {
+
+    config: MqttConfig;
+    logger: Logger;
+
+    client?: MqttClient;
+
+    protected clientEmitter: EventEmitter;
+    protected sourceEmitter: EventEmitter;
+
+    protected prefix: string;
+    protected discovery: boolean;
+    protected discoveryPrefix: string;
+
+    // source topic -> discovery config already published
+    protected knownSources: Map<string, {type: string, name: string}> = new Map();
+    // source topic -> platform id of most recently updated player
+    protected currentPlatforms: Map<string, string> = new Map();
+
+    constructor(config: Partial<MqttConfig>, clientEmitter: EventEmitter, sourceEmitter: EventEmitter, parentLogger: Logger) {
+        this.clientEmitter = clientEmitter;
+        this.sourceEmitter = sourceEmitter;
+        this.logger = childLogger(parentLogger, 'MQTT');
+
+        const {
+            url = process.env.MQTT_URL,
+            username = process.env.MQTT_USERNAME,
+            password = process.env.MQTT_PASSWORD,
+            topicPrefix = process.env.MQTT_TOPIC_PREFIX ?? MQTT_DEFAULT_PREFIX,
+            homeAssistant: {
+                discovery = parseBool(process.env.MQTT_HA_DISCOVERY, true),
+                discoveryPrefix = MQTT_DEFAULT_DISCOVERY_PREFIX
+            } = {},
+            ...rest
+        } = config;
+        this.config = {...rest, url, username, password, topicPrefix, homeAssistant: {discovery, discoveryPrefix}};
+        this.prefix = topicPrefix.replace(/\/+$/, '');
+        this.discovery = discovery;
+        this.discoveryPrefix = discoveryPrefix.replace(/\/+$/, '');
+    }
+
+    get availabilityTopic() {
+        return `${this.prefix}/status`;
+    }
+
+    init = async () => {
+        const {
+            url,
+            username,
+            password,
+            clientId = MQTT_DEFAULT_PREFIX,
+        } = this.config;
+        if (url === undefined) {
+            throw new Error(`'url' must be defined in MQTT configuration`);
+        }
+
+        this.client = mqtt.connect(url, {
+            username,
+            password,
+            clientId,
+            will: {topic: this.availabilityTopic, payload: Buffer.from('offline'), retain: true, qos: 1}
+        });
+
+        this.client.on('connect', async () => {
+            this.logger.verbose(`Connected to ${url}`);
+            await this.publish(this.availabilityTopic, 'online', true);
+            // broker may not persist retained messages across restarts
+            for(const [topic, source] of this.knownSources.entries()) {
+                await this.publishDiscovery(topic, source.type, source.name);
+            }
+        });
+        this.client.on('error', (e) => {
+            this.logger.warn(new Error('MQTT client error', {cause: e}));
+        });
+        this.client.on('offline', () => {
+            this.logger.verbose('Disconnected from broker, will keep trying to reconnect');
+        });
+
+        this.sourceEmitter.on('statusChange', async (payload: ComponentEventPayload<{status: string}>) => {
+            await this.registerSource(payload.type, payload.name);
+        });
+        this.sourceEmitter.on('playerUpdate', async (payload: ComponentEventPayload<SourcePlayerObj>) => {
+            await this.handlePlayerUpdate(payload);
+        });
+        this.sourceEmitter.on('playerDelete', async (payload: ComponentEventPayload<{platformId: string}>) => {
+            await this.handlePlayerDelete(payload);
+        });
+        this.clientEmitter.on('nowPlayingUpdated', async (payload: ComponentEventPayload<SourcePlayerObj>) => {
+            await this.publish(`${this.componentTopic('client', payload.type, payload.name)}/nowPlaying`, serializePlayer(payload.data), true);
+        });
+        this.clientEmitter.on('scrobble', async (payload: ComponentEventPayload<{play: PlayObject}>) => {
+            await this.publish(`${this.componentTopic('client', payload.type, payload.name)}/scrobble`, serializePlay(payload.data.play));
+        });
+    }
+
+    destroy = async () => {
+        if(this.client !== undefined) {
+            await this.publish(this.availabilityTopic, 'offline', true);
+            await this.client.endAsync();
+        }
+    }
+
+    componentTopic = (role: 'source' | 'client', type: string, name: string) => `${this.prefix}/${role}/${topicSafe(type)}/${topicSafe(name)}`;
+
+    protected registerSource = async (type: string, name: string): Promise<string> => {
+        const sourceTopic = this.componentTopic('source', type, name);
+        if(!this.knownSources.has(sourceTopic)) {
+            this.knownSources.set(sourceTopic, {type, name});
+            await this.publishDiscovery(sourceTopic, type, name);
+        }
+        return sourceTopic;
+    }
+
+    protected handlePlayerUpdate = async (payload: ComponentEventPayload<SourcePlayerObj>) => {
+        const sourceTopic = await this.registerSource(payload.type, payload.name);
+        const player = payload.data;
+        this.currentPlatforms.set(sourceTopic, player.platformId);
+        await this.publish(`${sourceTopic}/player/${topicSafe(player.platformId)}`, serializePlayer(player), true);
+        await this.publish(`${sourceTopic}/state`, playerToState(player), true);
+    }
+
+    protected handlePlayerDelete = async (payload: ComponentEventPayload<{platformId: string}>) => {
+        const sourceTopic = this.componentTopic('source', payload.type, payload.name);
+        // empty retained message removes it from the broker
+        await this.publish(`${sourceTopic}/player/${topicSafe(payload.data.platformId)}`, '', true);
+        if(this.currentPlatforms.get(sourceTopic) === payload.data.platformId) {
+            this.currentPlatforms.delete(sourceTopic);
+            await this.publish(`${sourceTopic}/state`, {status: 'stopped', updatedAt: new Date().toISOString()} as MqttSourceState, true);
+        }
+    }
+
+    protected publishDiscovery = async (sourceTopic: string, type: string, name: string) => {
+        if(!this.discovery) {
+            return;
+        }
+        const objectId = `source_${topicSafe(type)}_${topicSafe(name)}`;
+        const config = {
+            name: `${name} (${type})`,
+            unique_id: `${topicSafe(MQTT_DEFAULT_PREFIX)}_${topicSafe(this.prefix)}_${objectId}`,
+            object_id: `${topicSafe(MQTT_DEFAULT_PREFIX)}_${objectId}`,
+            state_topic: `${sourceTopic}/state`,
+            value_template: '{{ value_json.status }}',
+            json_attributes_topic: `${sourceTopic}/state`,
+            availability_topic: this.availabilityTopic,
+            icon: 'mdi:music',
+            device: {
+                identifiers: [`${topicSafe(MQTT_DEFAULT_PREFIX)}_${topicSafe(this.prefix)}`],
+                name: 'Multi-Scrobbler',
+                manufacturer: 'multi-scrobbler',
+            }
+        };
+        await this.publish(`${this.discoveryPrefix}/sensor/${topicSafe(MQTT_DEFAULT_PREFIX)}/${objectId}/config`, config, true);
+    }
+
+    protected publish = async (topic: string, payload: string | object, retain: boolean = false) => {
+        if(this.client === undefined) {
+            return;
+        }
+        try {
+            await this.client.publishAsync(topic, typeof payload === 'string' ? payload : JSON.stringify(payload), {retain, qos: this.config.qos ?? 0});
+        } catch (e) {
+            this.logger.warn(new Error(`Failed to publish to ${topic}`, {cause: e}));
+        }
+    }
+}
+
+export const topicSafe = (str: string) => str.toLowerCase().replace(/[^a-z0-9_-]+/g, '_');
+
+const serializePlayer = (player: SourcePlayerObj): object => {
+    const {play, ...rest} = player;
+    return {...rest, play: play !== undefined ? serializePlay(play) : undefined};
+}
+
+export const playerToState = (player: SourcePlayerObj): MqttSourceState => {
+    const state: MqttSourceState = {
+        status: player.status.calculated,
+        platformId: player.platformId,
+        position: player.position,
+        listenedDuration: player.listenedDuration,
+        updatedAt: player.playerLastUpdatedAt,
+    };
+    if(player.play !== undefined) {
+        const {track, artists = [], album, duration, playDate} = player.play.data;
+        state.track = track;
+        state.artists = artists.join(', ');
+        state.album = album;
+        state.duration = duration;
+        state.playDate = playDate?.toISOString();
+        state.trackString = buildTrackString(player.play, {include: ['artist', 'track']});
+    }
+    return state;
+}
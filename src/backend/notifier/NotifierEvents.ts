@@ -0,0 +1,20 @@
+import { PlayObject } from "../../core/Atomic.js";
+
+export interface ComponentEventPayload<T, From extends 'source' | 'client' = 'source' | 'client'> {
+    data: T
+    type: string
+    name: string
+    from: From
+}
+
+export type ClientEventPayload<T> = ComponentEventPayload<T, 'client'>;
+
+/**
+ * Copy of a Play that is safe to serialize for webhooks and MQTT
+ *
+ * Lifecycle is removed because it can contain references back to the Play and isn't useful to templates or subscribers
+ * */
+export const serializePlay = (play: PlayObject): object => {
+    const {lifecycle, ...meta} = play.meta;
+    return JSON.parse(JSON.stringify({...play, meta}));
+}
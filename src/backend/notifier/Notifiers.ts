@@ -1,7 +1,10 @@
 import { childLogger, Logger } from '@foxxmd/logging';
 import { EventEmitter } from "events";
+import { DeadLetterScrobble, PlayObject, SourcePlayerObj } from "../../core/Atomic.js";
+import { buildTrackString } from "../../core/StringUtils.js";
 import {
     AppriseConfig,
+    GenericWebhookConfig,
     GotifyConfig,
     NtfyConfig,
     WebhookConfig,
@@ -9,7 +12,9 @@ import {
 } from "../common/infrastructure/config/health/webhooks.js";
 import { AbstractWebhookNotifier } from "./AbstractWebhookNotifier.js";
 import { AppriseWebhookNotifier } from "./AppriseWebhookNotifier.js";
+import { GenericWebhookNotifier } from "./GenericWebhookNotifier.js";
 import { GotifyWebhookNotifier } from "./GotifyWebhookNotifier.js";
+import { ClientEventPayload } from "./NotifierEvents.js";
 import { NtfyWebhookNotifier } from "./NtfyWebhookNotifier.js";
 
 export class Notifiers {
@@ -32,7 +37,38 @@ export class Notifiers {
 
         this.sourceEmitter.on('notify', async (payload: WebhookPayload) => {
             await this.notify(payload);
-        })
+        });
+
+        this.clientEmitter.on('scrobble', async (payload: ClientEventPayload<{ play: PlayObject }>) => {
+            await this.notify({
+                event: 'scrobble',
+                title: `Client - ${payload.type} - ${payload.name} - Scrobbled`,
+                message: `Scrobbled => ${buildTrackString(payload.data.play)}`,
+                priority: 'info',
+                component: {type: payload.type, name: payload.name, role: 'client'},
+                play: payload.data.play
+            });
+        });
+        this.clientEmitter.on('nowPlayingUpdated', async (payload: ClientEventPayload<SourcePlayerObj>) => {
+            await this.notify({
+                event: 'nowPlaying',
+                title: `Client - ${payload.type} - ${payload.name} - Now Playing`,
+                message: payload.data.play !== undefined ? `Now Playing => ${buildTrackString(payload.data.play)}` : 'Now Playing updated',
+                priority: 'info',
+                component: {type: payload.type, name: payload.name, role: 'client'},
+                play: payload.data.play
+            });
+        });
+        this.clientEmitter.on('deadLetter', async (payload: ClientEventPayload<{ dead: DeadLetterScrobble<PlayObject> }>) => {
+            await this.notify({
+                event: 'deadLetter',
+                title: `Client - ${payload.type} - ${payload.name} - Dead Letter`,
+                message: `Failed to scrobble => ${buildTrackString(payload.data.dead.play)} | Error: ${payload.data.dead.error}`,
+                priority: 'warn',
+                component: {type: payload.type, name: payload.name, role: 'client'},
+                play: payload.data.dead.play
+            });
+        });
     }
 
     buildWebhooks = async (webhookConfigs: WebhookConfig[]) => {
@@ -49,6 +85,9 @@ export class Notifiers {
                 case 'apprise':
                     webhook = new AppriseWebhookNotifier(defaultName, config as AppriseConfig, this.logger);
                     break;
+                case 'webhook':
+                    webhook = new GenericWebhookNotifier(defaultName, config as GenericWebhookConfig, this.logger);
+                    break;
                 default:
                     this.logger.error(`'${config.type}' is not a valid webhook type`);
                     continue;
@@ -7,6 +7,7 @@ import { MarkOptional } from "ts-essentials";
 import {
     DeadLetterScrobble,
     NowPlayingUpdateThreshold,
+    ObjectPlayData,
     PlayObject,
     PlayObjectLifecycleless,
     QueuedScrobble, ScrobbleActionResult, PlayMatchResult, SourcePlayerObj, TA_DURING,
@@ -28,6 +29,7 @@ import {
     PaginatedTimeRangeOptions,
     REFRESH_STALE_DEFAULT,
     ScrobbledPlayObject,
+    ScrobbleResultStatus,
     SourceIdentifier,
     TIME_WEIGHT,
     TimeRangeListensFetcher,
@@ -60,8 +62,18 @@ import { getRoot } from "../ioc.js";
 import { rehydratePlay } from "../utils/CacheUtils.js";
 import { findAsyncSequential, staggerMapper } from "../utils/AsyncUtils.js";
 import pMap, { pMapIterable } from "p-map";
-import { comparePlayArtistsNormalized, comparePlayTracksNormalized, lifecyclelessInvariantTransform } from "../utils/PlayComparisonUtils.js";
+import {
+    comparePlayArtistsNormalized,
+    comparePlayTracksNormalized,
+    CROSS_SOURCE_DEDUPE_WINDOW,
+    crossSourcePlayMatch,
+    getSourcePriority,
+    lifecyclelessInvariantTransform
+} from "../utils/PlayComparisonUtils.js";
 import { normalizeStr } from "../utils/StringUtils.js";
+import { defaultLifecycle } from "../utils/PlayTransformUtils.js";
+import { jdiff } from "../utils/DataUtils.js";
+import { classifyScrobbleError, getNextDeadLetterRetry, getRetryAfter } from "../utils/DeadLetterUtils.js";
 import prom, { Counter, Gauge } from 'prom-client';
 import { ScrobbleSubmitError, SimpleError } from "../common/errors/MSErrors.js";
 import {serializeError} from 'serialize-error';
@@ -98,6 +110,8 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
     userScrobblingStopSignal: undefined | any;
     queuedScrobbles: QueuedScrobble<PlayObject>[] = [];
     deadLetterScrobbles: DeadLetterScrobble<PlayObject>[] = [];
+    /** Recently queued Plays used to detect the same Play from different Sources */
+    protected sourceQueuedPlays: FixedSizeList<QueuedScrobble<PlayObject>> = new FixedSizeList<QueuedScrobble<PlayObject>>(100);
 
     supportsNowPlaying: boolean = false;
     nowPlayingEnabled: boolean;
@@ -111,6 +125,9 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
     npLogger: Logger;
     dupeLogger: Logger;
 
+    supportsLove: boolean = false;
+    syncLoved: boolean;
+
     declare config: CommonClientConfig;
 
     notifier: Notifiers;
@@ -139,6 +156,7 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
                 refreshMinInterval = 5,
                 refreshStaleAfter = REFRESH_STALE_DEFAULT,
                 checkExistingScrobbles = true,
+                syncLoved = false,
                 verbose = {},
             } = {},
         } = this.config
@@ -153,6 +171,7 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
             this.upstreamRefresh.refreshMinInterval = refreshStaleAfter * 1000;
         }
         this.checkExistingScrobbles = checkExistingScrobbles;
+        this.syncLoved = syncLoved;
 
         const {
             match: {
@@ -328,7 +347,13 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
 
         const cachedDead = (await this.cache.cacheScrobble.get(`${this.getMachineId()}-dead`) as DeadLetterScrobble<PlayObject>[] ?? []);
         const cachedDLength = cachedDead.length;
-        this.deadLetterScrobbles = cachedDead.map(x => ({...x, play: rehydratePlay(x.play), lastRetry: x.lastRetry !== undefined ? dayjs(x.lastRetry) : undefined}));
+        this.deadLetterScrobbles = cachedDead.map(x => ({
+            ...x,
+            play: rehydratePlay(x.play),
+            lastRetry: x.lastRetry !== undefined ? dayjs(x.lastRetry) : undefined,
+            erroredAt: x.erroredAt !== undefined ? dayjs(x.erroredAt) : undefined,
+            nextRetry: x.nextRetry !== undefined ? dayjs(x.nextRetry) : undefined
+        }));
 
         return `Scrobbles from Cache: ${cachedQLength} Queue | ${cachedDLength} Dead Letter`;
     }
@@ -386,15 +411,19 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         this.scrobbleSOTRanges = groupPlaysToTimeRanges(this.queuedScrobbles.map(x => x.play).concat(this.deadLetterScrobbles.map(x => x.play)), this.scrobbleSOTRanges, {staleNowBuffer: this.config.options?.refreshStaleAfter});
     }
 
-    getSOTScrobblesForPlay = async (play: PlayObject): Promise<PlayObject[]> => {
-        let range: PaginatedTimeRangeOptions = this.scrobbleSOTRanges.find(x => x.from <= play.data.playDate.unix() && x.to > Math.min(dayjs().subtract(this.config.options?.refreshStaleAfter ?? REFRESH_STALE_DEFAULT, 's').unix(), play.data.playDate.unix()));
+    /**
+     * @param ranges Time ranges to find the play's range in, defaults to the Client's refresh ranges
+     * @param cacheResult If false upstream scrobbles (or errors) fetched for the range are not cached
+     * */
+    getSOTScrobblesForPlay = async (play: PlayObject, ranges: PaginatedTimeRangeOptions[] = this.scrobbleSOTRanges, cacheResult: boolean = true): Promise<PlayObject[]> => {
+        let range: PaginatedTimeRangeOptions = ranges.find(x => x.from <= play.data.playDate.unix() && x.to > Math.min(dayjs().subtract(this.config.options?.refreshStaleAfter ?? REFRESH_STALE_DEFAULT, 's').unix(), play.data.playDate.unix()));
         if(range === undefined) {
             this.logger.warn(`No Scrobble SOT range found! Should have been handled before this. Creating a new one for ${buildTrackString(play)}`);
             range = {
                 from: play.data.playDate.subtract(DEFAULT_NEW_PADDING).unix(), 
                 to: Math.min(play.data.playDate.add(DEFAULT_NEW_PADDING).unix(), dayjs().subtract(this.config.options?.refreshStaleAfter ?? REFRESH_STALE_DEFAULT, 's').unix()) 
             };
-            this.scrobbleSOTRanges.push(range);
+            ranges.push(range);
         }
         const cachedPlaysRes = await this.cache.cacheClientScrobbles.get<PlayObject[] | Error>(this.getScrobbleCacheKey(range.from, range.to));
         if(cachedPlaysRes instanceof Error) {
@@ -406,10 +435,14 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         try {
             const plays = await this.getScrobblesForTimeRange(range);
             plays.sort(sortByOldestPlayDate);
-            await this.cache.cacheClientScrobbles.set<PlayObject[] | Error>(this.getScrobbleCacheKey(range.from, range.to), plays, (this.config.options?.refreshStaleAfter ?? REFRESH_STALE_DEFAULT) * 1000);
+            if(cacheResult) {
+                await this.cache.cacheClientScrobbles.set<PlayObject[] | Error>(this.getScrobbleCacheKey(range.from, range.to), plays, (this.config.options?.refreshStaleAfter ?? REFRESH_STALE_DEFAULT) * 1000);
+            }
             return plays;
         } catch (e) {
-            await this.cache.cacheClientScrobbles.set<PlayObject[] | Error>(this.getScrobbleCacheKey(range.from, range.to), e, '10s');
+            if(cacheResult) {
+                await this.cache.cacheClientScrobbles.set<PlayObject[] | Error>(this.getScrobbleCacheKey(range.from, range.to), e, '10s');
+            }
             throw new SimpleError('Cannot get historical plays', {cause: e, shortStack: true});
         }
     }
@@ -418,6 +451,29 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         return [result.match, result];
     }
 
+    /**
+     * Compare a Play against this Client's existing scrobbles the same way a queued Play is compared, without scrobbling it
+     *
+     * @returns The match result, with every compared existing scrobble, and the candidate Play after preCompare transforms
+     * */
+    public explainMatch = async (playObj: PlayObject): Promise<PlayMatchResult & {play: PlayObject}> => {
+        const candidate: PlayObject = playObj.meta.lifecycle !== undefined ? playObj : {
+            ...playObj,
+            meta: {
+                ...playObj.meta,
+                lifecycle: {original: {data: {...playObj.data}, meta: {...playObj.meta}}, steps: []}
+            }
+        };
+        const play = await this.transformPlay(candidate, TRANSFORM_HOOK.preCompare);
+        let existing: PlayObject[] = [];
+        if(this.upstreamRefresh.refreshEnabled) {
+            // explaining must not change the ranges or cache used when scrobbling
+            const ranges = groupPlaysToTimeRanges([play], this.scrobbleSOTRanges, {staleNowBuffer: this.config.options?.refreshStaleAfter});
+            existing = await this.getSOTScrobblesForPlay(play, ranges, false);
+        }
+        return {...(await this.existingScrobble(play, existing, false, true)), play};
+    }
+
     formatPlayObj = (obj: any, options: FormatPlayObjectOptions = {}) => {
         this.logger.warn('formatPlayObj should be defined by concrete class!');
         return obj;
@@ -452,14 +508,21 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         return [matchPlayDate, dtInvariantMatches];
     }
 
-    existingScrobble = async (playObjPre: PlayObject, existingScrobbles: PlayObject[], log: boolean = true): Promise<PlayMatchResult> => {
+    /**
+     * @param explain If true the result includes every compared existing scrobble. Only used when explaining a match since the result is otherwise stored in the Play's lifecycle
+     * */
+    existingScrobble = async (playObjPre: PlayObject, existingScrobbles: PlayObject[], log: boolean = true, explain: boolean = false): Promise<PlayMatchResult> => {
 
         const result: PlayMatchResult = {
             match: false,
             score: 0,
             breakdowns: [],
-            reason: 'No existing scrobble matched with a score higher than 0'
+            reason: 'No existing scrobble matched with a score higher than 0',
+            threshold: DUP_SCORE_THRESHOLD,
         };
+        if(explain) {
+            result.comparisons = [];
+        }
 
         const playObj = await this.transformPlay(playObjPre, TRANSFORM_HOOK.candidate);
         if(this.transformRules.compare?.candidate !== undefined) {
@@ -573,6 +636,34 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
 
                 const confidence = `Score ${score.toFixed(2)} => ${score >= DUP_SCORE_THRESHOLD ? 'Matched!' : 'No Match'}`
 
+                if(explain) {
+                    result.comparisons.push({
+                        play: lifecyclelessInvariantTransform(x),
+                        artist: {
+                            similarity: artistMatch,
+                            weight: ARTIST_WEIGHT,
+                            score: artistScore,
+                            wholeMatches,
+                            wholeMatchBonus: artistWholeMatchBonus > 0 ? artistWholeMatchBonus : undefined
+                        },
+                        title: {
+                            similarity: titleMatch,
+                            weight: TITLE_WEIGHT,
+                            score: titleScore
+                        },
+                        time: {
+                            similarity: timeMatch,
+                            weight: TIME_WEIGHT,
+                            score: timeScore,
+                            accuracy: temporalComparison.match,
+                            accuracyName: temporalAccuracyToString(temporalComparison.match),
+                            detail: temporalPlayComparisonSummary(temporalComparison, x, playObj)
+                        },
+                        score,
+                        match: score >= DUP_SCORE_THRESHOLD
+                    });
+                }
+
                 if (result.score <= score && score > 0) {
                     result.reason = confidence;
                     result.closestMatchedPlay = x;
@@ -621,15 +712,17 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         }
         try {
             const result = await this.doScrobble(playObj);
+            const loveResult = await this.love(playObj);
             const {
                 scrobble = {},
             } = playObj.meta.lifecycle;
             playObj.meta.lifecycle.scrobble = {
                 ...scrobble,
                 payload: result.payload,
-                warnings: result.warnings,
+                warnings: typeof loveResult === 'string' ? [...(result.warnings ?? []), loveResult] : result.warnings,
                 response: result.response,
-                mergedScrobble: result.mergedScrobble !== undefined ? lifecyclelessInvariantTransform(result.mergedScrobble) : undefined
+                mergedScrobble: result.mergedScrobble !== undefined ? lifecyclelessInvariantTransform(result.mergedScrobble) : undefined,
+                loved: loveResult === true ? true : undefined
             }
             return playObj;
         } finally {
@@ -639,6 +732,29 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
 
     protected abstract doScrobble(playObj: PlayObject): Promise<ScrobbleActionResult & {play?: PlayObject}>
 
+    /**
+     * Love the track on this Client if the Play was loved in its Source
+     *
+     * Failing to love a track does not fail the scrobble, the error is returned as a warning instead
+     *
+     * @returns true if loved, false if not applicable, or a warning message if loving failed
+     * */
+    protected love = async (playObj: PlayObject): Promise<boolean | string> => {
+        if(!this.supportsLove || !this.syncLoved || playObj.meta.loved !== true) {
+            return false;
+        }
+        try {
+            await this.doLove(playObj);
+            this.logger.verbose(`Loved => ${buildTrackString(playObj)}`);
+            return true;
+        } catch (e) {
+            this.logger.warn(new Error(`Could not love ${buildTrackString(playObj)}`, {cause: e}));
+            return `Could not love track: ${e.message}`;
+        }
+    }
+
+    protected doLove = (playObj: PlayObject): Promise<unknown> => Promise.resolve(undefined)
+
     public abstract playToClientPayload(playObject: PlayObject): object
 
     initScrobbleMonitoring = async (options: {force?: boolean, notify?: boolean} = {}) => {
@@ -730,6 +846,13 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         return true;
     }
 
+    public async destroy() {
+        this.scheduler.stop();
+        if(this.scrobbling) {
+            await this.tryStopScrobbling();
+        }
+    }
+
     protected doStopScrobbling = (reason: string = 'system') => {
         this.scrobbling = false;
         this.userScrobblingStopSignal = undefined;
@@ -803,6 +926,7 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
                                 const scrobbledPlay = await this.scrobble(transformedScrobble);
                                 this.emitEvent('scrobble', {play: transformedScrobble});
                                 this.addScrobbledTrack(scrobbledPlay, scrobbledPlay.meta.lifecycle.scrobble.mergedScrobble ?? scrobbledPlay);
+                                this.recordScrobbleResult(scrobbledPlay, currQueuedPlay.source, 'scrobbled');
                             } catch (e) {
                                 currQueuedPlay.play.meta.lifecycle.scrobble = {
                                 };
@@ -826,6 +950,8 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
                                     throw new Error('Error occurred while trying to scrobble', {cause: e});
                                 }
                             }
+                        } else {
+                            this.recordScrobbleResult(currQueuedPlay.play, currQueuedPlay.source, 'duplicate');
                         }
                     }
                     this.updateQueuedScrobblesCache();
@@ -850,22 +976,37 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         }
     }
 
-    processDeadLetterQueue = async (attemptWithRetries?: number) => {
+    /**
+     * Retry scrobbles in the dead letter queue
+     *
+     * When attemptWithRetries is not given (heartbeat) scrobbles are retried based on why they failed:
+     *
+     * * rejected scrobbles are never retried
+     * * scrobbles that failed due to invalid credentials are retried once the client has re-authenticated
+     * * rate limited or network/upstream failures are retried once their backoff has elapsed
+     * * anything else is retried until it has been retried deadLetterRetries times
+     *
+     * When attemptWithRetries is given (user requested) any selected scrobble with less than attemptWithRetries retries is processed.
+     * */
+    processDeadLetterQueue = async (attemptWithRetries?: number, ids?: string[]) => {
 
         if (this.deadLetterScrobbles.length === 0) {
             return;
         }
 
-        const {
-            options: {
-                deadLetterRetries = 1
-            } = {}
-        } = this.config;
-
-        const retries = attemptWithRetries ?? deadLetterRetries;
+        const now = dayjs();
+        let isProcessable: (x: DeadLetterScrobble<PlayObject>) => boolean;
+        let reason: string;
+        if(attemptWithRetries !== undefined) {
+            isProcessable = (x: DeadLetterScrobble<PlayObject>) => x.retries < attemptWithRetries && (ids === undefined || ids.includes(x.id));
+            reason = `have less than ${attemptWithRetries} retries`;
+        } else {
+            isProcessable = (x: DeadLetterScrobble<PlayObject>) => this.isDeadLetterRetryDue(x, now) && (ids === undefined || ids.includes(x.id));
+            reason = 'are due for retry';
+        }
 
-        const processable = this.deadLetterScrobbles.filter(x => x.retries < retries);
-        const queueStatus = `${processable.length} of ${this.deadLetterScrobbles.length} dead scrobbles have less than ${retries} retries, ${processable.length === 0 ? 'will skip processing.': 'processing now...'}`;
+        const processable = this.deadLetterScrobbles.filter(isProcessable);
+        const queueStatus = `${processable.length} of ${this.deadLetterScrobbles.length} dead scrobbles ${ids !== undefined ? 'were selected and ' : ''}${reason}, ${processable.length === 0 ? 'will skip processing.': 'processing now...'}`;
         if (processable.length === 0) {
             this.logger.verbose({labels: 'Dead Letter'}, queueStatus);
             return;
@@ -877,8 +1018,9 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         this.handleQueuedScrobbleRanges();
 
         const removedIds = [];
-        for (const deadScrobble of this.deadLetterScrobbles) {
-            if (deadScrobble.retries < retries) {
+        // iterate over a copy since scrobbled plays are removed from the queue while processing
+        for (const deadScrobble of [...this.deadLetterScrobbles]) {
+            if (isProcessable(deadScrobble)) {
                 const [scrobbled, dead] = await this.processDeadLetterScrobble(deadScrobble.id);
                 if (scrobbled) {
                     removedIds.push(deadScrobble.id);
@@ -890,6 +1032,44 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         }
     }
 
+    /**
+     * Whether a dead letter scrobble should be retried automatically, based on the category of error it failed with
+     * */
+    protected isDeadLetterRetryDue = (dead: DeadLetterScrobble<PlayObject>, now: Dayjs = dayjs()): boolean => {
+        switch (dead.errorCategory) {
+            case 'rejected':
+                return false;
+            case 'auth':
+                return this.authedAt !== undefined && (dead.erroredAt === undefined || this.authedAt.isAfter(dead.erroredAt));
+            case 'rateLimit':
+            case 'network':
+                return dead.nextRetry === undefined || !dead.nextRetry.isAfter(now);
+            default: {
+                const {
+                    options: {
+                        deadLetterRetries = 1
+                    } = {}
+                } = this.config;
+                return dead.retries < deadLetterRetries && (dead.nextRetry === undefined || !dead.nextRetry.isAfter(now));
+            }
+        }
+    }
+
+    /**
+     * Record why a dead letter scrobble failed and when it should next be retried
+     * */
+    protected setDeadLetterError = (dead: DeadLetterScrobble<PlayObject>, error: Error | string) => {
+        const {
+            options: {
+                deadLetterRetries = 1
+            } = {}
+        } = this.config;
+        dead.error = typeof error === 'string' ? error : messageWithCauses(error);
+        dead.errorCategory = classifyScrobbleError(error);
+        dead.erroredAt = dayjs();
+        dead.nextRetry = getNextDeadLetterRetry(dead.errorCategory, dead.retries, deadLetterRetries, typeof error === 'string' ? undefined : getRetryAfter(error), dead.erroredAt);
+    }
+
     processDeadLetterScrobble = async (id: string): Promise<[boolean, DeadLetterScrobble<PlayObject>?]> => {
         const deadScrobbleIndex = this.deadLetterScrobbles.findIndex(x => x.id === id);
         const deadScrobble = this.deadLetterScrobbles[deadScrobbleIndex];
@@ -910,10 +1090,11 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
                     this.logger.warn(new SimpleError(`${buildTrackString(deadScrobble.play)} from Source '${deadScrobble.source}' => cannot get historical scrobbles`, {cause: e, shortStack: true}));
                 }
                 deadScrobble.retries++;
-                deadScrobble.error = messageWithCauses(e);
                 deadScrobble.lastRetry = dayjs();
+                this.setDeadLetterError(deadScrobble, e);
                 this.deadLetterScrobbles[deadScrobbleIndex] = deadScrobble;
                 this.updateDeadLetterCache();
+                this.recordScrobbleResult(deadScrobble.play, deadScrobble.source, 'failed', deadScrobble.error);
                 return [false, deadScrobble];
             } finally {
                 await sleep(1000);
@@ -937,6 +1118,7 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
                 const scrobbledPlay = await this.scrobble(transformedScrobble);
                 this.emitEvent('scrobble', {play: transformedScrobble});
                 this.addScrobbledTrack(transformedScrobble, scrobbledPlay);
+                this.recordScrobbleResult(scrobbledPlay, deadScrobble.source, 'scrobbled');
             } catch (e) {
 
                 const submitError = findCauseByReference(e, ScrobbleSubmitError);
@@ -950,15 +1132,18 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
                 }
 
                 deadScrobble.retries++;
-                deadScrobble.error = messageWithCauses(e);
                 deadScrobble.lastRetry = dayjs();
+                this.setDeadLetterError(deadScrobble, e);
                 this.logger.error(new Error(`Could not scrobble ${buildTrackString(transformedScrobble)} from Source '${deadScrobble.source}' due to error`, {cause: e}));
                 this.deadLetterScrobbles[deadScrobbleIndex] = deadScrobble;
                 this.updateDeadLetterCache();
+                this.recordScrobbleResult(deadScrobble.play, deadScrobble.source, 'failed', deadScrobble.error);
                 return [false, deadScrobble];
             } finally {
                 await sleep(1000);
             }
+        } else {
+            this.recordScrobbleResult(deadScrobble.play, deadScrobble.source, 'duplicate');
         }
         if(deadScrobble !== undefined) {
             this.removeDeadLetterScrobble(deadScrobble.id)
@@ -978,11 +1163,62 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         this.updateDeadLetterCache();
     }
 
-    removeDeadLetterScrobbles = () => {
-        this.deadLetterScrobbles = [];
+    removeDeadLetterScrobbles = (ids?: string[]) => {
+        const before = this.deadLetterScrobbles.length;
+        this.deadLetterScrobbles = ids === undefined ? [] : this.deadLetterScrobbles.filter(x => !ids.includes(x.id));
         this.updateDeadLetterCache();
         this.deadLetterGauge.labels(this.getPrometheusLabels()).set(this.deadLetterScrobbles.length);
-        this.logger.info('Removed all scrobbles from queue', {leaf: 'Dead Letter'});
+        if(ids === undefined) {
+            this.logger.info('Removed all scrobbles from queue', {leaf: 'Dead Letter'});
+        } else {
+            this.logger.info(`Removed ${before - this.deadLetterScrobbles.length} selected scrobbles from queue`, {leaf: 'Dead Letter'});
+        }
+    }
+
+    /**
+     * Correct the data of a dead letter scrobble before it is retried
+     *
+     * Properties in data with an undefined value are removed from the Play. The edit is recorded as a lifecycle step and retries are reset so the scrobble can be processed by the dead letter queue again.
+     *
+     * @returns The edited dead letter scrobble, or undefined if no scrobble with the ID exists
+     * */
+    editDeadLetterScrobble = (id: string, data: Partial<ObjectPlayData>): DeadLetterScrobble<PlayObject> | undefined => {
+        const index = this.deadLetterScrobbles.findIndex(x => x.id === id);
+        if (index === -1) {
+            return undefined;
+        }
+        const deadScrobble = this.deadLetterScrobbles[index];
+        const {play} = deadScrobble;
+
+        const editedData: ObjectPlayData = {...play.data, ...data};
+        for(const [k, v] of Object.entries(data)) {
+            if(v === undefined) {
+                delete editedData[k];
+            }
+        }
+        const edited: PlayObject = {...play, data: editedData};
+        const lifecycle = defaultLifecycle(play.meta.lifecycle);
+        edited.meta = {
+            ...play.meta,
+            lifecycle: {
+                ...lifecycle,
+                steps: [
+                    ...lifecycle.steps,
+                    {
+                        name: 'edit',
+                        source: 'User',
+                        patch: jdiff.diff(JSON.parse(JSON.stringify(play)), JSON.parse(JSON.stringify(edited)))
+                    }
+                ]
+            }
+        };
+
+        this.logger.info(`Edited scrobble ${buildTrackString(play)} => ${buildTrackString(edited)}`, {leaf: 'Dead Letter'});
+        const editedDead: DeadLetterScrobble<PlayObject> = {...deadScrobble, play: edited, retries: 0, errorCategory: undefined, nextRetry: undefined};
+        this.deadLetterScrobbles[index] = editedDead;
+        this.deadLetterScrobbles.sort((a, b) => sortByOldestPlayDate(a.play, b.play));
+        this.updateDeadLetterCache();
+        return editedDead;
     }
 
     protected getLatestQueuePlayDate = () => {
@@ -996,6 +1232,18 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         const plays = Array.isArray(data) ? data : [data];
         const sm = staggerMapper<PlayObject, PlayObject>({concurrency: 2});
         for await(const play of pMapIterable(plays, sm(async x => await this.transformPlay(x, TRANSFORM_HOOK.preCompare)), {concurrency: 2})) {
+            const filteredPlay = this.filterPlay(play);
+            if(filteredPlay !== undefined) {
+                this.logger.verbose(`Not adding to queue because it was filtered => ${buildTrackString(filteredPlay)} | ${filteredPlay.meta.lifecycle.filtered.reason}`);
+                this.recordScrobbleResult(filteredPlay, source, 'filtered');
+                continue;
+            }
+            const kept = this.dedupeCrossSource(play, source);
+            if(kept !== undefined) {
+                this.logger.verbose(`Not adding to queue because it is a duplicate of a Play from '${kept.source}' => ${buildTrackString(play)}`);
+                this.recordCrossSourceDuplicate(play, source, kept);
+                continue;
+            }
             try {
                 const existingQueued = await this.existingScrobble(play, this.queuedScrobbles.map(x => x.play), false);
                 // want to be very confident of this
@@ -1007,6 +1255,7 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
                 this.logger.warn(new SimpleError('Failed to check queued scrobble for existing before adding', {cause: e}));
             }
             const queuedPlay = {id: nanoid(), source, play: play}
+            this.sourceQueuedPlays.add(queuedPlay);
             this.emitEvent('scrobbleQueued', {queuedPlay: queuedPlay});
             this.queuedScrobbles.push(queuedPlay);
             this.queuedGauge.labels(this.getPrometheusLabels()).inc();
@@ -1016,6 +1265,56 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
         this.updateQueuedScrobblesCache();
     }
 
+    /**
+     * Find a recently queued Play from a different Source that is the same as the candidate Play
+     *
+     * If the existing Play has not been scrobbled yet and the candidate's Source has a higher priority then the existing Play is removed from the queue.
+     *
+     * Returns the existing Play if the candidate should NOT be queued
+     * */
+    protected dedupeCrossSource = (play: PlayObject, source: string): QueuedScrobble<PlayObject> | undefined => {
+        const {
+            enable = false,
+            window = CROSS_SOURCE_DEDUPE_WINDOW,
+            sourcePriority = []
+        } = this.config.options?.dedupe ?? {};
+        if(!enable) {
+            return undefined;
+        }
+        const existing = this.sourceQueuedPlays.data.find(x => x.source !== source && crossSourcePlayMatch(x.play, play, {window}));
+        if(existing === undefined) {
+            return undefined;
+        }
+        const queuedIndex = this.queuedScrobbles.findIndex(x => x.id === existing.id);
+        if(queuedIndex === -1 || getSourcePriority(source, sourcePriority) >= getSourcePriority(existing.source, sourcePriority)) {
+            return existing;
+        }
+        const [replaced] = this.queuedScrobbles.splice(queuedIndex, 1);
+        this.logger.verbose(`Removing queued Play from '${replaced.source}' because Source '${source}' has a higher priority => ${buildTrackString(replaced.play)}`);
+        this.recordCrossSourceDuplicate(replaced.play, replaced.source, {source});
+        this.queuedGauge.labels(this.getPrometheusLabels()).set(this.queuedScrobbles.length);
+        this.emitEvent('scrobbleDequeued', {queuedScrobble: replaced});
+        return undefined;
+    }
+
+    protected recordCrossSourceDuplicate = (play: PlayObject, source: string, kept: Pick<QueuedScrobble<PlayObject>, 'source'>) => {
+        // plays may be shared between components so don't mutate the original
+        const duplicate: PlayObject = {
+            ...play,
+            meta: {
+                ...play.meta,
+                lifecycle: {
+                    ...defaultLifecycle(play.meta.lifecycle),
+                    deduplicated: {
+                        source: kept.source,
+                        reason: `Same Play was received from Source '${kept.source}'`
+                    }
+                }
+            }
+        };
+        this.recordScrobbleResult(duplicate, source, 'duplicate');
+    }
+
     cancelQueuedItemsBySource = (source: string): number => {
         const beforeMain = this.queuedScrobbles.length;
         const beforeDead = this.deadLetterScrobbles.length;
@@ -1030,18 +1329,18 @@ export default abstract class AbstractScrobbleClient extends AbstractComponent i
     }
 
     protected addDeadLetterScrobble = (data: QueuedScrobble<PlayObject>, error: (Error | string) = 'Unspecified error') => {
-        let eString = '';
-        if(typeof error === 'string') {
-            eString = error;
-        } else {
-            eString = messageWithCauses(error);
-        }
-        const deadData = {id: nanoid(), retries: 0, error: eString, ...data};
+        const deadData: DeadLetterScrobble<PlayObject> = {id: nanoid(), retries: 0, error: undefined, ...data};
+        this.setDeadLetterError(deadData, error);
         this.deadLetterScrobbles.push(deadData);
         this.deadLetterScrobbles.sort((a, b) => sortByOldestPlayDate(a.play, b.play));
         this.emitEvent('deadLetter', {dead: deadData});
         this.deadLetterGauge.labels(this.getPrometheusLabels()).set(this.deadLetterScrobbles.length);
         this.updateDeadLetterCache();
+        this.recordScrobbleResult(deadData.play, deadData.source, 'failed', deadData.error);
+    }
+
+    protected recordScrobbleResult = (play: PlayObject, source: string, status: ScrobbleResultStatus, error?: string) => {
+        this.history.addScrobbleResult({type: this.type, name: this.name, identifier: this.getIdentifier()}, play, {status, source, error});
     }
 
     queuePlayingNow = async (data: SourcePlayerObj, source: SourceIdentifier) => {
@@ -0,0 +1,213 @@
+import { Logger } from "@foxxmd/logging";
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { promises } from "fs";
+import path from "path";
+import { PlayObject } from "../../core/Atomic.js";
+import { buildTrackString, capitalize } from "../../core/StringUtils.js";
+import { FormatPlayObjectOptions, InternalConfig, PaginatedTimeRangeCommonOptions } from "../common/infrastructure/Atomic.js";
+import { FileClientConfig, FileClientFormat } from "../common/infrastructure/config/client/file.js";
+import { Notifiers } from "../notifier/Notifiers.js";
+import { fileOrDirectoryIsWriteable, sortByNewestPlayDate } from "../utils.js";
+import { getClientFileExtension, parseClientFile } from "../utils/ScrobbleFileUtils.js";
+import { playsToListenbrainz, playToScrobblerLogLine, scrobblerLogHeader } from "../common/Export.js";
+import AbstractScrobbleClient from "./AbstractScrobbleClient.js";
+
+interface CurrentFile {
+    period?: string
+    part: number
+    path: string
+    size: number
+}
+
+const DATE_FORMAT = 'YYYY-MM-DD';
+const PERIOD_REGEX = new RegExp(/^\d{4}-\d{2}-\d{2}$/);
+
+export default class FileScrobbler extends AbstractScrobbleClient {
+
+    declare config: FileClientConfig;
+
+    configDir: string;
+    version?: string;
+
+    dirPath: string;
+    format: FileClientFormat;
+    fileName: string;
+    maxSize?: number;
+
+    protected currentFile?: CurrentFile;
+
+    constructor(name: any, config: FileClientConfig, internal: InternalConfig, notifier: Notifiers, emitter: EventEmitter, logger: Logger) {
+        super('file', name, config, notifier, emitter, logger);
+        this.configDir = internal.configDir;
+        this.version = internal.version;
+        // writing to disk is cheap, no need to space out scrobbles
+        this.scrobbleDelay = 0;
+        this.MAX_INITIAL_SCROBBLES_FETCH = 100;
+    }
+
+    formatPlayObj = (obj: any, options: FormatPlayObjectOptions = {}) => obj as PlayObject;
+
+    public playToClientPayload(playObject: PlayObject): object {
+        return {line: playToFileLine(playObject, this.format)};
+    }
+
+    protected async doBuildInitData(): Promise<true | string | undefined> {
+        const {
+            data: {
+                path: dirPath,
+                format = 'jsonl',
+                fileName = 'scrobbles',
+                maxSize
+            } = {}
+        } = this.config;
+        if (dirPath === undefined || dirPath === null || dirPath.trim() === '') {
+            throw new Error(`'path' must be defined`);
+        }
+        if (!['jsonl', 'listenbrainz', 'scrobblerlog'].includes(format)) {
+            throw new Error(`'format' must be one of jsonl | listenbrainz | scrobblerlog`);
+        }
+        if (maxSize !== undefined && (typeof maxSize !== 'number' || maxSize <= 0)) {
+            throw new Error(`'maxSize' must be a number greater than 0`);
+        }
+        this.dirPath = path.resolve(this.configDir, dirPath);
+        this.format = format;
+        this.fileName = fileName;
+        this.maxSize = maxSize !== undefined ? maxSize * 1024 * 1024 : undefined;
+        return `Writing ${format} scrobbles to ${this.dirPath}`;
+    }
+
+    protected async doCheckConnection(): Promise<true | string | undefined> {
+        try {
+            await promises.mkdir(this.dirPath, {recursive: true});
+            fileOrDirectoryIsWriteable(this.dirPath);
+            return true;
+        } catch (e) {
+            throw new Error('Scrobble file directory is not usable', {cause: e});
+        }
+    }
+
+    protected getFilePath = (period: string | undefined, part: number): string => {
+        const nameParts = [this.fileName];
+        if (period !== undefined) {
+            nameParts.push(period);
+        }
+        if (part > 0) {
+            nameParts.push(part.toString());
+        }
+        return path.join(this.dirPath, `${nameParts.join('-')}${getClientFileExtension(this.format)}`);
+    }
+
+    protected getWriteFile = async (): Promise<CurrentFile> => {
+        const period = (this.config.data.rotate ?? 'daily') === 'daily' ? dayjs().format(DATE_FORMAT) : undefined;
+        if (this.currentFile === undefined || this.currentFile.period !== period) {
+            this.currentFile = await this.statFile(period, 0);
+        }
+        while (this.maxSize !== undefined && this.currentFile.size >= this.maxSize) {
+            this.currentFile = await this.statFile(period, this.currentFile.part + 1);
+        }
+        return this.currentFile;
+    }
+
+    protected statFile = async (period: string | undefined, part: number): Promise<CurrentFile> => {
+        const filePath = this.getFilePath(period, part);
+        let size = 0;
+        try {
+            size = (await promises.stat(filePath)).size;
+        } catch (e) {
+            if (e.code !== 'ENOENT') {
+                throw e;
+            }
+        }
+        return {period, part, path: filePath, size};
+    }
+
+    /**
+     * All files written by this client, based on configured name and format
+     *
+     * If `from` is given then daily files written before that day are skipped since they can only contain older plays
+     * */
+    protected getWrittenFiles = async (from?: number): Promise<string[]> => {
+        const ext = getClientFileExtension(this.format);
+        const entries = await promises.readdir(this.dirPath, {withFileTypes: true});
+        return entries
+            .filter(x => x.isFile() && x.name.endsWith(ext) && (x.name === `${this.fileName}${ext}` || x.name.startsWith(`${this.fileName}-`)))
+            .filter(x => {
+                if (from === undefined) {
+                    return true;
+                }
+                const period = x.name.slice(this.fileName.length + 1, this.fileName.length + 1 + DATE_FORMAT.length);
+                if (!PERIOD_REGEX.test(period)) {
+                    return true;
+                }
+                return dayjs(period).endOf('day').unix() >= from;
+            })
+            .map(x => path.join(this.dirPath, x.name));
+    }
+
+    /**
+     * Reads written scrobbles back from disk so existing scrobbles can be detected the same way as any other client's upstream history
+     * */
+    getScrobblesForTimeRange = async (opts: PaginatedTimeRangeCommonOptions): Promise<PlayObject[]> => {
+        const {from, to, limit} = opts;
+        let plays: PlayObject[] = [];
+        for (const file of await this.getWrittenFiles(from)) {
+            try {
+                plays = plays.concat(parseClientFile(await promises.readFile(file, 'utf8'), this.format));
+            } catch (e) {
+                this.logger.warn(new Error(`Could not read scrobbles from ${path.basename(file)}`, {cause: e}));
+            }
+        }
+        plays = plays
+            .filter(x => (from === undefined || x.data.playDate.unix() >= from) && (to === undefined || x.data.playDate.unix() <= to))
+            .sort(sortByNewestPlayDate);
+        if (limit !== undefined && from === undefined && to === undefined) {
+            return plays.slice(0, limit);
+        }
+        return plays;
+    }
+
+    doScrobble = async (playObj: PlayObject) => {
+        const {
+            meta: {
+                source,
+                newFromSource = false,
+            } = {}
+        } = playObj;
+
+        const line = `${playToFileLine(playObj, this.format)}\n`;
+        try {
+            const file = await this.getWriteFile();
+            const content = file.size === 0 && this.format === 'scrobblerlog' ? `${scrobblerLogHeader({version: this.version})}${line}` : line;
+            await promises.appendFile(file.path, content, 'utf8');
+            file.size += Buffer.byteLength(content);
+
+            if (newFromSource) {
+                this.logger.info(`Scrobbled (New)     => (${source}) ${buildTrackString(playObj)}`);
+            } else {
+                this.logger.info(`Scrobbled (Backlog) => (${source}) ${buildTrackString(playObj)}`);
+            }
+            return {payload: line, response: path.basename(file.path)};
+        } catch (e) {
+            await this.notifier.notify({title: `Client - ${capitalize(this.type)} - ${this.name} - Scrobble Error`, message: `Failed to scrobble => ${buildTrackString(playObj)} | Error: ${e.message}`, priority: 'error'});
+            throw new Error('Could not write scrobble to file', {cause: e});
+        }
+    }
+}
+
+/**
+ * Serialize a Play as a single line (without line ending) in the given format
+ * */
+export const playToFileLine = (play: PlayObject, format: FileClientFormat): string => {
+    switch (format) {
+        case 'jsonl': {
+            // lifecycle is only useful for debugging in-flight plays and makes lines very large
+            const {lifecycle, ...meta} = play.meta;
+            return JSON.stringify({data: play.data, meta});
+        }
+        case 'listenbrainz':
+            return playsToListenbrainz([play]).trim();
+        case 'scrobblerlog':
+            return playToScrobblerLogLine(play);
+    }
+}
@@ -0,0 +1,91 @@
+import { Logger } from "@foxxmd/logging";
+import EventEmitter from "events";
+import { PlayObject } from "../../core/Atomic.js";
+import { buildTrackString, capitalize } from "../../core/StringUtils.js";
+import { isNodeNetworkException } from "../common/errors/NodeErrors.js";
+import { FormatPlayObjectOptions, TimeRangeListensFetcher } from "../common/infrastructure/Atomic.js";
+import { Notifiers } from "../notifier/Notifiers.js";
+
+import AbstractScrobbleClient from "./AbstractScrobbleClient.js";
+import { isDebugMode } from "../utils.js";
+import { FunkwhaleClientConfig, ListeningPayload } from "../common/infrastructure/config/client/funkwhale.js";
+import { FunkwhaleApiClient, listeningResponseToPlay, playToListeningPayload } from "../common/vendor/funkwhale/FunkwhaleApiClient.js";
+import { createGetScrobblesForTimeRangeFunc } from "../utils/ListenFetchUtils.js";
+
+export default class FunkwhaleScrobbler extends AbstractScrobbleClient {
+
+    api: FunkwhaleApiClient;
+    requiresAuth = true;
+    requiresAuthInteraction = false;
+    getScrobblesForTimeRange: TimeRangeListensFetcher
+    declare config: FunkwhaleClientConfig;
+
+    constructor(name: any, config: FunkwhaleClientConfig, options = {}, notifier: Notifiers, emitter: EventEmitter, logger: Logger) {
+        super('funkwhale', name, config, notifier, emitter, logger);
+        this.api = new FunkwhaleApiClient(name, config.data, {logger: this.logger});
+        this.MAX_INITIAL_SCROBBLES_FETCH = 100;
+        this.getScrobblesForTimeRange = createGetScrobblesForTimeRangeFunc(this.api, this.api.logger);
+    }
+
+    formatPlayObj = (obj: any, options: FormatPlayObjectOptions = {}) => listeningResponseToPlay(obj, {...options, url: this.api.url.url});
+
+    public playToClientPayload(playObject: PlayObject): ListeningPayload {
+        return playToListeningPayload(playObject);
+    }
+
+    protected async doBuildInitData(): Promise<true | string | undefined> {
+        const {
+            data: {
+                token,
+                url
+            } = {}
+        } = this.config;
+        if (token === undefined) {
+            throw new Error('Must provide an access token');
+        }
+        if (url === undefined) {
+            throw new Error('Must provide the URL of the Funkwhale pod');
+        }
+        return true;
+    }
+
+    protected async doCheckConnection(): Promise<true | string | undefined> {
+        await this.api.testConnection();
+        return true;
+    }
+
+    doAuthentication = async () => {
+
+        try {
+            return await this.api.testAuth();
+        } catch (e) {
+            if(isNodeNetworkException(e)) {
+                this.logger.error('Could not communicate with Funkwhale API');
+            }
+            throw e;
+        }
+    }
+
+    doScrobble = async (playObj: PlayObject) => {
+        const {
+            meta: {
+                source,
+                newFromSource = false,
+            } = {}
+        } = playObj;
+
+        try {
+            const result = await this.api.submitListen(playObj, { log: isDebugMode()});
+
+            if (newFromSource) {
+                this.logger.info(`Scrobbled (New)     => (${source}) ${buildTrackString(playObj)}`);
+            } else {
+                this.logger.info(`Scrobbled (Backlog) => (${source}) ${buildTrackString(playObj)}`);
+            }
+            return result;
+        } catch (e) {
+            await this.notifier.notify({title: `Client - ${capitalize(this.type)} - ${this.name} - Scrobble Error`, message: `Failed to scrobble => ${buildTrackString(playObj)} | Error: ${e.message}`, priority: 'error'});
+            throw e;
+        }
+    }
+}
@@ -28,6 +28,7 @@ export default class LastfmScrobbler extends AbstractScrobbleClient {
         // https://www.last.fm/api/show/user.getRecentTracks
         this.MAX_INITIAL_SCROBBLES_FETCH = 100;
         this.supportsNowPlaying = true;
+        this.supportsLove = true;
         // last.fm shows Now Playing for the same time as the duration of the track being submitted
         this.nowPlayingMaxThreshold = nowPlayingUpdateByPlayDuration;
         this.getScrobblesForTimeRange = createGetScrobblesForTimeRangeFunc(this.api, this.api.logger);
@@ -104,6 +105,8 @@ export default class LastfmScrobbler extends AbstractScrobbleClient {
         }
     }
 
+    doLove = async (playObj: PlayObject) => await this.api.love(playObj)
+
     doPlayingNow = async (data: SourcePlayerObj) => {
         // last.fm shows Now Playing for the same time as the duration of the track being submitted
         try {
@@ -30,6 +30,7 @@ export default class ListenbrainzScrobbler extends AbstractScrobbleClient {
         // 1000 is way too high. maxing at 100
         this.MAX_INITIAL_SCROBBLES_FETCH = DEFAULT_MS_ITEMS_PER_GET_LZ;
         this.supportsNowPlaying = true;
+        this.supportsLove = true;
         // listenbrainz shows Now Playing for the same time as the duration of the track being submitted
         this.nowPlayingMaxThreshold = nowPlayingUpdateByPlayDuration;
         this.getScrobblesForTimeRange = createGetScrobblesForTimeRangeFunc(this.api, this.api.logger);
@@ -97,6 +98,8 @@ export default class ListenbrainzScrobbler extends AbstractScrobbleClient {
         }
     }
 
+    doLove = async (playObj: PlayObject) => await this.api.submitFeedback(playObj, 1)
+
     doPlayingNow = async (data: SourcePlayerObj) => {
         // listenbrainz shows Now Playing for the same time as the duration of the track being submitted
         try {
@@ -23,6 +23,8 @@ import { ExternalMetadataTerm, PlayTransformHooks } from '../common/infrastructu
 import { LibrefmClientConfig } from '../common/infrastructure/config/client/librefm.js';
 import clone from 'clone';
 import { DiscordClientConfig } from '../common/infrastructure/config/client/discord.js';
+import { FunkwhaleClientConfig } from '../common/infrastructure/config/client/funkwhale.js';
+import { FileClientConfig } from '../common/infrastructure/config/client/file.js';
 
 type groupedNamedConfigs = {[key: string]: ParsedConfig[]};
 
@@ -39,6 +41,10 @@ export default class ScrobbleClients {
 
     sourceEmitter: WildcardEmitter;
 
+    clientDefaults: CommonClientOptions = {};
+
+    notifier: Notifiers;
+
     constructor(emitter: WildcardEmitter, sourceEmitter: WildcardEmitter, internal: InternalConfigOptional, parentLogger: Logger) {
         this.emitter = emitter;
         this.sourceEmitter = sourceEmitter;
@@ -92,7 +98,7 @@ export default class ScrobbleClients {
         return [clientsReady, messages];
     }
 
-    private getSchemaByType = (type: ClientType): string => {
+    getSchemaByType = (type: ClientType): string => {
             switch(type) {
                 case 'maloja':
                     return "MalojaClientConfig";
@@ -110,11 +116,16 @@ export default class ScrobbleClients {
                     return "RockSkyClientConfig";
                 case 'discord':
                     return 'DiscordClientConfig';
+                case 'funkwhale':
+                    return 'FunkwhaleClientConfig';
+                case 'file':
+                    return 'FileClientConfig';
             }
     }
 
     buildClientsFromConfig = async (notifier: Notifiers) => {
         const configs: ParsedConfig[] = [];
+        this.notifier = notifier;
 
         let configFile;
         try {
@@ -132,6 +143,7 @@ export default class ScrobbleClients {
                 clientDefaults: cd = {},
             } = aioConfig;
             clientDefaults = cd;
+            this.clientDefaults = cd;
             for (const [index, c] of mainConfigClientConfigs.entries()) {
                 const {name = 'unnamed'} = c;
                 if(c.type === undefined) {
@@ -320,6 +332,42 @@ export default class ScrobbleClients {
                         })
                     }
                 }   break;
+                case 'funkwhale':
+                    const fw = {
+                        url: process.env.FUNKWHALE_URL,
+                        token: process.env.FUNKWHALE_TOKEN
+                    };
+                    if (!Object.values(fw).every(x => x === undefined)) {
+                        configs.push({
+                            type: 'funkwhale',
+                            name: 'unnamed-funkwhale',
+                            source: 'ENV',
+                            mode: 'single',
+                            configureAs: 'client',
+                            data: fw,
+                            options: transformPresetEnv('FUNKWHALE')
+                        })
+                    }
+                    break;
+                case 'file':
+                    const fileClient = {
+                        path: process.env.FILE_CLIENT_PATH,
+                        format: process.env.FILE_CLIENT_FORMAT,
+                        rotate: process.env.FILE_CLIENT_ROTATE,
+                        maxSize: process.env.FILE_CLIENT_MAX_SIZE !== undefined ? Number.parseFloat(process.env.FILE_CLIENT_MAX_SIZE) : undefined
+                    };
+                    if (!Object.values(fileClient).every(x => x === undefined)) {
+                        configs.push({
+                            type: 'file',
+                            name: 'unnamed-file',
+                            source: 'ENV',
+                            mode: 'single',
+                            configureAs: 'client',
+                            data: fileClient as FileClientConfig['data'],
+                            options: transformPresetEnv('FILE_CLIENT')
+                        })
+                    }
+                    break;
                 default:
                     break;
             }
@@ -346,7 +394,8 @@ export default class ScrobbleClients {
                     continue;
                 }
                 for(const [i,rawConf] of rawClientConfigs.entries()) {
-                    if(rawConf.configureAs === 'source') 
+                    // file.json configs are sources unless explicitly configured as a client
+                    if(rawConf.configureAs === 'source' || (clientType === 'file' && rawConf.configureAs !== 'client')) 
                     {
                         this.logger.debug(`Skipping config ${i + 1} from ${clientType}.json because it is configured as a source.`);
                        continue;
@@ -409,7 +458,7 @@ ${sources.join('\n')}`);
         }
     }
 
-    addClient = async (clientConfig: ParsedConfig, defaults = {}, notifier: Notifiers) => {
+    addClient = async (clientConfig: ParsedConfig, defaults = {}, notifier: Notifiers): Promise<AbstractScrobbleClient | undefined> => {
 /*        const isValidConfig = isValidConfigStructure(clientConfig, {name: true, data: true, type: true});
         if (isValidConfig !== true) {
             throw new Error(`Config object from ${clientConfig.source || 'unknown'} with name [${clientConfig.name || 'unnamed'}] of type [${clientConfig.type || 'unknown'}] has errors: ${isValidConfig.join(' | ')}`)
@@ -458,6 +507,14 @@ ${sources.join('\n')}`);
                 const DiscordScrobbler = (await import('./DiscordScrobbler.js')).default;
                 newClient = new DiscordScrobbler(name, {...clientConfig, data: {configDir: this.internalConfig.configDir, ...data} } as unknown as DiscordClientConfig, {}, notifier, this.emitter, this.logger);
                 break;                
+            case 'funkwhale':
+                const FunkwhaleScrobbler = (await import('./FunkwhaleScrobbler.js')).default;
+                newClient = new FunkwhaleScrobbler(name, {...clientConfig, data: {...data}} as unknown as FunkwhaleClientConfig, {}, notifier, this.emitter, this.logger);
+                break;
+            case 'file':
+                const FileScrobbler = (await import('./FileScrobbler.js')).default;
+                newClient = new FileScrobbler(name, {...clientConfig, data} as unknown as FileClientConfig, this.internalConfig, notifier, this.emitter, this.logger);
+                break;
             default:
                 break;
         }
@@ -468,6 +525,36 @@ ${sources.join('\n')}`);
         }
         newClient.logger.info(`Client Added from ${source}`);
         this.clients.push(newClient);
+        return newClient;
+    }
+
+    /**
+     * Stop a running Client and remove it
+     * */
+    removeClient = async (client: AbstractScrobbleClient) => {
+        await client.destroy();
+        this.clients = this.clients.filter(x => x !== client);
+        client.logger.info('Client Removed');
+    }
+
+    /**
+     * Build a Client from a (validated) config while the app is running, then initialize and start scrobble processing
+     *
+     * Returns undefined if the config is disabled
+     * */
+    startClient = async (config: ParsedConfig): Promise<AbstractScrobbleClient | undefined> => {
+        const client = await this.addClient(config, this.clientDefaults, this.notifier);
+        if(client === undefined) {
+            return;
+        }
+        try {
+            await client.tryInitialize({force: false, notify: true, notifyTitle: 'Could not initialize after config change'});
+        } catch (e) {
+            client.logger.error(new Error('Could not initialize client after config change', {cause: e}));
+            return client;
+        }
+        client.initScrobbleMonitoring().catch(e => client.logger.error(e));
+        return client;
     }
 
     playingNow = async (data: SourcePlayerObj, options: {scrobbleTo: string[], scrobbleFrom: SourceIdentifier}) => {
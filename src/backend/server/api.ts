@@ -2,31 +2,46 @@ import { ExpressWithAsync } from "@awaitjs/express";
 import { LogDataPretty, Logger, LogLevel } from "@foxxmd/logging";
 import bsseDef from 'better-sse';
 import bodyParser from "body-parser";
+import dayjs, { Dayjs } from "dayjs";
 import { FixedSizeList } from 'fixed-size-list';
 import { PassThrough } from "node:stream";
 import { Transform } from "stream";
 import {
     ClientStatusData,
+    DEAD_LETTER_ERROR_CATEGORIES,
     DeadLetterScrobble,
+    isPlayObject,
     LeveledLogData,
     LogOutputConfig,
+    ObjectPlayData,
     PlayObject,
     SOURCE_SOT,
     SOURCE_SOT_TYPES,
     SourceStatusData,
 } from "../../core/Atomic.js";
 import { capitalize } from "../../core/StringUtils.js";
-import { ExpressHandler } from "../common/infrastructure/Atomic.js";
+import { ExportFormat, ExpressHandler, HistoryQuery, SCROBBLE_RESULT_STATUSES, ScrobbleResultStatus } from "../common/infrastructure/Atomic.js";
+import { SourceType } from "../common/infrastructure/config/source/sources.js";
+import { HISTORY_DEFAULT_LIMIT, HISTORY_MAX_LIMIT, queryPlays } from "../common/History.js";
+import { BackfillManager } from "../common/Backfill.js";
+import { ConfigManager } from "../common/ConfigManager.js";
+import { EXPORT_FILE_INFO, exportFileName, getExportPlays, parseExportFormat, serializePlays } from "../common/Export.js";
 import { getRoot } from "../ioc.js";
 import AbstractScrobbleClient from "../scrobblers/AbstractScrobbleClient.js";
 import AbstractSource from "../sources/AbstractSource.js";
 import MemorySource from "../sources/MemorySource.js";
 import { parseBool, sortByNewestPlayDate } from "../utils.js";
+import { rehydratePlay } from "../utils/CacheUtils.js";
+import { messageWithCauses } from "../utils/ErrorUtils.js";
 import { setupAuthRoutes } from "./auth.js";
+import { setupBackfillRoutes } from "./backfillRoutes.js";
+import { setupConfigRoutes } from "./configRoutes.js";
 import { setupDeezerRoutes } from "./deezerRoutes.js";
 import {setupLZEndpointRoutes} from "./endpointListenbrainzRoutes.js";
 import {setupLastfmEndpointRoutes} from "./endpointLastfmRoutes.js";
+import { setupAudioscrobblerEndpointRoutes } from "./endpointAudioscrobblerRoutes.js";
 import { makeClientCheckMiddle, makeSourceCheckMiddle } from "./middleware.js";
+import { setupTransformRoutes } from "./transformRoutes.js";
 import { setupWebscrobblerRoutes } from "./webscrobblerRoutes.js";
 import ScrobbleSources from "../sources/ScrobbleSources.js";
 import ScrobbleClients from "../scrobblers/ScrobbleClients.js";
@@ -52,6 +67,168 @@ const getLogs = (minLevel: number, limit: number = maxBufferSize, sort: 'asc' |
     return allLogs.flat(1).sort((a, b) => a.time - b.time).slice(0, limit);
 }
 
+const parseHistoryDate = (val: any, name: string): Dayjs | undefined => {
+    if(val === undefined || val === '') {
+        return undefined;
+    }
+    const str = val.toString();
+    const date = /^\d+$/.test(str) ? dayjs.unix(Number.parseInt(str)) : dayjs(str);
+    if(!date.isValid()) {
+        throw new Error(`'${name}' must be a unix timestamp or ISO8601 date`);
+    }
+    return date;
+}
+
+const parsePositiveInt = (val: any, name: string, defaultVal: number): number => {
+    if(val === undefined || val === '') {
+        return defaultVal;
+    }
+    const num = Number.parseInt(val.toString());
+    if(Number.isNaN(num) || num < 1) {
+        throw new Error(`'${name}' must be a number greater than 0`);
+    }
+    return num;
+}
+
+/**
+ * Parses paging, date range, and text search query params shared by /api/recent and /api/scrobbled
+ * */
+const parseHistoryQuery = (query: Record<string, any>): Omit<HistoryQuery, 'kind'> => {
+    const {
+        page,
+        limit,
+        from,
+        to,
+        search
+    } = query;
+    return {
+        page: parsePositiveInt(page, 'page', 1),
+        limit: Math.min(parsePositiveInt(limit, 'limit', HISTORY_DEFAULT_LIMIT), HISTORY_MAX_LIMIT),
+        from: parseHistoryDate(from, 'from'),
+        to: parseHistoryDate(to, 'to'),
+        search: search !== undefined ? search.toString() : undefined
+    };
+}
+
+const parseOptionalString = (val: any, name: string): string | undefined => {
+    if(val === null) {
+        return undefined;
+    }
+    if(typeof val !== 'string') {
+        throw new Error(`'${name}' must be a string or null`);
+    }
+    return val.trim() === '' ? undefined : val;
+}
+
+const parseStringList = (val: any, name: string, allowEmpty: boolean): string[] | undefined => {
+    if(val === null && allowEmpty) {
+        return undefined;
+    }
+    if(!Array.isArray(val) || val.some(x => typeof x !== 'string' || x.trim() === '')) {
+        throw new Error(`'${name}' must be a list of non-empty strings`);
+    }
+    if(val.length === 0) {
+        if(!allowEmpty) {
+            throw new Error(`'${name}' must contain at least one value`);
+        }
+        return undefined;
+    }
+    return val;
+}
+
+/**
+ * Parses corrected Play data for PATCH /api/dead/:id
+ *
+ * A property that is null (or an empty string/list) is removed from the Play
+ * */
+const parseDeadLetterEdit = (body: any = {}): Partial<ObjectPlayData> => {
+    const {data} = body;
+    if(data === null || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error(`'data' must be an object`);
+    }
+    const edit: Partial<ObjectPlayData> = {};
+    for(const [k, v] of Object.entries(data as Record<string, any>)) {
+        switch(k) {
+            case 'track':
+                if(typeof v !== 'string' || v.trim() === '') {
+                    throw new Error(`'track' must be a non-empty string`);
+                }
+                edit.track = v;
+                break;
+            case 'album':
+                edit.album = parseOptionalString(v, k);
+                break;
+            case 'artists':
+                edit.artists = parseStringList(v, k, false);
+                break;
+            case 'albumArtists':
+                edit.albumArtists = parseStringList(v, k, true);
+                break;
+            case 'duration':
+                if(v !== null && (typeof v !== 'number' || v <= 0)) {
+                    throw new Error(`'duration' must be a number greater than 0 or null`);
+                }
+                edit.duration = v ?? undefined;
+                break;
+            case 'playDate':
+                edit.playDate = parseHistoryDate(v, k);
+                if(edit.playDate === undefined) {
+                    throw new Error(`'playDate' must be a unix timestamp or ISO8601 date`);
+                }
+                break;
+            default:
+                throw new Error(`'${k}' cannot be edited. Only track, album, artists, albumArtists, duration, and playDate can be edited`);
+        }
+    }
+    if(Object.keys(edit).length === 0) {
+        throw new Error(`'data' must contain at least one property to edit`);
+    }
+    return edit;
+}
+
+/**
+ * Parses which dead letter scrobbles to act on for PUT/DELETE /api/dead
+ *
+ * @returns IDs of the selected scrobbles, or undefined if the body does not select any (all scrobbles)
+ * */
+const parseDeadLetterSelection = (dead: DeadLetterScrobble<PlayObject>[], body: any = {}): string[] | undefined => {
+    const {ids, source, error, errorCategory} = body ?? {};
+    if(ids === undefined && source === undefined && error === undefined && errorCategory === undefined) {
+        return undefined;
+    }
+    if(ids !== undefined && (!Array.isArray(ids) || ids.some(x => typeof x !== 'string'))) {
+        throw new Error(`'ids' must be a list of dead letter scrobble IDs`);
+    }
+    if(source !== undefined && typeof source !== 'string') {
+        throw new Error(`'source' must be a string`);
+    }
+    if(error !== undefined && typeof error !== 'string') {
+        throw new Error(`'error' must be a string`);
+    }
+    if(errorCategory !== undefined && !DEAD_LETTER_ERROR_CATEGORIES.includes(errorCategory)) {
+        throw new Error(`'errorCategory' must be one of: ${DEAD_LETTER_ERROR_CATEGORIES.join(', ')}`);
+    }
+    return dead.filter(x => (ids === undefined || ids.includes(x.id))
+        && (source === undefined || x.source === source)
+        && (error === undefined || x.error === error)
+        && (errorCategory === undefined || (x.errorCategory ?? 'unknown') === errorCategory)).map(x => x.id);
+}
+
+const parseScrobbleStatus = (val: any): ScrobbleResultStatus[] => {
+    if(val === undefined || val === '') {
+        return ['scrobbled'];
+    }
+    if(val === 'all') {
+        return SCROBBLE_RESULT_STATUSES;
+    }
+    const statuses = val.toString().split(',').map((x: string) => x.trim().toLocaleLowerCase());
+    const invalid = statuses.filter((x: string) => !SCROBBLE_RESULT_STATUSES.includes(x as ScrobbleResultStatus));
+    if(invalid.length > 0) {
+        throw new Error(`'status' must be 'all' or a comma-separated list of: ${SCROBBLE_RESULT_STATUSES.join(', ')}`);
+    }
+    return statuses as ScrobbleResultStatus[];
+}
+
 export const setupApi = (app: ExpressWithAsync, logger: Logger, appLoggerStream: PassThrough, initialLogOutput: LogDataPretty[] = [], scrobbleSources: ScrobbleSources, scrobbleClients: ScrobbleClients) => {
     for(const level of Object.keys(logger.levels.labels)) {
         output[level] = new FixedSizeList<LeveledLogData>(maxBufferSize);
@@ -150,8 +327,17 @@ export const setupApi = (app: ExpressWithAsync, logger: Logger, appLoggerStream:
     setupWebscrobblerRoutes(app, logger, scrobbleSources);
     setupLZEndpointRoutes(app, logger, scrobbleSources);
     setupLastfmEndpointRoutes(app, logger, scrobbleSources);
+    setupAudioscrobblerEndpointRoutes(app, logger, scrobbleSources);
     setupAuthRoutes(app, logger, sourceRequiredMiddle, clientRequiredMiddle, scrobbleSources, scrobbleClients);
 
+    const backfill = new BackfillManager(scrobbleSources, scrobbleClients, root.items.cache(), logger);
+    backfill.init().catch(e => logger.warn(new Error('Could not load backfill jobs from cache', {cause: e})));
+    setupBackfillRoutes(app, logger, backfill);
+
+    setupConfigRoutes(app, logger, new ConfigManager(root.get('configDir'), scrobbleSources, scrobbleClients, logger));
+
+    setupTransformRoutes(app, logger, scrobbleSources, scrobbleClients);
+
     app.putAsync('/api/webscrobbler', bodyParser.json({type: ['text/*', 'application/json']}), async (req, res) => {
         logger.info(req.body);
         res.sendStatus(200);
@@ -264,8 +450,8 @@ export const setupApi = (app: ExpressWithAsync, logger: Logger, appLoggerStream:
         } = req;
 
         let result: PlayObject[] = [];
-        if (source !== undefined) {
-            if (upstream === 'true' || upstream === '1') {
+        if (upstream === 'true' || upstream === '1') {
+            if (source !== undefined) {
                 if (!(source as AbstractSource).supportsUpstreamRecentlyPlayed) {
                     return res.status(409).json({message: 'Fetching upstream recently played is not supported for this source'});
                 }
@@ -274,11 +460,33 @@ export const setupApi = (app: ExpressWithAsync, logger: Logger, appLoggerStream:
                 } catch (e) {
                     return res.status(500).json({message: e.message});
                 }
-            } else {
-                result = (source as AbstractSource).getFlatRecentlyDiscoveredPlays();
             }
+            return res.json(result);
+        }
+
+        let historyQuery: Omit<HistoryQuery, 'kind'>;
+        try {
+            historyQuery = parseHistoryQuery(req.query);
+        } catch (e) {
+            return res.status(400).json({message: e.message});
         }
 
+        let total = 0;
+        const history = root.items.history;
+        if(history.isReady()) {
+            const queryResult = history.query({
+                ...historyQuery,
+                kind: 'discovered',
+                componentType: source !== undefined ? (source as AbstractSource).type : req.query.type as string | undefined,
+                componentName: source !== undefined ? (source as AbstractSource).name : undefined,
+            });
+            result = queryResult.data.map(x => x.play);
+            total = queryResult.total;
+        } else if (source !== undefined) {
+            [result, total] = queryPlays((source as AbstractSource).getFlatRecentlyDiscoveredPlays(), historyQuery);
+        }
+
+        res.set('X-Total-Count', total.toString());
         return res.json(result);
     });
 
@@ -327,9 +535,18 @@ export const setupApi = (app: ExpressWithAsync, logger: Logger, appLoggerStream:
             scrobbleClient: client,
         } = req;
 
-        (client as AbstractScrobbleClient).logger.verbose('User requested processing of all dead letter scrobbles via API');
+        let ids: string[] | undefined;
+        try {
+            ids = parseDeadLetterSelection((client as AbstractScrobbleClient).deadLetterScrobbles, req.body);
+        } catch (e) {
+            return res.status(400).json({message: e.message});
+        }
+
+        (client as AbstractScrobbleClient).logger.verbose(`User requested processing of ${ids === undefined ? 'all' : ids.length} dead letter scrobbles via API`);
 
-        await (client as AbstractScrobbleClient).processDeadLetterQueue(1000);
+        if(ids === undefined || ids.length > 0) {
+            await (client as AbstractScrobbleClient).processDeadLetterQueue(1000, ids);
+        }
 
         const result: DeadLetterScrobble<PlayObject>[] = (client as AbstractScrobbleClient).deadLetterScrobbles;
 
@@ -371,11 +588,49 @@ export const setupApi = (app: ExpressWithAsync, logger: Logger, appLoggerStream:
             scrobbleClient: client,
         } = req;
 
-        (client as AbstractScrobbleClient).logger.verbose('User requested deletion of all dead letter scrobbles via API');
+        let ids: string[] | undefined;
+        try {
+            ids = parseDeadLetterSelection((client as AbstractScrobbleClient).deadLetterScrobbles, req.body);
+        } catch (e) {
+            return res.status(400).json({message: e.message});
+        }
 
-        (client as AbstractScrobbleClient).removeDeadLetterScrobbles();
+        (client as AbstractScrobbleClient).logger.verbose(`User requested deletion of ${ids === undefined ? 'all' : ids.length} dead letter scrobbles via API`);
 
-        return res.json([]);
+        if(ids === undefined || ids.length > 0) {
+            (client as AbstractScrobbleClient).removeDeadLetterScrobbles(ids);
+        }
+
+        return res.json((client as AbstractScrobbleClient).deadLetterScrobbles);
+    });
+
+    app.patchAsync('/api/dead/:id', clientMiddleFunc(true), async (req, res, next) => {
+        const {
+            // @ts-expect-error TS(2339): Property 'scrobbleSource' does not exist on type '... Remove this comment to see the full error message
+            scrobbleClient: client,
+            params: {
+                id
+            } = {}
+        } = req;
+
+        const deadId = id as string;
+
+        let edit: Partial<ObjectPlayData>;
+        try {
+            edit = parseDeadLetterEdit(req.body);
+        } catch (e) {
+            return res.status(400).json({message: e.message});
+        }
+
+        (client as AbstractScrobbleClient).logger.verbose(`User requested edit of dead letter scrobble ${deadId} via API call`);
+
+        const edited = (client as AbstractScrobbleClient).editDeadLetterScrobble(deadId, edit);
+        if(edited === undefined) {
+            (client as AbstractScrobbleClient).logger.debug(`No dead letter scrobble with ID ${deadId}`);
+            return res.status(404).send();
+        }
+
+        return res.json(edited);
     });
 
     app.deleteAsync('/api/dead/:id', clientMiddleFunc(true), async (req, res, next) => {
@@ -408,14 +663,87 @@ export const setupApi = (app: ExpressWithAsync, logger: Logger, appLoggerStream:
             scrobbleClient: client,
         } = req;
 
+        let historyQuery: Omit<HistoryQuery, 'kind'>;
+        let status: ScrobbleResultStatus[];
+        try {
+            historyQuery = parseHistoryQuery(req.query);
+            status = parseScrobbleStatus(req.query.status);
+        } catch (e) {
+            return res.status(400).json({message: e.message});
+        }
+
         let result: PlayObject[] = [];
-        if (client !== undefined) {
-            result = [...(client as AbstractScrobbleClient).getScrobbledPlays()].sort(sortByNewestPlayDate);
+        let total = 0;
+        const history = root.items.history;
+        if(history.isReady()) {
+            const queryResult = history.query({
+                ...historyQuery,
+                kind: 'scrobble',
+                status,
+                componentType: client !== undefined ? (client as AbstractScrobbleClient).type : req.query.type as string | undefined,
+                componentName: client !== undefined ? (client as AbstractScrobbleClient).name : undefined,
+            });
+            result = queryResult.data.map(x => x.play);
+            total = queryResult.total;
+        } else if (client !== undefined && status.includes('scrobbled')) {
+            // only successful scrobbles are kept in memory
+            [result, total] = queryPlays([...(client as AbstractScrobbleClient).getScrobbledPlays()].sort(sortByNewestPlayDate), historyQuery);
         }
 
+        res.set('X-Total-Count', total.toString());
         return res.json(result);
     });
 
+    app.getAsync('/api/export', async (req, res) => {
+        const {
+            client: clientName,
+            source: sourceName,
+            type,
+        } = req.query as Record<string, string | undefined>;
+
+        if((clientName === undefined) === (sourceName === undefined)) {
+            return res.status(400).json({message: `Must specify one of 'client' or 'source'`});
+        }
+
+        let format: ExportFormat;
+        let from: Dayjs | undefined;
+        let to: Dayjs | undefined;
+        let status: ScrobbleResultStatus[];
+        try {
+            format = parseExportFormat(req.query.format);
+            from = parseHistoryDate(req.query.from, 'from');
+            to = parseHistoryDate(req.query.to, 'to');
+            status = parseScrobbleStatus(req.query.status);
+        } catch (e) {
+            return res.status(400).json({message: e.message});
+        }
+
+        const history = root.items.history;
+        let plays: PlayObject[];
+        let fileName: string;
+        if(clientName !== undefined) {
+            const client = scrobbleClients.getByName(clientName) as AbstractScrobbleClient | undefined;
+            if(client === undefined) {
+                return res.status(404).json({message: `No client with the name: ${clientName}`});
+            }
+            // only successful scrobbles are kept in memory
+            plays = getExportPlays(history, {kind: 'scrobble', status, from, to, componentType: client.type, componentName: client.name}, () => status.includes('scrobbled') ? [...client.getScrobbledPlays()] : []);
+            fileName = exportFileName('client', client.type, client.name, format);
+        } else {
+            const source = (type !== undefined ? scrobbleSources.getByNameAndType(sourceName, type as SourceType) : scrobbleSources.getByName(sourceName)) as AbstractSource | undefined;
+            if(source === undefined) {
+                return res.status(404).json({message: `No source with the name [${sourceName}]${type !== undefined ? ` and type [${type}]` : ''}`});
+            }
+            plays = getExportPlays(history, {kind: 'discovered', from, to, componentType: source.type, componentName: source.name}, () => source.getFlatRecentlyDiscoveredPlays());
+            fileName = exportFileName('source', source.type, source.name, format);
+        }
+
+        res.set('Content-Type', EXPORT_FILE_INFO[format].contentType);
+        res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+        res.set('X-Total-Count', plays.length.toString());
+        return res.send(serializePlays(plays, format, {version: root.get('version')}));
+    });
+
     app.use('/api/source/init', sourceRequiredMiddle);
     app.postAsync('/api/source/init', async (req, res) => {
         // @ts-expect-error TS(2339): Property 'scrobbleSource' does not exist on type '... Remove this comment to see the full error message
@@ -497,6 +825,37 @@ export const setupApi = (app: ExpressWithAsync, logger: Logger, appLoggerStream:
         res.status(200).send('OK');
     });
 
+    app.use('/api/client/match', clientRequiredMiddle);
+    app.postAsync('/api/client/match', async (req, res) => {
+        // @ts-expect-error TS(2339): Property 'scrobbleClient' does not exist on type '... Remove this comment to see the full error message
+        const client = req.scrobbleClient as AbstractScrobbleClient;
+
+        const {play} = req.body ?? {};
+        if(!isPlayObject(play)) {
+            return res.status(400).json({message: `'play' must be an object with 'data' and 'meta' properties`});
+        }
+        if(!(await client.isReady())) {
+            return res.status(409).json({message: 'Client is not ready'});
+        }
+
+        let candidate: PlayObject;
+        try {
+            candidate = rehydratePlay(play);
+            if(!dayjs.isDayjs(candidate.data.playDate) || !candidate.data.playDate.isValid()) {
+                throw new Error(`'play' must have a valid playDate`);
+            }
+        } catch (e) {
+            return res.status(400).json({message: e.message});
+        }
+
+        try {
+            return res.json(await client.explainMatch(candidate));
+        } catch (e) {
+            client.logger.warn(new Error('Could not explain match for Play', {cause: e}));
+            return res.status(500).json({message: messageWithCauses(e)});
+        }
+    });
+
     app.getAsync('/health', async (req, res) => res.redirect(307, `/api/${req.url.slice(1)}`));
     app.getAsync('/api/health', async (req, res) => {
         const {
@@ -0,0 +1,123 @@
+import { ExpressWithAsync } from "@awaitjs/express";
+import { childLogger, Logger } from "@foxxmd/logging";
+import dayjs from "dayjs";
+import { BackfillManager } from "../common/Backfill.js";
+import { BackfillOptions } from "../common/infrastructure/Atomic.js";
+import { parseBool } from "../utils.js";
+
+const parseTimestamp = (val: any, name: string): number | undefined => {
+    if(val === undefined || val === null || val === '') {
+        return undefined;
+    }
+    const str = val.toString();
+    const date = /^\d+$/.test(str) ? dayjs.unix(Number.parseInt(str)) : dayjs(str);
+    if(!date.isValid()) {
+        throw new Error(`'${name}' must be a unix timestamp or ISO8601 date`);
+    }
+    return date.unix();
+}
+
+const parseNumber = (val: any, name: string): number | undefined => {
+    if(val === undefined || val === null || val === '') {
+        return undefined;
+    }
+    const num = Number(val);
+    if(Number.isNaN(num) || num < 0) {
+        throw new Error(`'${name}' must be a positive number`);
+    }
+    return num;
+}
+
+const parseBackfillOptions = (body: any = {}): BackfillOptions => {
+    const {
+        source,
+        sourceType,
+        clients,
+        from,
+        to,
+        windowSize,
+        delay
+    } = body;
+
+    if(typeof source !== 'string' || source.trim() === '') {
+        throw new Error(`'source' must be the name of a Source`);
+    }
+    if(clients !== undefined && (!Array.isArray(clients) || clients.some(x => typeof x !== 'string'))) {
+        throw new Error(`'clients' must be a list of Client names`);
+    }
+    const fromTs = parseTimestamp(from, 'from');
+    if(fromTs === undefined) {
+        throw new Error(`'from' is required`);
+    }
+    return {
+        source,
+        sourceType,
+        clients,
+        from: fromTs,
+        to: parseTimestamp(to, 'to'),
+        windowSize: parseNumber(windowSize, 'windowSize'),
+        delay: parseNumber(delay, 'delay'),
+    };
+}
+
+export const setupBackfillRoutes = (app: ExpressWithAsync, parentLogger: Logger, backfill: BackfillManager) => {
+
+    const logger = childLogger(parentLogger, 'Backfill');
+
+    app.getAsync('/api/backfill', async (req, res) => res.json(backfill.getJobs()));
+
+    app.postAsync('/api/backfill', async (req, res) => {
+        let opts: BackfillOptions;
+        try {
+            opts = parseBackfillOptions(req.body);
+        } catch (e) {
+            return res.status(400).json({message: e.message});
+        }
+        try {
+            let job = await backfill.create(opts);
+            if(parseBool(req.query.start as string | undefined, true)) {
+                job = await backfill.start(job.id);
+            }
+            return res.status(201).json(job);
+        } catch (e) {
+            logger.warn(new Error('Could not create backfill job', {cause: e}));
+            return res.status(400).json({message: e.message});
+        }
+    });
+
+    app.getAsync('/api/backfill/:id', async (req, res) => {
+        const job = backfill.getJob(req.params.id);
+        if(job === undefined) {
+            return res.status(404).json({message: `No backfill job with ID ${req.params.id}`});
+        }
+        return res.json(job);
+    });
+
+    // resume a paused or failed job
+    app.putAsync('/api/backfill/:id', async (req, res) => {
+        if(backfill.getJob(req.params.id) === undefined) {
+            return res.status(404).json({message: `No backfill job with ID ${req.params.id}`});
+        }
+        try {
+            return res.json(await backfill.start(req.params.id));
+        } catch (e) {
+            return res.status(409).json({message: e.message});
+        }
+    });
+
+    // pause a running job
+    app.postAsync('/api/backfill/:id/stop', async (req, res) => {
+        if(backfill.getJob(req.params.id) === undefined) {
+            return res.status(404).json({message: `No backfill job with ID ${req.params.id}`});
+        }
+        return res.json(await backfill.stop(req.params.id));
+    });
+
+    app.deleteAsync('/api/backfill/:id', async (req, res) => {
+        if(backfill.getJob(req.params.id) === undefined) {
+            return res.status(404).json({message: `No backfill job with ID ${req.params.id}`});
+        }
+        await backfill.remove(req.params.id);
+        return res.sendStatus(204);
+    });
+}
@@ -0,0 +1,85 @@
+import { ExpressWithAsync } from "@awaitjs/express";
+import { childLogger, Logger } from "@foxxmd/logging";
+import { ComponentConfigRole } from "../../core/Atomic.js";
+import { ConfigManager } from "../common/ConfigManager.js";
+
+const parseConfigBody = (configManager: ConfigManager, body: any = {}): { role: ComponentConfigRole, type: string, config: Record<string, any> } => {
+    const {role, type, config} = body;
+    if(role !== 'source' && role !== 'client') {
+        throw new Error(`'role' must be one of source | client`);
+    }
+    if(typeof type !== 'string' || !configManager.isValidType(role, type)) {
+        throw new Error(`'type' must be a valid ${role} type`);
+    }
+    if(config === null || typeof config !== 'object' || Array.isArray(config)) {
+        throw new Error(`'config' must be an object`);
+    }
+    return {role, type, config};
+}
+
+export const setupConfigRoutes = (app: ExpressWithAsync, parentLogger: Logger, configManager: ConfigManager) => {
+
+    const logger = childLogger(parentLogger, 'Config Editor');
+
+    app.getAsync('/api/config', async (req, res) => res.json({
+        types: configManager.getTypes(),
+        entries: await configManager.getEntries()
+    }));
+
+    app.getAsync('/api/config/schema/:role/:type', async (req, res) => {
+        const {role, type} = req.params;
+        if((role !== 'source' && role !== 'client') || !configManager.isValidType(role, type)) {
+            return res.status(404).json({message: `No schema for ${type} ${role}`});
+        }
+        try {
+            return res.json(await configManager.getSchema(role, type));
+        } catch (e) {
+            logger.warn(new Error(`Could not get schema for ${type} ${role}`, {cause: e}));
+            return res.status(500).json({message: e.message});
+        }
+    });
+
+    app.postAsync('/api/config/validate', async (req, res) => {
+        try {
+            const {role, type, config} = parseConfigBody(configManager, req.body);
+            return res.json({errors: await configManager.validate(role, type, config)});
+        } catch (e) {
+            return res.status(400).json({message: e.message});
+        }
+    });
+
+    app.postAsync('/api/config', async (req, res) => {
+        try {
+            const {role, type, config} = parseConfigBody(configManager, req.body);
+            return res.status(201).json(await configManager.save(role, type, config));
+        } catch (e) {
+            logger.warn(new Error('Could not add config', {cause: e}));
+            return res.status(400).json({message: e.message});
+        }
+    });
+
+    app.putAsync('/api/config/:id', async (req, res) => {
+        if(await configManager.getEntry(req.params.id) === undefined) {
+            return res.status(404).json({message: `No config at ${req.params.id}`});
+        }
+        try {
+            const {role, type, config} = parseConfigBody(configManager, req.body);
+            return res.json(await configManager.save(role, type, config, req.params.id));
+        } catch (e) {
+            logger.warn(new Error(`Could not update config at ${req.params.id}`, {cause: e}));
+            return res.status(400).json({message: e.message});
+        }
+    });
+
+    app.deleteAsync('/api/config/:id', async (req, res) => {
+        if(await configManager.getEntry(req.params.id) === undefined) {
+            return res.status(404).json({message: `No config at ${req.params.id}`});
+        }
+        try {
+            await configManager.remove(req.params.id);
+            return res.sendStatus(204);
+        } catch (e) {
+            return res.status(400).json({message: e.message});
+        }
+    });
+}
@@ -0,0 +1,151 @@
+/* eslint-disable prefer-arrow-functions/prefer-arrow-functions */
+import { ExpressWithAsync } from "@awaitjs/express";
+import { childLogger, Logger } from "@foxxmd/logging";
+import { Request } from "express";
+import { AudioscrobblerHandshakeRequest } from "../common/infrastructure/config/source/endpointas.js";
+import { getRoot } from "../ioc.js";
+import {
+    EndpointAudioscrobblerSource,
+    MAX_SUBMISSION_TRACKS,
+    parseNowPlayingRequest,
+    parseSlugFromString,
+    parseSubmissionRequest,
+    playStateFromTrack,
+    validateHandshakeRequest,
+    validateTrack
+} from "../sources/EndpointAudioscrobblerSource.js";
+import { ASEndpointNotifier } from "../sources/ingressNotifiers/ASEndpointNotifier.js";
+import ScrobbleSources from "../sources/ScrobbleSources.js";
+import { joinedUrl } from "../utils/NetworkUtils.js";
+import { isDebugMode } from "../utils.js";
+
+/**
+ * Base URL the client used to reach MS, used to build the now playing/submission URLs returned during handshake
+ * */
+const getRequestBaseUrl = (req: Request, handshakePath: string): URL => {
+    const root = getRoot();
+    const base = root.get('hasDefinedBaseUrl') ? root.get('localUrl') : new URL(`${req.protocol}://${req.get('host')}`);
+    return joinedUrl(base, handshakePath);
+}
+
+export const setupAudioscrobblerEndpointRoutes = (app: ExpressWithAsync, parentLogger: Logger, scrobbleSources: ScrobbleSources) => {
+
+    const logger = childLogger(parentLogger, ['Ingress', 'Audioscrobbler']);
+
+    const webhookIngress = new ASEndpointNotifier(logger);
+
+    // handshake is a GET request to the root of the server (or slug path) with hs=true
+    // https://web.archive.org/web/20170107015006/http://www.last.fm/api/submissions#handshake
+    app.getAsync(/^(\/api\/audioscrobbler(\/[^/]+)?)?\/?$/, async function (req, res, next) {
+        if (req.query.hs === undefined) {
+            return next();
+        }
+        webhookIngress.trackIngress(req, false);
+        res.type('text/plain');
+
+        const query = req.query as AudioscrobblerHandshakeRequest;
+        const invalidReason = validateHandshakeRequest(query);
+        if (invalidReason !== undefined) {
+            return res.send(`FAILED ${invalidReason}\n`);
+        }
+
+        const slug = parseSlugFromString(req.path);
+        if (slug === false) {
+            return res.send(`FAILED Invalid handshake URL\n`);
+        }
+
+        const sources = scrobbleSources.getByType('endpointas') as EndpointAudioscrobblerSource[];
+        if (sources.length === 0) {
+            logger.warn('Received Audioscrobbler handshake but no Audioscrobbler endpoint sources are configured');
+        }
+
+        const matchedSources = sources.filter(x => x.matchHandshake(slug, query));
+        if (matchedSources.length === 0) {
+            logger.warn(`No Audioscrobbler endpoint config matched => Slug: ${slug ?? '(no slug)'} | User: ${query.u}`);
+            return res.send('BADAUTH\n');
+        }
+
+        const statuses = matchedSources.map(x => x.authenticateHandshake(query));
+        const authedSources = matchedSources.filter((_, index) => statuses[index] === 'OK');
+        if (authedSources.length === 0) {
+            const status = statuses.includes('BADTIME') ? 'BADTIME' : 'BADAUTH';
+            logger.warn(`Audioscrobbler handshake from user ${query.u} failed => ${status}`);
+            return res.send(`${status}\n`);
+        }
+
+        const sessionId = authedSources[0].createSession(query).id;
+        for (const source of authedSources.slice(1)) {
+            source.createSession(query, sessionId);
+        }
+
+        const base = getRequestBaseUrl(req, req.path);
+        return res.send(`OK\n${sessionId}\n${joinedUrl(base, 'np_1.2').toString()}\n${joinedUrl(base, 'protocol_1.2').toString()}\n`);
+    });
+
+    app.useAsync(/^(\/api\/audioscrobbler(\/[^/]+)?)?\/(np|protocol)_1\.2\/?$/,
+        async function (req, res, next) {
+            // track request before checking body to ensure we at least log that something is happening
+            webhookIngress.trackIngress(req, true);
+            if (req.method !== 'POST') {
+                return res.sendStatus(405);
+            }
+            next();
+        },
+        async function (req, res) {
+            webhookIngress.trackIngress(req, false);
+            res.type('text/plain');
+
+            const body = (req.body ?? {}) as Record<string, unknown>;
+            const sources = (scrobbleSources.getByType('endpointas') as EndpointAudioscrobblerSource[]).filter(x => x.hasSession(body.s as string));
+            if (sources.length === 0) {
+                logger.warn(`Received Audioscrobbler request with an unknown session, client should handshake again`);
+                return res.send('BADSESSION\n');
+            }
+
+            const isNowPlaying = req.originalUrl.includes('np_1.2');
+
+            if (isDebugMode()) {
+                logger.debug({body}, "Recieved request Body");
+            }
+
+            if (isNowPlaying) {
+                const track = parseNowPlayingRequest(body);
+                const invalid = validateTrack(track, false);
+                if (invalid !== undefined) {
+                    return res.send(`FAILED ${invalid}\n`);
+                }
+                res.send('OK\n');
+
+                const playerState = playStateFromTrack(track, true);
+                for (const source of sources) {
+                    await source.handle(playerState);
+                }
+                return;
+            }
+
+            const tracks = parseSubmissionRequest(body);
+            if (tracks.length === 0) {
+                return res.send('FAILED No tracks in submission\n');
+            }
+            if (tracks.length > MAX_SUBMISSION_TRACKS) {
+                return res.send(`FAILED Submission cannot contain more than ${MAX_SUBMISSION_TRACKS} tracks\n`);
+            }
+            for (const [index, track] of tracks.entries()) {
+                const invalid = validateTrack(track, true);
+                if (invalid !== undefined) {
+                    return res.send(`FAILED Track ${index} is invalid => ${invalid}\n`);
+                }
+            }
+            res.send('OK\n');
+
+            // skipped tracks should not be scrobbled
+            // https://web.archive.org/web/20170107015006/http://www.last.fm/api/submissions#subs
+            const scrobblable = tracks.filter(x => x.r !== 'S');
+            for (const track of scrobblable) {
+                const playerState = playStateFromTrack(track, false);
+                for (const source of sources) {
+                    await source.handle(playerState);
+                }
+            }
+        });
+}
@@ -5,7 +5,17 @@ import bodyParser from "body-parser";
 import ScrobbleSources from "../sources/ScrobbleSources.js";
 import { nonEmptyBody } from "./middleware.js";
 import { LFMEndpointNotifier } from "../sources/ingressNotifiers/LFMEndpointNotifier.js";
-import { EndpointLastfmSource, playStateFromRequest, parseDisplayIdentifiersFromRequest } from "../sources/EndpointLastfmSource.js";
+import {
+    EndpointLastfmSource,
+    formatLfmError,
+    formatLfmResponse,
+    LFM_ENDPOINT_METHODS,
+    parseDisplayIdentifiersFromRequest,
+    parseParamsFromRequest,
+    playStateFromRequest
+} from "../sources/EndpointLastfmSource.js";
+import { LastFMEndpointMethod } from "../common/infrastructure/config/source/endpointlfm.js";
+import { ExpressResponse } from "../common/infrastructure/Atomic.js";
 import { LastFMScrobbleRequestPayload } from "../common/vendor/LastfmApiClient.js";
 
 export const setupLastfmEndpointRoutes = (app: ExpressWithAsync, parentLogger: Logger, scrobbleSources: ScrobbleSources) => {
@@ -15,46 +25,110 @@ export const setupLastfmEndpointRoutes = (app: ExpressWithAsync, parentLogger: L
     const nonEmptyCheck = nonEmptyBody(logger, 'LFM Endpoint');
 
     const webhookIngress = new LFMEndpointNotifier(logger);
+    const sendLfm = (res: ExpressResponse, {type, body}: { type: string, body: string }, status: number = 200) => res.status(status).type(type).send(body);
+
     app.useAsync(/(\/api\/lastfm(?!\/callback))|(\/2.0\/?)$/,
         async function (req, res, next) {
             // track request before parsing body to ensure we at least log that something is happening
             // (in the event body parsing does not work or request is not POST/PATCH)
             webhookIngress.trackIngress(req, true);
-            if (req.method !== 'POST') {
+            if (req.method !== 'POST' && req.method !== 'GET') {
                 return res.sendStatus(405);
             }
             next();
         },
-        bodyParser.urlencoded({ extended: true }), 
-        nonEmptyCheck, async function (req, res) {
+        bodyParser.urlencoded({ extended: true }),
+        // auth and user methods may be sent as GET with query params
+        async function (req, res, next) {
+            if (req.method === 'GET') {
+                return next();
+            }
+            return nonEmptyCheck(req, res, next);
+        },
+        async function (req, res) {
             webhookIngress.trackIngress(req, false);
 
+            const params = parseParamsFromRequest(req);
+
+            if(!('method' in params)) {
+                return res.status(400).json({error: `Missing 'method' param`});
+            }
+            const method = params.method as LastFMEndpointMethod;
+            const format = params.format;
+
             const sources = scrobbleSources.getByType('endpointlfm') as EndpointLastfmSource[];
             if (sources.length === 0) {
                 logger.warn('Received Lastfm endpoint payload but no Lastfm endpoint sources are configured');
             }
 
+            switch (method) {
+                case 'auth.getMobileSession': {
+                    const source = sources.filter(x => x.matchSlug(req)).find(x => x.authenticate(params));
+                    if (source === undefined) {
+                        logger.warn(`No Lastfm endpoint config accepted login for user ${params.username ?? '(no username)'}`);
+                        return sendLfm(res, formatLfmError(4, 'Authentication Failed - You do not have permissions to access the service', format), 403);
+                    }
+                    return sendLfm(res, formatLfmResponse({session: {...source.createSession(params.username), subscriber: 0}}, format));
+                }
+                case 'auth.getToken': {
+                    const source = sources.find(x => x.matchSlug(req));
+                    if (source === undefined) {
+                        const [slug] = parseDisplayIdentifiersFromRequest(req);
+                        logger.warn(`No Lastfm endpoint config matched => Slug: ${slug}`);
+                        return sendLfm(res, formatLfmError(4, 'Authentication Failed - You do not have permissions to access the service', format), 403);
+                    }
+                    return sendLfm(res, formatLfmResponse({token: source.createToken()}, format));
+                }
+                case 'auth.getSession': {
+                    for (const source of sources) {
+                        const session = params.token !== undefined ? source.sessionFromToken(params.token) : undefined;
+                        if (session !== undefined) {
+                            return sendLfm(res, formatLfmResponse({session: {...session, subscriber: 0}}, format));
+                        }
+                    }
+                    return sendLfm(res, formatLfmError(14, 'Unauthorized Token - This token has not been authorized', format), 403);
+                }
+                case 'user.getInfo': {
+                    const source = sources.find(x => x.matchRequest(req));
+                    if (source === undefined) {
+                        return sendLfm(res, formatLfmError(9, 'Invalid session key - Please re-authenticate', format), 403);
+                    }
+                    const name = params.user ?? source.getSessionName(params.sk);
+                    return sendLfm(res, formatLfmResponse({
+                        user: {
+                            name,
+                            realname: '',
+                            url: `https://www.last.fm/user/${name}`,
+                            country: '',
+                            playcount: source.tracksDiscovered.toString(),
+                            subscriber: '0',
+                            type: 'user',
+                        }
+                    }, format));
+                }
+                case 'track.updateNowPlaying':
+                case 'track.scrobble':
+                    break;
+                default:
+                    return res.status(400).json({error: `Unexpected 'method' param value '${method}', expected one of ${LFM_ENDPOINT_METHODS.join(', ')}`});
+            }
+
             const validSources = sources.filter(x => x.matchRequest(req));
             if (validSources.length === 0) {
                 const [slug] = parseDisplayIdentifiersFromRequest(req);
-                logger.warn(`No Lastfm endpoint config matched => Slug: ${slug}`);
-            }
-
-            if(!('method' in req.body)) {
-                return res.status(400).json({error: `Missing 'method' param`});
-            }
-            const method = (req.body as LastFMScrobbleRequestPayload).method;
-            if(!['track.updateNowPlaying','track.scrobble'].includes(method)) {
-                return res.status(400).json({error: `Unexpected 'method' param value '${method}', expected either 'track.updateNowPlaying' or 'track.scrobble'`});
+                logger.warn(`No Lastfm endpoint config matched => Slug: ${slug} | Session Key: ${params.sk !== undefined ? '(invalid)' : '(none)'}`);
+                if (sources.some(x => x.requiresSession && x.matchSlug(req))) {
+                    // let the app know it needs to login again
+                    return sendLfm(res, formatLfmError(9, 'Invalid session key - Please re-authenticate', format), 403);
+                }
             }
 
             res.sendStatus(200);
 
-            const playerState = playStateFromRequest(req.body);
+            const playerState = playStateFromRequest(params as LastFMScrobbleRequestPayload);
 
             for (const source of validSources) {
                 await source.handle(playerState);
             }
         });
 }
-
@@ -2,7 +2,14 @@
 import { ExpressWithAsync } from "@awaitjs/express";
 import { childLogger, Logger } from "@foxxmd/logging";
 import bodyParser from "body-parser";
-import { EndpointListenbrainzSource, playStateFromRequest, parseDisplayIdentifiersFromRequest } from "../sources/EndpointListenbrainzSource.js";
+import {
+    EndpointListenbrainzSource,
+    parseDisplayIdentifiersFromRequest,
+    parseTokenFromRequest,
+    playStateFromRequest
+} from "../sources/EndpointListenbrainzSource.js";
+import { UserListensOptions } from "../common/vendor/ListenbrainzApiClient.js";
+import { getScrobbleTsSOCDate } from "../utils/TimeUtils.js";
 import { LZEndpointNotifier } from "../sources/ingressNotifiers/LZEndpointNotifier.js";
 import ScrobbleSources from "../sources/ScrobbleSources.js";
 import { nonEmptyBody } from "./middleware.js";
@@ -57,17 +64,104 @@ export const setupLZEndpointRoutes = (app: ExpressWithAsync, parentLogger: Logge
         });
     app.getAsync('/1/validate-token', async function (req, res) {
         //https://listenbrainz.readthedocs.io/en/latest/users/api/core.html#get--1-validate-token
-        logger.info('Validated token');
+        const headerToken = parseTokenFromRequest(req);
+        const token = typeof headerToken === 'string' ? headerToken : req.query.token as string | undefined;
+        if (token === undefined || token.trim() === '') {
+            return res.status(400).json({
+                code: 400,
+                error: "You need to provide an Authorization token."
+            });
+        }
+
+        const sources = scrobbleSources.getByType('endpointlz') as EndpointListenbrainzSource[];
+        // prefer a source with an explicitly matching token over sources that accept any token
+        const source = sources.find(x => x.config.data.token !== undefined && x.matchToken(token)) ?? sources.find(x => x.matchToken(token));
+        if (source === undefined) {
+            logger.warn(`Token ${token.substring(0, 3)}**** did not match any Listenbrainz endpoint config`);
+            return res.status(200).json({
+                code: 200,
+                message: "Token invalid.",
+                valid: false
+            });
+        }
+
+        logger.info(`Validated token for ${source.config.data.username}`);
         return res.status(200).json({
             code: 200,
             message: "Token valid.",
             valid: true,
-            user_name: "Multi-Scrobbler"
+            user_name: source.config.data.username
         })
     });
+
+    const getUserSource = (user: string): EndpointListenbrainzSource | undefined => (scrobbleSources.getByType('endpointlz') as EndpointListenbrainzSource[]).find(x => x.matchUser(user));
+
+    app.getAsync('/1/user/:user/listens', async function (req, res) {
+        // https://listenbrainz.readthedocs.io/en/latest/users/api/core.html#get--1-user-(mb_username-user_name)-listens
+        const source = getUserSource(req.params.user);
+        if (source === undefined) {
+            return res.status(404).json({code: 404, error: `Cannot find user: ${req.params.user}`});
+        }
+        const options: UserListensOptions = {};
+        for (const param of ['min_ts', 'max_ts', 'count'] as const) {
+            if (req.query[param] !== undefined) {
+                const val = Number.parseInt(req.query[param] as string, 10);
+                if (Number.isNaN(val) || val < 0) {
+                    return res.status(400).json({code: 400, error: `'${param}' should be a positive integer`});
+                }
+                options[param] = val;
+            }
+        }
+        if (options.min_ts !== undefined && options.max_ts !== undefined) {
+            return res.status(400).json({code: 400, error: 'You may only specify max_ts or min_ts, not both.'});
+        }
+
+        const listens = source.getListens(options);
+        const discovered = source.getFlatRecentlyDiscoveredPlays();
+        return res.json({
+            payload: {
+                count: listens.length,
+                listens,
+                latest_listen_ts: discovered.length > 0 ? getScrobbleTsSOCDate(discovered[0]).unix() : 0,
+                oldest_listen_ts: discovered.length > 0 ? getScrobbleTsSOCDate(discovered[discovered.length - 1]).unix() : 0,
+                user_id: source.config.data.username,
+            }
+        });
+    });
+
+    app.getAsync('/1/user/:user/playing-now', async function (req, res) {
+        // https://listenbrainz.readthedocs.io/en/latest/users/api/core.html#get--1-user-(mb_username-user_name)-playing-now
+        const source = getUserSource(req.params.user);
+        if (source === undefined) {
+            return res.status(404).json({code: 404, error: `Cannot find user: ${req.params.user}`});
+        }
+        const playingNow = source.getPlayingNow();
+        return res.json({
+            payload: {
+                count: playingNow === undefined ? 0 : 1,
+                listens: playingNow === undefined ? [] : [{...playingNow, playing_now: true}],
+                playing_now: true,
+                user_id: source.config.data.username,
+            }
+        });
+    });
+
+    app.getAsync('/1/user/:user/listen-count', async function (req, res) {
+        // https://listenbrainz.readthedocs.io/en/latest/users/api/core.html#get--1-user-(mb_username-user_name)-listen-count
+        const source = getUserSource(req.params.user);
+        if (source === undefined) {
+            return res.status(404).json({code: 404, error: `Cannot find user: ${req.params.user}`});
+        }
+        return res.json({
+            payload: {
+                count: source.tracksDiscovered
+            }
+        });
+    });
+
     app.useAsync(/\/1\/.*/, async function (req, res) {
         logger.warn(`Received what looks like a Listenbrainz Endpoint request but it was to an invalid URL route: ${req.originalUrl}\nMake sure base URL path to MS endpoint is correct.`);
-        res.status(404);
+        res.status(404).json({code: 404, error: 'Not Found'});
     });
 }
 
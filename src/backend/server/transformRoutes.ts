@@ -0,0 +1,113 @@
+import { ExpressWithAsync } from "@awaitjs/express";
+import { childLogger, Logger } from "@foxxmd/logging";
+import { AmbPlayObject, isPlayObject, PlayObject } from "../../core/Atomic.js";
+import AbstractComponent from "../common/AbstractComponent.js";
+import { SourceType } from "../common/infrastructure/config/source/sources.js";
+import { PlayTransformConfig, TRANSFORM_HOOK, TransformHook } from "../common/infrastructure/Transform.js";
+import TransformPreviewComponent from "../common/transforms/TransformPreviewComponent.js";
+import ScrobbleClients from "../scrobblers/ScrobbleClients.js";
+import AbstractSource from "../sources/AbstractSource.js";
+import ScrobbleSources from "../sources/ScrobbleSources.js";
+import { rehydratePlay } from "../utils/CacheUtils.js";
+import { messageWithCauses } from "../utils/ErrorUtils.js";
+
+interface TransformPreviewRequest {
+    play?: AmbPlayObject
+    source?: string
+    sourceType?: string
+    index?: number
+    client?: string
+    playTransform?: PlayTransformConfig
+    hooks?: TransformHook[]
+}
+
+const parsePreviewRequest = (body: any = {}): TransformPreviewRequest => {
+    const {
+        play,
+        source,
+        sourceType,
+        index,
+        client,
+        playTransform,
+        hooks
+    } = body;
+
+    if(play !== undefined && !isPlayObject(play)) {
+        throw new Error(`'play' must be an object with 'data' and 'meta' properties`);
+    }
+    if(play === undefined && (typeof source !== 'string' || source.trim() === '')) {
+        throw new Error(`Either 'play' or the name of a Source with 'source' must be given`);
+    }
+    if(index !== undefined && (!Number.isInteger(index) || index < 0)) {
+        throw new Error(`'index' must be a positive integer`);
+    }
+    if(client !== undefined && typeof client !== 'string') {
+        throw new Error(`'client' must be the name of a Client`);
+    }
+    if(playTransform !== undefined && (playTransform === null || typeof playTransform !== 'object' || Array.isArray(playTransform))) {
+        throw new Error(`'playTransform' must be an object`);
+    }
+    const validHooks = Object.values(TRANSFORM_HOOK);
+    if(hooks !== undefined && (!Array.isArray(hooks) || hooks.length === 0 || hooks.some(x => !validHooks.includes(x)))) {
+        throw new Error(`'hooks' must be a list containing any of ${validHooks.join(' | ')}`);
+    }
+    return {play, source, sourceType, index, client, playTransform, hooks};
+}
+
+export const setupTransformRoutes = (app: ExpressWithAsync, parentLogger: Logger, scrobbleSources: ScrobbleSources, scrobbleClients: ScrobbleClients) => {
+
+    const logger = childLogger(parentLogger, 'Transform Preview');
+
+    const previewComponent = new TransformPreviewComponent(parentLogger);
+
+    app.postAsync('/api/transform/preview', async (req, res) => {
+        let previewReq: TransformPreviewRequest;
+        try {
+            previewReq = parsePreviewRequest(req.body);
+        } catch (e) {
+            return res.status(400).json({message: e.message});
+        }
+
+        const {
+            source: sourceName,
+            sourceType,
+            index = 0,
+            client: clientName,
+            playTransform,
+            hooks
+        } = previewReq;
+
+        let source: AbstractSource | undefined;
+        if(sourceName !== undefined) {
+            source = sourceType !== undefined ? scrobbleSources.getByNameAndType(sourceName, sourceType as SourceType) : scrobbleSources.getByName(sourceName);
+            if(source === undefined) {
+                return res.status(404).json({message: `No Source with the name ${sourceName}`});
+            }
+        }
+
+        let component: AbstractComponent = source ?? previewComponent;
+        if(clientName !== undefined) {
+            component = scrobbleClients.getByName(clientName);
+            if(component === undefined) {
+                return res.status(404).json({message: `No Client with the name ${clientName}`});
+            }
+        }
+
+        let play: PlayObject;
+        if(previewReq.play !== undefined) {
+            play = rehydratePlay(previewReq.play);
+        } else {
+            play = source.getFlatRecentlyDiscoveredPlays()[index];
+            if(play === undefined) {
+                return res.status(404).json({message: `Source ${sourceName} does not have a recently discovered Play at index ${index}`});
+            }
+        }
+
+        try {
+            return res.json(await component.previewTransform(play, playTransform, hooks));
+        } catch (e) {
+            logger.debug(new Error('Could not preview transform', {cause: e}));
+            return res.status(400).json({message: messageWithCauses(e)});
+        }
+    });
+}
@@ -111,7 +111,7 @@ export default abstract class AbstractSource extends AbstractComponent implement
         this.discoveredCounter = getRoot().items.sourceMetics.discovered;
     }
 
-    protected getIdentifier() {
+    public getIdentifier() {
         return `${capitalize(this.type)} - ${this.name}`
     }
     protected getMachineId() {
@@ -155,14 +155,25 @@ export default abstract class AbstractSource extends AbstractComponent implement
         const list = this.recentDiscoveredPlays.get(platformId) ?? new FixedSizeList<ProgressAwarePlayObject>(200);
         list.add(play);
         this.recentDiscoveredPlays.set(platformId, list);
+        const {filtered} = play.meta.lifecycle ?? {};
+        if(filtered !== undefined) {
+            // kept in the discovered list only so it is not re-checked, it is not a listen
+            this.logger.verbose(`Filtered => ${buildTrackString(play)} | ${filtered.reason}`);
+            this.history.addDiscovered({type: this.type, name: this.name, identifier: this.getIdentifier()}, play, 'filtered');
+            return;
+        }
         this.tracksDiscovered++;
         this.logger.info(`Discovered => ${buildTrackString(play)}`);
-        this.emitEvent('discovered', {play});
         this.discoveredCounter.labels(this.getPrometheusLabels()).inc();
+        this.emitEvent('discovered', {play});
+        this.history.addDiscovered({type: this.type, name: this.name, identifier: this.getIdentifier()}, play);
     }
 
+    /**
+     * All discovered plays, newest first. Plays that were filtered are not included.
+     * */
     getFlatRecentlyDiscoveredPlays = (): PlayObject[] =>
-         Array.from(this.recentDiscoveredPlays.values()).map(x => x.data).flat(3).sort(sortByNewestPlayDate)
+         Array.from(this.recentDiscoveredPlays.values()).map(x => x.data).flat(3).filter(x => x.meta.lifecycle?.filtered === undefined).sort(sortByNewestPlayDate)
     
 
     getRecentlyDiscoveredPlaysByPlatform = (platformId: PlayPlatformId): PlayObject[] => {
@@ -221,6 +232,12 @@ export default abstract class AbstractSource extends AbstractComponent implement
         const sm = staggerMapper<PlayObject, PlayObject>({concurrency: 2});
         for await(const play of pMapIterable(plays, sm(async x => await this.transformPlay(x, TRANSFORM_HOOK.preCompare)), {concurrency: 2})) {
             if(!(await this.alreadyDiscovered(play, options))) {
+                const filteredPlay = this.filterPlay(play);
+                if(filteredPlay !== undefined) {
+                    // still tracked as discovered so it is not re-checked on every poll
+                    this.addPlayToDiscovered(filteredPlay);
+                    continue;
+                }
                 this.addPlayToDiscovered(play);
                 newDiscoveredPlays.push(play);
             }
@@ -582,7 +599,10 @@ export default abstract class AbstractSource extends AbstractComponent implement
     }
 
     public async destroy() {
-        this.emitter.removeAllListeners();
+        // emitter is shared by all Sources so only stop our own processing
+        if(this.polling) {
+            await this.tryStopPolling();
+        }
     }
 
     protected async doBuildComponentLogger(): Promise<void> {
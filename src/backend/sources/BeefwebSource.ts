@@ -0,0 +1,237 @@
+import { EventEmitter } from "events";
+import normalizeUrl from "normalize-url";
+import request from 'superagent';
+import { PlayObject, PlayObjectLifecycleless } from "../../core/Atomic.js";
+import {
+    FormatPlayObjectOptions,
+    InternalConfig,
+    PlayerStateData,
+    REPORTED_PLAYER_STATUSES,
+    ReportedPlayerStatus,
+    SINGLE_USER_PLATFORM_ID,
+} from "../common/infrastructure/Atomic.js";
+import {
+    BeefwebColumns,
+    BeefwebPlaybackState,
+    BeefwebPlayerResponse,
+    BeefwebSourceConfig
+} from "../common/infrastructure/config/source/beefweb.js";
+import { isPortReachable, joinedUrl } from "../utils/NetworkUtils.js";
+import { hashObject } from "../utils/StringUtils.js";
+import { isDebugMode } from "../utils.js";
+import { baseFormatPlayObj } from "../utils/PlayTransformUtils.js";
+import { RecentlyPlayedOptions } from "./AbstractSource.js";
+import { MemoryPositionalSource } from "./MemoryPositionalSource.js";
+
+const CLIENT_PLAYER_STATE: Record<BeefwebPlaybackState, ReportedPlayerStatus> = {
+    'playing': REPORTED_PLAYER_STATUSES.playing,
+    'paused': REPORTED_PLAYER_STATUSES.paused,
+    'stopped': REPORTED_PLAYER_STATUSES.stopped,
+}
+
+export const DEFAULT_COLUMNS: Required<BeefwebColumns> = {
+    artist: '[%artist%]',
+    title: '%title%',
+    album: '[%album%]',
+    albumArtist: '[%album artist%]',
+    duration: '[%length_seconds_fp%]'
+}
+
+export type BeefwebTrackData = Partial<Record<keyof BeefwebColumns, string>>;
+
+/**
+ * https://github.com/hyperblast/beefweb/blob/master/docs/player-api.yml
+ * */
+export class BeefwebSource extends MemoryPositionalSource {
+    declare config: BeefwebSourceConfig;
+
+    url: URL;
+    columns: [keyof BeefwebColumns, string][] = [];
+    playerName?: string;
+    playerVersion?: string;
+    protected payloadHashSeen?: string;
+
+    constructor(name: any, config: BeefwebSourceConfig, internal: InternalConfig, emitter: EventEmitter) {
+        const {
+            data,
+        } = config;
+        const {
+            interval = 5, // reduced polling interval because its likely we are on the same network
+            ...rest
+        } = data || {};
+        super('beefweb', name, {...config, data: {...rest, interval}}, internal, emitter);
+
+        this.requiresAuth = true;
+        this.canPoll = true;
+    }
+
+    static parseConnectionUrl(val: string) {
+        const normal = normalizeUrl(val, {removeTrailingSlash: true, normalizeProtocol: true});
+        const url = new URL(normal);
+
+        if (url.port === null || url.port === '') {
+            url.port = '8880';
+        }
+        if (url.pathname === '/') {
+            url.pathname = '/api';
+        }
+        return url;
+    }
+
+    protected async doBuildInitData(): Promise<true | string | undefined> {
+        const {
+            data: {
+                url = 'http://localhost:8880',
+                columns = {}
+            } = {}
+        } = this.config;
+
+        this.url = BeefwebSource.parseConnectionUrl(url);
+        this.logger.verbose(`Config URL: '${url}' => Normalized: '${this.url.toString()}'`);
+
+        for (const [k, v] of Object.entries({...DEFAULT_COLUMNS, ...columns})) {
+            if (!(k in DEFAULT_COLUMNS)) {
+                throw new Error(`'${k}' is not a valid column. Must be one of: ${Object.keys(DEFAULT_COLUMNS).join(', ')}`);
+            }
+            if (typeof v !== 'string' || v.trim() === '') {
+                throw new Error(`Column '${k}' must be a non-empty title formatting expression`);
+            }
+            if (v.includes(',')) {
+                // columns are sent as a comma-separated list
+                throw new Error(`Column '${k}' cannot contain a comma => ${v}`);
+            }
+            this.columns.push([k as keyof BeefwebColumns, v]);
+        }
+        this.logger.debug(`Using columns => ${this.columns.map(([k, v]) => `${k}: ${v}`).join(' | ')}`);
+
+        return true;
+    }
+
+    protected async doCheckConnection(): Promise<true | string | undefined> {
+        try {
+            await isPortReachable(parseInt(this.url.port), {host: this.url.hostname});
+            return `${this.url.hostname}:${this.url.port} is reachable.`;
+        } catch (e) {
+            throw e;
+        }
+    }
+
+    doAuthentication = async () => {
+        try {
+            const resp = await this.getPlayer();
+            this.playerName = resp.player.info.title;
+            this.playerVersion = resp.player.info.version;
+            this.logger.info(`Connected successfully, found ${resp.player.info.title} ${resp.player.info.version} with beefweb ${resp.player.info.pluginVersion}`);
+            return true;
+        } catch (e) {
+            if(e.status === 401) {
+                throw new Error(`beefweb responded with 401 Unauthorized, check username/password`, {cause: e});
+            }
+            throw new Error('Could not communicate with beefweb server', {cause: e});
+        }
+    }
+
+    getPlayer = async (): Promise<BeefwebPlayerResponse> => {
+        const req = request.get(joinedUrl(this.url, 'player').toString())
+            .query({columns: this.columns.map(([, v]) => v).join(',')});
+        const {username, password} = this.config.data ?? {};
+        if (username !== undefined && password !== undefined) {
+            req.auth(username, password);
+        }
+        const resp = await req;
+        return resp.body as BeefwebPlayerResponse;
+    }
+
+    /**
+     * Map column values from the active item back to the fields they were requested for
+     * */
+    parseColumns = (values: string[] = []): BeefwebTrackData => {
+        const data: BeefwebTrackData = {};
+        for (const [index, [field]] of this.columns.entries()) {
+            const val = values[index];
+            if (val !== undefined && val.trim() !== '' && val !== '?') {
+                data[field] = val.trim();
+            }
+        }
+        return data;
+    }
+
+    formatPlayObj(obj: BeefwebPlayerResponse, options: FormatPlayObjectOptions = {}): PlayObject {
+        const {
+            player: {
+                activeItem: {
+                    position,
+                    duration: itemDuration,
+                    columns
+                }
+            }
+        } = obj;
+
+        const {
+            artist,
+            title,
+            album,
+            albumArtist,
+            duration: durationCol
+        } = this.parseColumns(columns);
+
+        let duration: number | undefined = durationCol !== undefined ? Number.parseFloat(durationCol) : undefined;
+        if (duration === undefined || Number.isNaN(duration) || duration === 0) {
+            duration = itemDuration > 0 ? itemDuration : undefined;
+        }
+
+        const play: PlayObjectLifecycleless = {
+            data: {
+                artists: artist !== undefined ? [artist] : [],
+                albumArtists: albumArtist !== undefined && albumArtist !== artist ? [albumArtist] : [],
+                album,
+                track: title,
+                duration
+            },
+            meta: {
+                trackProgressPosition: position,
+                source: 'beefweb',
+                mediaPlayerName: this.playerName,
+                mediaPlayerVersion: this.playerVersion
+            }
+        }
+        return baseFormatPlayObj(obj, play);
+    }
+
+    getRecentlyPlayed = async (options: RecentlyPlayedOptions = {}) => {
+
+        let resp: BeefwebPlayerResponse;
+        try {
+            resp = await this.getPlayer();
+        } catch (e) {
+            this.connectionOK = false;
+            this.authed = false;
+            throw e;
+        }
+
+        const {
+            playbackState,
+            activeItem
+        } = resp.player;
+
+        if (this.config.options?.logPayload || isDebugMode()) {
+            const {position, ...invariantItem} = activeItem;
+            const hash = hashObject({playbackState, invariantItem});
+            if (hash !== this.payloadHashSeen) {
+                this.payloadHashSeen = hash;
+                this.logger.debug(resp, 'beefweb Player');
+            }
+        }
+
+        const play: PlayObject | undefined = playbackState === 'stopped' || activeItem.index === -1 ? undefined : this.formatPlayObj(resp);
+
+        const playerState: PlayerStateData = {
+            platformId: SINGLE_USER_PLATFORM_ID,
+            status: CLIENT_PLAYER_STATE[playbackState] ?? REPORTED_PLAYER_STATUSES.unknown,
+            play,
+            position: play !== undefined ? activeItem.position : undefined
+        }
+
+        return await this.processRecentPlays([playerState]);
+    }
+}
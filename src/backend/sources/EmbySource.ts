@@ -0,0 +1,474 @@
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { FixedSizeList } from "fixed-size-list";
+import request from 'superagent';
+import { BrainzMeta, PlayObject, PlayObjectLifecycleless, URLData } from "../../core/Atomic.js";
+import { buildTrackString, combinePartsToString, truncateStringToLength } from "../../core/StringUtils.js";
+import {
+    FormatPlayObjectOptions,
+    InternalConfig,
+    PlayerStateDataMaybePlay,
+    REPORTED_PLAYER_STATUSES
+} from "../common/infrastructure/Atomic.js";
+import {
+    EmbyAuthenticationResult,
+    EmbyBaseItem,
+    EmbyPublicSystemInfo,
+    EmbySessionInfo,
+    EmbySourceConfig,
+    EmbyUser,
+    EmbyVirtualFolder
+} from "../common/infrastructure/config/source/emby.js";
+import { genGroupIdStr, getPlatformIdFromData, isDebugMode } from "../utils.js";
+import { joinedUrl, normalizeWebAddress } from "../utils/NetworkUtils.js";
+import { baseFormatPlayObj } from "../utils/PlayTransformUtils.js";
+import { hashObject, parseArrayFromMaybeString } from "../utils/StringUtils.js";
+import { RecentlyPlayedOptions } from "./AbstractSource.js";
+import { MemoryPositionalSource } from "./MemoryPositionalSource.js";
+
+const shortDeviceId = truncateStringToLength(10, '');
+
+/**
+ * Emby does not have an SDK we can use (Jellyfin SDK is not compatible) so the REST API is used directly
+ *
+ * https://dev.emby.media/doc/restapi/index.html
+ * */
+export default class EmbySource extends MemoryPositionalSource {
+
+    declare config: EmbySourceConfig;
+
+    urlData!: URLData;
+    token?: string;
+    user?: EmbyUser;
+    serverId?: string;
+
+    deviceId: string;
+    msVersion: string;
+
+    usersAllow: string[] = [];
+    usersBlock: string[] = [];
+    devicesAllow: string[] = [];
+    devicesBlock: string[] = [];
+    librariesAllow: string[] = [];
+    librariesBlock: string[] = [];
+    allowedLibraryTypes: string[] = [];
+    allowedMediaTypes: string[] = ['audio'];
+
+    logFilterFailure: false | 'debug' | 'warn';
+
+    mediaIdsSeen: FixedSizeList<string>;
+    uniqueDropReasons: FixedSizeList<string>;
+
+    libraries: {name: string, paths: string[], collectionType?: string}[] = [];
+
+    constructor(name: any, config: EmbySourceConfig, internal: InternalConfig, emitter: EventEmitter) {
+        super('emby', name, config, internal, emitter);
+        this.canPoll = true;
+        this.multiPlatform = true;
+        this.requiresAuth = true;
+        this.msVersion = internal.version;
+        this.deviceId = `${name}-ms${internal.version}-${truncateStringToLength(10, '')(hashObject(config))}`;
+
+        this.uniqueDropReasons = new FixedSizeList<string>(100);
+        this.mediaIdsSeen = new FixedSizeList<string>(100);
+    }
+
+    protected async doBuildInitData(): Promise<true | string | undefined> {
+        const {
+            data: {
+                url,
+                user,
+                password,
+                apiKey,
+                usersAllow = [user],
+                usersBlock = [],
+                devicesAllow = [],
+                devicesBlock = [],
+                librariesAllow = [],
+                librariesBlock = [],
+                additionalAllowedLibraryTypes = [],
+                allowMediaTypes = [],
+            } = {},
+            options: {
+                logFilterFailure = (isDebugMode() ? 'debug' : 'warn')
+            } = {}
+        } = this.config;
+
+        if (url === undefined || url === null || url.trim() === '') {
+            throw new Error(`'url' must be defined in config data`);
+        }
+        if((password === undefined || password.trim() === '') && (apiKey === undefined || apiKey.trim() === '')) {
+            throw new Error(`Either 'password' or 'apiKey' must be specified in config data`);
+        }
+
+        this.urlData = normalizeWebAddress(url, {defaultPath: '/emby'});
+        this.logger.verbose(`Config URL: '${url}' => Normalized: '${this.urlData.normal}'`);
+
+        if (logFilterFailure !== false && !['debug', 'warn'].includes(logFilterFailure)) {
+            this.logger.warn(`logFilterFailure value of '${logFilterFailure.toString()}' is NOT VALID. Logging will not occur if filters fail. You should fix this.`);
+        } else {
+            this.logFilterFailure = logFilterFailure;
+        }
+
+        if(usersAllow === true) {
+            this.usersAllow = [];
+        } else {
+            const ua = parseArrayFromMaybeString(usersAllow, {lower: true});
+            if(ua.length === 1 && ua[0] === 'true') {
+                this.usersAllow = [];
+            } else {
+                this.usersAllow = ua;
+            }
+        }
+        this.usersBlock = parseArrayFromMaybeString(usersBlock, {lower: true});
+        this.devicesAllow = parseArrayFromMaybeString(devicesAllow, {lower: true});
+        this.devicesBlock = parseArrayFromMaybeString(devicesBlock, {lower: true});
+        this.librariesAllow = parseArrayFromMaybeString(librariesAllow, {lower: true});
+        this.librariesBlock = parseArrayFromMaybeString(librariesBlock, {lower: true});
+        this.allowedLibraryTypes = Array.from(new Set(['music', ...parseArrayFromMaybeString(additionalAllowedLibraryTypes, {lower: true})]));
+        const mt = parseArrayFromMaybeString(allowMediaTypes, {lower: true});
+        if(mt.length > 0) {
+            this.allowedMediaTypes = mt;
+        }
+
+        return true;
+    }
+
+    /**
+     * https://dev.emby.media/doc/restapi/User-Authentication.html
+     * */
+    protected authorizationHeader = () => `Emby Client="Multi-Scrobbler", Device="MS - ${this.name}", DeviceId="${this.deviceId}", Version="${this.msVersion}"`;
+
+    protected callApi = async <T>(path: string, body?: object): Promise<T> => {
+        const endpoint = joinedUrl(this.urlData.url, path).toString();
+        const req = body === undefined ? request.get(endpoint) : request.post(endpoint).send(body);
+        req.set('Accept', 'application/json')
+            .set('X-Emby-Authorization', this.authorizationHeader());
+        if(this.token !== undefined) {
+            req.set('X-Emby-Token', this.token);
+        }
+        try {
+            const resp = await req;
+            return resp.body as T;
+        } catch (e) {
+            if(e.status !== undefined) {
+                throw new Error(`Emby API returned ${e.status} for ${path}`, {cause: e});
+            }
+            throw new Error(`Could not communicate with Emby server at ${this.urlData.normal}`, {cause: e});
+        }
+    }
+
+    protected async doCheckConnection(): Promise<true | string | undefined> {
+        const info = await this.callApi<EmbyPublicSystemInfo>('System/Info/Public');
+        this.serverId = info.Id;
+        return `Found Server ${info.ServerName} (${info.Version})`;
+    }
+
+    protected doAuthentication = async (): Promise<boolean> => {
+        const {user, password, apiKey} = this.config.data;
+        if(password !== undefined && password.trim() !== '') {
+            this.token = undefined;
+            const auth = await this.callApi<EmbyAuthenticationResult>('Users/AuthenticateByName', {Username: user, Pw: password});
+            this.user = auth.User;
+            this.token = auth.AccessToken;
+            this.logger.info(`Authenticated with user ${this.user.Name}`);
+        } else {
+            this.token = apiKey;
+            const users = await this.callApi<EmbyUser[]>('Users');
+            this.user = users.find(x => x.Name.toLocaleLowerCase() === user.toLocaleLowerCase());
+            if(this.user === undefined) {
+                throw new Error(`No user with the name '${user}' exists on the server`);
+            }
+            this.logger.info(`Authenticated with API Key on behalf of user ${this.user.Name}`);
+        }
+        return true;
+    }
+
+    protected buildLibraryInfo = async () => {
+        try {
+            const folders = await this.callApi<EmbyVirtualFolder[]>('Library/VirtualFolders');
+            this.libraries = folders.map(x => ({name: x.Name, paths: x.Locations ?? [], collectionType: x.CollectionType}));
+        } catch (e) {
+            throw new Error('Unable to get server Libraries and paths', {cause: e});
+        }
+    }
+
+    getAllowedLibraries = () => {
+        if(this.librariesAllow.length === 0) {
+            return [];
+        }
+        return this.libraries.filter(x => this.librariesAllow.includes(x.name.toLocaleLowerCase()));
+    }
+
+    getBlockedLibraries = () => {
+        if(this.librariesBlock.length === 0) {
+            return [];
+        }
+        return this.libraries.filter(x => this.librariesBlock.includes(x.name.toLocaleLowerCase()));
+    }
+
+    getValidLibraries = () => this.libraries.filter(x => x.collectionType !== undefined && this.allowedLibraryTypes.includes(x.collectionType.toLocaleLowerCase()))
+
+    onPollPostAuthCheck = async () => {
+        try {
+            await this.buildLibraryInfo();
+            return true;
+        } catch (e) {
+            this.logger.error(new Error('Cannot start polling because Emby prerequisite data could not be built', {cause: e}));
+            return false;
+        }
+    }
+
+    isActivityValid = (state: PlayerStateDataMaybePlay, session: EmbySessionInfo): boolean | string => {
+        if(this.usersAllow.length > 0 && !this.usersAllow.includes(state.platformId[1].toLocaleLowerCase())) {
+            return `'usersAllow does not include user ${state.platformId[1]}`;
+        }
+        if(this.usersBlock.length > 0 && this.usersBlock.includes(state.platformId[1].toLocaleLowerCase())) {
+            return `'usersBlock includes user ${state.platformId[1]}`;
+        }
+
+        if(this.devicesAllow.length > 0 && !this.devicesAllow.some(x => state.platformId[0].toLocaleLowerCase().includes(x))) {
+            return `'devicesAllow does not include a phrase found in ${state.platformId[0]}`;
+        }
+        if(this.devicesBlock.length > 0 && this.devicesBlock.some(x => state.platformId[0].toLocaleLowerCase().includes(x))) {
+            return `'devicesBlock includes a phrase found in ${state.platformId[0]}`;
+        }
+
+        if(session.NowPlayingItem !== undefined) {
+            const {
+                Path,
+                Type,
+                ExtraType
+            } = session.NowPlayingItem;
+
+            const allowedLibraries = this.getAllowedLibraries();
+            if(allowedLibraries.length > 0) {
+                if(Path === undefined) {
+                    return 'media does not have a path, cannot be included in librariesAllow';
+                }
+                if(!allowedLibraries.some(x => x.paths.some(y => Path.includes(y)))) {
+                    return `media not included in librariesAllow`;
+                }
+            } else {
+                if(Path !== undefined) {
+                    const blockedLibrary = this.getBlockedLibraries().find(x => x.paths.some(y => Path.includes(y)));
+                    if(blockedLibrary !== undefined) {
+                        return `media included in librariesBlock '${blockedLibrary.name}'`;
+                    }
+                }
+                if(Path === undefined) {
+                    return 'media does not have a path, cannot be part of a valid library';
+                }
+                if(!this.getValidLibraries().some(x => x.paths.some(y => Path.includes(y)))) {
+                    return `media not included in a valid library`;
+                }
+            }
+
+            if(ExtraType === 'ThemeSong') {
+                return `media detected as a ThemeSong (ExtraType) is not allowed`;
+            }
+            if(Type === undefined && !this.allowedMediaTypes.includes('unknown')) {
+                return `media without a Type detected is not allowed (Unknown not included in allowMediaTypes)`;
+            }
+            if(Type !== undefined && !this.allowedMediaTypes.includes(Type.toLocaleLowerCase())) {
+                return `media detected as a ${Type} (Type) is not allowed`;
+            }
+        }
+
+        if(state.play !== undefined) {
+            const mediaType = state.play.meta?.mediaType;
+            if(mediaType === undefined && !this.allowedMediaTypes.includes('unknown')) {
+                return `media without a MediaType detected is not allowed (Unknown not included in allowMediaTypes)`;
+            }
+            if(mediaType !== undefined && !this.allowedMediaTypes.includes(mediaType.toLocaleLowerCase())) {
+                return `media detected as ${mediaType} (MediaType) is not included in allowMediaTypes`;
+            }
+        }
+
+        return true;
+    }
+
+    replaceUrlIfNeeded = (url: string): string => {
+        if(
+            this.config.data.frontendUrlOverride !== undefined &&
+            this.config.data.frontendUrlOverride.length > 0 &&
+            url !== undefined &&
+            url.length > 0
+        ) {
+            return url.replace(this.config.data.url, this.config.data.frontendUrlOverride);
+        }
+        return url;
+    }
+
+    formatPlayObjAware(obj: EmbyBaseItem, options: FormatPlayObjectOptions = {}): PlayObject {
+        const play = EmbySource.formatPlayObj(obj, options);
+
+        const {
+            ParentId,
+            AlbumId,
+            AlbumPrimaryImageTag,
+            ServerId = this.serverId
+        } = obj;
+
+        if(AlbumId !== undefined && AlbumPrimaryImageTag !== undefined) {
+            const u = joinedUrl(this.urlData.url, 'Items', AlbumId, 'Images/Primary');
+            u.searchParams.append('maxHeight', '500');
+            u.searchParams.append('tag', AlbumPrimaryImageTag);
+            play.meta.art = {
+                ...(play.meta?.art || {}),
+                album: this.replaceUrlIfNeeded(u.toString())
+            };
+        }
+        if(ParentId !== undefined) {
+            const u = joinedUrl(this.urlData.url, 'web/index.html');
+            play.meta.url = {
+                ...(play.meta?.url || {}),
+                web: this.replaceUrlIfNeeded(`${u.toString()}#!/item?id=${ParentId}${ServerId !== undefined ? `&serverId=${ServerId}` : ''}`)
+            }
+        }
+
+        return play;
+    }
+
+    static formatPlayObj(obj: EmbyBaseItem, options: FormatPlayObjectOptions = {}): PlayObject {
+        const {
+            Album,
+            AlbumArtists = [],
+            Artists = [],
+            ArtistItems = [],
+            Id,
+            MediaType: md,
+            Name,
+            ServerId,
+            RunTimeTicks,
+            ProviderIds = {}
+        } = obj;
+
+        const meta: BrainzMeta = {};
+
+        if(ProviderIds.MusicBrainzAlbum !== undefined) {
+            meta.album = ProviderIds.MusicBrainzAlbum;
+        }
+        if(ProviderIds.MusicBrainzTrack !== undefined) {
+            meta.track = ProviderIds.MusicBrainzTrack;
+        }
+        if(ProviderIds.MusicBrainzRecording !== undefined) {
+            meta.recording = ProviderIds.MusicBrainzRecording;
+        }
+        if(ProviderIds.MusicBrainzArtist !== undefined) {
+            meta.artist = [ProviderIds.MusicBrainzArtist];
+        }
+        if(ProviderIds.MusicBrainzAlbumArtist !== undefined) {
+            meta.albumArtist = [ProviderIds.MusicBrainzAlbumArtist];
+        }
+
+        const play: PlayObjectLifecycleless = {
+            data: {
+                artists: Artists.length > 0 ? Artists : ArtistItems.map(x => x.Name),
+                album: Album,
+                track: Name,
+                albumArtists: AlbumArtists.length > 0 ? AlbumArtists.map(x => x.Name) : undefined,
+                duration: RunTimeTicks !== undefined ? ticksToSeconds(RunTimeTicks) : undefined
+            },
+            meta: {
+                trackId: Id,
+                server: ServerId,
+                mediaType: md,
+                source: 'Emby',
+            }
+        }
+        if(Object.keys(meta).length > 0) {
+            play.data.meta = { brainz: meta };
+        }
+        return baseFormatPlayObj(obj, play);
+    }
+
+    getRecentlyPlayed = async (options: RecentlyPlayedOptions = {}) => {
+        const sessions = await this.callApi<EmbySessionInfo[]>('Sessions');
+        const nonMSSessions = sessions
+            .filter(x => x.DeviceId !== this.deviceId)
+            .map(x => [this.sessionToPlayerState(x), x] as [PlayerStateDataMaybePlay, EmbySessionInfo])
+            .filter((x) => x[0].play !== undefined || this.hasPlayer(x[0]));
+        const validSessions: PlayerStateDataMaybePlay[] = [];
+
+        for(const [state, session] of nonMSSessions) {
+            const validPlay = this.isActivityValid(state, session);
+            if(validPlay === true) {
+                validSessions.push(state);
+            } else if(this.logFilterFailure !== false) {
+                let stateIdentifyingInfo: string = genGroupIdStr(getPlatformIdFromData(state));
+                if(state.play !== undefined) {
+                    stateIdentifyingInfo = buildTrackString(state.play, {include: ['artist', 'track', 'platform']});
+                }
+                const dropReason = `Player State for  -> ${stateIdentifyingInfo} <-- is being dropped because ${validPlay}`;
+                if(!this.uniqueDropReasons.data.some(x => x === dropReason)) {
+                    this.logger[this.logFilterFailure](dropReason);
+                    this.uniqueDropReasons.add(dropReason);
+                }
+            }
+        }
+        return await this.processRecentPlays(validSessions);
+    }
+
+    sessionToPlayerState = (obj: EmbySessionInfo): PlayerStateDataMaybePlay => {
+        const {
+            UserName,
+            UserId,
+            NowPlayingItem,
+            DeviceId,
+            DeviceName,
+            Client,
+            PlayState: {
+                PositionTicks,
+                IsPaused
+            } = {}
+        } = obj;
+
+        const msDeviceId = combinePartsToString([shortDeviceId(DeviceId), DeviceName, Client]);
+        const playerPosition = PositionTicks !== undefined ? ticksToSeconds(PositionTicks) : undefined;
+
+        let play: PlayObject | undefined;
+        if(NowPlayingItem !== undefined) {
+            const sessionPlay = this.formatPlayObjAware(NowPlayingItem);
+            play = {
+                data: {
+                    ...sessionPlay.data
+                },
+                meta: {
+                    ...sessionPlay.meta,
+                    user: UserName ?? UserId,
+                    deviceId: msDeviceId,
+                    trackProgressPosition: playerPosition
+                }
+            }
+
+            if(this.config.options.logPayload && !this.mediaIdsSeen.data.includes(NowPlayingItem.Id)) {
+                this.logger.debug(`First time seeing media ${NowPlayingItem.Id} on ${msDeviceId} (play position ${playerPosition}) => ${JSON.stringify(NowPlayingItem)}`);
+                this.mediaIdsSeen.add(NowPlayingItem.Id);
+            }
+        }
+
+        let reportedStatus = REPORTED_PLAYER_STATUSES.stopped;
+        if(NowPlayingItem !== undefined) {
+            reportedStatus = IsPaused ? REPORTED_PLAYER_STATUSES.paused : REPORTED_PLAYER_STATUSES.playing;
+        }
+
+        return {
+            platformId: [msDeviceId, UserName ?? UserId],
+            play,
+            status: reportedStatus,
+            position: playerPosition,
+        }
+    }
+}
+
+/**
+ * Emby uses .NET ticks (100 nanoseconds)
+ * */
+const ticksToSeconds = (ticks: number) => {
+    if (typeof ticks === 'number') {
+        return ticks / 10000000;
+    } else {
+        return ticks;
+    }
+}
@@ -0,0 +1,272 @@
+import dayjs, { Dayjs } from "dayjs";
+import EventEmitter from "events";
+import { randomUUID } from "node:crypto";
+import { PlayObject, SOURCE_SOT } from "../../core/Atomic.js";
+import {
+    FormatPlayObjectOptions,
+    InternalConfig,
+    NO_USER,
+    PlayerStateData,
+    PlayPlatformId,
+    REPORTED_PLAYER_STATUSES
+} from "../common/infrastructure/Atomic.js";
+import {
+    AudioscrobblerEndpointSourceConfig,
+    AudioscrobblerHandshakeRequest,
+    AudioscrobblerHandshakeStatus,
+    AudioscrobblerSession,
+    AudioscrobblerSubmissionTrack,
+    AudioscrobblerTrack
+} from "../common/infrastructure/config/source/endpointas.js";
+import { LastFMScrobbleRequestPayload, scrobblePayloadToPlay } from "../common/vendor/LastfmApiClient.js";
+import { parseRegexSingleOrFail } from "../utils.js";
+import { md5 } from "../utils/StringUtils.js";
+import MemorySource from "./MemorySource.js";
+import { Logger } from "@foxxmd/logging";
+import { PlayerStateOptions } from "./PlayerState/AbstractPlayerState.js";
+import { NowPlayingPlayerState } from "./PlayerState/NowPlayingPlayerState.js";
+
+const noSlugMatch = new RegExp(/^(?:\/api\/audioscrobbler)?\/?$/i);
+const slugMatch = new RegExp(/^\/api\/audioscrobbler\/([^/]+)\/?$/i);
+
+/**
+ * Maximum number of seconds a handshake timestamp can differ from server time, when a password is used
+ * */
+export const HANDSHAKE_TIME_TOLERANCE = 300;
+
+/**
+ * Maximum number of tracks allowed in a single submission
+ * */
+export const MAX_SUBMISSION_TRACKS = 50;
+
+export class EndpointAudioscrobblerSource extends MemorySource {
+
+    declare config: AudioscrobblerEndpointSourceConfig;
+
+    sessions: Map<string, AudioscrobblerSession> = new Map();
+
+    constructor(name: any, config: AudioscrobblerEndpointSourceConfig, internal: InternalConfig, emitter: EventEmitter) {
+        super('endpointas', name, config, internal, emitter);
+        this.multiPlatform = false;
+        this.playerSourceOfTruth = SOURCE_SOT.HISTORY;
+
+        const {
+            data = {},
+            data: {
+                slug,
+                username,
+                password
+            } = {}
+        } = this.config;
+        this.config.data = {
+            ...data,
+            slug: slug === null ? undefined : slug,
+            username: username === null ? undefined : username,
+            password: password === null ? undefined : password,
+        };
+    }
+
+    matchHandshake(slug: string | undefined, query: AudioscrobblerHandshakeRequest): boolean {
+        const {slug: configSlug, username} = this.config.data;
+        const matchesPath = (configSlug === undefined && slug === undefined) || (slug !== undefined && configSlug !== undefined && configSlug.toLowerCase().trim() === slug.toLowerCase().trim());
+        if (!matchesPath) {
+            return false;
+        }
+        return username === undefined || (query.u ?? '').toLowerCase().trim() === username.toLowerCase().trim();
+    }
+
+    authenticateHandshake(query: AudioscrobblerHandshakeRequest, now: Dayjs = dayjs()): AudioscrobblerHandshakeStatus {
+        const {password} = this.config.data;
+        if (password === undefined) {
+            return 'OK';
+        }
+        const ts = Number.parseInt(query.t ?? '', 10);
+        if (Number.isNaN(ts) || Math.abs(now.unix() - ts) > HANDSHAKE_TIME_TOLERANCE) {
+            return 'BADTIME';
+        }
+        if ((query.a ?? '').toLowerCase() !== handshakeToken(password, query.t)) {
+            return 'BADAUTH';
+        }
+        return 'OK';
+    }
+
+    /**
+     * Create a new session for a client
+     *
+     * Any existing sessions for the same user and client are discarded
+     * */
+    createSession(query: AudioscrobblerHandshakeRequest, id: string = randomUUID().replaceAll('-', '')): AudioscrobblerSession {
+        for (const [existingId, existing] of this.sessions.entries()) {
+            if (existing.username === query.u && existing.client === query.c) {
+                this.sessions.delete(existingId);
+            }
+        }
+        const session: AudioscrobblerSession = {
+            id,
+            username: query.u,
+            client: query.c,
+            clientVersion: query.v,
+            created: dayjs().unix()
+        };
+        this.sessions.set(id, session);
+        this.logger.verbose(`New session for user ${query.u} using client ${query.c}${query.v !== undefined ? ` v${query.v}` : ''}`);
+        return session;
+    }
+
+    hasSession(id: string | undefined): boolean {
+        return id !== undefined && this.sessions.has(id);
+    }
+
+    static formatPlayObj(obj: AudioscrobblerTrack | AudioscrobblerSubmissionTrack, options: FormatPlayObjectOptions = {}): PlayObject {
+        return trackToPlay(obj, !('i' in obj));
+    }
+
+    getRecentlyPlayed = async (options = {}) => {
+        return this.getFlatRecentlyDiscoveredPlays();
+    }
+
+    isValidScrobble = (playObj: PlayObject) => {
+        return true;
+    }
+
+    handle = async (stateData: PlayerStateData) => {
+
+        await this.processRecentPlays([stateData]);
+
+        if (stateData.play.meta.nowPlaying === false && this.isValidScrobble(stateData.play)) {
+            const discovered = await this.discover([stateData.play]);
+            if (discovered.length > 0) {
+                await this.scrobble(discovered);
+            }
+        }
+    }
+
+    getNewPlayer = (logger: Logger, id: PlayPlatformId, opts: PlayerStateOptions) => new NowPlayingPlayerState(logger,  id, opts);
+}
+
+export const handshakeToken = (password: string, timestamp: string): string => md5(`${md5(password)}${timestamp}`);
+
+/**
+ * Returns an error reason if the handshake is missing required params
+ * */
+export const validateHandshakeRequest = (query: AudioscrobblerHandshakeRequest): string | undefined => {
+    if (query.hs !== 'true') {
+        return `Expected 'hs' param to be 'true'`;
+    }
+    if (query.p === undefined || !query.p.startsWith('1.2')) {
+        return `Unsupported protocol version '${query.p}', expected 1.2 or 1.2.1`;
+    }
+    for (const param of ['c', 'u', 't', 'a']) {
+        if (query[param] === undefined || query[param] === '') {
+            return `Missing '${param}' param`;
+        }
+    }
+    return undefined;
+}
+
+export const trackToPlay = (track: AudioscrobblerTrack | AudioscrobblerSubmissionTrack, nowPlaying: boolean): PlayObject => {
+    const duration = track.l !== undefined && track.l !== '' ? Number.parseInt(track.l, 10) : undefined;
+    const payload = {
+        method: nowPlaying ? 'track.updateNowPlaying' : 'track.scrobble',
+        artist: track.a,
+        track: track.t,
+        album: track.b,
+        duration: Number.isNaN(duration) || duration === 0 ? undefined : duration,
+        mbid: track.m,
+    } as LastFMScrobbleRequestPayload;
+    if ('i' in track && track.i !== undefined) {
+        payload.timestamp = Number.parseInt(track.i, 10);
+    }
+    const play = scrobblePayloadToPlay(payload);
+    play.meta.source = 'audioscrobbler';
+    play.meta.sourceSOT = SOURCE_SOT.HISTORY;
+    return play;
+}
+
+export const playStateFromTrack = (track: AudioscrobblerTrack | AudioscrobblerSubmissionTrack, nowPlaying: boolean): PlayerStateData => {
+    const play = trackToPlay(track, nowPlaying);
+    return {
+        platformId: [play.meta.deviceId, NO_USER],
+        play,
+        status: nowPlaying ? REPORTED_PLAYER_STATUSES.playing : REPORTED_PLAYER_STATUSES.unknown,
+        timestamp: dayjs()
+    }
+}
+
+/**
+ * Get all values for an indexed param (a[0], a[1], ...) from a parsed urlencoded body
+ *
+ * Handles bodies parsed with or without extended (qs) syntax. qs compacts sparse arrays so this relies on
+ * the client sending every param for every track, which the protocol requires (empty if unknown)
+ * */
+const indexedValues = (body: Record<string, unknown>, param: string): Map<number, string> => {
+    const values = new Map<number, string>();
+    const val = body[param];
+    if (Array.isArray(val)) {
+        val.forEach((x, index) => values.set(index, x));
+    } else if (val !== null && typeof val === 'object') {
+        for (const [k, v] of Object.entries(val)) {
+            values.set(Number.parseInt(k, 10), v as string);
+        }
+    }
+    for (const [k, v] of Object.entries(body)) {
+        const match = parseRegexSingleOrFail(/^(\w)\[(\d+)\]$/, k);
+        if (match !== undefined && match.groups[0] === param) {
+            values.set(Number.parseInt(match.groups[1], 10), v as string);
+        }
+    }
+    return values;
+}
+
+export const parseNowPlayingRequest = (body: Record<string, unknown>): AudioscrobblerTrack => ({
+    a: body.a as string,
+    t: body.t as string,
+    b: body.b as string,
+    l: body.l as string,
+    n: body.n as string,
+    m: body.m as string,
+});
+
+/**
+ * Parse all tracks from a submission request, ordered by index
+ * */
+export const parseSubmissionRequest = (body: Record<string, unknown>): AudioscrobblerSubmissionTrack[] => {
+    const fields: (keyof AudioscrobblerSubmissionTrack)[] = ['a', 't', 'i', 'o', 'r', 'l', 'b', 'n', 'm'];
+    const tracks = new Map<number, Partial<AudioscrobblerSubmissionTrack>>();
+    for (const field of fields) {
+        for (const [index, val] of indexedValues(body, field).entries()) {
+            tracks.set(index, {...(tracks.get(index) ?? {}), [field]: val});
+        }
+    }
+    return Array.from(tracks.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([, track]) => track as AudioscrobblerSubmissionTrack);
+}
+
+/**
+ * Returns an error reason if the track cannot be scrobbled
+ * */
+export const validateTrack = (track: Partial<AudioscrobblerSubmissionTrack>, submission: boolean): string | undefined => {
+    if (track.a === undefined || track.a.trim() === '') {
+        return `Missing artist`;
+    }
+    if (track.t === undefined || track.t.trim() === '') {
+        return `Missing track`;
+    }
+    if (submission && (track.i === undefined || Number.isNaN(Number.parseInt(track.i, 10)))) {
+        return `Missing or invalid timestamp`;
+    }
+    return undefined;
+}
+
+export const parseSlugFromString = (path: string): string | false | undefined => {
+    const noSlug = parseRegexSingleOrFail(noSlugMatch, path);
+    if (noSlug !== undefined) {
+        return undefined;
+    }
+    const slugResult = parseRegexSingleOrFail(slugMatch, path);
+    if (slugResult !== undefined) {
+        return slugResult.groups[0];
+    }
+    return false;
+}
@@ -1,5 +1,7 @@
 import dayjs from "dayjs";
 import EventEmitter from "events";
+import { createHmac, randomUUID } from "node:crypto";
+import xml2js from 'xml2js';
 import { PlayObject, SOURCE_SOT } from "../../core/Atomic.js";
 import {
     ExpressRequest,
@@ -12,8 +14,9 @@ import {
     ReportedPlayerStatus
 } from "../common/infrastructure/Atomic.js";
 import { parseRegexSingleOrFail } from "../utils.js";
+import { md5, parseArrayFromMaybeString } from "../utils/StringUtils.js";
 import MemorySource from "./MemorySource.js";
-import { LastFMEndpointSourceConfig } from "../common/infrastructure/config/source/endpointlfm.js";
+import { LastFMEndpointAuthRequest, LastFMEndpointMethod, LastFMEndpointSourceConfig } from "../common/infrastructure/config/source/endpointlfm.js";
 import { LastFMScrobbleRequestPayload, scrobblePayloadToPlay } from "../common/vendor/LastfmApiClient.js";
 import { Logger } from "@foxxmd/logging";
 import { PlayerStateOptions } from "./PlayerState/AbstractPlayerState.js";
@@ -24,10 +27,31 @@ const slugMatch = new RegExp(/\/api\/lastfm\/([^\/]+)$/i);
 
 export const authHeaderRegex = new RegExp(/Token (.+)$/i);
 
+/**
+ * Tokens from auth.getToken are valid for 60 minutes
+ *
+ * https://www.last.fm/api/show/auth.getToken
+ * */
+const TOKEN_TTL = 3600;
+
+const DEFAULT_SESSION_NAME = 'multi-scrobbler';
+
+export const LFM_ENDPOINT_METHODS: LastFMEndpointMethod[] = ['track.updateNowPlaying', 'track.scrobble', 'auth.getMobileSession', 'auth.getToken', 'auth.getSession', 'user.getInfo'];
+
+export interface LastFMEndpointSession {
+    name: string
+    key: string
+}
+
 export class EndpointLastfmSource extends MemorySource {
 
     declare config: LastFMEndpointSourceConfig;
 
+    /** session key => session username */
+    sessions: Map<string, string> = new Map();
+    /** auth.getToken token => unix timestamp created */
+    tokens: Map<string, number> = new Map();
+
     constructor(name: any, config: LastFMEndpointSourceConfig, internal: InternalConfig, emitter: EventEmitter) {
         super('endpointlfm', name, config, internal, emitter);
         this.multiPlatform = false;
@@ -37,15 +61,63 @@ export class EndpointLastfmSource extends MemorySource {
             data = {},
             data: {
                 slug,
+                username,
+                password,
+                sessionKeys,
             } = {}
         } = this.config;
         this.config.data = {
             ...data,
             slug: slug === null ? undefined : slug,
+            username: username === null ? undefined : username,
+            password: password === null ? undefined : password,
+            sessionKeys: parseArrayFromMaybeString(sessionKeys ?? []),
         };
+        for (const key of this.config.data.sessionKeys) {
+            this.sessions.set(key, this.config.data.username ?? DEFAULT_SESSION_NAME);
+        }
+        const passwordKey = this.passwordSessionKey;
+        if (passwordKey !== undefined && !this.sessions.has(passwordKey)) {
+            this.sessions.set(passwordKey, this.config.data.username ?? DEFAULT_SESSION_NAME);
+        }
+    }
+
+    /**
+     * Session key given to apps that log in with the configured password
+     *
+     * Derived from the Source name, username, and password so it is the same after a restart. Apps keep sessions indefinitely and would otherwise
+     * stop scrobbling until logged in again. Changing the password (or username/name) invalidates it.
+     * */
+    get passwordSessionKey(): string | undefined {
+        const {username, password} = this.config.data;
+        if (password === undefined) {
+            return undefined;
+        }
+        return createHmac('sha256', password).update(`${this.name}:${username ?? ''}`).digest('hex').substring(0, 32);
     }
 
+    /**
+     * Source only accepts scrobbles from apps using a valid session key
+     * */
+    get requiresSession(): boolean {
+        return this.config.data.password !== undefined || this.config.data.sessionKeys.length > 0;
+    }
+
+    /**
+     * Match a track.* or user.* request using the session key or, if this Source does not require a session, the URL slug
+     * */
     matchRequest(req: ExpressRequest): boolean {
+        const {sk} = parseParamsFromRequest(req);
+        if (sk !== undefined && this.sessions.has(sk)) {
+            return true;
+        }
+        if (this.requiresSession) {
+            return false;
+        }
+        return this.matchSlug(req);
+    }
+
+    matchSlug(req: ExpressRequest): boolean {
         let matchesPath = false;
         const slug = parseSlugFromRequest(req);
         if (slug === false) {
@@ -57,6 +129,68 @@ export class EndpointLastfmSource extends MemorySource {
         return matchesPath;
     }
 
+    /**
+     * Check credentials from auth.getMobileSession
+     *
+     * Supports plain password or legacy authToken (md5(username + md5(password)))
+     *
+     * If session keys are configured without a password then login is refused so that the configured keys are never given to an unverified app
+     * */
+    authenticate(params: Pick<LastFMEndpointAuthRequest, 'username' | 'password' | 'authToken'>): boolean {
+        const {username, password} = this.config.data;
+        if (username !== undefined && (params.username ?? '').toLowerCase().trim() !== username.toLowerCase().trim()) {
+            return false;
+        }
+        if (password === undefined) {
+            return this.config.data.sessionKeys.length === 0;
+        }
+        if (params.password !== undefined) {
+            return params.password === password;
+        }
+        if (params.authToken !== undefined) {
+            return params.authToken.toLowerCase() === md5(`${params.username}${md5(password)}`);
+        }
+        return false;
+    }
+
+    createSession(username?: string): LastFMEndpointSession {
+        const key = this.config.data.sessionKeys[0] ?? this.passwordSessionKey ?? randomUUID().replaceAll('-', '');
+        const name = this.config.data.username ?? username ?? DEFAULT_SESSION_NAME;
+        this.sessions.set(key, name);
+        this.logger.verbose(`Created session for ${name}`);
+        return {name, key};
+    }
+
+    createToken(): string {
+        const now = dayjs().unix();
+        for (const [token, created] of this.tokens.entries()) {
+            if (now - created > TOKEN_TTL) {
+                this.tokens.delete(token);
+            }
+        }
+        const token = randomUUID().replaceAll('-', '');
+        this.tokens.set(token, now);
+        return token;
+    }
+
+    /**
+     * Exchange a token from auth.getToken for a session
+     *
+     * MS has no way to authorize a token for a user so this is only possible when a session is not required (no password or session keys)
+     * */
+    sessionFromToken(token: string): LastFMEndpointSession | undefined {
+        const created = this.tokens.get(token);
+        if (this.requiresSession || created === undefined || dayjs().unix() - created > TOKEN_TTL) {
+            return undefined;
+        }
+        this.tokens.delete(token);
+        return this.createSession();
+    }
+
+    getSessionName(sk?: string): string {
+        return (sk !== undefined ? this.sessions.get(sk) : undefined) ?? this.config.data.username ?? DEFAULT_SESSION_NAME;
+    }
+
     static formatPlayObj(obj: LastFMScrobbleRequestPayload, options: FormatPlayObjectOptions = {}): PlayObject {
         return scrobblePayloadToPlay(obj);
     }
@@ -125,4 +259,32 @@ export const parseDisplayIdentifiersFromRequest = (req: ExpressRequest): [string
         slugStr = slug;
     }
     return [slugStr];
-}
\ No newline at end of file
+}
+export const parseParamsFromRequest = (req: ExpressRequest): Partial<LastFMEndpointAuthRequest> => {
+    if (req.method === 'GET') {
+        return req.query as Partial<LastFMEndpointAuthRequest>;
+    }
+    return (req.body ?? {}) as Partial<LastFMEndpointAuthRequest>;
+}
+
+const xmlBuilder = new xml2js.Builder({rootName: 'lfm', xmldec: {version: '1.0', encoding: 'utf-8'}});
+
+/**
+ * Build a response body in the same shape as the Last.fm API, using JSON if the request asked for it
+ * */
+export const formatLfmResponse = (data: Record<string, unknown>, format?: string): { type: string, body: string } => {
+    if (format === 'json') {
+        return {type: 'application/json', body: JSON.stringify(data)};
+    }
+    return {type: 'text/xml', body: xmlBuilder.buildObject({$: {status: 'ok'}, ...data})};
+}
+
+/**
+ * https://www.last.fm/api/errorcodes
+ * */
+export const formatLfmError = (code: number, message: string, format?: string): { type: string, body: string } => {
+    if (format === 'json') {
+        return {type: 'application/json', body: JSON.stringify({error: code, message})};
+    }
+    return {type: 'text/xml', body: xmlBuilder.buildObject({$: {status: 'failed'}, error: {$: {code}, _: message}})};
+}
@@ -12,8 +12,9 @@ import {
     ReportedPlayerStatus
 } from "../common/infrastructure/Atomic.js";
 import { ListenbrainzEndpointSourceConfig } from "../common/infrastructure/config/source/endpointlz.js";
-import { ListenbrainzApiClient, listenPayloadToPlay } from "../common/vendor/ListenbrainzApiClient.js";
-import { SubmitPayload } from '../common/vendor/listenbrainz/interfaces.js';
+import { MAX_ITEMS_PER_GET_LZ } from "../common/infrastructure/config/client/listenbrainz.js";
+import { listenPayloadToPlay, playToListenPayload, UserListensOptions } from "../common/vendor/ListenbrainzApiClient.js";
+import { ListenResponse, SubmitPayload } from '../common/vendor/listenbrainz/interfaces.js';
 import { ListenPayload } from '../common/vendor/listenbrainz/interfaces.js';
 import { parseRegexSingleOrFail } from "../utils.js";
 import MemorySource from "./MemorySource.js";
@@ -26,6 +27,8 @@ const slugMatch = new RegExp(/\/api\/listenbrainz\/([^\/]+)$/i);
 
 export const authHeaderRegex = new RegExp(/Token (.+)$/i);
 
+export const DEFAULT_LZ_ENDPOINT_USER = 'Multi-Scrobbler';
+
 export class EndpointListenbrainzSource extends MemorySource {
 
     declare config: ListenbrainzEndpointSourceConfig;
@@ -39,15 +42,58 @@ export class EndpointListenbrainzSource extends MemorySource {
             data = {},
             data: {
                 slug,
+                token,
+                username,
             } = {}
         } = this.config;
         this.config.data = {
-            token: undefined,
             ...data,
+            token: token === null ? undefined : token,
             slug: slug === null ? undefined : slug,
+            username: username === null || username === undefined ? DEFAULT_LZ_ENDPOINT_USER : username,
         };
     }
 
+    /**
+     * Returns true if the given token is valid for this Source
+     *
+     * A Source without a configured token accepts any token
+     * */
+    matchToken(token: string): boolean {
+        return this.config.data.token === undefined || this.config.data.token.toLowerCase().trim() === token.toLowerCase().trim();
+    }
+
+    matchUser(user: string): boolean {
+        return this.config.data.username.toLowerCase().trim() === user.toLowerCase().trim();
+    }
+
+    /**
+     * Discovered plays in the shape of a Listenbrainz "listens" response, newest first
+     *
+     * https://listenbrainz.readthedocs.io/en/latest/users/api/core.html#get--1-user-(mb_username-user_name)-listens
+     * */
+    getListens(options: UserListensOptions = {}): ListenResponse[] {
+        const {
+            min_ts,
+            max_ts,
+            count = 25
+        } = options;
+        return this.getFlatRecentlyDiscoveredPlays()
+            .map(x => playToListenResponse(x, this.config.data.username))
+            .filter(x => (min_ts === undefined || x.listened_at > min_ts) && (max_ts === undefined || x.listened_at < max_ts))
+            .slice(0, Math.min(count, MAX_ITEMS_PER_GET_LZ));
+    }
+
+    getPlayingNow(): ListenPayload | undefined {
+        for (const player of this.players.values()) {
+            if (player.currentPlay !== undefined && player.isProgressing() && !player.isDead()) {
+                const {listened_at, ...rest} = playToListenPayload(player.currentPlay);
+                return rest;
+            }
+        }
+        return undefined;
+    }
+
     matchRequest(req: ExpressRequest): boolean {
         let matchesToken = this.config.data.token === undefined;
         const reqToken = parseTokenFromRequest(req);
@@ -120,6 +166,19 @@ export const playStateFromRequest = (obj: SubmitPayload): PlayerStateData => {
     }
 }
 
+export const playToListenResponse = (play: PlayObject, username: string): ListenResponse & {user_name: string} => {
+    const {listened_at, track_metadata} = playToListenPayload(play);
+    return {
+        // playToListenPayload always uses unix timestamp
+        listened_at: listened_at as number,
+        track_metadata: {
+            ...track_metadata,
+            additional_info: track_metadata.additional_info ?? {}
+        },
+        user_name: username
+    };
+}
+
 export const listenTypeAsPlayerStatus = (event: string): ReportedPlayerStatus => {
     switch (event) {
         case 'single':
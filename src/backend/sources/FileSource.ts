@@ -0,0 +1,141 @@
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { promises } from "fs";
+import path from "path";
+import { PlayObject } from "../../core/Atomic.js";
+import { InternalConfig } from "../common/infrastructure/Atomic.js";
+import { FileSourceConfig } from "../common/infrastructure/config/source/file.js";
+import { fileOrDirectoryIsWriteable } from "../utils.js";
+import { getScrobbleFileFormat, parseScrobbleFile } from "../utils/ScrobbleFileUtils.js";
+import AbstractSource, { RecentlyPlayedOptions } from "./AbstractSource.js";
+
+export default class FileSource extends AbstractSource {
+
+    declare config: FileSourceConfig;
+
+    dirPath: string;
+    archivePath: string;
+    settleTime: number;
+
+    /**
+     * Files that could not be processed, keyed by file name with the modified time at failure
+     *
+     * Files are not retried until they are modified again
+     * */
+    protected failedFiles: Map<string, number> = new Map();
+
+    constructor(name: any, config: FileSourceConfig, internal: InternalConfig, emitter: EventEmitter) {
+        const {
+            data: {
+                interval = 30,
+                maxInterval = 60,
+                ...restData
+            } = {}
+        } = config;
+        super('file', name, {...config, data: {interval, maxInterval, ...restData} as FileSourceConfig['data']}, internal, emitter);
+        this.canPoll = true;
+    }
+
+    protected async doBuildInitData(): Promise<true | string | undefined> {
+        const {
+            data: {
+                path: dirPath,
+                archivePath
+            } = {},
+            options: {
+                settleTime = 5
+            } = {}
+        } = this.config;
+        if (dirPath === undefined || dirPath === null || dirPath.trim() === '') {
+            throw new Error(`'path' must be defined`);
+        }
+        this.dirPath = path.resolve(this.configDir, dirPath);
+        this.archivePath = archivePath !== undefined ? path.resolve(this.configDir, archivePath) : path.join(this.dirPath, 'archive');
+        this.settleTime = settleTime;
+        this.logger.verbose(`Watching ${this.dirPath} for scrobble files, processed files will be moved to ${this.archivePath}`);
+        return true;
+    }
+
+    protected async doCheckConnection(): Promise<true | string | undefined> {
+        try {
+            const stat = await promises.stat(this.dirPath);
+            if (!stat.isDirectory()) {
+                throw new Error(`${this.dirPath} is not a directory`);
+            }
+            fileOrDirectoryIsWriteable(this.dirPath);
+            await promises.mkdir(this.archivePath, {recursive: true});
+            fileOrDirectoryIsWriteable(this.archivePath);
+            return true;
+        } catch (e) {
+            throw new Error(`Scrobble file directory is not usable`, {cause: e});
+        }
+    }
+
+    getRecentlyPlayed = async (options: RecentlyPlayedOptions = {}): Promise<PlayObject[]> => {
+        await this.processFiles();
+        // plays are discovered and scrobbled per-file during processing so nothing is returned to the polling loop
+        return [];
+    }
+
+    /**
+     * Parse, discover, and scrobble each supported file in the directory then move it to the archive directory
+     *
+     * Returns all newly discovered plays
+     * */
+    processFiles = async (): Promise<PlayObject[]> => {
+        const discovered: PlayObject[] = [];
+        const entries = await promises.readdir(this.dirPath, {withFileTypes: true});
+        for (const entry of entries) {
+            if (!entry.isFile()) {
+                continue;
+            }
+            const format = getScrobbleFileFormat(entry.name);
+            if (format === undefined) {
+                continue;
+            }
+            const filePath = path.join(this.dirPath, entry.name);
+            const {mtimeMs} = await promises.stat(filePath);
+            if (dayjs().diff(dayjs(mtimeMs), 'second') < this.settleTime) {
+                this.logger.debug(`${entry.name} was modified less than ${this.settleTime}s ago, waiting for it to settle`);
+                continue;
+            }
+            if (this.failedFiles.get(entry.name) === mtimeMs) {
+                continue;
+            }
+
+            let plays: PlayObject[];
+            try {
+                plays = parseScrobbleFile(await promises.readFile(filePath, 'utf8'), format);
+            } catch (e) {
+                this.failedFiles.set(entry.name, mtimeMs);
+                this.logger.warn(new Error(`Could not parse ${entry.name} as ${format}, file will not be retried until it is modified`, {cause: e}));
+                continue;
+            }
+            this.failedFiles.delete(entry.name);
+            this.logger.verbose(`Found ${plays.length} plays in ${entry.name} (${format})`);
+
+            const newDiscovered = await this.discover(plays);
+            await this.scrobble(newDiscovered);
+            discovered.push(...newDiscovered);
+            this.logger.info(`Processed ${entry.name} => ${newDiscovered.length} of ${plays.length} plays discovered`);
+
+            await this.archiveFile(filePath);
+        }
+        return discovered;
+    }
+
+    protected archiveFile = async (filePath: string) => {
+        const archived = path.join(this.archivePath, `${dayjs().format('YYYYMMDDHHmmss')}-${path.basename(filePath)}`);
+        try {
+            await promises.rename(filePath, archived);
+        } catch (e) {
+            if (e.code !== 'EXDEV') {
+                throw new Error(`Could not move ${filePath} to archive`, {cause: e});
+            }
+            // archive is on a different device
+            await promises.copyFile(filePath, archived);
+            await promises.rm(filePath);
+        }
+        this.logger.debug(`Archived ${path.basename(filePath)} to ${archived}`);
+    }
+}
@@ -0,0 +1,71 @@
+import EventEmitter from "events";
+import { PlayObject, SOURCE_SOT } from "../../core/Atomic.js";
+import { isNodeNetworkException } from "../common/errors/NodeErrors.js";
+import { FormatPlayObjectOptions, InternalConfig, TimeRangeListensFetcher } from "../common/infrastructure/Atomic.js";
+import { RecentlyPlayedOptions } from "./AbstractSource.js";
+import MemorySource from "./MemorySource.js";
+import { FunkwhaleApiClient, listeningResponseToPlay } from "../common/vendor/funkwhale/FunkwhaleApiClient.js";
+import { FunkwhaleSourceConfig } from "../common/infrastructure/config/source/funkwhale.js";
+import { createGetScrobblesForTimeRangeFunc } from "../utils/ListenFetchUtils.js";
+
+export default class FunkwhaleSource extends MemorySource {
+
+    api: FunkwhaleApiClient;
+    requiresAuth = true;
+    requiresAuthInteraction = false;
+    getScrobblesForTimeRange: TimeRangeListensFetcher
+
+    declare config: FunkwhaleSourceConfig;
+
+    constructor(name: any, config: FunkwhaleSourceConfig, internal: InternalConfig, emitter: EventEmitter) {
+        const {
+            data: {
+                interval = 15,
+                maxInterval = 60,
+                ...restData
+            } = {}
+        } = config;
+        super('funkwhale', name, {...config, data: {interval, maxInterval, ...restData}}, internal, emitter);
+        this.canPoll = true;
+        this.canBacklog = true;
+        this.api = new FunkwhaleApiClient(name, config.data, {logger: this.logger});
+        this.playerSourceOfTruth = SOURCE_SOT.HISTORY;
+        this.supportsUpstreamRecentlyPlayed = true
+        this.SCROBBLE_BACKLOG_COUNT = 100;
+        this.logger.info(`Note: The player for this source is an analogue for the 'Now Playing' status exposed by ${this.type} which is NOT used for scrobbling. Instead, the 'recently played' or 'history' information provided by this source is used for scrobbles.`)
+        this.getScrobblesForTimeRange = createGetScrobblesForTimeRangeFunc(this.api, this.api.logger);
+    }
+
+    static formatPlayObj(obj: any, options: FormatPlayObjectOptions = {}){ return listeningResponseToPlay(obj, options); }
+
+    protected async doCheckConnection(): Promise<true | string | undefined> {
+        await this.api.testConnection();
+        return true;
+    }
+
+    doAuthentication = async () => {
+        if(this.config.data.token === undefined) {
+            throw new Error('Must provide an access token in configuration');
+        }
+        try {
+            return await this.api.testAuth();
+        } catch (e) {
+            if(isNodeNetworkException(e)) {
+                this.logger.error('Could not communicate with Funkwhale API');
+            }
+            throw e;
+        }
+    }
+
+    getRecentlyPlayed = async(options: RecentlyPlayedOptions = {}) => {
+        const {limit = 20} = options;
+        await this.processRecentPlays([]);
+        return await this.getScrobblesForTimeRange({limit, cursor: 1});
+    }
+
+    getUpstreamRecentlyPlayed = async (options: RecentlyPlayedOptions = {}): Promise<PlayObject[]> => {
+        return await this.getScrobblesForTimeRange({limit: 20, cursor: 1});
+    }
+
+    protected getBackloggedPlays = async (options: RecentlyPlayedOptions = {}) =>  await this.getRecentlyPlayed({formatted: true, ...options})
+}
@@ -0,0 +1,385 @@
+import { childLogger } from "@foxxmd/logging";
+import dayjs from "dayjs";
+import { EventEmitter } from "events";
+import { WS } from 'iso-websocket';
+import pEvent from 'p-event';
+import { PlayObject, PlayObjectLifecycleless, URLData } from "../../core/Atomic.js";
+import {
+    FormatPlayObjectOptions,
+    InternalConfig,
+    NO_USER,
+    PlayerStateData,
+    REPORTED_PLAYER_STATUSES,
+    ReportedPlayerStatus,
+} from "../common/infrastructure/Atomic.js";
+import {
+    HassAuthMessage,
+    HassMessage,
+    HassResultMessage,
+    HassState,
+    HassStateChangedEventMessage,
+    HomeAssistantSourceConfig
+} from "../common/infrastructure/config/source/homeassistant.js";
+import { FixedSizeList } from "fixed-size-list";
+import { buildStatePlayerPlayIdententifyingInfo, globToRegex, hashObject, parseArrayFromMaybeString } from "../utils/StringUtils.js";
+import { isDebugMode } from "../utils.js";
+import { normalizeWSAddress } from "../utils/NetworkUtils.js";
+import { baseFormatPlayObj } from "../utils/PlayTransformUtils.js";
+import { RecentlyPlayedOptions } from "./AbstractSource.js";
+import { MemoryPositionalSource } from "./MemoryPositionalSource.js";
+
+const CLIENT_PLAYER_STATE: Record<string, ReportedPlayerStatus> = {
+    'playing': REPORTED_PLAYER_STATUSES.playing,
+    'buffering': REPORTED_PLAYER_STATUSES.playing,
+    'paused': REPORTED_PLAYER_STATUSES.paused,
+    'idle': REPORTED_PLAYER_STATUSES.stopped,
+    'on': REPORTED_PLAYER_STATUSES.stopped,
+    'off': REPORTED_PLAYER_STATUSES.stopped,
+    'standby': REPORTED_PLAYER_STATUSES.stopped,
+    'unavailable': REPORTED_PLAYER_STATUSES.stopped,
+}
+
+const MEDIA_PLAYER_DOMAIN = 'media_player.';
+
+/**
+ * Subscribes to state changes for media_player entities using the Home Assistant WebSocket API
+ *
+ * The latest state of each entity is kept in memory and converted into Player states on each poll
+ *
+ * https://developers.home-assistant.io/docs/api/websocket
+ * */
+export class HomeAssistantSource extends MemoryPositionalSource {
+    declare config: HomeAssistantSourceConfig;
+
+    url: URLData;
+    client!: WS;
+    version?: string;
+
+    protected messageId: number = 0;
+    protected subscriptionId?: number;
+
+    entities: Map<string, HassState> = new Map();
+
+    entitiesAllow: RegExp[] = [];
+    entitiesBlock: RegExp[] = [];
+    allowedContentTypes: string[] = ['music'];
+
+    stateHashSeen: FixedSizeList<string>;
+    uniqueDropReasons: FixedSizeList<string>;
+    logFilterFailure: false | 'debug' | 'warn';
+    logEmptyPlayer: boolean;
+
+    constructor(name: any, config: HomeAssistantSourceConfig, internal: InternalConfig, emitter: EventEmitter) {
+        const {
+            data,
+        } = config;
+        const {
+            // state is pushed to us so polling is cheap
+            interval = 5,
+            ...rest
+        } = data || {};
+        super('homeassistant', name, { ...config, data: { ...rest, interval } }, internal, emitter);
+
+        this.requiresAuth = true;
+        this.canPoll = true;
+        this.multiPlatform = true;
+        this.stateHashSeen = new FixedSizeList<string>(100);
+        this.uniqueDropReasons = new FixedSizeList<string>(100);
+    }
+
+    protected async doBuildInitData(): Promise<true | string | undefined> {
+        const {
+            options: {
+                logFilterFailure = (isDebugMode() ? 'debug' : 'warn'),
+                logEmptyPlayer = isDebugMode()
+            } = {},
+            data: {
+                url,
+                token,
+                entitiesAllow = [],
+                entitiesBlock = [],
+                allowContentTypes = [],
+            } = {}
+        } = this.config;
+        if (url === undefined || url === null || url.trim() === '') {
+            throw new Error(`'url' must be defined in config data`);
+        }
+        if (token === undefined || token === null || token.trim() === '') {
+            throw new Error(`'token' must be defined in config data`);
+        }
+        // don't assume default port if user is (probably) using a reverse proxy
+        this.url = normalizeWSAddress(url, {defaultPort: url.trim().toLocaleLowerCase().startsWith('https') ? undefined : 8123, defaultPath: '/api/websocket'});
+        this.logger.verbose(`Config URL: '${url}' => Normalized: '${this.url.normal}'`);
+
+        if (logFilterFailure !== false && !['debug', 'warn'].includes(logFilterFailure)) {
+            this.logger.warn(`logFilterFailure value of '${logFilterFailure.toString()}' is NOT VALID. Logging will not occur if filters fail. You should fix this.`);
+        } else {
+            this.logFilterFailure = logFilterFailure;
+        }
+        this.logEmptyPlayer = logEmptyPlayer;
+
+        this.entitiesAllow = parseArrayFromMaybeString(entitiesAllow).map(globToRegex);
+        this.entitiesBlock = parseArrayFromMaybeString(entitiesBlock).map(globToRegex);
+        const ct = parseArrayFromMaybeString(allowContentTypes, {lower: true});
+        if(ct.length > 0) {
+            this.allowedContentTypes = ct;
+        }
+
+        this.client = new WS(this.url.url.toString(), {
+            automaticOpen: false,
+            retry: {
+                retries: 0
+            }
+        });
+        const wsLogger = childLogger(this.logger, 'WS');
+        this.client.addEventListener('close', (e) => {
+            wsLogger.warn(`Connection was closed: ${e.code} => ${e.reason}`, {labels: 'WS'});
+            this.authed = false;
+            this.subscriptionId = undefined;
+        });
+        this.client.addEventListener('open', () => {
+            wsLogger.verbose(`Connection was established.`, {labels: 'WS'});
+        });
+        this.client.addEventListener('error', (e) => {
+            const hint = e.error?.cause?.message ?? undefined;
+            wsLogger.error(new Error(`Communication with server failed${hint !== undefined ? ` (${hint})` : ''}`, {cause: e.error}));
+        });
+        this.client.addEventListener('message', (e) => {
+            try {
+                this.handleMessage(getMessageData<HassMessage>(e));
+            } catch (err) {
+                wsLogger.warn(new Error('Could not handle message from server', {cause: err}));
+            }
+        });
+
+        return true;
+    }
+
+    protected async doCheckConnection(): Promise<true | string | undefined> {
+        try {
+            const authRequired = pEvent(this.client, 'message', {
+                filter: (e) => getMessageData<HassMessage>(e).type === 'auth_required',
+                timeout: 5000
+            });
+            this.client.open();
+            const msg = getMessageData<HassAuthMessage>(await authRequired);
+            this.version = msg.ha_version;
+            return `Found Home Assistant ${msg.ha_version}`;
+        } catch (e) {
+            this.client.close();
+            const hint = e.error?.cause?.message ?? undefined;
+            throw new Error(`Could not connect to Home Assistant WebSocket API${hint !== undefined ? ` (${hint})` : ''}`, {cause: e.error ?? e});
+        }
+    }
+
+    doAuthentication = async () => {
+        if (this.client.readyState !== this.client.OPEN) {
+            // reconnecting after connection was closed
+            await this.doCheckConnection();
+        }
+
+        const authResponse = pEvent(this.client, 'message', {
+            filter: (e) => ['auth_ok', 'auth_invalid'].includes(getMessageData<HassMessage>(e).type),
+            timeout: 5000
+        });
+        this.client.send(JSON.stringify({type: 'auth', access_token: this.config.data.token}));
+        const msg = getMessageData<HassAuthMessage>(await authResponse);
+        if (msg.type === 'auth_invalid') {
+            throw new Error(`Home Assistant rejected token: ${msg.message}`);
+        }
+
+        const states = await this.sendCommand<HassState[]>({type: 'get_states'});
+        this.entities.clear();
+        for (const s of states.filter(x => x.entity_id.startsWith(MEDIA_PLAYER_DOMAIN))) {
+            this.entities.set(s.entity_id, s);
+        }
+        this.subscriptionId = this.messageId + 1;
+        await this.sendCommand({type: 'subscribe_events', event_type: 'state_changed'});
+        this.logger.verbose(`Subscribed to state changes. Found ${this.entities.size} media_player entities: ${Array.from(this.entities.keys()).join(', ')}`);
+        return true;
+    }
+
+    protected sendCommand = async <T>(payload: object): Promise<T> => {
+        const id = ++this.messageId;
+        const resultPromise = pEvent(this.client, 'message', {
+            filter: (e) => {
+                const data = getMessageData<HassMessage>(e);
+                return data.type === 'result' && data.id === id;
+            },
+            timeout: 10000
+        });
+        this.client.send(JSON.stringify({...payload, id}));
+        const res = getMessageData<HassResultMessage<T>>(await resultPromise);
+        if (!res.success) {
+            throw new Error(`Home Assistant command failed: ${res.error?.code} => ${res.error?.message}`);
+        }
+        return res.result;
+    }
+
+    public handleMessage = (data: HassMessage) => {
+        if (!isStateChangedEvent(data) || (this.subscriptionId !== undefined && data.id !== this.subscriptionId)) {
+            return;
+        }
+        const {entity_id, new_state} = data.event.data;
+        if (!entity_id.startsWith(MEDIA_PLAYER_DOMAIN)) {
+            return;
+        }
+        if (new_state === undefined || new_state === null) {
+            // entity was removed
+            this.entities.delete(entity_id);
+        } else {
+            this.entities.set(entity_id, new_state);
+        }
+    }
+
+    public isValidEntity = (entityId: string): string | undefined => {
+        if (this.entitiesAllow.length > 0 && !this.entitiesAllow.some(x => x.test(entityId))) {
+            return `'entitiesAllow does not match ${entityId}`;
+        }
+        if (this.entitiesBlock.length > 0 && this.entitiesBlock.some(x => x.test(entityId))) {
+            return `'entitiesBlock matches ${entityId}`;
+        }
+        return;
+    }
+
+    public isValidState = (state: HassState): string | undefined => {
+        const entityReason = this.isValidEntity(state.entity_id);
+        if (entityReason !== undefined) {
+            return entityReason;
+        }
+        const {media_content_type} = state.attributes;
+        if (media_content_type !== undefined && media_content_type !== null && !this.allowedContentTypes.includes(media_content_type.toLocaleLowerCase())) {
+            return `media_content_type '${media_content_type}' is not included in allowContentTypes`;
+        }
+        return;
+    }
+
+    getRecentlyPlayed = async (options: RecentlyPlayedOptions = {}) => {
+        if (this.client.readyState !== this.client.OPEN) {
+            throw new Error('WS connection is no longer open.');
+        }
+
+        const playerStates: PlayerStateData[] = [];
+        for (const state of this.entities.values()) {
+
+            const {last_updated, last_changed, ...invariantState} = state;
+            const hash = hashObject(invariantState);
+            if (!this.stateHashSeen.data.includes(hash)) {
+                this.stateHashSeen.add(hash);
+                if (this.config.options?.logPayload || isDebugMode()) {
+                    this.logger.debug({state}, 'Home Assistant Data');
+                }
+            }
+
+            const playerState = stateToPlayerState(state);
+
+            if (playerState.play !== undefined) {
+                const reason = this.isValidState(state);
+                if (reason !== undefined) {
+                    const dropReason = `Player State for  -> ${buildStatePlayerPlayIdententifyingInfo(playerState)} <-- is being dropped because ${reason}`;
+                    if (!this.uniqueDropReasons.data.some(x => x === dropReason)) {
+                        if (this.logFilterFailure !== false) {
+                            this.logger[this.logFilterFailure](dropReason);
+                        }
+                        this.uniqueDropReasons.add(dropReason);
+                    }
+                    continue;
+                }
+            } else {
+                const playerId = this.genPlayerId(playerState);
+                // update player state with a stopped/paused/unknown reported state so that player scrobbles any existing play
+                // otherwise drop so idle entities get stale/orphaned/pruned
+                if (!(this.hasPlayer(playerId) && this.players.get(playerId).isProgressing())) {
+                    if (this.logEmptyPlayer) {
+                        this.logger.debug(`Player State for  -> ${state.entity_id} <-- is being dropped because it is empty`);
+                    }
+                    continue;
+                }
+            }
+
+            playerStates.push(playerState);
+        }
+        return await this.processRecentPlays(playerStates);
+    }
+
+    public async destroy() {
+        await super.destroy();
+        this.client?.close();
+    }
+}
+
+/**
+ * media_position is only updated by HA when the state changes (play/pause/seek)
+ * so use media_position_updated_at to determine where the player actually is now
+ * */
+export const getCurrentPosition = (state: HassState, now = dayjs()): number | undefined => {
+    const {
+        media_position,
+        media_position_updated_at
+    } = state.attributes;
+    if (media_position === undefined || media_position === null) {
+        return undefined;
+    }
+    if (state.state !== 'playing' || media_position_updated_at === undefined || media_position_updated_at === null) {
+        return media_position;
+    }
+    const elapsed = now.diff(dayjs(media_position_updated_at), 'ms') / 1000;
+    return media_position + Math.max(elapsed, 0);
+}
+
+export const stateToPlayerState = (state: HassState, now = dayjs()): PlayerStateData => {
+    const status = CLIENT_PLAYER_STATE[state.state] ?? REPORTED_PLAYER_STATUSES.unknown;
+    const play = status === REPORTED_PLAYER_STATUSES.stopped || state.attributes.media_title === undefined || state.attributes.media_title === null
+        ? undefined
+        : formatPlayObj(state, {now});
+    return {
+        platformId: [state.entity_id, NO_USER],
+        status: play === undefined ? REPORTED_PLAYER_STATUSES.stopped : status,
+        play,
+        position: play?.meta.trackProgressPosition
+    }
+}
+
+export const formatPlayObj = (obj: HassState, options: FormatPlayObjectOptions & { now?: dayjs.Dayjs } = {}): PlayObject => {
+    const {
+        entity_id,
+        attributes: {
+            media_title,
+            media_artist,
+            media_album_name,
+            media_album_artist,
+            media_duration,
+            media_content_id,
+            friendly_name,
+            app_name,
+        }
+    } = obj;
+
+    const play: PlayObjectLifecycleless = {
+        data: {
+            track: media_title,
+            artists: media_artist !== undefined && media_artist !== null && media_artist !== '' ? [media_artist] : [],
+            album: media_album_name !== '' && media_album_name !== null ? media_album_name : undefined,
+            albumArtists: media_album_artist !== undefined && media_album_artist !== null && media_album_artist !== '' && media_album_artist !== media_artist ? [media_album_artist] : undefined,
+            // we should treat 0 duration as the same as not being provided (streams)
+            duration: media_duration === 0 || media_duration === null ? undefined : media_duration
+        },
+        meta: {
+            user: NO_USER,
+            deviceId: entity_id,
+            trackId: media_content_id ?? undefined,
+            trackProgressPosition: getCurrentPosition(obj, options.now),
+            mediaPlayerName: app_name ?? friendly_name,
+            source: 'Home Assistant'
+        }
+    }
+    return baseFormatPlayObj(obj, play);
+}
+
+const getMessageData = <T>(e: any): T => {
+    return JSON.parse(e.data) as T;
+}
+
+const isStateChangedEvent = (data: HassMessage): data is HassStateChangedEventMessage => {
+    return data.type === 'event' && (data as HassStateChangedEventMessage).event?.event_type === 'state_changed';
+}
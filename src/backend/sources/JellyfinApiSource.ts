@@ -61,6 +61,8 @@ import { hashObject, parseArrayFromMaybeString } from "../utils/StringUtils.js";
 import { MemoryPositionalSource } from "./MemoryPositionalSource.js";
 import { FixedSizeList } from "fixed-size-list";
 import { baseFormatPlayObj } from "../utils/PlayTransformUtils.js";
+import { Keyv } from 'cacheable';
+import { initMemoryCache } from "../common/Cache.js";
 
 const shortDeviceId = truncateStringToLength(10, '');
 
@@ -92,6 +94,8 @@ export default class JellyfinApiSource extends MemoryPositionalSource {
 
     libraries: {name: string, paths: string[], collectionType: CollectionType}[] = [];
 
+    private favoriteCache: Keyv<boolean | null>;
+
     declare config: JellyApiSourceConfig;
 
     constructor(name: any, config: JellyApiSourceConfig, internal: InternalConfig, emitter: EventEmitter) {
@@ -114,6 +118,7 @@ export default class JellyfinApiSource extends MemoryPositionalSource {
 
         this.uniqueDropReasons = new FixedSizeList<string>(100);
         this.mediaIdsSeen = new FixedSizeList<string>(100);
+        this.favoriteCache = initMemoryCache<boolean | null>({lruSize: 1000, ttl: '1m'}) as Keyv<boolean | null>;
     }
 
     protected async doBuildInitData(): Promise<true | string | undefined> {
@@ -487,6 +492,9 @@ export default class JellyfinApiSource extends MemoryPositionalSource {
         if(Object.keys(meta).length > 0) {
             play.data.meta = { brainz: meta };
         }
+        if(UserData?.IsFavorite !== undefined) {
+            play.meta.loved = UserData.IsFavorite;
+        }
         return baseFormatPlayObj(obj,play);
     }
 
@@ -510,6 +518,13 @@ export default class JellyfinApiSource extends MemoryPositionalSource {
         for(const sessionData of nonMSSessions) {
             const validPlay = this.isActivityValid(sessionData[0], sessionData[1]);
             if(validPlay === true) {
+                // session items do not include user data so favorite status needs to be fetched separately
+                if(sessionData[0].play !== undefined && sessionData[0].play.meta.loved === undefined) {
+                    const loved = await this.getItemFavorite(sessionData[1].NowPlayingItem.Id, sessionData[1].UserId);
+                    if(loved !== undefined) {
+                        sessionData[0].play.meta.loved = loved;
+                    }
+                }
                 validSessions.push(sessionData[0]);
             } else if(this.logFilterFailure !== false) {
                 let stateIdentifyingInfo: string = genGroupIdStr(getPlatformIdFromData(sessionData[0]));
@@ -527,6 +542,25 @@ export default class JellyfinApiSource extends MemoryPositionalSource {
         return await this.processRecentPlays(validSessions);
     }
 
+    getItemFavorite = async (itemId: string, userId: string): Promise<boolean | undefined> => {
+        const cacheKey = `${userId}-${itemId}`;
+        const cached = await this.favoriteCache.get(cacheKey);
+        if(cached !== undefined) {
+            return cached ?? undefined;
+        }
+        try {
+            const resp = await getItemsApi(this.api).getItemUserData({itemId, userId});
+            const favorite = resp.data.IsFavorite ?? false;
+            await this.favoriteCache.set(cacheKey, favorite);
+            return favorite;
+        } catch (e) {
+            this.logger.warn(new Error(`Failed to get user data from Jellyfin for item ${itemId}`, {cause: e}));
+            // don't retry on every poll
+            await this.favoriteCache.set(cacheKey, null);
+        }
+        return undefined;
+    }
+
     sessionToPlayerState = (obj: SessionInfo): PlayerStateDataMaybePlay => {
 
         const {
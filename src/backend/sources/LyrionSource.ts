@@ -0,0 +1,317 @@
+import { EventEmitter } from "events";
+import normalizeUrl from "normalize-url";
+import request from 'superagent';
+import { PlayObject, PlayObjectLifecycleless } from "../../core/Atomic.js";
+import {
+    FormatPlayObjectOptions,
+    InternalConfig,
+    NO_DEVICE,
+    NO_USER,
+    PlayerStateData,
+    REPORTED_PLAYER_STATUSES,
+    ReportedPlayerStatus,
+} from "../common/infrastructure/Atomic.js";
+import {
+    LyrionPlayer,
+    LyrionPlayerMode,
+    LyrionPlayersResult,
+    LyrionResponse,
+    LyrionServerStatusResult,
+    LyrionSourceConfig,
+    LyrionStatusResult
+} from "../common/infrastructure/config/source/lyrion.js";
+import { FixedSizeList } from "fixed-size-list";
+import { buildStatePlayerPlayIdententifyingInfo, hashObject, parseArrayFromMaybeString } from "../utils/StringUtils.js";
+import { isDebugMode } from "../utils.js";
+import { baseFormatPlayObj } from "../utils/PlayTransformUtils.js";
+import { RecentlyPlayedOptions } from "./AbstractSource.js";
+import { MemoryPositionalSource } from "./MemoryPositionalSource.js";
+
+/**
+ * a - artist
+ * A - contributor roles (albumartist, trackartist)
+ * l - album
+ * d - duration
+ * c - coverid
+ * K - artwork_url
+ * x - remote
+ * N - remote_title
+ *
+ * https://lyrion.org/reference/cli/database/#songinfo
+ * */
+const STATUS_TAGS = 'aAldcKxN';
+
+const CLIENT_PLAYER_STATE: Record<LyrionPlayerMode, ReportedPlayerStatus> = {
+    'play': REPORTED_PLAYER_STATUSES.playing,
+    'pause': REPORTED_PLAYER_STATUSES.paused,
+    'stop': REPORTED_PLAYER_STATUSES.stopped,
+}
+
+/**
+ * Uses the JSON-RPC interface (slim.request) exposed by the LMS web server
+ *
+ * https://lyrion.org/reference/cli/using-the-cli/#jsonrpcjs
+ * */
+export class LyrionSource extends MemoryPositionalSource {
+    declare config: LyrionSourceConfig;
+
+    url: URL;
+    statusHashSeen: FixedSizeList<string>;
+    uniqueDropReasons: FixedSizeList<string>;
+    logFilterFailure: false | 'debug' | 'warn';
+    logEmptyPlayer: boolean;
+
+    devicesAllow: string[] = [];
+    devicesBlock: string[] = [];
+
+    constructor(name: any, config: LyrionSourceConfig, internal: InternalConfig, emitter: EventEmitter) {
+        const {
+            data,
+        } = config;
+        const {
+            interval = 5, // reduced polling interval because its likely we are on the same network
+            ...rest
+        } = data || {};
+        super('lyrion', name, { ...config, data: { ...rest, interval } }, internal, emitter);
+
+        this.requiresAuth = false;
+        this.canPoll = true;
+        this.multiPlatform = true;
+        this.statusHashSeen = new FixedSizeList<string>(100);
+        this.uniqueDropReasons = new FixedSizeList<string>(100);
+    }
+
+    static parseConnectionUrl(val: string) {
+        const normal = normalizeUrl(val, {removeTrailingSlash: true, normalizeProtocol: true});
+        const url = new URL(normal);
+
+        if (url.port === null || url.port === '') {
+            url.port = '9000';
+        }
+        if (url.pathname === '/') {
+            url.pathname = '/jsonrpc.js';
+        }
+        return url;
+    }
+
+    protected async doBuildInitData(): Promise<true | string | undefined> {
+        const {
+            options: {
+                logFilterFailure = (isDebugMode() ? 'debug' : 'warn'),
+                logEmptyPlayer = isDebugMode()
+            } = {},
+            data: {
+                url,
+                devicesAllow = [],
+                devicesBlock = [],
+            } = {}
+        } = this.config;
+        if (url === undefined || url === null || url.trim() === '') {
+            throw new Error(`'url' must be defined in config data`);
+        }
+        this.url = LyrionSource.parseConnectionUrl(url);
+        this.logger.verbose(`Config URL: '${url}' => Normalized: '${this.url.toString()}'`);
+
+        if (logFilterFailure !== false && !['debug', 'warn'].includes(logFilterFailure)) {
+            this.logger.warn(`logFilterFailure value of '${logFilterFailure.toString()}' is NOT VALID. Logging will not occur if filters fail. You should fix this.`);
+        } else {
+            this.logFilterFailure = logFilterFailure;
+        }
+        this.logEmptyPlayer = logEmptyPlayer;
+
+        this.devicesAllow = parseArrayFromMaybeString(devicesAllow, {lower: true});
+        this.devicesBlock = parseArrayFromMaybeString(devicesBlock, {lower: true});
+
+        return true;
+    }
+
+    /**
+     * Send a CLI command to LMS
+     *
+     * @param playerId MAC of the player the command is for, or empty string for server commands
+     * @param command CLI command and its parameters IE ['status', '-', 1]
+     * */
+    slimRequest = async <T>(playerId: string, command: (string | number)[]): Promise<T> => {
+        const req = request.post(this.url.toString())
+            .type('json')
+            .send({id: 1, method: 'slim.request', params: [playerId, command]});
+        const {username, password} = this.config.data;
+        if(username !== undefined && password !== undefined) {
+            req.auth(username, password);
+        }
+        try {
+            const resp = await req;
+            return (resp.body as LyrionResponse<T>).result;
+        } catch (e) {
+            if(e.status === 401) {
+                throw new Error('LMS responded with 401 Unauthorized, check username/password', {cause: e});
+            }
+            throw new Error(`Failed to execute LMS command '${command[0]}'`, {cause: e});
+        }
+    }
+
+    protected async doCheckConnection(): Promise<true | string | undefined> {
+        try {
+            const status = await this.slimRequest<LyrionServerStatusResult>('', ['serverstatus', 0, 0]);
+            return `Found Lyrion Music Server ${status.version} with ${status['player count']} players`;
+        } catch (e) {
+            throw new Error(`Could not connect to Lyrion Music Server at ${this.url.toString()}`, {cause: e});
+        }
+    }
+
+    getPlayers = async (): Promise<LyrionPlayer[]> => {
+        const res = await this.slimRequest<LyrionPlayersResult>('', ['players', 0, 100]);
+        return res.players_loop ?? [];
+    }
+
+    public isValidState = (player: LyrionPlayer): string | undefined => {
+        if(this.devicesAllow.length > 0 && !this.devicesAllow.some(x => player.name.toLocaleLowerCase().includes(x))) {
+            return `'devicesAllow does not include a phrase found in ${player.name}`;
+        }
+        if(this.devicesBlock.length > 0 && this.devicesBlock.some(x => player.name.toLocaleLowerCase().includes(x))) {
+            return `'devicesBlock includes a phrase found in ${player.name}`;
+        }
+        return;
+    }
+
+    getRecentlyPlayed = async (options: RecentlyPlayedOptions = {}) => {
+
+        const playerStates: PlayerStateData[] = [];
+        const players = (await this.getPlayers()).filter(x => x.connected === 1);
+
+        for (const player of players) {
+
+            let status: LyrionStatusResult;
+            try {
+                status = await this.slimRequest<LyrionStatusResult>(player.playerid, ['status', '-', 1, `tags:${STATUS_TAGS}`]);
+            } catch (e) {
+                this.logger.warn(new Error(`Could not get status for Player '${player.name}'`, {cause: e}));
+                continue;
+            }
+
+            const {
+                // time changes every poll so don't include it in the hash
+                time,
+                ...invariantStatus
+            } = status;
+            const hash = hashObject({player, status: invariantStatus});
+            if (!this.statusHashSeen.data.includes(hash)) {
+                this.statusHashSeen.add(hash);
+                if (this.config.options?.logPayload || isDebugMode()) {
+                    this.logger.debug({player, status}, 'Lyrion Data');
+                }
+            }
+
+            const reportedStatus = status.power === 0 ? REPORTED_PLAYER_STATUSES.stopped : CLIENT_PLAYER_STATE[status.mode] ?? REPORTED_PLAYER_STATUSES.unknown;
+            const play = reportedStatus === REPORTED_PLAYER_STATUSES.stopped ? undefined : formatPlayObj(status, {player, url: this.url});
+            const playIsEmpty = play !== undefined && play.data.track === undefined && (play.data.artists === undefined || play.data.artists.length === 0);
+
+            const playerState: PlayerStateData = {
+                // name can be changed by the user, playerid (MAC) is stable
+                platformId: [player.playerid ?? NO_DEVICE, NO_USER],
+                status: playIsEmpty ? REPORTED_PLAYER_STATUSES.stopped : reportedStatus,
+                play: playIsEmpty ? undefined : play,
+                position: playIsEmpty || play === undefined ? undefined : play.meta.trackProgressPosition
+            }
+
+            if (playerState.play !== undefined) {
+                let reason = this.isValidState(player);
+                if(reason === undefined && status.sync_master !== undefined && status.sync_master !== player.playerid) {
+                    // all players in a sync group report the same track so only the sync master is tracked
+                    const syncMaster = players.find(x => x.playerid === status.sync_master);
+                    if(syncMaster !== undefined && this.isValidState(syncMaster) === undefined) {
+                        reason = `it is synced to Player '${syncMaster.name}'`;
+                    }
+                }
+                if(reason !== undefined) {
+                    const dropReason = `Player State for  -> ${buildStatePlayerPlayIdententifyingInfo(playerState)} <-- is being dropped because ${reason}`;
+                    if (!this.uniqueDropReasons.data.some(x => x === dropReason)) {
+                        if(this.logFilterFailure !== false) {
+                            this.logger[this.logFilterFailure](dropReason);
+                        }
+                        this.uniqueDropReasons.add(dropReason);
+                    }
+                    continue;
+                }
+            } else {
+                const playerId = this.genPlayerId(playerState);
+                // update player state with a stopped/paused/unknown reported state so that player scrobbles any existing play
+                // otherwise drop so idle players get stale/orphaned/pruned
+                if(!(this.hasPlayer(playerId) && this.players.get(playerId).isProgressing())) {
+                    if(this.logEmptyPlayer) {
+                        this.logger.debug(`Player State for  -> ${player.name} <-- is being dropped because it is empty`);
+                    }
+                    continue;
+                }
+            }
+
+            playerStates.push(playerState);
+        }
+        return await this.processRecentPlays(playerStates);
+    }
+}
+
+export const formatPlayObj = (obj: LyrionStatusResult, options: FormatPlayObjectOptions & { player?: LyrionPlayer, url?: URL } = {}): PlayObject => {
+
+    const {
+        player,
+        url
+    } = options;
+
+    const {
+        time,
+        duration: statusDuration,
+        current_title,
+        playlist_loop = []
+    } = obj;
+
+    const {
+        id,
+        title,
+        artist,
+        albumartist,
+        trackartist,
+        album,
+        duration = statusDuration,
+        coverid,
+        artwork_url,
+        remote,
+        remote_title
+    } = playlist_loop[0] ?? {};
+
+    let artists: string[] = [];
+    if(trackartist !== undefined && trackartist.trim() !== '') {
+        artists = [trackartist];
+    } else if(artist !== undefined && artist.trim() !== '') {
+        artists = [artist];
+    }
+
+    let art: string | undefined;
+    if(artwork_url !== undefined && artwork_url !== '') {
+        // remote services give full urls, plugins may give paths relative to server
+        art = artwork_url.startsWith('http') || url === undefined ? artwork_url : new URL(artwork_url, url.origin).toString();
+    } else if(coverid !== undefined && url !== undefined) {
+        art = new URL(`/music/${coverid}/cover.jpg`, url.origin).toString();
+    }
+
+    const play: PlayObjectLifecycleless = {
+        data: {
+            track: title ?? (remote === 1 ? remote_title ?? current_title : undefined),
+            album: album !== '' ? album : undefined,
+            artists,
+            albumArtists: albumartist !== undefined && albumartist !== '' ? [albumartist] : undefined,
+            // we should treat 0 duration as the same as not being provided (streams)
+            duration: duration === 0 ? undefined : duration,
+        },
+        meta: {
+            user: NO_USER,
+            deviceId: player?.name ?? NO_DEVICE,
+            trackId: id !== undefined ? id.toString() : undefined,
+            trackProgressPosition: time,
+            mediaPlayerName: player?.modelname ?? player?.model,
+            art: art !== undefined ? { album: art } : undefined,
+            source: 'Lyrion'
+        }
+    }
+    return baseFormatPlayObj({...obj, player}, play);
+}
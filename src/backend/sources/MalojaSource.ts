@@ -1,17 +1,19 @@
 import EventEmitter from "events";
 import { PlayObject, SOURCE_SOT } from "../../core/Atomic.js";
 import { isNodeNetworkException } from "../common/errors/NodeErrors.js";
-import { InternalConfig, PaginatedListensTimeRangeOptions, PaginatedTimeRangeListens } from "../common/infrastructure/Atomic.js";
+import { InternalConfig, PaginatedListensTimeRangeOptions, PaginatedTimeRangeListens, TimeRangeListensFetcher } from "../common/infrastructure/Atomic.js";
 import { RecentlyPlayedOptions } from "./AbstractSource.js";
 import MemorySource from "./MemorySource.js";
 import { MalojaApiClient } from "../common/vendor/maloja/MalojaApiClient.js";
 import { MalojaSourceConfig } from "../common/infrastructure/config/source/maloja.js";
+import { createGetScrobblesForTimeRangeFunc } from "../utils/ListenFetchUtils.js";
 
 export default class MalojaSource extends MemorySource {
 
     api: MalojaApiClient;
     requiresAuth = true;
     requiresAuthInteraction = false;
+    getScrobblesForTimeRange: TimeRangeListensFetcher
 
     declare config: MalojaSourceConfig;
 
@@ -30,6 +32,7 @@ export default class MalojaSource extends MemorySource {
         this.playerSourceOfTruth = SOURCE_SOT.HISTORY;
         this.supportsUpstreamRecentlyPlayed = true
         this.SCROBBLE_BACKLOG_COUNT = 20;
+        this.getScrobblesForTimeRange = createGetScrobblesForTimeRangeFunc(this.api, this.api.logger);
         this.logger.info(`Note: The player for this source is an analogue for the 'Now Playing' status exposed by ${this.type} which is NOT used for scrobbling. Instead, the 'recently played' or 'history' information provided by this source is used for scrobbles.`)
     }
 
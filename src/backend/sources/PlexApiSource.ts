@@ -38,6 +38,14 @@ export const LOCAL_USER = 'PLEX_LOCAL_USER';
 
 const MBID_PREFIX = "mbid://";
 
+/** Plex stores star ratings as 0-10, Plexamp "love" and 5 stars are both 10 */
+const LOVED_RATING = 10;
+
+interface PlexItemMetadata {
+    mbid?: string
+    userRating?: number
+}
+
 const THUMB_REGEX = new RegExp(/\/library\/metadata\/(?<ratingkey>\d+)\/thumb\/\d+/)
 
 export default class PlexApiSource extends MemoryPositionalSource {
@@ -66,7 +74,7 @@ export default class PlexApiSource extends MemoryPositionalSource {
 
     libraries: {name: string, collectionType: string, uuid: string}[] = [];
     
-    private mbIdCache: Keyv<string>;
+    private itemMetadataCache: Keyv<PlexItemMetadata>;
 
     declare config: PlexApiSourceConfig;
 
@@ -79,7 +87,7 @@ export default class PlexApiSource extends MemoryPositionalSource {
         this.deviceId = `${name}-ms${internal.version}-${truncateStringToLength(10, '')(hashObject(config))}`;
         this.uniqueDropReasons = new FixedSizeList<string>(100);
         this.mediaIdsSeen = new FixedSizeList<string>(100);
-        this.mbIdCache = initMemoryCache<string | null>({lruSize: 1000, ttl: '1m'}) as Keyv<string | null>;
+        this.itemMetadataCache = initMemoryCache<PlexItemMetadata>({lruSize: 1000, ttl: '1m'}) as Keyv<PlexItemMetadata>;
     }
 
     protected async doBuildInitData(): Promise<true | string | undefined> {
@@ -411,11 +419,18 @@ export default class PlexApiSource extends MemoryPositionalSource {
             const validPlay = this.isActivityValid(sessionData[0], sessionData[1]);
             if(validPlay === true) {
                 // Pull MBIDs for track, album, and artist.
-                const [trackMbId, albumMbId, albumArtistMbId] = await Promise.all([
-                    this.getMusicBrainzId(sessionData[1].ratingKey),
-                    this.getMusicBrainzId(sessionData[1].parentRatingKey),
-                    this.getMusicBrainzId(sessionData[1].grandparentRatingKey),
+                const [trackMeta, albumMeta, albumArtistMeta] = await Promise.all([
+                    this.getItemMetadata(sessionData[1].ratingKey),
+                    this.getItemMetadata(sessionData[1].parentRatingKey),
+                    this.getItemMetadata(sessionData[1].grandparentRatingKey),
                 ]);
+                const trackMbId = trackMeta?.mbid;
+                const albumMbId = albumMeta?.mbid;
+                const albumArtistMbId = albumArtistMeta?.mbid;
+
+                if(trackMeta !== undefined) {
+                    sessionData[0].play.meta.loved = (trackMeta.userRating ?? 0) >= LOVED_RATING;
+                }
                 
                 if (!sessionData[0].play.data.meta) {
                     sessionData[0].play.data.meta = {};
@@ -534,23 +549,20 @@ ${JSON.stringify(obj)}`);
 
     getNewPlayer = (logger: Logger, id: PlayPlatformId, opts: PlayerStateOptions) => new PlexPlayerState(logger, id, opts);
     
-    getMusicBrainzId = async (ratingKey: string | undefined): Promise<string | undefined> => {
+    getItemMetadata = async (ratingKey: string | undefined): Promise<PlexItemMetadata | undefined> => {
         if (ratingKey === undefined) {
             return undefined;
         }
         
-        const cachedMbId = await this.mbIdCache.get(ratingKey);
-        if (cachedMbId !== undefined && cachedMbId !== null) {
-            return cachedMbId;
-        }
-        if(cachedMbId === null) {
-            return undefined;
+        const cachedMeta = await this.itemMetadataCache.get(ratingKey);
+        if (cachedMeta !== undefined) {
+            return cachedMeta;
         }
         
         try {
             const signal = AbortSignal.timeout(5000); // reasonable 5s timeout
 
-            // The current version of plexjs (0.39.0) does not return the GUID
+            // The current version of plexjs (0.39.0) does not return the GUID or userRating
             // fields, so we make the call manually.
             const request = await this.httpClient.request(
                 new Request(
@@ -568,11 +580,15 @@ ${JSON.stringify(obj)}`);
         
             const result = await request.json();
             
-            let mbid: string | null = null;
+            let mbid: string | undefined;
+            let userRating: number | undefined;
         
             // There shouldn't be multiple metadata or GUID objects, but we return
             // the first MBID to be safe.
             metadataLoop: for (const metadata of result?.MediaContainer?.Metadata ?? []) {
+                if (userRating === undefined && typeof metadata.userRating === "number") {
+                    userRating = metadata.userRating;
+                }
                 this.logger.trace(`Guid: '${metadata.Guid?.map(g => g.id)?.join(", ")}', guid: '${metadata.guid}'`)
                 
                 if (Array.isArray(metadata.Guid)) {
@@ -592,17 +608,14 @@ ${JSON.stringify(obj)}`);
                 }
             }
             
-            this.logger.trace(`Extracted MBID: '${mbid}'`);
+            this.logger.trace(`Extracted MBID: '${mbid}' | User Rating: ${userRating}`);
             
-            await this.mbIdCache.set(ratingKey, mbid);
-            
-            if (mbid === null) {
-                return undefined
-            }
+            const itemMeta: PlexItemMetadata = {mbid, userRating};
+            await this.itemMetadataCache.set(ratingKey, itemMeta);
             
-            return mbid;
+            return itemMeta;
         } catch (e) {
-            this.logger.warn(new Error(`Failed to get MusicBrainz IDs from Plex for item ${ratingKey}`, {cause: e}));
+            this.logger.warn(new Error(`Failed to get metadata from Plex for item ${ratingKey}`, {cause: e}));
         }
         
         return undefined;
@@ -34,6 +34,13 @@ import { VLCData, VLCSourceConfig } from "../common/infrastructure/config/source
 import { WebScrobblerSourceConfig } from "../common/infrastructure/config/source/webscrobbler.js";
 import { YTMusicData, YTMusicSourceConfig } from "../common/infrastructure/config/source/ytmusic.js";
 import { SonosData, SonosSourceConfig } from "../common/infrastructure/config/source/sonos.js";
+import { FileSourceConfig, FileSourceData } from "../common/infrastructure/config/source/file.js";
+import { EmbyData, EmbySourceConfig } from "../common/infrastructure/config/source/emby.js";
+import { LyrionData, LyrionSourceConfig } from "../common/infrastructure/config/source/lyrion.js";
+import { HomeAssistantData, HomeAssistantSourceConfig } from "../common/infrastructure/config/source/homeassistant.js";
+import { BeefwebData, BeefwebSourceConfig } from "../common/infrastructure/config/source/beefweb.js";
+import { AudioscrobblerEndpointData, AudioscrobblerEndpointSourceConfig } from "../common/infrastructure/config/source/endpointas.js";
+import { FunkwhaleSourceConfig } from "../common/infrastructure/config/source/funkwhale.js";
 import { WildcardEmitter } from "../common/WildcardEmitter.js";
 import { parseBool } from "../utils.js";
 import { readJson } from '../utils/DataUtils.js';
@@ -59,6 +66,8 @@ export default class ScrobbleSources {
 
     emitter: WildcardEmitter;
 
+    sourceDefaults: SourceDefaults = {};
+
     constructor(emitter: EventEmitter, internal: InternalConfigOptional, parentLogger: Logger) {
         this.emitter = emitter;
         this.logger = childLogger(parentLogger, 'Sources');
@@ -104,7 +113,7 @@ export default class ScrobbleSources {
         return [sourcesReady, messages];
     }
 
-    private getSchemaByType = (type: SourceType): string => {
+    getSchemaByType = (type: SourceType): string => {
             switch(type) {
                 case 'spotify':
                     return "SpotifySourceConfig";
@@ -162,6 +171,20 @@ export default class ScrobbleSources {
                     return "RockskySourceConfig";
                 case 'sonos':
                     return 'SonosSourceConfig';
+                case 'file':
+                    return 'FileSourceConfig';
+                case 'emby':
+                    return 'EmbySourceConfig';
+                case 'lyrion':
+                    return 'LyrionSourceConfig';
+                case 'homeassistant':
+                    return 'HomeAssistantSourceConfig';
+                case 'beefweb':
+                    return 'BeefwebSourceConfig';
+                case 'endpointas':
+                    return 'AudioscrobblerEndpointSourceConfig';
+                case 'funkwhale':
+                    return 'FunkwhaleSourceConfig';
             }
     }
 
@@ -236,7 +259,7 @@ export default class ScrobbleSources {
                     this.logger.error(invalidMsgType);
                     continue;
                 }
-                if(['lastfm','listenbrainz','koito','tealfm','rocksky'].includes(c.type.toLocaleLowerCase()) && ((c as LastfmSourceConfig | ListenBrainzSourceConfig | KoitoSourceConfig | TealSourceConfig | RockskySourceConfig).configureAs !== 'source')) 
+                if(['lastfm','listenbrainz','koito','tealfm','rocksky','funkwhale'].includes(c.type.toLocaleLowerCase()) && ((c as LastfmSourceConfig | ListenBrainzSourceConfig | KoitoSourceConfig | TealSourceConfig | RockskySourceConfig | FunkwhaleSourceConfig).configureAs !== 'source')) 
                 {
                    this.logger.debug(`Skipping config ${index + 1} (${name}) in config.json because it is configured as a client.`);
                    continue;
@@ -258,6 +281,7 @@ export default class ScrobbleSources {
         } else {
             sourceDefaults = this.buildSourceDefaults();
         }
+        this.sourceDefaults = sourceDefaults;
 
         for (const sourceType of sourceTypes) {
             let defaultConfigureAs = 'source';
@@ -533,7 +557,8 @@ export default class ScrobbleSources {
                     const lzShouldUse = parseBool(process.env.LZENDPOINT_ENABLE);
                     const lze = {
                         slug: process.env.LZE_SLUG,
-                        token: process.env.LZE_TOKEN
+                        token: process.env.LZE_TOKEN,
+                        username: process.env.LZE_USER
                     }
                     if (!Object.values(lze).every(x => x === undefined) || lzShouldUse) {
                         configs.push({
@@ -551,6 +576,9 @@ export default class ScrobbleSources {
                     const lfmShouldUse = parseBool(process.env.LFMENDPOINT_ENABLE);
                     const lfme = {
                         slug: process.env.LFM_SLUG,
+                        username: process.env.LFM_USER,
+                        password: process.env.LFM_PASSWORD,
+                        sessionKeys: process.env.LFM_SESSION_KEYS,
                     }
                     if (!Object.values(lfme).every(x => x === undefined) || lfmShouldUse) {
                         configs.push({
@@ -791,6 +819,145 @@ export default class ScrobbleSources {
                         });
                     }
                 }    break;                       
+                case 'file': {
+                    const file = {
+                        path: process.env.FILE_SOURCE_DIR,
+                        archivePath: process.env.FILE_SOURCE_ARCHIVE_DIR
+                    }
+                    if (file.path !== undefined) {
+                        configs.push({
+                            type: 'file',
+                            name: 'unnamed',
+                            source: 'ENV',
+                            mode: 'single',
+                            configureAs: 'source',
+                            data: file as FileSourceData,
+                            options: transformPresetEnv('FILE_SOURCE')
+                        });
+                    }
+                }    break;
+                case 'emby': {
+                    const emby = {
+                        user: process.env.EMBY_USER,
+                        password: process.env.EMBY_PASSWORD,
+                        apiKey: process.env.EMBY_APIKEY,
+                        url: process.env.EMBY_URL,
+                        usersAllow: process.env.EMBY_USERS_ALLOW,
+                        usersBlock: process.env.EMBY_USERS_BLOCK,
+                        devicesAllow: process.env.EMBY_DEVICES_ALLOW,
+                        devicesBlock: process.env.EMBY_DEVICES_BLOCK,
+                        librariesAllow: process.env.EMBY_LIBRARIES_ALLOW,
+                        librariesBlock: process.env.EMBY_LIBRARIES_BLOCK,
+                        frontendUrlOverride: process.env.EMBY_FRONTEND_URL_OVERRIDE,
+                        allowMediaTypes: process.env.EMBY_MEDIATYPES_ALLOW
+                    };
+                    if (!Object.values(emby).every(x => x === undefined)) {
+                        configs.push({
+                            type: 'emby',
+                            name: 'unnamed',
+                            source: 'ENV',
+                            mode: 'single',
+                            configureAs: defaultConfigureAs,
+                            data: emby as EmbyData,
+                            options: transformPresetEnv('EMBY')
+                        });
+                    }
+                }    break;
+                case 'lyrion': {
+                    const lyrion = {
+                        url: process.env.LYRION_URL,
+                        username: process.env.LYRION_USER,
+                        password: process.env.LYRION_PASSWORD,
+                        devicesAllow: process.env.LYRION_DEVICES_ALLOW,
+                        devicesBlock: process.env.LYRION_DEVICES_BLOCK
+                    };
+                    if (lyrion.url !== undefined) {
+                        configs.push({
+                            type: 'lyrion',
+                            name: 'unnamed',
+                            source: 'ENV',
+                            mode: 'single',
+                            configureAs: defaultConfigureAs,
+                            data: lyrion as LyrionData,
+                            options: transformPresetEnv('LYRION')
+                        });
+                    }
+                }    break;
+                case 'homeassistant': {
+                    const hass = {
+                        url: process.env.HASS_URL,
+                        token: process.env.HASS_TOKEN,
+                        entitiesAllow: process.env.HASS_ENTITIES_ALLOW,
+                        entitiesBlock: process.env.HASS_ENTITIES_BLOCK,
+                        allowContentTypes: process.env.HASS_CONTENTTYPES_ALLOW
+                    };
+                    if (hass.url !== undefined || hass.token !== undefined) {
+                        configs.push({
+                            type: 'homeassistant',
+                            name: 'unnamed',
+                            source: 'ENV',
+                            mode: 'single',
+                            configureAs: defaultConfigureAs,
+                            data: hass as HomeAssistantData,
+                            options: transformPresetEnv('HASS')
+                        });
+                    }
+                }    break;
+                case 'beefweb': {
+                    const beefweb = {
+                        url: process.env.BEEFWEB_URL,
+                        username: process.env.BEEFWEB_USER,
+                        password: process.env.BEEFWEB_PASSWORD
+                    };
+                    if (!Object.values(beefweb).every(x => x === undefined)) {
+                        configs.push({
+                            type: 'beefweb',
+                            name: 'unnamed',
+                            source: 'ENV',
+                            mode: 'single',
+                            configureAs: defaultConfigureAs,
+                            data: beefweb as BeefwebData,
+                            options: transformPresetEnv('BEEFWEB')
+                        });
+                    }
+                }    break;
+                case 'endpointas':
+                    const asShouldUse = parseBool(process.env.ASENDPOINT_ENABLE);
+                    const ase = {
+                        slug: process.env.AS_SLUG,
+                        username: process.env.AS_USER,
+                        password: process.env.AS_PASSWORD,
+                    }
+                    if (!Object.values(ase).every(x => x === undefined) || asShouldUse) {
+                        configs.push({
+                            type: 'endpointas',
+                            name: 'unnamed',
+                            source: 'ENV',
+                            mode: 'single',
+                            configureAs: defaultConfigureAs,
+                            data: ase as AudioscrobblerEndpointData,
+                            options: transformPresetEnv('AS')
+                        });
+                    }
+                    break;
+                case 'funkwhale': {
+                    const fw = {
+                        url: process.env.SOURCE_FUNKWHALE_URL,
+                        token: process.env.SOURCE_FUNKWHALE_TOKEN
+                    };
+                    if (!Object.values(fw).every(x => x === undefined)) {
+                        configs.push({
+                            type: 'funkwhale',
+                            name: 'unnamed-funkwhale-source',
+                            source: 'ENV',
+                            mode: 'single',
+                            configureAs: 'source',
+                            data: fw,
+                            options: transformPresetEnv('SOURCE_FUNKWHALE')
+                        })
+                    }
+                }
+                    break;
                 default:
                     break;
             }
@@ -817,8 +984,10 @@ export default class ScrobbleSources {
                     continue;
                 }
                 for (const [i,rawConf] of sourceConfigs.entries()) {
-                    if(['lastfm','listenbrainz','koito','maloja','tealfm','rocksky','librefm'].includes(sourceType) && 
-                    ((rawConf as LastfmSourceConfig | LibrefmSourceConfig | ListenBrainzSourceConfig | KoitoSourceConfig | MalojaSourceConfig | TealSourceConfig | RockskySourceConfig).configureAs !== 'source')) 
+                    if(['lastfm','listenbrainz','koito','maloja','tealfm','rocksky','librefm','funkwhale'].includes(sourceType) && 
+                    ((rawConf as LastfmSourceConfig | LibrefmSourceConfig | ListenBrainzSourceConfig | KoitoSourceConfig | MalojaSourceConfig | TealSourceConfig | RockskySourceConfig | FunkwhaleSourceConfig).configureAs !== 'source')
+                    // file.json configs are sources unless explicitly configured as a client
+                    || (sourceType === 'file' && (rawConf as ParsedConfig).configureAs === 'client')) 
                     {
                         this.logger.debug(`Skipping config ${i + 1} from ${sourceType}.json because it is configured as a client.`);
                         continue;
@@ -887,7 +1056,7 @@ export default class ScrobbleSources {
         }
     }
 
-    addSource = async (clientConfig: ParsedConfig, defaults: SourceDefaults = {}) => {
+    addSource = async (clientConfig: ParsedConfig, defaults: SourceDefaults = {}): Promise<AbstractSource | undefined> => {
         // const isValidConfig = isValidConfigStructure(clientConfig, {name: true, data: true, type: true});
         // if (isValidConfig !== true) {
         //     throw new Error(`Config object from ${clientConfig.source || 'unknown'} with name [${clientConfig.name || 'unnamed'}] of type [${clientConfig.type || 'unknown'}] has errors: ${isValidConfig.join(' | ')}`)
@@ -1024,6 +1193,34 @@ export default class ScrobbleSources {
                 const {SonosSource} = (await import('./SonosSource.js'));
                 newSource = await new SonosSource(name, compositeConfig as SonosSourceConfig, this.internalConfig, this.emitter);
                 break;
+            case 'file':
+                const FileSource = (await import('./FileSource.js')).default;
+                newSource = await new FileSource(name, compositeConfig as FileSourceConfig, this.internalConfig, this.emitter);
+                break;
+            case 'emby':
+                const EmbySource = (await import('./EmbySource.js')).default;
+                newSource = await new EmbySource(name, compositeConfig as EmbySourceConfig, this.internalConfig, this.emitter);
+                break;
+            case 'lyrion':
+                const {LyrionSource} = (await import('./LyrionSource.js'));
+                newSource = await new LyrionSource(name, compositeConfig as LyrionSourceConfig, this.internalConfig, this.emitter);
+                break;
+            case 'homeassistant':
+                const {HomeAssistantSource} = (await import('./HomeAssistantSource.js'));
+                newSource = await new HomeAssistantSource(name, compositeConfig as HomeAssistantSourceConfig, this.internalConfig, this.emitter);
+                break;
+            case 'beefweb':
+                const {BeefwebSource} = (await import('./BeefwebSource.js'));
+                newSource = await new BeefwebSource(name, compositeConfig as BeefwebSourceConfig, this.internalConfig, this.emitter);
+                break;
+            case 'endpointas':
+                const {EndpointAudioscrobblerSource} = (await import('./EndpointAudioscrobblerSource.js'));
+                newSource = await new EndpointAudioscrobblerSource(name, compositeConfig as AudioscrobblerEndpointSourceConfig, this.internalConfig, this.emitter);
+                break;
+            case 'funkwhale':
+                const FunkwhaleSource = (await import('./FunkwhaleSource.js')).default;
+                newSource = await new FunkwhaleSource(name, compositeConfig as FunkwhaleSourceConfig, this.internalConfig, this.emitter);
+                break;
             default:
                 break;
         }
@@ -1035,6 +1232,38 @@ export default class ScrobbleSources {
         }
         this.sources.push(newSource);
         newSource.logger.info(`Source Added from ${source}`);
+        return newSource;
+    }
+
+    /**
+     * Stop a running Source and remove it
+     * */
+    removeSource = async (source: AbstractSource) => {
+        await source.destroy();
+        this.sources = this.sources.filter(x => x !== source);
+        source.logger.info('Source Removed');
+    }
+
+    /**
+     * Build a Source from a (validated) config while the app is running, then initialize and start polling
+     *
+     * Returns undefined if the config is disabled
+     * */
+    startSource = async (config: ParsedConfig): Promise<AbstractSource | undefined> => {
+        const source = await this.addSource(config, this.sourceDefaults);
+        if(source === undefined) {
+            return;
+        }
+        try {
+            await source.tryInitialize({force: false, notify: true, notifyTitle: 'Could not initialize after config change'});
+        } catch (e) {
+            source.logger.error(new Error('Could not initialize source after config change', {cause: e}));
+            return source;
+        }
+        if(source.canPoll) {
+            source.poll({force: false, notify: true}).catch(e => source.logger.error(e));
+        }
+        return source;
     }
 }
 
@@ -42,7 +42,7 @@ import { baseFormatPlayObj } from "../utils/PlayTransformUtils.js";
 import { metaFromJSON } from "@lukehagar/plexjs/sdk/models/operations/getrecentlyadded.js";
 import { createGetScrobblesForTimeRangeFunc } from "../utils/ListenFetchUtils.js";
 
-const scopes = ['user-read-recently-played', 'user-read-currently-playing', 'user-read-playback-state', 'user-read-playback-position'];
+const scopes = ['user-read-recently-played', 'user-read-currently-playing', 'user-read-playback-state', 'user-read-playback-position', 'user-library-read'];
 const state = 'random';
 
 const shortDeviceId = truncateStringToLength(10, '');
@@ -56,6 +56,7 @@ export default class SpotifySource extends MemoryPositionalSource implements Pag
     requiresAuthInteraction = true;
 
     canGetState = false;
+    canGetSavedTracks = true;
 
     declare config: SpotifySourceConfig;
 
@@ -402,7 +403,7 @@ export default class SpotifySource extends MemoryPositionalSource implements Pag
                 plays.push(currPlay);
             }
         }
-        const newPlays = await this.processRecentPlays(plays);
+        const newPlays = await this.addSavedState(await this.processRecentPlays(plays));
         // hint that scrobble timestamp source of truth should be when the track ended (player changed tracks)
         // rather than when we first saw the track
         //
@@ -632,7 +633,35 @@ export default class SpotifySource extends MemoryPositionalSource implements Pag
         return true;
     }
 
-    protected getBackloggedPlays = async (options: RecentlyPlayedOptions = {}) => await this.getPlayHistory({formatted: true, ...options})
+    /**
+     * Set Play as loved if the track is in the user's Saved Tracks (Liked Songs)
+     * */
+    addSavedState = async (plays: PlayObject[]): Promise<PlayObject[]> => {
+        const ids = [...new Set(plays.map(x => x.meta.trackId).filter(x => x !== undefined))];
+        if(!this.canGetSavedTracks || ids.length === 0) {
+            return plays;
+        }
+        const saved = new Map<string, boolean>();
+        try {
+            // max 50 ids per request
+            for(let i = 0; i < ids.length; i += 50) {
+                const idChunk = ids.slice(i, i + 50);
+                const res = await this.callApi<ReturnType<typeof this.spotifyApi.containsMySavedTracks>>((api: SpotifyWebApi) => api.containsMySavedTracks(idChunk));
+                idChunk.forEach((id, index) => saved.set(id, res.body[index]));
+            }
+        } catch (e) {
+            if(hasApiPermissionError(e)) {
+                this.logger.warn('multi-scrobbler does not have sufficient permissions to access Spotify API "Check User\'s Saved Tracks". MS will continue to work but loved tracks will not be detected. To fix this re-authenticate MS with Spotify and restart polling.');
+                this.canGetSavedTracks = false;
+            } else {
+                this.logger.warn(new Error('Could not get saved state of tracks', {cause: e}));
+            }
+            return plays;
+        }
+        return plays.map(x => saved.has(x.meta.trackId) ? {...x, meta: {...x.meta, loved: saved.get(x.meta.trackId)}} : x);
+    }
+
+    protected getBackloggedPlays = async (options: RecentlyPlayedOptions = {}) => await this.addSavedState(await this.getPlayHistory({formatted: true, ...options}))
 }
 
 const asPlayHistoryObject = (obj: object): obj is PlayHistoryObject => 'played_at' in obj
@@ -74,6 +74,8 @@ export class SubsonicSource extends MemorySource {
             minutesAgo,
             playerId,
             username,
+            // only present when the song is starred, as the date it was starred
+            starred,
         } = obj;
 
         const play: PlayObjectLifecycleless = {
@@ -93,7 +95,8 @@ export class SubsonicSource extends MemorySource {
                 user: username,
                 deviceId: playerId,
                 mediaPlayerName: type ?? `${openSubsonic ? 'Open ' : ''}Subsonic`,
-                mediaPlayerVersion: type !== undefined && serverVersion !== undefined ? serverVersion : version
+                mediaPlayerVersion: type !== undefined && serverVersion !== undefined ? serverVersion : version,
+                loved: starred !== undefined && starred !== null
             }
         }
         return baseFormatPlayObj(obj, play);
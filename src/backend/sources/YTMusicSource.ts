@@ -412,6 +412,8 @@ Redirect URI  : ${this.redirectUri}`);
             const durObj = dayjs.duration(dur.seconds, 's')
             duration = durObj.asSeconds();
         }
+        // like status is only available if YTM includes the like button in the item's menu
+        const likeButton = obj.menu?.top_level_buttons?.firstOfType(YTNodes.LikeButton);
         const play: PlayObjectLifecycleless = {
             data: {
                 artists,
@@ -430,6 +432,9 @@ Redirect URI  : ${this.redirectUri}`);
                 comment: shelf
             }
         }
+        if(likeButton !== undefined) {
+            play.meta.loved = likeButton.like_status === 'LIKE';
+        }
         return baseFormatPlayObj(obj, play);
     }
 
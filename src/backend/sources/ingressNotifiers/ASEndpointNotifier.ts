@@ -0,0 +1,59 @@
+import { Logger } from "@foxxmd/logging";
+import { Request } from "express";
+import { parseSlugFromString, validateHandshakeRequest } from "../EndpointAudioscrobblerSource.js";
+import { IngressNotifier } from "./IngressNotifier.js";
+
+export class ASEndpointNotifier extends IngressNotifier {
+
+    constructor(logger: Logger) {
+        super('Audioscrobbler Endpoint', logger);
+    }
+
+    seenSlugs: Record<string, boolean> = {};
+    seenClients: Record<string, boolean> = {};
+
+    notifyBySource(req: Request, isRaw: boolean): [boolean, (string | undefined)] {
+
+        if (isHandshake(req)) {
+            const slug = parseSlugFromString(req.path);
+            if (slug === false) {
+                return [false, `Request URL was not valid: ${req.path}`];
+            }
+            const slugStr = slug ?? '(no slug)';
+            const client = `${req.query.c ?? '(no client)'} ${req.query.v ?? ''}`.trim();
+
+            const identifier = `${slugStr}-${client}`;
+
+            if (this.seenSlugs[identifier] === undefined) {
+                this.seenSlugs[identifier] = true;
+                return [true, `Received a handshake to endpoint with -- Slug: ${slugStr} -- from client ${client} for the first time.`];
+            }
+        } else if (!isRaw) {
+            const kind = req.originalUrl.includes('np_1.2') ? 'Now Playing' : 'Submission';
+            if (this.seenClients[kind] === undefined) {
+                this.seenClients[kind] = true;
+                return [true, `Received a ${kind} request for the first time.`];
+            }
+        }
+
+        return [true, undefined];
+    }
+
+    notifyByRequest(req: Request, isRaw: boolean): string | undefined {
+        if (isHandshake(req)) {
+            if (req.method !== 'GET') {
+                return `Expected GET request (handshake) but received ${req.method}`;
+            }
+            return validateHandshakeRequest(req.query as Record<string, string>);
+        }
+        if (req.method !== 'POST') {
+            return `Expected POST request (${req.originalUrl.includes('np_1.2') ? 'now playing' : 'submission'}) but received ${req.method}`;
+        }
+        if (!isRaw && (req.body === undefined || req.body.s === undefined)) {
+            return `Body is missing 's' (session) param`;
+        }
+        return;
+    }
+}
+
+const isHandshake = (req: Request) => req.query.hs !== undefined;
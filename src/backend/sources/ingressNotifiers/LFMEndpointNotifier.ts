@@ -1,8 +1,8 @@
 import { Logger } from "@foxxmd/logging";
 import { Request } from "express";
-import { parseIdentifiersFromRequest } from "../EndpointLastfmSource.js";
+import { LFM_ENDPOINT_METHODS, parseIdentifiersFromRequest, parseParamsFromRequest } from "../EndpointLastfmSource.js";
 import { IngressNotifier } from "./IngressNotifier.js";
-import { LastFMScrobbleRequestPayload } from "../../common/vendor/LastfmApiClient.js";
+import { LastFMEndpointMethod } from "../../common/infrastructure/config/source/endpointlfm.js";
 
 export class LFMEndpointNotifier extends IngressNotifier {
 
@@ -33,16 +33,20 @@ export class LFMEndpointNotifier extends IngressNotifier {
     }
 
     notifyByRequest(req: Request, isRaw: boolean): string | undefined {
-        if(req.method !== 'POST') {
-            return `Expected POST request (track.scrobble payload) but received ${req.method}`;
+        if(req.method !== 'POST' && req.method !== 'GET') {
+            return `Expected POST or GET request but received ${req.method}`;
         }
         if(!isRaw) {
-            if(!('method' in req.body)) {
-                return `Body is missing 'method' param`
+            const params = parseParamsFromRequest(req);
+            if(!('method' in params)) {
+                return `Request is missing 'method' param`
             }
-            const method = (req.body as LastFMScrobbleRequestPayload).method;
-            if(!['track.updateNowPlaying','track.scrobble'].includes(method)) {
-                return `Unexpected 'method' param value '${method}', expected either 'track.updateNowPlaying' or 'track.scrobble'`
+            const method = params.method as LastFMEndpointMethod;
+            if(!LFM_ENDPOINT_METHODS.includes(method)) {
+                return `Unexpected 'method' param value '${method}', expected one of ${LFM_ENDPOINT_METHODS.join(', ')}`
+            }
+            if(req.method === 'GET' && (method === 'track.scrobble' || method === 'track.updateNowPlaying')) {
+                return `Expected POST request for ${method} but received GET`;
             }
         }
         return;
@@ -0,0 +1,26 @@
+import { childLogger, Logger } from '@foxxmd/logging';
+import { AsyncTask } from "toad-scheduler";
+import { ExportBackups, getExportPlays } from "../common/Export.js";
+import { MSHistory } from "../common/History.js";
+import ScrobbleClients from "../scrobblers/ScrobbleClients.js";
+
+export const createExportClientsTask = (clients: ScrobbleClients, exporter: ExportBackups, history: MSHistory, parentLogger: Logger) => {
+    const logger = childLogger(parentLogger, ['Export', 'Clients']);
+
+    return new AsyncTask(
+        'Export',
+        async (): Promise<any> => {
+            logger.verbose('Starting export...');
+            const targets = clients.clients.map(client => ({
+                type: client.type,
+                name: client.name,
+                plays: getExportPlays(history, {kind: 'scrobble', status: ['scrobbled'], componentType: client.type, componentName: client.name}, () => [...client.getScrobbledPlays()])
+            }));
+            const written = await exporter.write(targets);
+            logger.info(`Wrote ${written.length} export files to ${exporter.config.dir}`);
+        },
+        (err: Error) => {
+            logger.error(new Error('Failed to export scrobbles', {cause: err}));
+        }
+    );
+}
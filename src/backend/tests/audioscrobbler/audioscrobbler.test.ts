@@ -0,0 +1,155 @@
+import { loggerTest } from "@foxxmd/logging";
+import { expect } from 'chai';
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { describe, it } from 'mocha';
+import { AudioscrobblerEndpointData } from "../../common/infrastructure/config/source/endpointas.js";
+import {
+    EndpointAudioscrobblerSource,
+    handshakeToken,
+    parseNowPlayingRequest,
+    parseSlugFromString,
+    parseSubmissionRequest,
+    trackToPlay,
+    validateHandshakeRequest,
+    validateTrack
+} from "../../sources/EndpointAudioscrobblerSource.js";
+
+const createSource = (data: AudioscrobblerEndpointData = {}): EndpointAudioscrobblerSource => new EndpointAudioscrobblerSource('Test', {
+    data,
+    options: {}
+}, { localUrl: new URL('http://test'), configDir: 'test', logger: loggerTest, version: 'test' }, new EventEmitter());
+
+const now = dayjs('2024-10-15T13:00:00.000Z');
+
+const handshake = (data: Record<string, string> = {}) => ({
+    hs: 'true',
+    p: '1.2.1',
+    c: 'tst',
+    v: '1.0',
+    u: 'foxx',
+    t: now.unix().toString(),
+    a: handshakeToken('mypass', now.unix().toString()),
+    ...data
+});
+
+describe('Audioscrobbler Endpoint Handshake', function () {
+
+    it('validates required handshake params', function () {
+        expect(validateHandshakeRequest(handshake())).to.be.undefined;
+        expect(validateHandshakeRequest(handshake({p: '1.1'}))).to.include('protocol');
+        expect(validateHandshakeRequest(handshake({u: ''}))).to.include(`'u'`);
+    });
+
+    it('parses slug from handshake path', function () {
+        expect(parseSlugFromString('/')).to.be.undefined;
+        expect(parseSlugFromString('/api/audioscrobbler')).to.be.undefined;
+        expect(parseSlugFromString('/api/audioscrobbler/mySlug/')).to.eq('mySlug');
+        expect(parseSlugFromString('/some/other/path')).to.be.false;
+    });
+
+    it('matches by slug and username', function () {
+        const noSlug = createSource();
+        expect(noSlug.matchHandshake(undefined, handshake())).to.be.true;
+        expect(noSlug.matchHandshake('mySlug', handshake())).to.be.false;
+
+        const withUser = createSource({slug: 'mySlug', username: 'FOXX'});
+        expect(withUser.matchHandshake('myslug', handshake())).to.be.true;
+        expect(withUser.matchHandshake('myslug', handshake({u: 'someoneElse'}))).to.be.false;
+    });
+
+    it('accepts any auth token when no password is configured', function () {
+        const source = createSource();
+        expect(source.authenticateHandshake(handshake({a: 'wrong', t: '0'}), now)).to.eq('OK');
+    });
+
+    it('authenticates using md5(md5(password) + timestamp)', function () {
+        const source = createSource({password: 'mypass'});
+        expect(source.authenticateHandshake(handshake(), now)).to.eq('OK');
+        expect(source.authenticateHandshake(handshake({a: handshakeToken('wrong', now.unix().toString())}), now)).to.eq('BADAUTH');
+    });
+
+    it('rejects timestamps too far from server time when password is configured', function () {
+        const source = createSource({password: 'mypass'});
+        const old = now.subtract(1, 'hour').unix().toString();
+        expect(source.authenticateHandshake(handshake({t: old, a: handshakeToken('mypass', old)}), now)).to.eq('BADTIME');
+    });
+
+    it('replaces existing session for the same user and client', function () {
+        const source = createSource();
+        const first = source.createSession(handshake());
+        expect(source.hasSession(first.id)).to.be.true;
+        const second = source.createSession(handshake());
+        expect(source.hasSession(first.id)).to.be.false;
+        expect(source.hasSession(second.id)).to.be.true;
+        source.createSession(handshake({c: 'other'}));
+        expect(source.sessions.size).to.eq(2);
+    });
+});
+
+describe('Audioscrobbler Endpoint Submissions', function () {
+
+    it('parses now playing request', function () {
+        const track = parseNowPlayingRequest({s: '1234', a: 'Test Artist', t: 'Cool Track', b: 'Test Album', l: '180', n: '', m: ''});
+        expect(validateTrack(track, false)).to.be.undefined;
+        const play = trackToPlay(track, true);
+        expect(play.meta.nowPlaying).to.be.true;
+        expect(play.data.artists).to.eql(['Test Artist']);
+        expect(play.data.track).to.eq('Cool Track');
+        expect(play.data.album).to.eq('Test Album');
+        expect(play.data.duration).to.eq(180);
+    });
+
+    it('parses multi-track submissions from extended urlencoded bodies', function () {
+        const tracks = parseSubmissionRequest({
+            s: '1234',
+            a: ['Artist 1', 'Artist 2'],
+            t: ['Track 1', 'Track 2'],
+            i: ['1729000000', '1729000200'],
+            o: ['P', 'P'],
+            r: ['', 'S'],
+            l: ['200', ''],
+            b: ['', 'Album 2'],
+            n: ['', ''],
+            m: ['', '']
+        });
+        expect(tracks).to.have.length(2);
+        expect(tracks[1].a).to.eq('Artist 2');
+        expect(tracks[1].r).to.eq('S');
+
+        const play = trackToPlay(tracks[0], false);
+        expect(play.meta.nowPlaying).to.be.false;
+        expect(play.data.playDate.unix()).to.eq(1729000000);
+        expect(play.data.duration).to.eq(200);
+        expect(trackToPlay(tracks[1], false).data.duration).to.be.undefined;
+    });
+
+    it('parses submissions with indexes beyond array limits', function () {
+        const tracks = parseSubmissionRequest({
+            s: '1234',
+            a: {'0': 'Artist 1', '25': 'Artist 26'},
+            t: {'0': 'Track 1', '25': 'Track 26'},
+            i: {'0': '1729000000', '25': '1729005000'},
+        });
+        expect(tracks).to.have.length(2);
+        expect(tracks[1].t).to.eq('Track 26');
+    });
+
+    it('parses submissions from non-extended urlencoded bodies', function () {
+        const tracks = parseSubmissionRequest({
+            s: '1234',
+            'a[1]': 'Artist 2',
+            'a[0]': 'Artist 1',
+            't[0]': 'Track 1',
+            't[1]': 'Track 2',
+            'i[0]': '1729000000',
+            'i[1]': '1729000200',
+        });
+        expect(tracks.map(x => x.t)).to.eql(['Track 1', 'Track 2']);
+    });
+
+    it('requires timestamp for submissions', function () {
+        expect(validateTrack({a: 'Artist', t: 'Track'}, true)).to.include('timestamp');
+        expect(validateTrack({a: 'Artist', t: ''}, true)).to.include('track');
+    });
+});
@@ -0,0 +1,143 @@
+import { loggerTest } from "@foxxmd/logging";
+import chai, { expect } from 'chai';
+import asPromised from 'chai-as-promised';
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { PlayObject } from "../../../core/Atomic.js";
+import { BACKFILL_CACHE_KEY, BackfillManager } from "../../common/Backfill.js";
+import { MSCache } from "../../common/Cache.js";
+import { TimeRangeListensFetcher } from "../../common/infrastructure/Atomic.js";
+import ScrobbleClients from "../../scrobblers/ScrobbleClients.js";
+import ScrobbleSources from "../../sources/ScrobbleSources.js";
+import { TestSource } from "../source/TestSource.js";
+import { TestScrobbler } from "../scrobbler/TestScrobbler.js";
+import { transientCache } from "../utils/CacheTestUtils.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+
+chai.use(asPromised);
+
+class TestHistorySource extends TestSource {
+    listens: PlayObject[] = [];
+    fetchedRanges: [number, number][] = [];
+    getScrobblesForTimeRange: TimeRangeListensFetcher = async ({from, to}) => {
+        this.fetchedRanges.push([from, to]);
+        return this.listens.filter(x => x.data.playDate.unix() >= from && x.data.playDate.unix() <= to);
+    }
+}
+
+const internal = {localUrl: new URL('https://example.com'), configDir: 'fake', logger: loggerTest, version: 'test'};
+
+describe('#Backfill', function () {
+
+    const start = dayjs().subtract(3, 'day').startOf('day');
+
+    let source: TestHistorySource;
+    let scrobbler: TestScrobbler;
+    let sources: ScrobbleSources;
+    let clients: ScrobbleClients;
+    let backfill: BackfillManager;
+    let cache: MSCache;
+
+    beforeEach(async function () {
+        source = new TestHistorySource('spotify', 'mySpotify', {options: {}}, internal, new EventEmitter());
+        await source.initialize();
+        source.listens = [
+            generatePlay({track: 'day 1 a', playDate: start.add(1, 'hour')}),
+            generatePlay({track: 'day 1 b', playDate: start.add(2, 'hour')}),
+            generatePlay({track: 'day 2', playDate: start.add(1, 'day').add(1, 'hour')}),
+            generatePlay({track: 'day 3', playDate: start.add(2, 'day').add(1, 'hour')}),
+        ];
+        sources = new ScrobbleSources(new EventEmitter(), internal, loggerTest);
+        sources.sources.push(source);
+
+        scrobbler = new TestScrobbler();
+        await scrobbler.initialize();
+        scrobbler.scrobbleDelay = 0;
+        scrobbler.scrobbleSleep = 10;
+        clients = new ScrobbleClients(new EventEmitter(), new EventEmitter(), internal, loggerTest);
+        clients.clients.push(scrobbler);
+
+        cache = transientCache();
+        await cache.init();
+        backfill = new BackfillManager(sources, clients, cache, loggerTest);
+        backfill.pollInterval = 10;
+    });
+
+    afterEach(async function () {
+        this.timeout(5000);
+        for(const job of backfill.getJobs()) {
+            await backfill.remove(job.id);
+        }
+        if(scrobbler.scrobbling) {
+            await scrobbler.tryStopScrobbling();
+        }
+    });
+
+    it('Rejects jobs for missing or unsupported components', async function () {
+        await expect(backfill.create({source: 'nope', from: start.unix()})).to.be.rejectedWith('No Source');
+        await expect(backfill.create({source: 'mySpotify', clients: ['nope'], from: start.unix()})).to.be.rejectedWith('No Client');
+        await expect(backfill.create({source: 'mySpotify', from: start.unix(), to: start.subtract(1, 'day').unix()})).to.be.rejectedWith('before');
+
+        const plain = new TestSource('spotify', 'plain', {}, internal, new EventEmitter());
+        sources.sources.push(plain);
+        await expect(backfill.create({source: 'plain', from: start.unix()})).to.be.rejectedWith('does not support');
+    });
+
+    it('Scrobbles history to Clients window by window', async function () {
+        this.timeout(5000);
+        scrobbler.initScrobbleMonitoring().catch(console.error);
+
+        const job = await backfill.create({source: 'mySpotify', from: start.unix(), to: start.add(3, 'day').unix() - 1, windowSize: 86400, delay: 0});
+        await backfill.start(job.id);
+        const finished = await backfill.waitFor(job.id);
+
+        expect(finished.status).eq('completed');
+        expect(finished.processed).eq(4);
+        expect(source.fetchedRanges.length).eq(3);
+        expect(scrobbler.getScrobbledPlays().map(x => x.data.track)).to.have.members(['day 1 a', 'day 1 b', 'day 2', 'day 3']);
+
+        const cached = await cache.cacheScrobble.get<{id: string, status: string}[]>(BACKFILL_CACHE_KEY);
+        expect(cached.find(x => x.id === job.id).status).eq('completed');
+    });
+
+    it('Does not scrobble plays the Client already has', async function () {
+        this.timeout(5000);
+        scrobbler.testRecentScrobbles = [source.listens[0]];
+        scrobbler.initScrobbleMonitoring().catch(console.error);
+
+        const job = await backfill.create({source: 'mySpotify', from: start.unix(), to: start.add(1, 'day').unix() - 1, delay: 0});
+        await backfill.start(job.id);
+        await backfill.waitFor(job.id);
+
+        expect(scrobbler.getScrobbledPlays().map(x => x.data.track)).to.have.members(['day 1 b']);
+    });
+
+    it('Fails when a Client is not processing scrobbles and resumes from the stored cursor', async function () {
+        this.timeout(5000);
+
+        const job = await backfill.create({source: 'mySpotify', from: start.unix(), to: start.add(3, 'day').unix() - 1, delay: 0});
+        await backfill.start(job.id);
+        const failed = await backfill.waitFor(job.id);
+        expect(failed.status).eq('failed');
+        expect(failed.error).to.include('not processing scrobbles');
+        expect(failed.cursor).eq(start.unix());
+
+        scrobbler.initScrobbleMonitoring().catch(console.error);
+        await backfill.start(job.id);
+        const finished = await backfill.waitFor(job.id);
+        expect(finished.status).eq('completed');
+        expect(finished.processed).eq(4);
+    });
+
+    it('Pauses interrupted jobs when loaded from cache', async function () {
+        const job = await backfill.create({source: 'mySpotify', from: start.unix()});
+        job.status = 'running';
+        await cache.cacheScrobble.set(BACKFILL_CACHE_KEY, backfill.getJobs());
+
+        const restarted = new BackfillManager(sources, clients, cache, loggerTest);
+        await restarted.init();
+        expect(restarted.getJob(job.id).status).eq('paused');
+        expect(restarted.getJob(job.id).cursor).eq(start.unix());
+    });
+});
@@ -0,0 +1,128 @@
+import { loggerTest } from "@foxxmd/logging";
+import { expect } from 'chai';
+import EventEmitter from "events";
+import { describe, it } from 'mocha';
+import { http, HttpResponse } from "msw";
+import { withRequestInterception } from "../utils/networking.js";
+import { BeefwebData, BeefwebPlayerResponse } from "../../common/infrastructure/config/source/beefweb.js";
+import { BeefwebSource } from "../../sources/BeefwebSource.js";
+import { REPORTED_PLAYER_STATUSES } from "../../common/infrastructure/Atomic.js";
+
+const TEST_URL = 'http://192.168.10.101:8880/api/player';
+
+const createSource = (data: BeefwebData = { url: '192.168.10.101' }): BeefwebSource => {
+    const source = new BeefwebSource('Test', {
+        data,
+        options: {}
+    }, { localUrl: new URL('http://test'), configDir: 'test', logger: loggerTest, version: 'test' }, new EventEmitter());
+    return source;
+}
+
+const playerResponse = (playbackState: BeefwebPlayerResponse['player']['playbackState'], columns: string[]): BeefwebPlayerResponse => ({
+    player: {
+        info: {name: 'foobar2000', title: 'foobar2000', version: '2.1.5', pluginVersion: '0.8'},
+        activeItem: {playlistId: 'p1', playlistIndex: 0, index: 2, position: 12.5, duration: 200.25, columns},
+        playbackState
+    }
+});
+
+describe('Beefweb Config', function () {
+
+    it('uses default port and path', async function () {
+        const source = createSource();
+        await source.buildInitData();
+        expect(source.url.toString()).to.eq('http://192.168.10.101:8880/api');
+    });
+
+    it('merges user columns with defaults', async function () {
+        const source = createSource({url: '192.168.10.101', columns: {artist: '[%track artist%]'}});
+        await source.buildInitData();
+        expect(source.columns.find(([k]) => k === 'artist')[1]).to.eq('[%track artist%]');
+        expect(source.columns.find(([k]) => k === 'title')[1]).to.eq('%title%');
+    });
+
+    it('rejects unknown columns', async function () {
+        // @ts-expect-error testing invalid config
+        const source = createSource({url: '192.168.10.101', columns: {genre: '%genre%'}});
+        try {
+            await source.buildInitData();
+            expect.fail('Should have thrown');
+        } catch (e) {
+            expect(e.cause.message).to.include('genre');
+        }
+    });
+});
+
+describe('Beefweb State Handling', function () {
+
+    it('requests configured columns and maps them to a play', withRequestInterception(
+        [
+            http.get(TEST_URL, ({request}) => {
+                const columns = new URL(request.url).searchParams.get('columns');
+                if (columns !== '[%artist%],%title%,[%album%],[%album artist%],[%length_seconds_fp%]') {
+                    return HttpResponse.json({}, {status: 400});
+                }
+                return HttpResponse.json(playerResponse('playing', ['Test Artist', 'Cool Track', 'Test Album', 'Test Album Artist', '200.25']));
+            })
+        ],
+        async function () {
+            const source = createSource();
+            await source.buildInitData();
+            source.connectionOK = true;
+            await source.getRecentlyPlayed();
+            expect(source.players.size).to.eq(1);
+            const playerState = source.players.values().next().value.getApiState();
+            expect(playerState.play.data.artists).to.eql(['Test Artist']);
+            expect(playerState.play.data.albumArtists).to.eql(['Test Album Artist']);
+            expect(playerState.play.data.album).to.eq('Test Album');
+            expect(playerState.play.data.track).to.eq('Cool Track');
+            expect(playerState.play.data.duration).to.eq(200.25);
+            expect(playerState.play.meta.trackProgressPosition).to.eq(12.5);
+            expect(playerState.status.reported).to.eq(REPORTED_PLAYER_STATUSES.playing);
+        }
+    ));
+
+    it('ignores empty columns and falls back to item duration', withRequestInterception(
+        [
+            http.get(TEST_URL, () => HttpResponse.json(playerResponse('paused', ['Test Artist', 'Cool Track', '', '', ''])))
+        ],
+        async function () {
+            const source = createSource();
+            await source.buildInitData();
+            source.connectionOK = true;
+            await source.getRecentlyPlayed();
+            const playerState = source.players.values().next().value.getApiState();
+            expect(playerState.play.data.album).to.be.undefined;
+            expect(playerState.play.data.albumArtists).to.be.empty;
+            expect(playerState.play.data.duration).to.eq(200.25);
+            expect(playerState.status.reported).to.eq(REPORTED_PLAYER_STATUSES.paused);
+        }
+    ));
+
+    it('sends basic auth when configured', withRequestInterception(
+        [
+            http.get(TEST_URL, ({request}) => {
+                if (request.headers.get('Authorization') !== `Basic ${Buffer.from('user:pass').toString('base64')}`) {
+                    return HttpResponse.json({}, {status: 401});
+                }
+                return HttpResponse.json(playerResponse('stopped', []));
+            })
+        ],
+        async function () {
+            const source = createSource({url: '192.168.10.101', username: 'user', password: 'pass'});
+            await source.buildInitData();
+            source.connectionOK = true;
+            expect(await source.doAuthentication()).to.be.true;
+            expect(source.playerName).to.eq('foobar2000');
+
+            const badSource = createSource({url: '192.168.10.101', username: 'user', password: 'wrong'});
+            await badSource.buildInitData();
+            try {
+                await badSource.doAuthentication();
+                expect.fail('Should have thrown');
+            } catch (e) {
+                expect(e.message).to.include('401');
+            }
+        }
+    ));
+});
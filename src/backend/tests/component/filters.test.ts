@@ -0,0 +1,165 @@
+import { loggerTest } from "@foxxmd/logging";
+import chai, { expect } from 'chai';
+import asPromised from 'chai-as-promised';
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { describe, it } from 'mocha';
+import { getExportPlays } from "../../common/Export.js";
+import { MSHistory } from "../../common/History.js";
+import { SINGLE_USER_PLATFORM_ID } from "../../common/infrastructure/Atomic.js";
+import { PlayFilterOptions } from "../../common/infrastructure/Filter.js";
+import { EndpointListenbrainzSource } from "../../sources/EndpointListenbrainzSource.js";
+import { buildFilterRules, filterPlay, testFilterRule } from "../../utils/PlayFilterUtils.js";
+import { TestScrobbler } from "../scrobbler/TestScrobbler.js";
+import { TestSource } from "../source/TestSource.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+
+chai.use(asPromised);
+
+const generateSource = (filters: PlayFilterOptions) => {
+    const source = new TestSource('spotify', 'test', {options: {filters}}, {localUrl: new URL('https://example.com'), configDir: 'fake', logger: loggerTest, version: 'test'}, new EventEmitter());
+    source.buildTransformRules();
+    source.buildFilterRules();
+    return source;
+}
+
+describe('#Play Filters', function () {
+
+    describe('Rules', function () {
+
+        it('Matches title, artists, and album like when conditions', function () {
+            const play = generatePlay({track: 'My Song (Live)', artists: ['Foo', 'Bar'], album: 'Cool Album'});
+            expect(testFilterRule({title: '/live/i'}, play)).is.true;
+            expect(testFilterRule({artists: 'Bar'}, play)).is.true;
+            expect(testFilterRule({artists: 'Baz'}, play)).is.false;
+            // all defined properties must match
+            expect(testFilterRule({title: '/live/i', album: 'Other Album'}, play)).is.false;
+        });
+
+        it('Matches duration range', function () {
+            const play = generatePlay({duration: 20});
+            expect(testFilterRule({duration: {max: 30}}, play)).is.true;
+            expect(testFilterRule({duration: {min: 30}}, play)).is.false;
+            expect(testFilterRule({duration: {min: 10, max: 30}}, play)).is.true;
+            expect(testFilterRule({duration: {max: 30}}, generatePlay({duration: undefined}))).is.false;
+        });
+
+        it('Matches media type, device, and user', function () {
+            const play = generatePlay({}, {mediaType: 'Podcast', deviceId: 'Kids Room Speaker', user: 'guest'});
+            expect(testFilterRule({mediaType: ['audiobook', 'podcast']}, play)).is.true;
+            expect(testFilterRule({mediaType: 'music'}, play)).is.false;
+            expect(testFilterRule({deviceId: '/kids/i'}, play)).is.true;
+            expect(testFilterRule({user: 'guest'}, play)).is.true;
+            expect(testFilterRule({user: 'admin'}, play)).is.false;
+            expect(testFilterRule({mediaType: 'podcast'}, generatePlay())).is.false;
+        });
+
+        it('Matches time of day, including ranges past midnight', function () {
+            const late = generatePlay({playDate: dayjs().hour(23).minute(30)});
+            const early = generatePlay({playDate: dayjs().hour(5).minute(59)});
+            const noon = generatePlay({playDate: dayjs().hour(12).minute(0)});
+            const overnight = {time: {from: '22:00', to: '06:00'}};
+
+            expect(testFilterRule(overnight, late)).is.true;
+            expect(testFilterRule(overnight, early)).is.true;
+            expect(testFilterRule(overnight, noon)).is.false;
+            expect(testFilterRule({time: {from: '09:00', to: '12:00'}}, noon)).is.false;
+            expect(testFilterRule({time: {from: '09:00', to: '12:01'}}, noon)).is.true;
+        });
+
+        it('Matches day of week', function () {
+            const saturday = generatePlay({playDate: dayjs().day(6)});
+            expect(testFilterRule({days: ['sat', 'sun']}, saturday)).is.true;
+            expect(testFilterRule({days: ['mon']}, saturday)).is.false;
+        });
+
+        it('Filters plays not matching include rules or matching exclude rules', function () {
+            const rules = buildFilterRules({
+                include: [{artists: 'Foo'}, {artists: 'Bar'}],
+                exclude: [{name: 'No live', title: '/live/i'}]
+            });
+
+            expect(filterPlay(rules, generatePlay({track: 'Studio', artists: ['Foo']}))).is.undefined;
+            expect(filterPlay(rules, generatePlay({track: 'Studio', artists: ['Baz']})).reason).to.include('include');
+
+            const excluded = filterPlay(rules, generatePlay({track: 'Song (Live)', artists: ['Bar']}));
+            expect(excluded.rule).eq('No live');
+            expect(excluded.reason).to.include('No live');
+        });
+
+        it('Throws on invalid rules', function () {
+            expect(() => buildFilterRules({exclude: [{days: ['someday' as any]}]})).to.throw();
+            expect(() => buildFilterRules({exclude: [{time: {from: '25:00', to: '06:00'}}]})).to.throw();
+            expect(() => buildFilterRules({include: {title: 'foo'} as any})).to.throw();
+        });
+    });
+
+    describe('Source', function () {
+
+        it('Does not return filtered plays as newly discovered', async function () {
+            const source = generateSource({exclude: [{name: 'Short', duration: {max: 30}}]});
+            const kept = generatePlay({duration: 200});
+            const filtered = generatePlay({duration: 10});
+
+            const discovered = await source.discover([kept, filtered]);
+            expect(discovered).length(1);
+            expect(discovered[0].data.track).eq(kept.data.track);
+        });
+
+        it('Records filter reason and does not filter the same play again', async function () {
+            const source = generateSource({exclude: [{name: 'Short', duration: {max: 30}}]});
+            const filtered = generatePlay({duration: 10});
+
+            await source.discover([filtered]);
+            const recorded = source.getRecentlyDiscoveredPlaysByPlatform(SINGLE_USER_PLATFORM_ID);
+            expect(recorded).length(1);
+            expect(recorded[0].meta.lifecycle.filtered.rule).eq('Short');
+            expect(recorded[0].meta.lifecycle.filtered.source).eq(source.getIdentifier());
+            expect(filtered.meta.lifecycle.filtered).is.undefined;
+
+            expect(await source.discover([filtered])).length(0);
+            expect(source.getRecentlyDiscoveredPlaysByPlatform(SINGLE_USER_PLATFORM_ID)).length(1);
+        });
+
+        it('Does not treat filtered plays as listens in recent, export, or listens output', async function () {
+            const source = new EndpointListenbrainzSource('test', {options: {filters: {exclude: [{name: 'Short', duration: {max: 30}}]}}}, {localUrl: new URL('https://example.com'), configDir: 'fake', logger: loggerTest, version: 'test'}, new EventEmitter());
+            source.buildTransformRules();
+            source.buildFilterRules();
+            source.scheduler.stop();
+            const history = new MSHistory(loggerTest, {enable: true, connection: ':memory:'});
+            await history.init();
+            source['history'] = history;
+            const events: unknown[] = [];
+            source.emitter.on('discovered', (e) => events.push(e));
+
+            const kept = generatePlay({duration: 200, playDate: dayjs().subtract(10, 'minutes')});
+            await source.discover([kept, generatePlay({duration: 10})]);
+
+            expect(events).length(1);
+            expect(source.getFlatRecentlyDiscoveredPlays()).length(1);
+            expect(source.getListens()).length(1);
+            expect(source.getListens()[0].track_metadata.track_name).eq(kept.data.track);
+
+            const exportQuery = {kind: 'discovered' as const, componentType: source.type, componentName: source.name};
+            expect(getExportPlays(history, exportQuery, () => [])).length(1);
+            expect(getExportPlays(new MSHistory(loggerTest, {connection: ':memory:'}), exportQuery, () => source.getFlatRecentlyDiscoveredPlays())).length(1);
+            // filter reason is still recorded
+            const filteredRecords = history.query({...exportQuery, status: ['filtered']});
+            expect(filteredRecords.total).eq(1);
+            expect(filteredRecords.data[0].play.meta.lifecycle.filtered.rule).eq('Short');
+            history.close();
+        });
+    });
+
+    describe('Client', function () {
+
+        it('Does not queue filtered plays', async function () {
+            const scrobbler = new TestScrobbler({name: 'test', options: {filters: {exclude: [{title: 'Skip Me'}]}}});
+            await scrobbler.initialize();
+
+            await scrobbler.queueScrobble([generatePlay({track: 'Skip Me'}), generatePlay({track: 'Keep Me'})], 'testSource');
+            expect(scrobbler.queuedScrobbles).length(1);
+            expect(scrobbler.queuedScrobbles[0].play.data.track).eq('Keep Me');
+        });
+    });
+});
@@ -699,4 +699,67 @@ describe('Play Transforms', function () {
         });
     });
 
+    describe('Transform Preview', function() {
+
+        it('Uses supplied rules without modifying component rules or the original Play', async function() {
+            component.config = {
+                options: {
+                    playTransform: {
+                        preCompare: {
+                            title: ["something"]
+                        }
+                    }
+                }
+            };
+            component.buildTransformRules();
+            const existingRules = component.transformRules;
+
+            const play = generatePlay({track: 'My cool something track'});
+            const result = await component.previewTransform(play, {
+                preCompare: {
+                    title: [{search: "something", replace: "bar"}]
+                },
+                postCompare: [
+                    {
+                        title: [{search: "cool", replace: "fun"}]
+                    },
+                    {
+                        type: 'native'
+                    }
+                ]
+            });
+
+            expect(result.play.data.track).equal('My fun bar track');
+            expect(play.data.track).equal('My cool something track');
+            expect(component.transformRules).equal(existingRules);
+            expect(result.steps.map(x => x.name)).eql([TRANSFORM_HOOK.preCompare, TRANSFORM_HOOK.postCompare]);
+            expect(result.stages.map(x => [x.hook, x.type, x.status])).eql([
+                [TRANSFORM_HOOK.preCompare, 'user', 'success'],
+                [TRANSFORM_HOOK.postCompare, 'user', 'success'],
+                [TRANSFORM_HOOK.postCompare, 'native', 'success']
+            ]);
+            expect(result.stages[0].play.track).equal('My cool bar track');
+        });
+
+        it('Uses component rules when no rules are supplied', async function() {
+            component.config = {
+                options: {
+                    playTransform: {
+                        preCompare: {
+                            title: [{search: "something", replace: "bar"}]
+                        }
+                    }
+                }
+            };
+            component.buildTransformRules();
+
+            const result = await component.previewTransform(generatePlay({track: 'My cool something track'}));
+            expect(result.play.data.track).equal('My cool bar track');
+        });
+
+        it('Throws when supplied rules are invalid', async function() {
+            await assert.isRejected(component.previewTransform(generatePlay(), {preCompare: {type: 'notReal'} as any}), 'preCompare was not valid');
+        });
+    });
+
 })
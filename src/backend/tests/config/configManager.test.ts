@@ -0,0 +1,166 @@
+import { loggerTest } from '@foxxmd/logging';
+import chai, { expect } from 'chai';
+import asPromised from 'chai-as-promised';
+import EventEmitter from "events";
+import { readFile, writeFile } from 'node:fs/promises';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import withLocalTmpDir from 'with-local-tmp-dir';
+import { REDACTED_CONFIG_VALUE } from '../../../core/Atomic.js';
+import { configHash, ConfigManager } from '../../common/ConfigManager.js';
+import ScrobbleClients from '../../scrobblers/ScrobbleClients.js';
+import ScrobbleSources from '../../sources/ScrobbleSources.js';
+
+chai.use(asPromised);
+
+describe('Config Editor', function () {
+
+    let reset: any;
+    let sources: ScrobbleSources;
+    let manager: ConfigManager;
+
+    beforeEach(async function () {
+        reset = await withLocalTmpDir({unsafeCleanup: true});
+        const internal = {
+            localUrl: new URL('http://example.com'),
+            configDir: process.cwd(),
+            version: 'test'
+        };
+        const emitter = new EventEmitter();
+        sources = new ScrobbleSources(emitter, internal, loggerTest);
+        const clients = new ScrobbleClients(emitter, emitter, internal, loggerTest);
+        manager = new ConfigManager(process.cwd(), sources, clients, loggerTest);
+    });
+
+    afterEach(async function () {
+        for (const s of sources.sources) {
+            await s.destroy();
+        }
+        await reset();
+    });
+
+    const readFileJson = async (name: string) => JSON.parse(await readFile(name, 'utf8'));
+
+    it('Lists configs from config.json and type files without interpolating ENVs', async function () {
+        await writeFile('config.json', JSON.stringify({sources: [{type: 'webscrobbler', name: 'Main', data: {slug: 'main'}}]}));
+        // single object and JSON5 are allowed in type files
+        await writeFile('webscrobbler.json', `{name: 'FromFile', data: {slug: '[[MY_SLUG]]'}} // a comment`);
+        await writeFile('listenbrainz.json', JSON.stringify([{name: 'LzSource', configureAs: 'source', data: {token: 'abc', username: 'foo'}}, {name: 'LzClient', data: {token: 'abc', username: 'foo'}}]));
+
+        const entries = await manager.getEntries();
+        expect(entries).length(4);
+
+        const main = entries.find(x => x.name === 'Main');
+        expect(main.id).eq(`config.json:sources:${configHash('source', 'webscrobbler', 'Main')}`);
+        expect(main.role).eq('source');
+        expect(main.editable).is.true;
+
+        const fromFile = entries.find(x => x.name === 'FromFile');
+        expect(fromFile.id).eq(`webscrobbler.json:${configHash('source', 'webscrobbler', 'FromFile')}`);
+        expect(fromFile.config.data.slug).eq('[[MY_SLUG]]');
+
+        expect(entries.find(x => x.name === 'LzSource').role).eq('source');
+        expect(entries.find(x => x.name === 'LzClient').role).eq('client');
+    });
+
+    it('Redacts secrets and keeps them when saved unchanged', async function () {
+        this.timeout(30000);
+        await writeFile('endpointlz.json', JSON.stringify([{name: 'Lz', data: {slug: 'lz', token: 'mysecret'}}, {name: 'LzEnv', data: {token: '[[LZ_TOKEN]]'}}]));
+
+        const entries = await manager.getEntries();
+        const entry = entries.find(x => x.name === 'Lz');
+        expect(entry.config.data.token).eq(REDACTED_CONFIG_VALUE);
+        expect(entry.config.data.slug).eq('lz');
+        expect(entries.find(x => x.name === 'LzEnv').config.data.token).eq('[[LZ_TOKEN]]');
+
+        await manager.save('source', 'endpointlz', {...entry.config, data: {...entry.config.data, slug: 'changed'}}, entry.id);
+        const file = await readFileJson('endpointlz.json');
+        expect(file[0].data).to.eql({slug: 'changed', token: 'mysecret'});
+    });
+
+    it('Returns validation errors for invalid configs', async function () {
+        this.timeout(30000);
+        expect(await manager.validate('source', 'webscrobbler', {name: 'Test', data: {slug: 'test'}})).length(0);
+        expect(await manager.validate('source', 'webscrobbler', {name: 'Test', enable: 'yes'})).length.greaterThan(0);
+        await expect(manager.save('source', 'webscrobbler', {name: 'Test', enable: 'yes'})).to.be.rejectedWith('Config is not valid');
+    });
+
+    it('Adds a new config to its type file and starts it', async function () {
+        this.timeout(30000);
+        await writeFile('webscrobbler.json', JSON.stringify({name: 'Existing'}));
+
+        const entry = await manager.save('source', 'webscrobbler', {name: 'Test', data: {slug: 'test'}});
+        expect(entry.id).eq(`webscrobbler.json:${configHash('source', 'webscrobbler', 'Test')}`);
+        expect(entry.running).is.true;
+
+        const file = await readFileJson('webscrobbler.json');
+        expect(file).length(2);
+        expect(file[1].name).eq('Test');
+        expect(sources.getByNameAndType('Test', 'webscrobbler')).to.not.be.undefined;
+
+        await expect(manager.save('source', 'webscrobbler', {name: 'Test'})).to.be.rejectedWith('already exists');
+    });
+
+    it('Replaces an existing config in place and rebuilds the running component', async function () {
+        this.timeout(30000);
+        await writeFile('config.json', JSON.stringify({sourceDefaults: {maxPollRetries: 1}, sources: [{type: 'webscrobbler', name: 'Main', data: {slug: '[[MY_SLUG]]'}}]}));
+        await sources.buildSourcesFromConfig();
+        const original = sources.getByNameAndType('Main', 'webscrobbler');
+        expect(original).to.not.be.undefined;
+
+        const entry = await manager.save('source', 'webscrobbler', {name: 'Renamed', data: {slug: '[[MY_SLUG]]'}}, `config.json:sources:${configHash('source', 'webscrobbler', 'Main')}`);
+        expect(entry.running).is.true;
+        expect(entry.id).eq(`config.json:sources:${configHash('source', 'webscrobbler', 'Renamed')}`);
+
+        const file = await readFileJson('config.json');
+        expect(file.sourceDefaults).to.eql({maxPollRetries: 1});
+        expect(file.sources).length(1);
+        expect(file.sources[0]).to.eql({type: 'webscrobbler', name: 'Renamed', data: {slug: '[[MY_SLUG]]'}});
+
+        expect(sources.getByNameAndType('Main', 'webscrobbler')).to.be.undefined;
+        expect(sources.sources).length(1);
+        expect(sources.sources[0]).to.not.eq(original);
+    });
+
+    it('Removes a config and stops it', async function () {
+        this.timeout(30000);
+        await writeFile('webscrobbler.json', JSON.stringify([{name: 'First'}, {name: 'Second'}]));
+        await sources.buildSourcesFromConfig();
+        expect(sources.sources).length(2);
+
+        const secondId = (await manager.getEntries()).find(x => x.name === 'Second').id;
+        await manager.remove(`webscrobbler.json:${configHash('source', 'webscrobbler', 'First')}`);
+
+        expect(await readFileJson('webscrobbler.json')).to.eql([{name: 'Second'}]);
+        expect(sources.sources.map(x => x.name)).to.eql(['Second']);
+        // ids do not depend on position in the file
+        expect((await manager.getEntries()).find(x => x.name === 'Second').id).eq(secondId);
+        await expect(manager.remove(`config.json:sources:${configHash('source', 'webscrobbler', 'First')}`)).to.be.rejectedWith('No config exists');
+    });
+
+    it('Keeps a copy of files with comments before re-writing them', async function () {
+        this.timeout(30000);
+        const original = `// my sources\n[{name: 'First'}, {name: 'Second'}]`;
+        await writeFile('webscrobbler.json', original);
+
+        await manager.remove(`webscrobbler.json:${configHash('source', 'webscrobbler', 'First')}`);
+        expect(await readFileJson('webscrobbler.json')).to.eql([{name: 'Second'}]);
+        expect(await readFile('webscrobbler.json.bak', 'utf8')).eq(original);
+
+        // plain JSON loses nothing when re-written so no copy is made
+        await writeFile('listenbrainz.json', JSON.stringify([{name: 'LzClient', data: {token: 'abc', username: 'foo'}}]));
+        await manager.remove(`listenbrainz.json:${configHash('client', 'listenbrainz', 'LzClient')}`);
+        await expect(readFile('listenbrainz.json.bak', 'utf8')).to.be.rejected;
+    });
+
+    it('Does not change a config that was changed outside of the editor', async function () {
+        this.timeout(30000);
+        await writeFile('webscrobbler.json', JSON.stringify([{name: 'First'}, {name: 'Second'}]));
+        const first = (await manager.getEntries()).find(x => x.name === 'First');
+
+        await writeFile('webscrobbler.json', JSON.stringify([{name: 'Second'}, {name: 'Other'}]));
+
+        await expect(manager.save('source', 'webscrobbler', {name: 'Edited'}, first.id)).to.be.rejectedWith('No config exists');
+        await expect(manager.remove(first.id)).to.be.rejectedWith('No config exists');
+        expect(await readFileJson('webscrobbler.json')).to.eql([{name: 'Second'}, {name: 'Other'}]);
+    });
+});
@@ -0,0 +1,252 @@
+import { loggerTest } from "@foxxmd/logging";
+import { expect } from 'chai';
+import EventEmitter from "events";
+import { describe, it } from 'mocha';
+import { PlayMeta } from "../../../core/Atomic.js";
+import EmbySource from "../../sources/EmbySource.js";
+import validSession from './validSession.json';
+import { EmbyData, EmbySessionInfo } from "../../common/infrastructure/config/source/emby.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+import { PlayerStateDataMaybePlay, REPORTED_PLAYER_STATUSES } from "../../common/infrastructure/Atomic.js";
+import { MarkOptional } from "ts-essentials";
+import { defaultLifecycle } from "../../utils/PlayTransformUtils.js";
+
+const createEmby = (data: EmbyData): EmbySource => {
+    const emby = new EmbySource('Test', {
+        data,
+        options: {}
+    }, { localUrl: new URL('http://test'), configDir: 'test', logger: loggerTest, version: 'test' }, new EventEmitter());
+    emby.libraries = [{name: 'music', paths: ['/data/allmusic'], collectionType: 'music'}];
+    return emby;
+}
+
+const defaultEmbyCreds = {url: 'http://example.com', user: 'MyUser', apiKey: '1234'};
+
+const validPlayerState: PlayerStateDataMaybePlay = {
+    platformId: ['1234', 'MyUser'],
+    play: generatePlay({}, {mediaType: 'Audio', user: 'MyUser', deviceId: '1234'})
+}
+const playWithMeta = (meta: MarkOptional<PlayMeta, 'lifecycle'>): PlayerStateDataMaybePlay => {
+    const {user, deviceId} = meta;
+    const platformId = validPlayerState.platformId;
+    return {
+        ...validPlayerState,
+        platformId: [deviceId ?? platformId[0], user ?? platformId[1]],
+        play: {
+            ...validPlayerState.play,
+            meta: {
+                lifecycle: defaultLifecycle(),
+                ...validPlayerState.play?.meta,
+                ...meta
+            }
+        }
+    }
+}
+
+const nowPlayingSession = (data: object): EmbySessionInfo => ({...validSession, NowPlayingItem: {...validSession.NowPlayingItem, ...data}});
+
+describe("Emby Source", function() {
+    describe('Parses config allow/block correctly', function () {
+
+        it('Should parse users, devices, libraries, library types, and media types as lowercase from config', async function () {
+            const emby = createEmby({
+                usersAllow: ['MyUser', 'AnotherUser'],
+                usersBlock: ['SomeUser'],
+                devicesAllow: ['Web Player'],
+                devicesBlock: ['Bad Player'],
+                librariesAllow: ['MuSiCoNe'],
+                librariesBlock: ['MuSiCbAd'],
+                additionalAllowedLibraryTypes: ['MusicVideoS'],
+                allowMediaTypes: ['Unknown'],
+                ...defaultEmbyCreds});
+            await emby.buildInitData();
+
+            expect(emby.usersAllow).to.be.eql(['myuser', 'anotheruser']);
+            expect(emby.usersBlock).to.be.eql(['someuser']);
+            expect(emby.devicesAllow).to.be.eql(['web player']);
+            expect(emby.devicesBlock).to.be.eql(['bad player']);
+            expect(emby.librariesAllow).to.be.eql(['musicone']);
+            expect(emby.librariesBlock).to.be.eql(['musicbad']);
+            expect(emby.allowedLibraryTypes).to.be.eql(['music','musicvideos']);
+            expect(emby.allowedMediaTypes).to.be.eql(['unknown']);
+            await emby.destroy();
+        });
+
+        it('Should include authenticating user as allowed when no others are set', async function () {
+            const emby = createEmby({...defaultEmbyCreds});
+            await emby.buildInitData();
+
+            expect(emby.usersAllow).to.be.eql(['myuser']);
+            await emby.destroy();
+        });
+
+        it('Should set allowed users to empty array (allow all) when usersAllow is true', async function () {
+            const emby = createEmby({...defaultEmbyCreds, usersAllow: true});
+            await emby.buildInitData();
+
+            expect(emby.usersAllow).to.be.empty;
+            await emby.destroy();
+        });
+
+        it('Should use /emby as default path when url has no path', async function () {
+            const emby = createEmby({...defaultEmbyCreds, url: 'http://192.168.10.11:8096'});
+            await emby.buildInitData();
+
+            expect(emby.urlData.url.toString()).to.be.eql('http://192.168.10.11:8096/emby');
+            await emby.destroy();
+        });
+
+        it('Should throw if neither password or apiKey are set', async function () {
+            const emby = createEmby({url: 'http://example.com', user: 'MyUser'});
+            try {
+                await emby.buildInitData();
+                expect.fail('Should have thrown');
+            } catch (e) {
+                expect(e.cause.message).to.include('password');
+            }
+            await emby.destroy();
+        });
+    });
+
+    describe('Builds URLs', function () {
+
+        const sourceUrl = 'http://192.168.10.11:8096';
+        const frontendUrlOverride = 'https://myemby.com';
+
+        it('Should build album art and web urls from server url', async function () {
+            const emby = createEmby({...defaultEmbyCreds, url: sourceUrl});
+            await emby.buildInitData();
+
+            const play = emby.formatPlayObjAware(validSession.NowPlayingItem);
+            expect(play.meta.art.album).to.be.eql(`${sourceUrl}/emby/Items/8370/Images/Primary?maxHeight=500&tag=4c2c94ff8a0c9c93d3a3b6a0e6b0e7f1`);
+            expect(play.meta.url.web).to.be.eql(`${sourceUrl}/emby/web/index.html#!/item?id=8370&serverId=a1f4d6e9c0b24f3e8d7c6b5a49382716`);
+            await emby.destroy();
+        });
+
+        it('Should replace server url with frontendUrlOverride', async function () {
+            const emby = createEmby({...defaultEmbyCreds, url: sourceUrl, frontendUrlOverride});
+            await emby.buildInitData();
+
+            const play = emby.formatPlayObjAware(validSession.NowPlayingItem);
+            expect(play.meta.art.album).to.be.eql(`${frontendUrlOverride}/emby/Items/8370/Images/Primary?maxHeight=500&tag=4c2c94ff8a0c9c93d3a3b6a0e6b0e7f1`);
+            await emby.destroy();
+        });
+    });
+
+    describe('Maps Sessions to Player State', function () {
+
+        it('Should map NowPlayingItem and PositionTicks to positional player state', async function () {
+            const emby = createEmby({...defaultEmbyCreds});
+            await emby.buildInitData();
+
+            const state = emby.sessionToPlayerState(validSession);
+            expect(state.status).to.eq(REPORTED_PLAYER_STATUSES.playing);
+            expect(state.position).to.eq(16.096);
+            expect(state.platformId[1]).to.eq('MyUser');
+            expect(state.play.data.track).to.eq('I GOT YOU');
+            expect(state.play.data.artists).to.eql(['Bebe Rexha', 'Travis Barker']);
+            expect(state.play.data.albumArtists).to.eql(['Bebe Rexha']);
+            expect(state.play.data.duration).to.eq(183.666);
+            expect(state.play.data.meta.brainz.album).to.eq('a8b7a0b1-5a4b-4a53-9a45-0a1d0d67f3c1');
+            expect(state.play.meta.trackProgressPosition).to.eq(16.096);
+            await emby.destroy();
+        });
+
+        it('Should map paused and stopped sessions', async function () {
+            const emby = createEmby({...defaultEmbyCreds});
+            await emby.buildInitData();
+
+            expect(emby.sessionToPlayerState({...validSession, PlayState: {...validSession.PlayState, IsPaused: true}}).status).to.eq(REPORTED_PLAYER_STATUSES.paused);
+
+            const stopped = emby.sessionToPlayerState({...validSession, NowPlayingItem: undefined, PlayState: {}});
+            expect(stopped.status).to.eq(REPORTED_PLAYER_STATUSES.stopped);
+            expect(stopped.play).to.be.undefined;
+            await emby.destroy();
+        });
+    });
+
+    describe('Correctly detects activity as valid/invalid', function() {
+
+        it('Should allow activity based on user allow', async function () {
+            const emby = createEmby({...defaultEmbyCreds});
+            await emby.buildInitData();
+
+            expect(emby.isActivityValid(playWithMeta({user: 'SomeOtherUser'}), validSession)).to.not.be.true;
+            expect(emby.isActivityValid(validPlayerState, validSession)).to.be.true;
+            await emby.destroy();
+        });
+
+        it('Should disallow activity based on user block', async function () {
+            const emby = createEmby({...defaultEmbyCreds, usersAllow: true, usersBlock: ['BadUser']});
+            await emby.buildInitData();
+
+            expect(emby.isActivityValid(playWithMeta({user: 'BadUser'}), validSession)).to.not.be.true;
+            expect(emby.isActivityValid(playWithMeta({user: 'SomeOtherUser'}), validSession)).to.be.true;
+            await emby.destroy();
+        });
+
+        it('Should allow/disallow activity based on devices', async function () {
+            const allow = createEmby({...defaultEmbyCreds, devicesAllow: ['WebPlayer']});
+            await allow.buildInitData();
+            expect(allow.isActivityValid(validPlayerState, validSession)).to.not.be.true;
+            expect(allow.isActivityValid(playWithMeta({deviceId: 'WebPlayer'}), validSession)).to.be.true;
+            await allow.destroy();
+
+            const block = createEmby({...defaultEmbyCreds, devicesBlock: ['WebPlayer']});
+            await block.buildInitData();
+            expect(block.isActivityValid(validPlayerState, validSession)).to.be.true;
+            expect(block.isActivityValid(playWithMeta({deviceId: 'WebPlayer'}), validSession)).to.not.be.true;
+            await block.destroy();
+        });
+
+        it('Should allow activity based on libraries allow', async function () {
+            const emby = createEmby({...defaultEmbyCreds, librariesAllow: ['music']});
+            await emby.buildInitData();
+
+            expect(emby.isActivityValid(validPlayerState, validSession)).to.be.true;
+            expect(emby.isActivityValid(validPlayerState, nowPlayingSession({Path: '/data/someOtherFolder/myMusic.mp3'}))).to.not.be.true;
+            await emby.destroy();
+        });
+
+        it('Should disallow activity based on libraries block', async function () {
+            const emby = createEmby({...defaultEmbyCreds, librariesBlock: ['music']});
+            await emby.buildInitData();
+            emby.libraries.push({name: 'CoolMusic', paths: ['/data/someOtherFolder'], collectionType: 'music'});
+
+            expect(emby.isActivityValid(validPlayerState, validSession)).to.not.be.true;
+            expect(emby.isActivityValid(validPlayerState, nowPlayingSession({Path: '/data/someOtherFolder/myMusic.mp3'}))).to.be.true;
+            await emby.destroy();
+        });
+
+        it('Should disallow activity with invalid library type unless additionally allowed', async function () {
+            const emby = createEmby({...defaultEmbyCreds});
+            await emby.buildInitData();
+            emby.libraries.push({name: 'CoolVideos', paths: ['/data/someOtherFolder'], collectionType: 'musicvideos'});
+            expect(emby.isActivityValid(validPlayerState, nowPlayingSession({Path: '/data/someOtherFolder/myMusic.mp3'}))).to.not.be.true;
+            await emby.destroy();
+
+            const additional = createEmby({...defaultEmbyCreds, additionalAllowedLibraryTypes: ['musicvideos']});
+            await additional.buildInitData();
+            additional.libraries.push({name: 'CoolVideos', paths: ['/data/someOtherFolder'], collectionType: 'musicvideos'});
+            expect(additional.isActivityValid(validPlayerState, nowPlayingSession({Path: '/data/someOtherFolder/myMusic.mp3'}))).to.be.true;
+            await additional.destroy();
+        });
+
+        it('Should disallow media that is not a valid Type or MediaType', async function () {
+            const emby = createEmby({...defaultEmbyCreds});
+            await emby.buildInitData();
+
+            expect(emby.isActivityValid(validPlayerState, nowPlayingSession({Type: 'Book'}))).to.not.be.true;
+            expect(emby.isActivityValid(playWithMeta({mediaType: 'Video'}), validSession)).to.not.be.true;
+            await emby.destroy();
+        });
+
+        it('Should disallow NowPlayingItem that is a theme song (ExtraType)', async function () {
+            const emby = createEmby({...defaultEmbyCreds});
+            await emby.buildInitData();
+
+            expect(emby.isActivityValid(validPlayerState, nowPlayingSession({ExtraType: 'ThemeSong'}))).to.not.be.true;
+            await emby.destroy();
+        });
+    });
+});
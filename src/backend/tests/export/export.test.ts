@@ -0,0 +1,132 @@
+import { loggerTest } from "@foxxmd/logging";
+import chai, { expect } from 'chai';
+import asPromised from 'chai-as-promised';
+import dayjs from "dayjs";
+import { promises } from "fs";
+import { after, before, describe, it } from 'mocha';
+import os from "os";
+import path from "path";
+import {
+    ExportBackups,
+    getExportPlays,
+    parseExportFormat,
+    playsToLastfmCsv,
+    playsToListenbrainz,
+    playsToMaloja,
+    playsToScrobblerLog
+} from "../../common/Export.js";
+import { MSHistory } from "../../common/History.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+
+chai.use(asPromised);
+
+const playDate = dayjs.unix(1700000000);
+
+describe('#Export', function () {
+
+    describe('Formats', function () {
+
+        const play = generatePlay({track: 'My Song', artists: ['Foo', 'Bar'], album: 'Cool, "Album"', duration: 180.4, playDate});
+
+        it('Parses format', function () {
+            expect(parseExportFormat(undefined)).eq('listenbrainz');
+            expect(parseExportFormat('Maloja')).eq('maloja');
+            expect(() => parseExportFormat('nope')).to.throw();
+        });
+
+        it('Writes ListenBrainz listens as JSON lines', function () {
+            const lines = playsToListenbrainz([play, generatePlay()]).trim().split('\n');
+            expect(lines).length(2);
+            const listen = JSON.parse(lines[0]);
+            expect(listen.listened_at).eq(1700000000);
+            expect(listen.track_metadata.track_name).eq('My Song');
+            expect(listen.track_metadata.release_name).eq('Cool, "Album"');
+        });
+
+        it('Writes Last.fm CSV with escaped fields', function () {
+            const lines = playsToLastfmCsv([play]).trim().split('\n');
+            expect(lines[0]).eq('artist,album,track,timestamp');
+            expect(lines[1]).eq('Foo,"Cool, ""Album""",My Song,1700000000');
+        });
+
+        it('Writes Maloja backup format', function () {
+            const data = JSON.parse(playsToMaloja([play, generatePlay({album: undefined})]));
+            expect(data.scrobbles).length(2);
+            expect(data.scrobbles[0].time).eq(1700000000);
+            expect(data.scrobbles[0].track.title).eq('My Song');
+            expect(data.scrobbles[0].track.artists).to.eql(['Foo', 'Bar']);
+            expect(data.scrobbles[0].track.album.albumtitle).eq('Cool, "Album"');
+            expect(data.scrobbles[1].track.album).is.null;
+        });
+
+        it('Writes Audioscrobbler log', function () {
+            const lines = playsToScrobblerLog([play], {version: '1.0.0'}).split('\n');
+            expect(lines.slice(0, 3)).to.eql(['#AUDIOSCROBBLER/1.1', '#TZ/UTC', '#CLIENT/multi-scrobbler 1.0.0']);
+            expect(lines[3].split('\t')).to.eql(['Foo', 'Cool, "Album"', 'My Song', '', '180', 'L', '1700000000', '']);
+        });
+    });
+
+    describe('Plays', function () {
+
+        const client = {type: 'listenbrainz', name: 'myLz', identifier: 'Listenbrainz - myLz'};
+
+        it('Gets all plays from History oldest first', async function () {
+            const history = new MSHistory(loggerTest, {enable: true, connection: ':memory:'});
+            await history.init();
+            const now = dayjs();
+            for(let i = 0; i < 1005; i++) {
+                history.addScrobbleResult(client, generatePlay({playDate: now.subtract(i, 'minute')}), {status: 'scrobbled'});
+            }
+            history.addScrobbleResult(client, generatePlay({playDate: now.subtract(2, 'day')}), {status: 'failed'});
+
+            const plays = getExportPlays(history, {kind: 'scrobble', status: ['scrobbled'], componentType: 'listenbrainz', componentName: 'myLz'}, () => []);
+            expect(plays).length(1005);
+            expect(plays[0].data.playDate.isBefore(plays[1004].data.playDate)).is.true;
+            history.close();
+        });
+
+        it('Falls back to in-memory plays when History is not enabled', function () {
+            const history = new MSHistory(loggerTest, {enable: false});
+            const plays = [generatePlay({playDate: dayjs()}), generatePlay({playDate: dayjs().subtract(2, 'day')})];
+
+            const res = getExportPlays(history, {kind: 'scrobble', from: dayjs().subtract(1, 'day')}, () => plays);
+            expect(res).length(1);
+        });
+    });
+
+    describe('Backups', function () {
+
+        let dir: string;
+
+        before(async function () {
+            dir = await promises.mkdtemp(path.join(os.tmpdir(), 'ms-export-'));
+        });
+
+        after(async function () {
+            await promises.rm(dir, {recursive: true, force: true});
+        });
+
+        it('Writes files for each format and removes old exports', async function () {
+            const exporter = new ExportBackups({dir, formats: ['listenbrainz', 'lastfm'], retain: 2}, loggerTest);
+            // older exports from previous runs
+            await promises.writeFile(path.join(dir, 'client-test-myClient-20200101000000.jsonl'), '');
+            await promises.writeFile(path.join(dir, 'client-test-myClient-20200102000000.jsonl'), '');
+            await promises.writeFile(path.join(dir, 'client-test-myClient_2-20200101000000.jsonl'), '');
+
+            const written = await exporter.write([{type: 'test', name: 'myClient', plays: [generatePlay(), generatePlay()]}]);
+            expect(written).length(2);
+            expect((await promises.readFile(written[0], 'utf8')).trim().split('\n')).length(2);
+
+            const files = (await promises.readdir(dir)).sort();
+            expect(files.filter(x => x.startsWith('client-test-myClient-') && x.endsWith('.jsonl'))).length(2);
+            expect(files).to.include('client-test-myClient-20200102000000.jsonl');
+            expect(files).to.include('client-test-myClient_2-20200101000000.jsonl');
+            expect(files.filter(x => x.endsWith('.csv'))).length(1);
+        });
+
+        it('Rejects invalid config', function () {
+            expect(() => new ExportBackups({formats: ['nope' as any]}, loggerTest)).to.throw();
+            expect(() => new ExportBackups({interval: 0}, loggerTest)).to.throw();
+        });
+    });
+});
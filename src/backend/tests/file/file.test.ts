@@ -0,0 +1,170 @@
+import { loggerTest } from "@foxxmd/logging";
+import chai, { expect } from 'chai';
+import asPromised from 'chai-as-promised';
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { promises, utimesSync } from "fs";
+import { after, before, describe, it } from 'mocha';
+import os from "os";
+import path from "path";
+import pEvent from "p-event";
+import { PlayObject } from "../../../core/Atomic.js";
+import FileSource from "../../sources/FileSource.js";
+import {
+    getScrobbleFileFormat,
+    parseLastfmCsv,
+    parseListenbrainzExport,
+    parseScrobbleFile,
+    parseScrobblerLog
+} from "../../utils/ScrobbleFileUtils.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+
+chai.use(asPromised);
+
+const scrobblerLog = [
+    '#AUDIOSCROBBLER/1.1',
+    '#TZ/UTC',
+    '#CLIENT/Rockbox sansaclipplus $Revision$',
+    'Foo\tCool Album\tMy Song\t3\t180\tL\t1700000000\tb1a9c0e9-d987-4042-ae91-78d6a3267d69',
+    'Foo\tCool Album\tSkipped Song\t4\t200\tS\t1700000200\t',
+    'Bar\t\tAnother Song\t\t210\tL\t1700000400\t',
+].join('\n');
+
+describe('#FileSource', function () {
+
+    describe('Parsing', function () {
+
+        it('Detects format from file name', function () {
+            expect(getScrobbleFileFormat('.scrobbler.log')).eq('scrobblerlog');
+            expect(getScrobbleFileFormat('ipod.scrobbler.log')).eq('scrobblerlog');
+            expect(getScrobbleFileFormat('export.CSV')).eq('lastfm');
+            expect(getScrobbleFileFormat('listens.jsonl')).eq('listenbrainz');
+            expect(getScrobbleFileFormat('client-myFile-2024-01-01.plays.jsonl')).eq('plays');
+            expect(getScrobbleFileFormat('notes.txt')).is.undefined;
+        });
+
+        it('Parses scrobbler.log and skips skipped tracks', function () {
+            const plays = parseScrobblerLog(scrobblerLog);
+            expect(plays).length(2);
+            expect(plays[0].data.track).eq('My Song');
+            expect(plays[0].data.artists).to.eql(['Foo']);
+            expect(plays[0].data.album).eq('Cool Album');
+            expect(plays[0].data.duration).eq(180);
+            expect(plays[0].data.playDate.unix()).eq(1700000000);
+            expect(plays[0].data.meta.brainz.recording).eq('b1a9c0e9-d987-4042-ae91-78d6a3267d69');
+            expect(plays[1].data.album).is.undefined;
+        });
+
+        it('Parses Last.fm CSV with and without header', function () {
+            const withHeader = parseLastfmCsv('artist,album,track,timestamp\nFoo,"Cool, ""Album""",My Song,1700000000\n');
+            expect(withHeader).length(1);
+            expect(withHeader[0].data.album).eq('Cool, "Album"');
+            expect(withHeader[0].data.playDate.unix()).eq(1700000000);
+
+            const noHeader = parseLastfmCsv('Foo,Cool Album,My Song,14 Nov 2023 22:13\n');
+            expect(noHeader).length(1);
+            expect(noHeader[0].data.playDate.unix()).eq(1700000000 - 20);
+
+            expect(() => parseLastfmCsv('Foo,Cool Album,My Song,not a date')).to.throw();
+        });
+
+        it('Parses ListenBrainz JSON lines and arrays', function () {
+            const listen = {listened_at: 1700000000, track_metadata: {artist_name: 'Foo', track_name: 'My Song', release_name: 'Cool Album'}};
+            const lines = parseListenbrainzExport(`${JSON.stringify(listen)}\n${JSON.stringify({...listen, listened_at: 1700000400})}\n`);
+            expect(lines).length(2);
+            expect(lines[0].data.track).eq('My Song');
+            expect(lines[0].data.playDate.unix()).eq(1700000000);
+
+            const arr = parseListenbrainzExport(JSON.stringify([listen], null, 2));
+            expect(arr).length(1);
+
+            expect(() => parseListenbrainzExport(JSON.stringify({track_metadata: listen.track_metadata}))).to.throw();
+        });
+
+        it('Parses multi-scrobbler Plays JSON lines', function () {
+            const play = generatePlay({track: 'My Song', artists: ['Foo'], playDate: dayjs.unix(1700000000)}, {source: 'Jellyfin'});
+            const plays = parseScrobbleFile(`${JSON.stringify(play)}\n`, 'plays');
+            expect(plays).length(1);
+            expect(plays[0].data.track).eq('My Song');
+            expect(plays[0].data.artists).eql(['Foo']);
+            expect(plays[0].data.playDate.unix()).eq(1700000000);
+            expect(plays[0].meta.source).eq('File');
+            expect(plays[0].meta.lifecycle.steps).length(0);
+
+            expect(() => parseScrobbleFile(JSON.stringify({data: {track: 'My Song'}, meta: {}}), 'plays')).to.throw();
+        });
+    });
+
+    describe('Processing', function () {
+
+        let dir: string;
+
+        before(async function () {
+            dir = await promises.mkdtemp(path.join(os.tmpdir(), 'ms-file-'));
+        });
+
+        after(async function () {
+            await promises.rm(dir, {recursive: true, force: true});
+        });
+
+        const createSource = async () => {
+            const source = new FileSource('test', {data: {path: dir}, options: {settleTime: 1}}, {localUrl: new URL('https://example.com'), configDir: 'fake', logger: loggerTest, version: 'test'}, new EventEmitter());
+            await source.buildInitData();
+            await source.checkConnection();
+            return source;
+        }
+
+        const settle = (filePath: string) => {
+            const past = new Date(Date.now() - 10000);
+            utimesSync(filePath, past, past);
+        }
+
+        it('Discovers plays from files and archives them', async function () {
+            const logPath = path.join(dir, '.scrobbler.log');
+            await promises.writeFile(logPath, scrobblerLog);
+            settle(logPath);
+            await promises.writeFile(path.join(dir, 'notes.txt'), 'not scrobbles');
+
+            const source = await createSource();
+            const pAwaiter = pEvent(source.emitter, 'discoveredToScrobble') as Promise<{data: PlayObject[]}>;
+            const discovered = await source.processFiles();
+            expect(discovered).length(2);
+            expect((await pAwaiter).data).length(2);
+
+            const files = await promises.readdir(dir);
+            expect(files).to.not.include('.scrobbler.log');
+            expect(files).to.include('notes.txt');
+            const archived = await promises.readdir(path.join(dir, 'archive'));
+            expect(archived.some(x => x.endsWith('-.scrobbler.log'))).is.true;
+        });
+
+        it('Does not process files that are still being written', async function () {
+            const csvPath = path.join(dir, 'recent.csv');
+            await promises.writeFile(csvPath, 'Foo,Cool Album,My Song,1700000000\n');
+
+            const source = await createSource();
+            expect(await source.processFiles()).length(0);
+            expect(await promises.readdir(dir)).to.include('recent.csv');
+
+            settle(csvPath);
+            expect(await source.processFiles()).length(1);
+        });
+
+        it('Does not retry invalid files until they are modified', async function () {
+            const badPath = path.join(dir, 'bad.csv');
+            await promises.writeFile(badPath, 'Foo,Cool Album,My Song,not a date\n');
+            settle(badPath);
+
+            const source = await createSource();
+            expect(await source.processFiles()).length(0);
+            expect(await promises.readdir(dir)).to.include('bad.csv');
+
+            await promises.writeFile(badPath, 'Foo,Cool Album,My Song,1700000000\n');
+            // settled but with a different modified time than the failed file
+            const later = new Date(Date.now() - 5000);
+            utimesSync(badPath, later, later);
+            expect(await source.processFiles()).length(1);
+            expect(await promises.readdir(dir)).to.not.include('bad.csv');
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import { loggerTest } from "@foxxmd/logging";
+import { expect } from 'chai';
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { promises } from "fs";
+import { after, before, describe, it } from 'mocha';
+import os from "os";
+import path from "path";
+import { FileClientData } from "../../common/infrastructure/config/client/file.js";
+import { Notifiers } from "../../notifier/Notifiers.js";
+import FileScrobbler, { playToFileLine } from "../../scrobblers/FileScrobbler.js";
+import { parseClientFile } from "../../utils/ScrobbleFileUtils.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+
+describe('#FileClient', function () {
+
+    let dir: string;
+
+    before(async function () {
+        dir = await promises.mkdtemp(path.join(os.tmpdir(), 'ms-file-client-'));
+    });
+
+    after(async function () {
+        await promises.rm(dir, {recursive: true, force: true});
+    });
+
+    const createClient = async (data: Partial<FileClientData> = {}) => {
+        const clientDir = await promises.mkdtemp(path.join(dir, 'client-'));
+        const client = new FileScrobbler('test', {name: 'test', data: {path: clientDir, ...data}}, {localUrl: new URL('https://example.com'), configDir: 'fake', logger: loggerTest, version: 'test'}, new Notifiers(new EventEmitter(), new EventEmitter(), new EventEmitter(), loggerTest), new EventEmitter(), loggerTest);
+        await client.buildInitData();
+        await client.checkConnection();
+        return client;
+    }
+
+    it('Serializes plays in each format and parses them back', function () {
+        const play = generatePlay({playDate: dayjs.unix(1700000000), duration: 180});
+        for (const format of ['jsonl', 'listenbrainz', 'scrobblerlog'] as const) {
+            const [parsed] = parseClientFile(playToFileLine(play, format), format);
+            expect(parsed.data.track).eq(play.data.track);
+            expect(parsed.data.playDate.unix()).eq(1700000000);
+        }
+        expect(playToFileLine(play, 'jsonl')).to.not.include('lifecycle');
+    });
+
+    it('Appends scrobbles to a daily file', async function () {
+        const client = await createClient();
+        const plays = [1700000000, 1700000300].map(x => generatePlay({playDate: dayjs.unix(x)}));
+        for (const play of plays) {
+            await client.doScrobble(play);
+        }
+        const files = await promises.readdir(client.dirPath);
+        expect(files).to.eql([`scrobbles-${dayjs().format('YYYY-MM-DD')}.plays.jsonl`]);
+        const content = await promises.readFile(path.join(client.dirPath, files[0]), 'utf8');
+        expect(content.trim().split('\n')).length(2);
+    });
+
+    it('Writes scrobbler.log header only once', async function () {
+        const client = await createClient({format: 'scrobblerlog', rotate: 'none'});
+        await client.doScrobble(generatePlay());
+        await client.doScrobble(generatePlay());
+        const content = await promises.readFile(path.join(client.dirPath, 'scrobbles.scrobbler.log'), 'utf8');
+        const lines = content.trim().split('\n');
+        expect(lines.filter(x => x.startsWith('#AUDIOSCROBBLER'))).length(1);
+        expect(lines.filter(x => !x.startsWith('#'))).length(2);
+    });
+
+    it('Rotates files by size', async function () {
+        const client = await createClient({rotate: 'none', maxSize: 0.0001});
+        await client.doScrobble(generatePlay());
+        await client.doScrobble(generatePlay());
+        const files = await promises.readdir(client.dirPath);
+        expect(files.sort()).to.eql(['scrobbles-1.plays.jsonl', 'scrobbles.plays.jsonl']);
+    });
+
+    it('Reads scrobbles back for existing scrobble detection', async function () {
+        const client = await createClient({format: 'listenbrainz'});
+        const plays = [1700000000, 1700000300, 1700000600].map(x => generatePlay({playDate: dayjs.unix(x)}));
+        for (const play of plays) {
+            await client.doScrobble(play);
+        }
+
+        const ranged = await client.getScrobblesForTimeRange({from: 1700000200, to: 1700000700});
+        expect(ranged.map(x => x.data.playDate.unix())).to.eql([1700000600, 1700000300]);
+        expect((await client.getScrobblesForTimeRange({limit: 1})).map(x => x.data.playDate.unix())).to.eql([1700000600]);
+
+        const existing = await client.getScrobblesForTimeRange({from: 1699999000, to: 1700001000});
+        expect((await client.existingScrobble(plays[1], existing)).match).is.true;
+        expect((await client.existingScrobble(generatePlay({playDate: dayjs.unix(1700000300)}), existing)).match).is.false;
+    });
+});
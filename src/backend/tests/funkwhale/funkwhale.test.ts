@@ -0,0 +1,146 @@
+import { loggerTest } from "@foxxmd/logging";
+import { expect } from 'chai';
+import dayjs from "dayjs";
+import { describe, it } from 'mocha';
+import { http, HttpResponse } from "msw";
+import { withRequestInterception } from "../utils/networking.js";
+import { FunkwhaleTrackResponse, ListeningResponse } from "../../common/infrastructure/config/client/funkwhale.js";
+import { FunkwhaleApiClient, findTrackForPlay, listeningResponseToPlay } from "../../common/vendor/funkwhale/FunkwhaleApiClient.js";
+import { ScrobbleSubmitError } from "../../common/errors/MSErrors.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+
+const TEST_URL = 'http://funkwhale.test';
+const LISTENINGS_URL = `${TEST_URL}/api/v1/history/listenings/`;
+
+const createClient = () => new FunkwhaleApiClient('Test', {url: TEST_URL, token: 'myToken', maxRequestRetries: 0}, {logger: loggerTest});
+
+const generateTrack = (id: number, data: Partial<FunkwhaleTrackResponse> = {}): FunkwhaleTrackResponse => ({
+    id,
+    title: `Track ${id}`,
+    artist_credit: [{artist: {id: 1, name: 'Test Artist'}, credit: 'Test Artist', joinphrase: ''}],
+    album: {id: 1, title: 'Test Album', artist_credit: [{artist: {id: 1, name: 'Test Artist'}, credit: 'Test Artist', joinphrase: ''}]},
+    uploads: [{uuid: 'abc', duration: 200}],
+    ...data
+});
+
+const generateListening = (id: number, date: string): ListeningResponse => ({
+    id,
+    track: generateTrack(id),
+    creation_date: date
+});
+
+describe('Funkwhale Play Parsing', function () {
+
+    it('converts a listening to a play', function () {
+        const play = listeningResponseToPlay(generateListening(5, '2024-10-15T13:00:00.000Z'), {url: new URL(TEST_URL)});
+        expect(play.data.track).to.eq('Track 5');
+        expect(play.data.artists).to.eql(['Test Artist']);
+        expect(play.data.albumArtists).to.be.undefined;
+        expect(play.data.album).to.eq('Test Album');
+        expect(play.data.duration).to.eq(200);
+        expect(play.data.playDate.unix()).to.eq(dayjs('2024-10-15T13:00:00.000Z').unix());
+        expect(play.meta.trackId).to.eq('5');
+        expect(play.meta.url.web).to.eq(`${TEST_URL}/library/tracks/5`);
+    });
+
+    it('uses artist from older Funkwhale versions', function () {
+        const listening = generateListening(1, '2024-10-15T13:00:00.000Z');
+        listening.track = {...generateTrack(1, {artist: {id: 2, name: 'Old Artist'}, mbid: '1234'}), artist_credit: undefined};
+        const play = listeningResponseToPlay(listening);
+        expect(play.data.artists).to.eql(['Old Artist']);
+        expect(play.data.albumArtists).to.eql(['Test Artist']);
+        expect(play.data.meta.brainz.recording).to.eq('1234');
+    });
+});
+
+describe('Funkwhale Track Matching', function () {
+
+    it('matches track by title and artist, preferring album', function () {
+        const play = generatePlay({track: 'My Track', artists: ['Test Artist'], album: 'Test Album'});
+        const tracks = [
+            generateTrack(1, {title: 'My Track', artist_credit: [{artist: {id: 3, name: 'Other Artist'}, credit: 'Other Artist', joinphrase: ''}]}),
+            generateTrack(2, {title: 'My Track', album: {id: 2, title: 'Compilation'}}),
+            generateTrack(3, {title: 'My Track'}),
+        ];
+        expect(findTrackForPlay(play, tracks).id).to.eq(3);
+        expect(findTrackForPlay(play, tracks.slice(0, 2)).id).to.eq(2);
+        expect(findTrackForPlay(play, tracks.slice(0, 1))).to.be.undefined;
+    });
+
+    it('prefers track with matching MBID', function () {
+        const play = generatePlay({track: 'My Track', artists: ['Test Artist'], meta: {brainz: {recording: 'abcd'}}});
+        const tracks = [
+            generateTrack(1, {title: 'My Track'}),
+            generateTrack(2, {title: 'Different Title', mbid: 'abcd'}),
+        ];
+        expect(findTrackForPlay(play, tracks).id).to.eq(2);
+    });
+});
+
+describe('Funkwhale API', function () {
+
+    it('filters listenings by time range across pages', withRequestInterception(
+        [
+            http.get(LISTENINGS_URL, ({request}) => {
+                const page = new URL(request.url).searchParams.get('page');
+                if(page === '1') {
+                    return HttpResponse.json({count: 4, next: `${LISTENINGS_URL}?page=2`, previous: null, results: [
+                        generateListening(4, '2024-10-15T16:00:00.000Z'),
+                        generateListening(3, '2024-10-15T15:00:00.000Z'),
+                    ]});
+                }
+                return HttpResponse.json({count: 4, next: null, previous: `${LISTENINGS_URL}?page=1`, results: [
+                    generateListening(2, '2024-10-15T14:00:00.000Z'),
+                    generateListening(1, '2024-10-15T13:00:00.000Z'),
+                ]});
+            })
+        ],
+        async function () {
+            const client = createClient();
+            const res = await client.getPaginatedTimeRangeListens({
+                cursor: 1,
+                limit: 2,
+                from: dayjs('2024-10-15T13:30:00.000Z').unix(),
+                to: dayjs('2024-10-15T14:30:00.000Z').unix()
+            });
+            expect(res.data.map(x => x.meta.playId)).to.eql(['2']);
+            expect(res.meta.cursor).to.eq(2);
+            expect(res.meta.more).to.be.false;
+        }
+    ));
+
+    it('submits listening for matched track', withRequestInterception(
+        [
+            http.get(`${TEST_URL}/api/v1/tracks/`, () => HttpResponse.json({count: 1, next: null, previous: null, results: [generateTrack(10, {title: 'My Track'})]})),
+            http.post(LISTENINGS_URL, async ({request}) => {
+                expect(request.headers.get('Authorization')).to.eq('Bearer myToken');
+                const body = await request.json() as Record<string, any>;
+                return HttpResponse.json({id: 1, ...body}, {status: 201});
+            })
+        ],
+        async function () {
+            const client = createClient();
+            const play = generatePlay({track: 'My Track', artists: ['Test Artist']});
+            const res = await client.submitListen(play);
+            expect((res.payload as Record<string, any>).track).to.eq(10);
+        }
+    ));
+
+    it('fails submit when no track matches', withRequestInterception(
+        [
+            http.get(`${TEST_URL}/api/v1/tracks/`, () => HttpResponse.json({count: 0, next: null, previous: null, results: []})),
+        ],
+        async function () {
+            const client = createClient();
+            try {
+                await client.submitListen(generatePlay({track: 'My Track', artists: ['Test Artist']}));
+                expect.fail('Should have thrown');
+            } catch (e) {
+                expect(e).to.be.instanceof(ScrobbleSubmitError);
+                expect(e.showStopper).to.be.false;
+                expect(e.payload.track).to.be.undefined;
+                expect(e.payload.creation_date).to.not.be.undefined;
+            }
+        }
+    ));
+});
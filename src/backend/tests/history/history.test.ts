@@ -0,0 +1,180 @@
+import { loggerTest } from "@foxxmd/logging";
+import chai, { expect } from 'chai';
+import asPromised from 'chai-as-promised';
+import dayjs from "dayjs";
+import { after, afterEach, beforeEach, describe, it } from 'mocha';
+import pEvent from 'p-event';
+import { MSHistory, queryPlays } from "../../common/History.js";
+import { getRoot } from "../../ioc.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+import { TestScrobbler } from "../scrobbler/TestScrobbler.js";
+import { sleep } from "../../utils.js";
+
+chai.use(asPromised);
+
+const source = {type: 'spotify', name: 'mySpotify', identifier: 'Spotify - mySpotify'};
+const client = {type: 'listenbrainz', name: 'myLz', identifier: 'Listenbrainz - myLz'};
+
+const memoryHistory = async () => {
+    const history = new MSHistory(loggerTest, {enable: true, connection: ':memory:'});
+    await history.init();
+    return history;
+}
+
+describe('#History', function () {
+
+    let history: MSHistory;
+
+    beforeEach(async function () {
+        history = await memoryHistory();
+    });
+
+    afterEach(function () {
+        history.close();
+    });
+
+    it('Does not record anything before init', function () {
+        const uninit = new MSHistory(loggerTest, {enable: true, connection: ':memory:'});
+        uninit.addDiscovered(source, generatePlay());
+        expect(uninit.isReady()).is.false;
+        expect(uninit.query({kind: 'discovered'}).total).eq(0);
+    });
+
+    it('Records discovered plays with source and rehydrates play dates', function () {
+        const play = generatePlay();
+        history.addDiscovered(source, play);
+
+        const res = history.query({kind: 'discovered', componentType: 'spotify', componentName: 'mySpotify'});
+        expect(res.total).eq(1);
+        expect(res.data[0].source).eq(source.identifier);
+        expect(res.data[0].play.data.track).eq(play.data.track);
+        expect(dayjs.isDayjs(res.data[0].play.data.playDate)).is.true;
+        expect(res.data[0].play.data.playDate.unix()).eq(play.data.playDate.unix());
+
+        expect(history.query({kind: 'scrobble'}).total).eq(0);
+        expect(history.query({kind: 'discovered', componentName: 'other'}).total).eq(0);
+    });
+
+    it('Records scrobble results with status, error, and lifecycle', function () {
+        const scrobbled = generatePlay();
+        const failed = generatePlay();
+        const dup = generatePlay();
+        dup.meta.lifecycle.scrobble = {match: {match: true, score: 1, breakdowns: [], reason: 'exact match'}};
+
+        history.addScrobbleResult(client, scrobbled, {status: 'scrobbled', source: source.identifier});
+        history.addScrobbleResult(client, failed, {status: 'failed', source: source.identifier, error: 'Service unavailable'});
+        history.addScrobbleResult(client, dup, {status: 'duplicate', source: source.identifier});
+
+        expect(history.query({kind: 'scrobble'}).total).eq(3);
+
+        const failedRes = history.query({kind: 'scrobble', status: ['failed']});
+        expect(failedRes.total).eq(1);
+        expect(failedRes.data[0].error).eq('Service unavailable');
+        expect(failedRes.data[0].client).eq(client.identifier);
+        expect(failedRes.data[0].source).eq(source.identifier);
+
+        const dupRes = history.query({kind: 'scrobble', status: ['duplicate', 'scrobbled']});
+        expect(dupRes.total).eq(2);
+        expect(dupRes.data.find(x => x.status === 'duplicate').play.meta.lifecycle.scrobble.match.reason).eq('exact match');
+    });
+
+    it('Records plays with a self-referencing lifecycle', function () {
+        const play = generatePlay();
+        play.meta.lifecycle = {steps: [], original: play};
+        history.addScrobbleResult(client, play, {status: 'scrobbled'});
+        expect(history.query({kind: 'scrobble'}).total).eq(1);
+    });
+
+    it('Filters by date range', function () {
+        const now = dayjs();
+        history.addDiscovered(source, generatePlay({playDate: now.subtract(3, 'day')}));
+        history.addDiscovered(source, generatePlay({playDate: now.subtract(2, 'day')}));
+        history.addDiscovered(source, generatePlay({playDate: now.subtract(1, 'hour')}));
+
+        expect(history.query({kind: 'discovered', from: now.subtract(2, 'day').subtract(1, 'minute')}).total).eq(2);
+        expect(history.query({kind: 'discovered', to: now.subtract(1, 'day')}).total).eq(2);
+        expect(history.query({kind: 'discovered', from: now.subtract(2, 'day').subtract(1, 'minute'), to: now.subtract(1, 'day')}).total).eq(1);
+    });
+
+    it('Filters by text search on track, artists, and album', function () {
+        history.addDiscovered(source, generatePlay({track: 'My Cool Song', artists: ['Foo'], album: 'Something'}));
+        history.addDiscovered(source, generatePlay({track: 'Another', artists: ['Bar', 'Cool Band'], album: 'Something'}));
+        history.addDiscovered(source, generatePlay({track: 'Third', artists: ['Baz'], album: 'Cooler Album'}));
+        history.addDiscovered(source, generatePlay({track: '100% Pure', artists: ['Baz'], album: 'Nope'}));
+
+        expect(history.query({kind: 'discovered', search: 'cool'}).total).eq(3);
+        expect(history.query({kind: 'discovered', search: 'cool band'}).total).eq(1);
+        expect(history.query({kind: 'discovered', search: '100%'}).total).eq(1);
+        expect(history.query({kind: 'discovered', search: '%'}).total).eq(1);
+    });
+
+    it('Pages results newest first', function () {
+        const now = dayjs();
+        // distinct play dates so newest-first order is deterministic
+        const plays = Array.from(Array(25), (_, i) => generatePlay({playDate: now.subtract(i, 'minute')}));
+        for(const play of plays) {
+            history.addDiscovered(source, play);
+        }
+        const newest = [...plays].sort((a, b) => b.data.playDate.valueOf() - a.data.playDate.valueOf());
+
+        const page1 = history.query({kind: 'discovered', limit: 10});
+        expect(page1.total).eq(25);
+        expect(page1.data.length).eq(10);
+        expect(page1.data[0].play.data.track).eq(newest[0].data.track);
+
+        const page3 = history.query({kind: 'discovered', limit: 10, page: 3});
+        expect(page3.data.length).eq(5);
+        expect(page3.data[4].play.data.track).eq(newest[24].data.track);
+    });
+
+    describe('In-memory fallback', function () {
+
+        it('Filters, searches, and pages plays', function () {
+            const now = dayjs();
+            const plays = [
+                generatePlay({track: 'My Cool Song', playDate: now.subtract(1, 'hour')}),
+                generatePlay({track: 'Not it', artists: ['Cool Band'], playDate: now.subtract(2, 'hour')}),
+                generatePlay({track: 'Other', artists: ['Foo'], album: 'Bar', playDate: now.subtract(3, 'hour')}),
+            ];
+            expect(queryPlays(plays, {search: 'cool'})[1]).eq(2);
+            expect(queryPlays(plays, {from: now.subtract(150, 'minute')})[1]).eq(2);
+            const [paged, total] = queryPlays(plays, {limit: 2, page: 2});
+            expect(total).eq(3);
+            expect(paged.length).eq(1);
+            expect(paged[0].data.track).eq('Other');
+        });
+    });
+
+    describe('Client recording', function () {
+
+        const root = getRoot();
+        const originalHistory = root.items.history;
+
+        after(function () {
+            root.upsert({history: () => originalHistory});
+        });
+
+        it('Records successful scrobbles from Client processing', async function () {
+            this.timeout(5000);
+            root.upsert({history: () => history});
+
+            const scrobbler = new TestScrobbler();
+            await scrobbler.initialize();
+            scrobbler.scrobbleSleep = 50;
+            scrobbler.scrobbleDelay = 0;
+
+            const play = generatePlay();
+            await scrobbler.queueScrobble(play, 'testSource');
+            scrobbler.initScrobbleMonitoring().catch(console.error);
+            await Promise.race([pEvent(scrobbler.emitter, 'scrobble'), sleep(3000)]);
+            await scrobbler.tryStopScrobbling();
+
+            const res = history.query({kind: 'scrobble', componentType: 'test', componentName: 'Test'});
+            expect(res.total).eq(1);
+            expect(res.data[0].status).eq('scrobbled');
+            expect(res.data[0].source).eq('testSource');
+            expect(res.data[0].play.data.track).eq(play.data.track);
+            expect(res.data[0].play.meta.lifecycle.scrobble.match.match).is.false;
+        });
+    });
+});
@@ -0,0 +1,166 @@
+import { loggerTest } from "@foxxmd/logging";
+import { expect } from 'chai';
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { describe, it } from 'mocha';
+import { HassState, HomeAssistantData } from "../../common/infrastructure/config/source/homeassistant.js";
+import { getCurrentPosition, HomeAssistantSource, stateToPlayerState } from "../../sources/HomeAssistantSource.js";
+import { REPORTED_PLAYER_STATUSES } from "../../common/infrastructure/Atomic.js";
+
+const createSource = async (data: Partial<HomeAssistantData> = {}): Promise<HomeAssistantSource> => {
+    const source = new HomeAssistantSource('Test', {
+        data: {url: '192.168.0.100', token: '1234', ...data},
+        options: {}
+    }, { localUrl: new URL('http://test'), configDir: 'test', logger: loggerTest, version: 'test' }, new EventEmitter());
+    await source.buildInitData();
+    return source;
+}
+
+const now = dayjs('2024-10-15T13:00:30.000Z');
+
+const playingState = (data: Partial<HassState> = {}, attributes: HassState['attributes'] = {}): HassState => ({
+    entity_id: 'media_player.living_room',
+    state: 'playing',
+    ...data,
+    attributes: {
+        friendly_name: 'Living Room',
+        media_title: 'Cool Track',
+        media_artist: 'Test Artist',
+        media_album_name: 'Test Album',
+        media_album_artist: 'Test Album Artist',
+        media_content_type: 'music',
+        media_duration: 180,
+        media_position: 10,
+        media_position_updated_at: '2024-10-15T13:00:00.000Z',
+        ...attributes
+    }
+});
+
+describe('Home Assistant Config', function () {
+
+    it('uses default port and websocket path', async function () {
+        const source = await createSource();
+        expect(source.url.url.toString()).to.eq('ws://192.168.0.100:8123/api/websocket');
+    });
+
+    it('does not use default port for https', async function () {
+        const source = await createSource({url: 'https://hass.example.com'});
+        expect(source.url.url.toString()).to.eq('wss://hass.example.com/api/websocket');
+    });
+
+    it('requires a token', async function () {
+        try {
+            await createSource({token: ''});
+            expect.fail('Should have thrown');
+        } catch (e) {
+            expect(e.cause.message).to.include('token');
+        }
+    });
+});
+
+describe('Home Assistant State Parsing', function () {
+
+    it('converts media attributes to a play', function () {
+        const state = stateToPlayerState(playingState(), now);
+        expect(state.status).to.eq(REPORTED_PLAYER_STATUSES.playing);
+        expect(state.platformId[0]).to.eq('media_player.living_room');
+        expect(state.play.data.track).to.eq('Cool Track');
+        expect(state.play.data.artists).to.eql(['Test Artist']);
+        expect(state.play.data.album).to.eq('Test Album');
+        expect(state.play.data.albumArtists).to.eql(['Test Album Artist']);
+        expect(state.play.data.duration).to.eq(180);
+    });
+
+    it('uses media_position_updated_at to determine current position while playing', function () {
+        expect(getCurrentPosition(playingState(), now)).to.eq(40);
+        expect(stateToPlayerState(playingState(), now).position).to.eq(40);
+    });
+
+    it('uses media_position as-is while paused', function () {
+        const state = stateToPlayerState(playingState({state: 'paused'}), now);
+        expect(state.status).to.eq(REPORTED_PLAYER_STATUSES.paused);
+        expect(state.position).to.eq(10);
+    });
+
+    it('reports idle and off entities as stopped without a play', function () {
+        for (const s of ['idle', 'off', 'standby', 'unavailable']) {
+            const state = stateToPlayerState(playingState({state: s}), now);
+            expect(state.status).to.eq(REPORTED_PLAYER_STATUSES.stopped);
+            expect(state.play).to.be.undefined;
+        }
+    });
+
+    it('reports playing entity without media_title as stopped', function () {
+        const state = stateToPlayerState(playingState({}, {media_title: undefined}), now);
+        expect(state.status).to.eq(REPORTED_PLAYER_STATUSES.stopped);
+        expect(state.play).to.be.undefined;
+    });
+});
+
+describe('Home Assistant Filtering', function () {
+
+    it('allows all entities by default', async function () {
+        const source = await createSource();
+        expect(source.isValidState(playingState())).to.be.undefined;
+    });
+
+    it('allows entities using globs', async function () {
+        const source = await createSource({entitiesAllow: ['media_player.kitchen_*', 'media_player.living_room']});
+        expect(source.isValidState(playingState())).to.be.undefined;
+        expect(source.isValidState(playingState({entity_id: 'media_player.kitchen_heos'}))).to.be.undefined;
+        expect(source.isValidState(playingState({entity_id: 'media_player.bedroom'}))).to.not.be.undefined;
+    });
+
+    it('blocks entities using globs', async function () {
+        const source = await createSource({entitiesBlock: 'media_player.*_tv'});
+        expect(source.isValidState(playingState())).to.be.undefined;
+        expect(source.isValidState(playingState({entity_id: 'media_player.LIVING_ROOM_TV'}))).to.not.be.undefined;
+    });
+
+    it('blocks non-music content types by default', async function () {
+        const source = await createSource();
+        expect(source.isValidState(playingState({}, {media_content_type: 'tvshow'}))).to.not.be.undefined;
+        expect(source.isValidState(playingState({}, {media_content_type: undefined}))).to.be.undefined;
+    });
+
+    it('allows configured content types', async function () {
+        const source = await createSource({allowContentTypes: ['music', 'podcast']});
+        expect(source.isValidState(playingState({}, {media_content_type: 'podcast'}))).to.be.undefined;
+    });
+});
+
+describe('Home Assistant Events', function () {
+
+    it('updates entity state from state_changed events', async function () {
+        const source = await createSource();
+        source.handleMessage({
+            type: 'event',
+            id: 2,
+            event: {
+                event_type: 'state_changed',
+                data: {entity_id: 'media_player.living_room', new_state: playingState()}
+            }
+        } as any);
+        expect(source.entities.get('media_player.living_room').attributes.media_title).to.eq('Cool Track');
+
+        source.handleMessage({
+            type: 'event',
+            id: 2,
+            event: {
+                event_type: 'state_changed',
+                data: {entity_id: 'light.kitchen', new_state: {entity_id: 'light.kitchen', state: 'on', attributes: {}}}
+            }
+        } as any);
+        expect(source.entities.has('light.kitchen')).to.be.false;
+
+        source.handleMessage({
+            type: 'event',
+            id: 2,
+            event: {
+                event_type: 'state_changed',
+                data: {entity_id: 'media_player.living_room', new_state: null}
+            }
+        } as any);
+        expect(source.entities.has('media_player.living_room')).to.be.false;
+    });
+});
@@ -0,0 +1,136 @@
+import { loggerTest } from "@foxxmd/logging";
+import { expect } from 'chai';
+import EventEmitter from "events";
+import { describe, it } from 'mocha';
+import { LastFMEndpointData } from "../../common/infrastructure/config/source/endpointlfm.js";
+import { ExpressRequest } from "../../common/infrastructure/Atomic.js";
+import { EndpointLastfmSource, formatLfmError, formatLfmResponse } from "../../sources/EndpointLastfmSource.js";
+import { md5 } from "../../utils/StringUtils.js";
+
+const createSource = (data: LastFMEndpointData = {}): EndpointLastfmSource => new EndpointLastfmSource('Test', {
+    data,
+    options: {}
+}, { localUrl: new URL('http://test'), configDir: 'test', logger: loggerTest, version: 'test' }, new EventEmitter());
+
+const fakeRequest = (body: Record<string, string> = {}, baseUrl = '/2.0/', method = 'POST'): ExpressRequest => ({
+    method,
+    baseUrl,
+    body: method === 'POST' ? body : {},
+    query: method === 'GET' ? body : {},
+} as unknown as ExpressRequest);
+
+describe('Lastfm Endpoint Auth', function () {
+
+    it('accepts any login when no credentials are configured', function () {
+        const source = createSource();
+        expect(source.authenticate({username: 'foxx', password: 'anything'})).to.be.true;
+        expect(source.requiresSession).to.be.false;
+    });
+
+    it('checks configured username and password', function () {
+        const source = createSource({username: 'Foxx', password: 'mypass'});
+        expect(source.requiresSession).to.be.true;
+        expect(source.authenticate({username: 'foxx', password: 'mypass'})).to.be.true;
+        expect(source.authenticate({username: 'foxx', password: 'wrong'})).to.be.false;
+        expect(source.authenticate({username: 'other', password: 'mypass'})).to.be.false;
+    });
+
+    it('accepts legacy authToken login', function () {
+        const source = createSource({username: 'foxx', password: 'mypass'});
+        expect(source.authenticate({username: 'foxx', authToken: md5(`foxx${md5('mypass')}`)})).to.be.true;
+        expect(source.authenticate({username: 'foxx', authToken: md5(`foxx${md5('wrong')}`)})).to.be.false;
+    });
+
+    it('returns configured session key on login', function () {
+        const source = createSource({username: 'foxx', password: 'mypass', sessionKeys: 'key1,key2'});
+        expect(source.authenticate({username: 'foxx', password: 'mypass'})).to.be.true;
+        const session = source.createSession('somethingElse');
+        expect(session.key).to.eq('key1');
+        expect(session.name).to.eq('foxx');
+    });
+
+    it('gives the same session key for password logins after a restart', function () {
+        const source = createSource({username: 'foxx', password: 'mypass'});
+        const session = source.createSession('foxx');
+
+        const restarted = createSource({username: 'foxx', password: 'mypass'});
+        expect(restarted.sessions.has(session.key)).to.be.true;
+        expect(restarted.matchRequest(fakeRequest({method: 'track.scrobble', sk: session.key}))).to.be.true;
+        expect(restarted.createSession('foxx').key).to.eq(session.key);
+
+        expect(createSource({username: 'foxx', password: 'changed'}).sessions.has(session.key)).to.be.false;
+    });
+
+    it('does not give configured session keys to apps that cannot log in (auth.getMobileSession)', function () {
+        const source = createSource({sessionKeys: 'key1'});
+        expect(source.requiresSession).to.be.true;
+        expect(source.authenticate({username: 'foxx', password: 'anything'})).to.be.false;
+        expect(source.authenticate({username: 'foxx', authToken: md5(`foxx${md5('anything')}`)})).to.be.false;
+    });
+
+    it('does not give configured session keys for tokens (auth.getSession)', function () {
+        const source = createSource({sessionKeys: 'key1'});
+        expect(source.sessionFromToken(source.createToken())).to.be.undefined;
+        expect(Array.from(source.sessions.keys())).to.eql(['key1']);
+    });
+
+    it('exchanges tokens for sessions only when no password is required', function () {
+        const source = createSource();
+        const token = source.createToken();
+        const session = source.sessionFromToken(token);
+        expect(session).to.not.be.undefined;
+        expect(source.sessions.has(session.key)).to.be.true;
+        // tokens can only be used once
+        expect(source.sessionFromToken(token)).to.be.undefined;
+
+        const protectedSource = createSource({password: 'mypass'});
+        expect(protectedSource.sessionFromToken(protectedSource.createToken())).to.be.undefined;
+    });
+});
+
+describe('Lastfm Endpoint Request Matching', function () {
+
+    it('matches by slug when no session is required', function () {
+        const source = createSource({slug: 'mySlug'});
+        expect(source.matchRequest(fakeRequest({method: 'track.scrobble'}, '/api/lastfm/mySlug'))).to.be.true;
+        expect(source.matchRequest(fakeRequest({method: 'track.scrobble'}, '/2.0/'))).to.be.false;
+    });
+
+    it('matches by session key regardless of slug', function () {
+        const source = createSource({slug: 'mySlug', sessionKeys: ['key1']});
+        expect(source.matchRequest(fakeRequest({method: 'track.scrobble', sk: 'key1'}, '/2.0/'))).to.be.true;
+    });
+
+    it('does not match without a valid session key when session is required', function () {
+        const source = createSource({password: 'mypass'});
+        expect(source.matchRequest(fakeRequest({method: 'track.scrobble'}))).to.be.false;
+        expect(source.matchRequest(fakeRequest({method: 'track.scrobble', sk: 'bad'}))).to.be.false;
+
+        const {key} = source.createSession('foxx');
+        expect(source.matchRequest(fakeRequest({method: 'track.scrobble', sk: key}))).to.be.true;
+        expect(source.matchRequest(fakeRequest({method: 'user.getInfo', sk: key}, '/2.0/', 'GET'))).to.be.true;
+    });
+});
+
+describe('Lastfm Endpoint Responses', function () {
+
+    it('formats JSON responses', function () {
+        const {type, body} = formatLfmResponse({session: {name: 'foxx', key: 'key1', subscriber: 0}}, 'json');
+        expect(type).to.eq('application/json');
+        expect(JSON.parse(body).session.key).to.eq('key1');
+
+        const err = formatLfmError(4, 'Authentication Failed', 'json');
+        expect(JSON.parse(err.body)).to.eql({error: 4, message: 'Authentication Failed'});
+    });
+
+    it('formats XML responses', function () {
+        const {type, body} = formatLfmResponse({session: {name: 'foxx', key: 'key1', subscriber: 0}});
+        expect(type).to.eq('text/xml');
+        expect(body).to.include('<lfm status="ok">');
+        expect(body).to.include('<key>key1</key>');
+
+        const err = formatLfmError(9, 'Invalid session key');
+        expect(err.body).to.include('<lfm status="failed">');
+        expect(err.body).to.include('<error code="9">Invalid session key</error>');
+    });
+});
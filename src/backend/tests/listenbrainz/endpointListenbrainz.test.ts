@@ -0,0 +1,92 @@
+import { loggerTest } from "@foxxmd/logging";
+import { expect } from 'chai';
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { describe, it } from 'mocha';
+import { ListenbrainzEndpointData } from "../../common/infrastructure/config/source/endpointlz.js";
+import { NO_USER, REPORTED_PLAYER_STATUSES } from "../../common/infrastructure/Atomic.js";
+import {
+    DEFAULT_LZ_ENDPOINT_USER,
+    EndpointListenbrainzSource,
+    playToListenResponse
+} from "../../sources/EndpointListenbrainzSource.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+
+const createSource = (data: ListenbrainzEndpointData = {}): EndpointListenbrainzSource => {
+    const source = new EndpointListenbrainzSource('Test', {
+        data,
+        options: {}
+    }, { localUrl: new URL('http://test'), configDir: 'test', logger: loggerTest, version: 'test' }, new EventEmitter());
+    source.buildTransformRules();
+    source.scheduler.stop();
+    return source;
+}
+
+describe('Listenbrainz Endpoint Token Validation', function () {
+
+    it('accepts any token when none is configured', function () {
+        const source = createSource();
+        expect(source.matchToken('anything')).to.be.true;
+        expect(source.config.data.username).to.eq(DEFAULT_LZ_ENDPOINT_USER);
+    });
+
+    it('only accepts configured token', function () {
+        const source = createSource({token: 'MyToken', username: 'foxx'});
+        expect(source.matchToken('mytoken')).to.be.true;
+        expect(source.matchToken('other')).to.be.false;
+    });
+
+    it('matches configured username', function () {
+        const source = createSource({username: 'Foxx'});
+        expect(source.matchUser('foxx')).to.be.true;
+        expect(source.matchUser(DEFAULT_LZ_ENDPOINT_USER)).to.be.false;
+    });
+});
+
+describe('Listenbrainz Endpoint Read APIs', function () {
+
+    it('converts a play to a listen response', function () {
+        const play = generatePlay({playDate: dayjs.unix(1729000000)});
+        const listen = playToListenResponse(play, 'foxx');
+        expect(listen.listened_at).to.eq(1729000000);
+        expect(listen.track_metadata.track_name).to.eq(play.data.track);
+        expect(listen.user_name).to.eq('foxx');
+    });
+
+    it('returns discovered plays as listens, newest first', async function () {
+        const source = createSource();
+        const plays = [1729000000, 1729000300, 1729000600].map(x => generatePlay({playDate: dayjs.unix(x)}));
+        await source.discover(plays);
+
+        const listens = source.getListens();
+        expect(listens.map(x => x.listened_at)).to.eql([1729000600, 1729000300, 1729000000]);
+    });
+
+    it('filters listens by timestamp and count', async function () {
+        const source = createSource();
+        const plays = [1729000000, 1729000300, 1729000600].map(x => generatePlay({playDate: dayjs.unix(x)}));
+        await source.discover(plays);
+
+        expect(source.getListens({max_ts: 1729000600}).map(x => x.listened_at)).to.eql([1729000300, 1729000000]);
+        expect(source.getListens({min_ts: 1729000000}).map(x => x.listened_at)).to.eql([1729000600, 1729000300]);
+        expect(source.getListens({count: 1}).map(x => x.listened_at)).to.eql([1729000600]);
+    });
+
+    it('returns playing now from player state', async function () {
+        const source = createSource();
+        expect(source.getPlayingNow()).to.be.undefined;
+
+        const play = generatePlay({duration: 300}, {nowPlaying: true});
+        await source.processRecentPlays([{
+            platformId: [play.meta.deviceId, NO_USER],
+            play,
+            status: REPORTED_PLAYER_STATUSES.playing,
+            timestamp: dayjs()
+        }]);
+
+        const playingNow = source.getPlayingNow();
+        expect(playingNow).to.not.be.undefined;
+        expect(playingNow.track_metadata.track_name).to.eq(play.data.track);
+        expect(playingNow.listened_at).to.be.undefined;
+    });
+});
@@ -197,6 +197,62 @@ describe('Listenbrainz Response Behavior', function() {
     })
 });
 
+describe('Listenbrainz Recording Feedback', function() {
+
+    const client = new ListenbrainzApiClient('test',
+        {
+            token: 'test',
+            username: 'test'
+        }, {logger: loggerTest});
+
+    it('Should submit love feedback using play recording MBID', withRequestInterception(
+        [
+            http.post('https://api.listenbrainz.org/1/feedback/recording-feedback', async ({request}) => {
+                const body = await request.json() as Record<string, any>;
+                expect(body).to.eql({recording_mbid: '677862e0-3603-4120-8c44-ee9a70893647', score: 1});
+                return HttpResponse.json({status: 'ok'});
+            })
+        ],
+        async function() {
+            const play = generatePlay({meta: {brainz: {recording: '677862e0-3603-4120-8c44-ee9a70893647'}}});
+            const res = await client.submitFeedback(play);
+            expect(res.payload).to.eql({recording_mbid: '677862e0-3603-4120-8c44-ee9a70893647', score: 1});
+        }
+    ));
+
+    it('Should look up recording MBID when play does not have one', withRequestInterception(
+        [
+            http.get('https://api.listenbrainz.org/1/metadata/lookup/', ({request}) => {
+                const params = new URL(request.url).searchParams;
+                expect(params.get('recording_name')).eq('Frozen');
+                expect(params.get('artist_name')).eq('Celldweller');
+                return HttpResponse.json({recording_mbid: '677862e0-3603-4120-8c44-ee9a70893647'});
+            }),
+            http.post('https://api.listenbrainz.org/1/feedback/recording-feedback', () => HttpResponse.json({status: 'ok'}))
+        ],
+        async function() {
+            const play = generatePlay({track: 'Frozen', artists: ['Celldweller'], album: undefined});
+            const res = await client.submitFeedback(play);
+            expect((res.payload as Record<string, any>).recording_mbid).eq('677862e0-3603-4120-8c44-ee9a70893647');
+        }
+    ));
+
+    it('Should fail when no recording MBID is found', withRequestInterception(
+        [
+            http.get('https://api.listenbrainz.org/1/metadata/lookup/', () => HttpResponse.json({}))
+        ],
+        async function() {
+            const play = generatePlay({track: 'Frozen', artists: ['Celldweller']});
+            try {
+                await client.submitFeedback(play);
+                assert.fail('Should have thrown');
+            } catch (e) {
+                expect(e.message).to.include('no Recording MBID');
+            }
+        }
+    ));
+});
+
 describe('Listenbrainz Endpoint Behavior', function() {
 
     it('Should combine artist and artist_names', function() {
@@ -0,0 +1,213 @@
+import { loggerTest } from "@foxxmd/logging";
+import { expect } from 'chai';
+import EventEmitter from "events";
+import { describe, it } from 'mocha';
+import { http, HttpResponse } from "msw";
+import { withRequestInterception } from "../utils/networking.js";
+import { LyrionData, LyrionPlayer, LyrionStatusResult } from "../../common/infrastructure/config/source/lyrion.js";
+import { LyrionSource } from "../../sources/LyrionSource.js";
+import { REPORTED_PLAYER_STATUSES } from "../../common/infrastructure/Atomic.js";
+
+const TEST_URL = 'http://192.168.10.101:9000/jsonrpc.js';
+
+const createSource = (data: LyrionData = { url: '192.168.10.101' }): LyrionSource => {
+    const source = new LyrionSource('Test', {
+        data,
+        options: {}
+    }, { localUrl: new URL('http://test'), configDir: 'test', logger: loggerTest, version: 'test' }, new EventEmitter());
+    return source;
+}
+
+const kitchen: LyrionPlayer = {playerid: '00:04:20:aa:bb:01', name: 'Kitchen', model: 'squeezelite', connected: 1, isplayer: 1, power: 1};
+const bedroom: LyrionPlayer = {playerid: '00:04:20:aa:bb:02', name: 'Bedroom', model: 'baby', connected: 1, isplayer: 1, power: 1};
+
+const playingStatus = (data: Partial<LyrionStatusResult> = {}): LyrionStatusResult => ({
+    power: 1,
+    mode: 'play',
+    time: 10.5,
+    duration: 180,
+    playlist_loop: [
+        {
+            id: 1234,
+            title: 'Cool Track',
+            artist: 'Test Artist',
+            albumartist: 'Test Album Artist',
+            album: 'Test Album',
+            duration: 180,
+            coverid: 'abcd1234'
+        }
+    ],
+    ...data
+});
+
+/**
+ * Mock the JSON-RPC endpoint, responding to each CLI command with the given result
+ * */
+const slimHandler = (players: LyrionPlayer[], statuses: Record<string, LyrionStatusResult>) => http.post(TEST_URL, async ({request}) => {
+    const body = await request.json() as { params: [string, (string | number)[]] };
+    const [playerId, [command]] = body.params;
+    switch (command) {
+        case 'serverstatus':
+            return HttpResponse.json({id: 1, method: 'slim.request', params: body.params, result: {version: '9.0.0', 'player count': players.length}});
+        case 'players':
+            return HttpResponse.json({id: 1, method: 'slim.request', params: body.params, result: {count: players.length, players_loop: players}});
+        case 'status':
+            return HttpResponse.json({id: 1, method: 'slim.request', params: body.params, result: statuses[playerId] ?? {mode: 'stop'}});
+        default:
+            return HttpResponse.json({}, {status: 400});
+    }
+});
+
+describe('Lyrion Config', function () {
+
+    it('uses default port and path', async function () {
+        const source = createSource({url: '192.168.10.101'});
+        await source.buildInitData();
+        expect(source.url.toString()).to.eq(TEST_URL);
+    });
+
+    it('keeps user defined port', async function () {
+        const source = createSource({url: 'http://192.168.10.101:9002'});
+        await source.buildInitData();
+        expect(source.url.toString()).to.eq('http://192.168.10.101:9002/jsonrpc.js');
+    });
+
+    it('checks connection using serverstatus', withRequestInterception(
+        [slimHandler([kitchen], {})],
+        async function () {
+            const source = createSource();
+            await source.buildInitData();
+            await source.checkConnection();
+            expect(source.connectionOK).to.be.true;
+        }
+    ));
+});
+
+describe('Lyrion State Handling', function () {
+
+    it('tracks each playing player as its own player state', withRequestInterception(
+        [slimHandler([kitchen, bedroom], {
+            [kitchen.playerid]: playingStatus(),
+            [bedroom.playerid]: playingStatus({playlist_loop: [{id: 5678, title: 'Other Track', artist: 'Other Artist', duration: 200}]})
+        })],
+        async function () {
+            const source = createSource();
+            await source.buildInitData();
+            source.connectionOK = true;
+            await source.getRecentlyPlayed();
+            expect(source.players.size).to.eq(2);
+
+            const kitchenPlayer = Array.from(source.players.values()).find(x => x.platformId[0] === kitchen.playerid);
+            const playerState = kitchenPlayer.getApiState();
+            expect(playerState.play.data.track).to.eq('Cool Track');
+            expect(playerState.play.data.artists).to.eql(['Test Artist']);
+            expect(playerState.play.data.albumArtists).to.eql(['Test Album Artist']);
+            expect(playerState.play.data.album).to.eq('Test Album');
+            expect(playerState.play.data.duration).to.eq(180);
+            expect(playerState.play.meta.trackProgressPosition).to.eq(10.5);
+            expect(playerState.play.meta.art.album).to.eq('http://192.168.10.101:9000/music/abcd1234/cover.jpg');
+            expect(playerState.status.reported).to.eq(REPORTED_PLAYER_STATUSES.playing);
+        }
+    ));
+
+    it('reports paused players', withRequestInterception(
+        [slimHandler([kitchen], {[kitchen.playerid]: playingStatus({mode: 'pause'})})],
+        async function () {
+            const source = createSource();
+            await source.buildInitData();
+            source.connectionOK = true;
+            await source.getRecentlyPlayed();
+            expect(source.players.size).to.eq(1);
+            expect(source.players.values().next().value.getApiState().status.reported).to.eq(REPORTED_PLAYER_STATUSES.paused);
+        }
+    ));
+
+    it('ignores stopped, powered off, and disconnected players', withRequestInterception(
+        [slimHandler([kitchen, bedroom, {...kitchen, playerid: '00:04:20:aa:bb:03', name: 'Garage', connected: 0}], {
+            [kitchen.playerid]: playingStatus({mode: 'stop'}),
+            [bedroom.playerid]: playingStatus({power: 0}),
+            '00:04:20:aa:bb:03': playingStatus()
+        })],
+        async function () {
+            const source = createSource();
+            await source.buildInitData();
+            source.connectionOK = true;
+            await source.getRecentlyPlayed();
+            expect(source.players.size).to.eq(0);
+        }
+    ));
+
+    it('drops sync slave players', withRequestInterception(
+        [slimHandler([bedroom, kitchen], {
+            [kitchen.playerid]: playingStatus({sync_master: kitchen.playerid, sync_slaves: bedroom.playerid}),
+            [bedroom.playerid]: playingStatus({sync_master: kitchen.playerid, sync_slaves: bedroom.playerid})
+        })],
+        async function () {
+            const source = createSource();
+            await source.buildInitData();
+            source.connectionOK = true;
+            await source.getRecentlyPlayed();
+            expect(source.players.size).to.eq(1);
+            expect(source.players.values().next().value.platformId[0]).to.eq(kitchen.playerid);
+        }
+    ));
+
+    it('tracks players that are not synced playing the same track', withRequestInterception(
+        [slimHandler([kitchen, bedroom], {
+            [kitchen.playerid]: playingStatus(),
+            [bedroom.playerid]: playingStatus()
+        })],
+        async function () {
+            const source = createSource();
+            await source.buildInitData();
+            source.connectionOK = true;
+            await source.getRecentlyPlayed();
+            expect(source.players.size).to.eq(2);
+        }
+    ));
+
+    it('tracks sync slave when sync master is not allowed', withRequestInterception(
+        [slimHandler([kitchen, bedroom], {
+            [kitchen.playerid]: playingStatus({sync_master: kitchen.playerid, sync_slaves: bedroom.playerid}),
+            [bedroom.playerid]: playingStatus({sync_master: kitchen.playerid, sync_slaves: bedroom.playerid})
+        })],
+        async function () {
+            const source = createSource({url: '192.168.10.101', devicesBlock: ['kitchen']});
+            await source.buildInitData();
+            source.connectionOK = true;
+            await source.getRecentlyPlayed();
+            expect(source.players.size).to.eq(1);
+            expect(source.players.values().next().value.platformId[0]).to.eq(bedroom.playerid);
+        }
+    ));
+
+    it('respects devicesAllow', withRequestInterception(
+        [slimHandler([kitchen, bedroom], {
+            [kitchen.playerid]: playingStatus(),
+            [bedroom.playerid]: playingStatus({playlist_loop: [{id: 5678, title: 'Other Track', artist: 'Other Artist', duration: 200}]})
+        })],
+        async function () {
+            const source = createSource({url: '192.168.10.101', devicesAllow: ['kitch']});
+            await source.buildInitData();
+            source.connectionOK = true;
+            await source.getRecentlyPlayed();
+            expect(source.players.size).to.eq(1);
+            expect(source.players.values().next().value.platformId[0]).to.eq(kitchen.playerid);
+        }
+    ));
+
+    it('respects devicesBlock', withRequestInterception(
+        [slimHandler([kitchen, bedroom], {
+            [kitchen.playerid]: playingStatus(),
+            [bedroom.playerid]: playingStatus({playlist_loop: [{id: 5678, title: 'Other Track', artist: 'Other Artist', duration: 200}]})
+        })],
+        async function () {
+            const source = createSource({url: '192.168.10.101', devicesBlock: ['KITCHEN']});
+            await source.buildInitData();
+            source.connectionOK = true;
+            await source.getRecentlyPlayed();
+            expect(source.players.size).to.eq(1);
+            expect(source.players.values().next().value.platformId[0]).to.eq(bedroom.playerid);
+        }
+    ));
+});
@@ -0,0 +1,141 @@
+import { loggerTest } from "@foxxmd/logging";
+import { Aedes } from "aedes";
+import chai, { expect } from 'chai';
+import asPromised from 'chai-as-promised';
+import dayjs from "dayjs";
+import EventEmitter from "events";
+import { after, afterEach, before, beforeEach, describe, it } from 'mocha';
+import mqtt, { MqttClient } from "mqtt";
+import { AddressInfo, createServer, Server } from "node:net";
+import pEvent from 'p-event';
+import { SourcePlayerObj } from "../../../core/Atomic.js";
+import { MqttPublisher, MqttSourceState } from "../../notifier/MqttPublisher.js";
+import { sleep } from "../../utils.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+
+chai.use(asPromised);
+
+const generatePlayer = (data: Partial<SourcePlayerObj> = {}): SourcePlayerObj => ({
+    platformId: 'device1-user1',
+    play: generatePlay({track: 'My Song', artists: ['Foo', 'Bar'], album: 'Cool Album'}),
+    playerLastUpdatedAt: dayjs().toISOString(),
+    listenedDuration: 10,
+    position: 15,
+    status: {
+        reported: 'playing',
+        calculated: 'playing',
+        stale: false,
+        orphaned: false,
+    },
+    ...data
+});
+
+describe('#MQTT Publisher', function () {
+
+    let broker: Aedes;
+    let server: Server;
+    let url: string;
+
+    let publisher: MqttPublisher;
+    let subscriber: MqttClient;
+    let messages: Map<string, string>;
+    let sourceEmitter: EventEmitter;
+    let clientEmitter: EventEmitter;
+
+    before(async function () {
+        broker = await Aedes.createBroker();
+        server = createServer(broker.handle);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async function () {
+        await new Promise<void>(resolve => broker.close(() => resolve()));
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(async function () {
+        messages = new Map();
+        subscriber = await mqtt.connectAsync(url, {clientId: 'test-subscriber'});
+        await subscriber.subscribeAsync(['multi-scrobbler/#', 'homeassistant/#']);
+        subscriber.on('message', (topic, payload) => {
+            messages.set(topic, payload.toString());
+        });
+
+        sourceEmitter = new EventEmitter();
+        clientEmitter = new EventEmitter();
+        publisher = new MqttPublisher({url, qos: 1}, clientEmitter, sourceEmitter, loggerTest);
+        await publisher.init();
+        await pEvent(publisher.client, 'connect');
+    });
+
+    afterEach(async function () {
+        await publisher.destroy();
+        await subscriber.endAsync();
+    });
+
+    const waitForTopic = async (topic: string) => {
+        for(let i = 0; i < 20; i++) {
+            if(messages.has(topic)) {
+                return messages.get(topic);
+            }
+            await sleep(25);
+        }
+        throw new Error(`Did not receive message on ${topic} -- ${Array.from(messages.keys()).join(",")}`);
+    }
+
+    it('Publishes availability on connect', async function () {
+        expect(await waitForTopic('multi-scrobbler/status')).eq('online');
+    });
+
+    it('Publishes source player state and Home Assistant discovery', async function () {
+        sourceEmitter.emit('playerUpdate', {type: 'jellyfin', name: 'My Jellyfin', from: 'source', data: generatePlayer()});
+
+        const discovery = JSON.parse(await waitForTopic('homeassistant/sensor/multi-scrobbler/source_jellyfin_my_jellyfin/config'));
+        expect(discovery.state_topic).eq('multi-scrobbler/source/jellyfin/my_jellyfin/state');
+        expect(discovery.availability_topic).eq('multi-scrobbler/status');
+
+        const state = JSON.parse(await waitForTopic('multi-scrobbler/source/jellyfin/my_jellyfin/state')) as MqttSourceState;
+        expect(state.status).eq('playing');
+        expect(state.track).eq('My Song');
+        expect(state.artists).eq('Foo, Bar');
+        expect(state.position).eq(15);
+
+        const player = JSON.parse(await waitForTopic('multi-scrobbler/source/jellyfin/my_jellyfin/player/device1-user1'));
+        expect(player.play.data.track).eq('My Song');
+    });
+
+    it('Publishes stopped state when the current player is removed', async function () {
+        sourceEmitter.emit('playerUpdate', {type: 'jellyfin', name: 'test', from: 'source', data: generatePlayer()});
+        await waitForTopic('multi-scrobbler/source/jellyfin/test/state');
+        messages.clear();
+
+        sourceEmitter.emit('playerDelete', {type: 'jellyfin', name: 'test', from: 'source', data: {platformId: 'device1-user1'}});
+        const state = JSON.parse(await waitForTopic('multi-scrobbler/source/jellyfin/test/state')) as MqttSourceState;
+        expect(state.status).eq('stopped');
+    });
+
+    it('Publishes client now playing and scrobbles', async function () {
+        const play = generatePlay({track: 'Scrobbled Song'});
+        clientEmitter.emit('nowPlayingUpdated', {type: 'listenbrainz', name: 'myLZ', from: 'client', data: generatePlayer()});
+        clientEmitter.emit('scrobble', {type: 'listenbrainz', name: 'myLZ', from: 'client', data: {play}});
+
+        const nowPlaying = JSON.parse(await waitForTopic('multi-scrobbler/client/listenbrainz/mylz/nowPlaying'));
+        expect(nowPlaying.play.data.track).eq('My Song');
+        const scrobble = JSON.parse(await waitForTopic('multi-scrobbler/client/listenbrainz/mylz/scrobble'));
+        expect(scrobble.data.track).eq('Scrobbled Song');
+        expect(scrobble.meta.lifecycle).is.undefined;
+    });
+
+    it('Does not publish discovery when disabled', async function () {
+        await publisher.destroy();
+        sourceEmitter.removeAllListeners();
+        publisher = new MqttPublisher({url, qos: 1, homeAssistant: {discovery: false}}, clientEmitter, sourceEmitter, loggerTest);
+        await publisher.init();
+        await pEvent(publisher.client, 'connect');
+
+        sourceEmitter.emit('playerUpdate', {type: 'plex', name: 'noDiscovery', from: 'source', data: generatePlayer()});
+        await waitForTopic('multi-scrobbler/source/plex/nodiscovery/state');
+        expect(Array.from(messages.keys()).some(x => x.includes('nodiscovery/config'))).is.false;
+    });
+});
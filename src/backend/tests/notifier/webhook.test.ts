@@ -0,0 +1,124 @@
+import { loggerTest } from "@foxxmd/logging";
+import chai, { expect } from 'chai';
+import asPromised from 'chai-as-promised';
+import EventEmitter from "events";
+import { describe, it } from 'mocha';
+import { http, HttpResponse } from "msw";
+import { GenericWebhookConfig } from "../../common/infrastructure/config/health/webhooks.js";
+import { buildTemplateContext, DEFAULT_SIGNATURE_HEADER, renderTemplate, signBody } from "../../notifier/GenericWebhookNotifier.js";
+import { Notifiers } from "../../notifier/Notifiers.js";
+import { sleep } from "../../utils.js";
+import { withRequestInterception } from "../utils/networking.js";
+import { generatePlay } from "../utils/PlayTestUtils.js";
+
+chai.use(asPromised);
+
+const url = 'http://example.com/hook';
+
+const createNotifiers = async (config: Partial<GenericWebhookConfig> = {}) => {
+    const clientEmitter = new EventEmitter();
+    const sourceEmitter = new EventEmitter();
+    const notifiers = new Notifiers(new EventEmitter(), clientEmitter, sourceEmitter, loggerTest);
+    await notifiers.buildWebhooks([{type: 'webhook', url, ...config}]);
+    return {notifiers, clientEmitter, sourceEmitter};
+}
+
+describe('#Webhook Notifier', function () {
+
+    describe('Templating', function () {
+
+        const play = generatePlay({track: 'My Song', artists: ['Foo', 'Bar']});
+        const context = buildTemplateContext({
+            event: 'scrobble',
+            title: 'Scrobbled',
+            message: 'A message',
+            priority: 'info',
+            component: {type: 'listenbrainz', name: 'myLZ', role: 'client'},
+            play
+        });
+
+        it('Replaces placeholders inside strings', function () {
+            expect(renderTemplate('{{component.name}} scrobbled {{play.data.track}} {{ event }}', context)).eq('myLZ scrobbled My Song scrobble');
+        });
+
+        it('Keeps raw values for placeholder-only strings', function () {
+            const rendered = renderTemplate({artists: '{{play.data.artists}}', duration: '{{play.data.duration}}', nested: ['{{priority}}', 5, true]}, context) as Record<string, any>;
+            expect(rendered.artists).to.eql(['Foo', 'Bar']);
+            expect(rendered.duration).eq(play.data.duration);
+            expect(rendered.nested).to.eql(['info', 5, true]);
+        });
+
+        it('Renders missing values as empty', function () {
+            expect(renderTemplate('a{{nope.nothing}}b', context)).eq('ab');
+            expect(renderTemplate('{{nope}}', context)).is.null;
+        });
+
+        it('Provides serialized play and track string', function () {
+            expect(context.trackString).to.include('My Song');
+            expect(typeof (context.play as any).data.playDate).eq('string');
+            expect((context.play as any).meta.lifecycle).is.undefined;
+        });
+    });
+
+    describe('Requests', function () {
+
+        let received: any;
+        let signature: string | null;
+        let custom: string | null;
+        let rawBody: string;
+        const events: any[] = [];
+
+        it('Sends the full notification by default', withRequestInterception(
+            [
+                http.post(url, async ({request}) => {
+                    received = await request.json();
+                    return HttpResponse.json({});
+                })
+            ],
+            async () => {
+                const {notifiers} = await createNotifiers();
+                await notifiers.notify({title: 'Test', message: 'Hello', priority: 'warn'});
+                expect(received.event).eq('notify');
+                expect(received.message).eq('Hello');
+                expect(received.priority).eq('warn');
+            }
+        ));
+
+        it('Signs the body with HMAC when secret is set', withRequestInterception(
+            [
+                http.post(url, async ({request}) => {
+                    signature = request.headers.get(DEFAULT_SIGNATURE_HEADER);
+                    custom = request.headers.get('x-custom');
+                    rawBody = await request.text();
+                    return HttpResponse.json({});
+                })
+            ],
+            async () => {
+                const {notifiers} = await createNotifiers({secret: 'mySecret', headers: {'X-Custom': 'yes'}, body: {text: '{{message}}'}});
+                await notifiers.notify({title: 'Test', message: 'Hello', priority: 'info'});
+                expect(JSON.parse(rawBody)).to.eql({text: 'Hello'});
+                expect(signature).eq(signBody(rawBody, 'mySecret'));
+                expect(custom).eq('yes');
+            }
+        ));
+
+        it('Only sends subscribed client events', withRequestInterception(
+            [
+                http.post(url, async ({request}) => {
+                    events.push(await request.json());
+                    return HttpResponse.json({});
+                })
+            ],
+            async () => {
+                const {clientEmitter} = await createNotifiers({events: ['scrobble'], body: {event: '{{event}}', track: '{{play.data.track}}', client: '{{component.name}}'}});
+                const play = generatePlay({track: 'Cool Song'});
+
+                clientEmitter.emit('deadLetter', {data: {dead: {id: '1', play, source: 'test', retries: 0, error: 'bad'}}, type: 'test', name: 'myClient', from: 'client'});
+                clientEmitter.emit('scrobble', {data: {play}, type: 'test', name: 'myClient', from: 'client'});
+                await sleep(100);
+
+                expect(events).to.eql([{event: 'scrobble', track: 'Cool Song', client: 'myClient'}]);
+            }
+        ));
+    });
+});
@@ -65,3 +65,21 @@ export class NowPlayingScrobbler extends TestScrobbler {
         this.supportsNowPlaying = true;
     }
 }
+
+export class LoveScrobbler extends TestScrobbler {
+
+    lovedPlays: PlayObject[] = [];
+    loveError?: Error;
+
+    constructor(config?: CommonClientConfig) {
+        super(config);
+        this.supportsLove = true;
+    }
+
+    doLove = async (playObj: PlayObject) => {
+        if(this.loveError !== undefined) {
+            throw this.loveError;
+        }
+        this.lovedPlays.push(playObj);
+    }
+}
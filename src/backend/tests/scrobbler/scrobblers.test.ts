@@ -6,7 +6,7 @@ import dayjs from "dayjs";
 import { after, before, describe, it } from 'mocha';
 import { http, HttpResponse } from 'msw';
 import pEvent from 'p-event';
-import { PlayObject, SOURCE_SOT } from "../../../core/Atomic.js";
+import { PlayObject, SOURCE_SOT, TA_EXACT } from "../../../core/Atomic.js";
 import { genGroupIdStr, sleep, sortByOldestPlayDate } from "../../utils.js";
 import mixedDuration from '../plays/mixedDuration.json' with { type: 'json' };
 import withDuration from '../plays/withDuration.json' with { type: 'json' };
@@ -14,10 +14,22 @@ import { MockNetworkError, withRequestInterception } from "../utils/networking.j
 import { asPlays, generatePlay, generatePlayPlatformId, generatePlays, generateSourcePlayerObj, normalizePlays } from "../utils/PlayTestUtils.js";
 import MockDate from 'mockdate';
 
-import { NowPlayingScrobbler, TestAuthScrobbler, TestScrobbler } from "./TestScrobbler.js";
-import { PaginatedTimeRangeOptions, PlayPlatformId, REFRESH_STALE_DEFAULT } from '../../common/infrastructure/Atomic.js';
+import { LoveScrobbler, NowPlayingScrobbler, TestAuthScrobbler, TestScrobbler } from "./TestScrobbler.js";
+import { DUP_SCORE_THRESHOLD, PaginatedTimeRangeOptions, PlayPlatformId, REFRESH_STALE_DEFAULT } from '../../common/infrastructure/Atomic.js';
+import { CommonClientOptions } from '../../common/infrastructure/config/client/index.js';
 import { defaultLifecycle } from '../../utils/PlayTransformUtils.js';
 import { shuffleArray } from '../../utils/DataUtils.js';
+import {
+    BACKOFF_MAX_RETRIES,
+    classifyScrobbleError,
+    getNextDeadLetterRetry,
+    getRetryAfter,
+    NETWORK_BASE_DELAY,
+    NETWORK_MAX_DELAY,
+    RATE_LIMIT_BASE_DELAY,
+    RATE_LIMIT_JITTER
+} from '../../utils/DeadLetterUtils.js';
+import { LastFMIgnoredScrobble } from '../../common/vendor/LastfmApiClient.js';
 import { DEFAULT_CONSOLIDATE_DURATION, DEFAULT_GROUP_DURATION, groupPlaysToTimeRanges } from '../../utils/ListenFetchUtils.js';
 
 chai.use(asPromised);
@@ -801,6 +813,364 @@ describe('Manages scrobble queue', function() {
     });
 });
 
+describe('Cross-source de-duplication', function() {
+
+    const generateDedupeScrobbler = async (dedupe: CommonClientOptions['dedupe'] = {enable: true}) => {
+        const scrobbler = new TestScrobbler({name: 'test', options: {checkExistingScrobbles: false, dedupe}});
+        await scrobbler.initialize();
+        return scrobbler;
+    }
+
+    const play = generatePlay({track: 'My Song', artists: ['Foo', 'Bar'], duration: 200, playDate: firstPlayDate});
+
+    it('Does not queue the same play from a different source', async function() {
+        const scrobbler = await generateDedupeScrobbler();
+        const other = clone(play);
+        other.data.artists = ['Foo'];
+        other.data.playDate = play.data.playDate.add(20, 'seconds');
+
+        await scrobbler.queueScrobble(play, 'Jellyfin - myJelly');
+        await scrobbler.queueScrobble(other, 'Webscrobbler - myWeb');
+        expect(scrobbler.queuedScrobbles).length(1);
+        expect(scrobbler.queuedScrobbles[0].source).eq('Jellyfin - myJelly');
+    });
+
+    it('Matches a play reported at the end of the track from a different source', async function() {
+        const scrobbler = await generateDedupeScrobbler();
+        const other = clone(play);
+        other.data.playDate = play.data.playDate.add(205, 'seconds');
+
+        await scrobbler.queueScrobble(play, 'Plex - myPlex');
+        await scrobbler.queueScrobble(other, 'Chromecast - myCast');
+        expect(scrobbler.queuedScrobbles).length(1);
+    });
+
+    it('Queues different plays and plays from the same source', async function() {
+        const scrobbler = await generateDedupeScrobbler();
+        const different = generatePlay({playDate: firstPlayDate});
+        const repeat = clone(play);
+
+        await scrobbler.queueScrobble(play, 'Jellyfin - myJelly');
+        await scrobbler.queueScrobble(different, 'Webscrobbler - myWeb');
+        await scrobbler.queueScrobble(repeat, 'Jellyfin - myJelly');
+        expect(scrobbler.queuedScrobbles).length(3);
+    });
+
+    it('Queues plays outside of window', async function() {
+        const scrobbler = await generateDedupeScrobbler({enable: true, window: 10});
+        const other = clone(play);
+        other.data.duration = undefined;
+        other.data.playDate = play.data.playDate.add(30, 'seconds');
+
+        await scrobbler.queueScrobble(play, 'Jellyfin - myJelly');
+        await scrobbler.queueScrobble(other, 'Webscrobbler - myWeb');
+        expect(scrobbler.queuedScrobbles).length(2);
+    });
+
+    it('Replaces queued play with play from higher priority source', async function() {
+        const scrobbler = await generateDedupeScrobbler({enable: true, sourcePriority: ['myWeb', 'Jellyfin - myJelly']});
+        const recorded: PlayObject[] = [];
+        scrobbler['recordScrobbleResult'] = (p: PlayObject) => {
+            recorded.push(p);
+        };
+        const other = clone(play);
+        other.data.album = 'Better Album';
+
+        await scrobbler.queueScrobble(play, 'Jellyfin - myJelly');
+        await scrobbler.queueScrobble(other, 'Webscrobbler - myWeb');
+        expect(scrobbler.queuedScrobbles).length(1);
+        expect(scrobbler.queuedScrobbles[0].source).eq('Webscrobbler - myWeb');
+        expect(scrobbler.queuedScrobbles[0].play.data.album).eq('Better Album');
+        expect(recorded).length(1);
+        expect(recorded[0].meta.lifecycle.deduplicated.source).eq('Webscrobbler - myWeb');
+        // original play may be shared with other clients
+        expect(play.meta.lifecycle?.deduplicated).is.undefined;
+
+        // lower priority than what is now queued
+        await scrobbler.queueScrobble(clone(play), 'Jellyfin - myJelly');
+        await scrobbler.queueScrobble(clone(play), 'Plex - myPlex');
+        expect(scrobbler.queuedScrobbles).length(1);
+        expect(scrobbler.queuedScrobbles[0].source).eq('Webscrobbler - myWeb');
+    });
+
+    it('Does not de-duplicate when disabled', async function() {
+        const scrobbler = await generateDedupeScrobbler({enable: false});
+
+        await scrobbler.queueScrobble(play, 'Jellyfin - myJelly');
+        await scrobbler.queueScrobble(clone(play), 'Webscrobbler - myWeb');
+        expect(scrobbler.queuedScrobbles).length(2);
+    });
+
+    it('Does not de-duplicate by default', async function() {
+        const scrobbler = await generateDedupeScrobbler({});
+
+        await scrobbler.queueScrobble(play, 'Jellyfin - myJelly');
+        await scrobbler.queueScrobble(clone(play), 'Webscrobbler - myWeb');
+        expect(scrobbler.queuedScrobbles).length(2);
+    });
+});
+
+describe('Loved Tracks', function() {
+
+    const generateLoveScrobbler = async (options: CommonClientOptions = {syncLoved: true}) => {
+        const scrobbler = new LoveScrobbler({name: 'test', options});
+        await scrobbler.initialize();
+        return scrobbler;
+    }
+
+    it('Loves scrobbled play that was loved in source', async function() {
+        const scrobbler = await generateLoveScrobbler();
+        const play = generatePlay({}, {loved: true});
+        const scrobbled = await scrobbler.scrobble(play, {delay: false});
+        expect(scrobbler.lovedPlays).length(1);
+        expect(scrobbled.meta.lifecycle.scrobble.loved).is.true;
+    });
+
+    it('Does not love play that was not loved in source', async function() {
+        const scrobbler = await generateLoveScrobbler();
+        await scrobbler.scrobble(generatePlay({}, {loved: false}), {delay: false});
+        await scrobbler.scrobble(generatePlay(), {delay: false});
+        expect(scrobbler.lovedPlays).length(0);
+    });
+
+    it('Does not love play when syncLoved is disabled', async function() {
+        const scrobbler = await generateLoveScrobbler({syncLoved: false});
+        await scrobbler.scrobble(generatePlay({}, {loved: true}), {delay: false});
+        expect(scrobbler.lovedPlays).length(0);
+    });
+
+    it('Does not love play when syncLoved is not configured', async function() {
+        const scrobbler = await generateLoveScrobbler({});
+        await scrobbler.scrobble(generatePlay({}, {loved: true}), {delay: false});
+        expect(scrobbler.lovedPlays).length(0);
+    });
+
+    it('Scrobbles with a warning when loving fails', async function() {
+        const scrobbler = await generateLoveScrobbler();
+        scrobbler.loveError = new Error('Service unavailable');
+        const scrobbled = await scrobbler.scrobble(generatePlay({}, {loved: true}), {delay: false});
+        expect(scrobbled.meta.lifecycle.scrobble.loved).is.undefined;
+        expect(scrobbled.meta.lifecycle.scrobble.warnings).to.include('Could not love track: Service unavailable');
+    });
+});
+
+describe('Match Explanation', function() {
+
+    beforeEach(function() {
+        testScrobbler = generateTestScrobbler();
+    });
+
+    it('Includes score components for every compared scrobble', async function() {
+        const existing = [
+            generatePlay({artists: ['Other Artist'], track: 'Other Track', playDate: dayjs().subtract(20, 'minutes')}),
+            generatePlay({artists: ['My Artist'], track: 'My Track', playDate: dayjs().subtract(10, 'minutes')}),
+        ];
+        const candidate = clone(existing[1]);
+
+        const res = await testScrobbler.existingScrobble(candidate, existing, false, true);
+        expect(res.match).is.true;
+        expect(res.threshold).eq(DUP_SCORE_THRESHOLD);
+        expect(res.comparisons).length(2);
+
+        const [unique, dupe] = res.comparisons;
+        expect(unique.match).is.false;
+        expect(unique.play.data.track).eq('Other Track');
+        expect(dupe.match).is.true;
+        expect(dupe.title.similarity).eq(1);
+        expect(dupe.artist.score).eq(dupe.artist.similarity * dupe.artist.weight);
+        expect(dupe.time.accuracy).eq(TA_EXACT);
+        expect(dupe.time.accuracyName).is.not.empty;
+        expect(dupe.score).closeTo(dupe.artist.score + dupe.title.score + dupe.time.score, 0.001);
+    });
+
+    it('Does not include compared scrobbles when not explaining', async function() {
+        const existing = [generatePlay({playDate: dayjs().subtract(10, 'minutes')})];
+
+        const res = await testScrobbler.existingScrobble(clone(existing[0]), existing);
+        expect(res.match).is.true;
+        expect(res.breakdowns).length.greaterThan(0);
+        expect(res.comparisons).is.undefined;
+    });
+
+    it('Explains a Play against upstream scrobbles without scrobbling it', async function() {
+        await testScrobbler.initialize();
+        const existing = generatePlay({playDate: dayjs().subtract(1, 'hour')});
+        testScrobbler.testRecentScrobbles = [existing];
+
+        const candidate = clone(existing);
+        delete candidate.meta.lifecycle;
+        const res = await testScrobbler.explainMatch(candidate);
+
+        expect(res.match).is.true;
+        expect(res.comparisons).length(1);
+        expect(res.play.data.track).eq(existing.data.track);
+        expect(testScrobbler.getScrobbledPlays()).length(0);
+    });
+
+    it('Does not change refresh ranges when explaining', async function() {
+        await testScrobbler.initialize();
+        const existing = generatePlay({playDate: dayjs().subtract(1, 'hour')});
+        testScrobbler.testRecentScrobbles = [existing];
+        const ranges = [{from: dayjs().subtract(2, 'days').unix(), to: dayjs().subtract(1, 'day').unix()}];
+        testScrobbler.scrobbleSOTRanges = [...ranges];
+
+        const candidate = clone(existing);
+        delete candidate.meta.lifecycle;
+        await testScrobbler.explainMatch(candidate);
+
+        expect(testScrobbler.scrobbleSOTRanges).to.eql(ranges);
+    });
+});
+
+describe('Dead Letter Scrobbles', function() {
+
+    const generateDeadScrobbler = async (plays: PlayObject[], source = 'test') => {
+        const scrobbler = generateTestScrobbler();
+        await scrobbler.initialize();
+        scrobbler.deadLetterScrobbles = plays.map((x, index) => ({id: `dead${index}`, retries: 1, error: 'Bad data', source, play: x}));
+        return scrobbler;
+    }
+
+    it('Edits play data and records the edit in lifecycle', async function() {
+        const play = generatePlay({album: 'Wrong Album', playDate: dayjs().add(1, 'day')});
+        const scrobbler = await generateDeadScrobbler([play]);
+        const playDate = dayjs().subtract(1, 'hour');
+
+        const edited = scrobbler.editDeadLetterScrobble('dead0', {album: undefined, track: 'Fixed Track', playDate});
+
+        expect(edited.retries).eq(0);
+        expect(edited.play.data.track).eq('Fixed Track');
+        expect(edited.play.data).to.not.have.property('album');
+        expect(edited.play.data.playDate.unix()).eq(playDate.unix());
+        const step = edited.play.meta.lifecycle.steps[edited.play.meta.lifecycle.steps.length - 1];
+        expect(step.name).eq('edit');
+        expect(step.source).eq('User');
+        expect(step.patch).to.have.property('data');
+        expect(play.data.album).eq('Wrong Album');
+        expect(scrobbler.deadLetterScrobbles[0]).eq(edited);
+    });
+
+    it('Returns undefined when editing a missing scrobble', async function() {
+        const scrobbler = await generateDeadScrobbler([generatePlay()]);
+        expect(scrobbler.editDeadLetterScrobble('notReal', {track: 'Fixed Track'})).is.undefined;
+    });
+
+    it('Removes only selected scrobbles', async function() {
+        const scrobbler = await generateDeadScrobbler([generatePlay(), generatePlay(), generatePlay()]);
+        scrobbler.removeDeadLetterScrobbles(['dead0', 'dead2']);
+        expect(scrobbler.deadLetterScrobbles.map(x => x.id)).eql(['dead1']);
+    });
+
+    it('Processes only selected scrobbles', async function() {
+        this.timeout(3500);
+        const scrobbler = await generateDeadScrobbler([generatePlay(), generatePlay()]);
+        await scrobbler.processDeadLetterQueue(1000, ['dead1']);
+        expect(scrobbler.deadLetterScrobbles.map(x => x.id)).eql(['dead0']);
+    });
+
+    describe('Retry Policy', function() {
+
+        const responseError = (status: number, headers: Record<string, string> = {}) => {
+            const err = new Error(`Response error ${status}`);
+            // @ts-expect-error mimic superagent response error
+            err.status = status;
+            // @ts-expect-error mimic superagent response error
+            err.response = {status, headers};
+            return new Error('Could not scrobble', {cause: err});
+        }
+
+        it('Classifies ignored scrobbles and validation errors as rejected', function() {
+            expect(classifyScrobbleError(new Error('Could not scrobble', {cause: new LastFMIgnoredScrobble('Last.fm ignored scrobble => (Code 1) Artist was ignored', {showStopper: false})}))).eq('rejected');
+            expect(classifyScrobbleError(responseError(400))).eq('rejected');
+            expect(classifyScrobbleError(responseError(422))).eq('rejected');
+        });
+
+        it('Classifies auth failures', function() {
+            expect(classifyScrobbleError(responseError(401))).eq('auth');
+            expect(classifyScrobbleError('Invalid session key - Please re-authenticate (Code 9)')).eq('auth');
+        });
+
+        it('Classifies rate limits', function() {
+            expect(classifyScrobbleError(responseError(429))).eq('rateLimit');
+            expect(classifyScrobbleError('Rate Limit Exceeded (Code 29)')).eq('rateLimit');
+        });
+
+        it('Classifies network and upstream outages', function() {
+            const netErr = new Error('connect ECONNREFUSED');
+            // @ts-expect-error mimic node network error
+            netErr.code = 'ECONNREFUSED';
+            expect(classifyScrobbleError(new Error('Could not scrobble', {cause: netErr}))).eq('network');
+            expect(classifyScrobbleError(responseError(503))).eq('network');
+            expect(classifyScrobbleError(responseError(404))).eq('network');
+            expect(classifyScrobbleError(responseError(409))).eq('network');
+        });
+
+        it('Classifies anything else as unknown', function() {
+            expect(classifyScrobbleError(new Error('Something weird happened'))).eq('unknown');
+        });
+
+        it('Uses Retry-After header', function() {
+            expect(getRetryAfter(responseError(429, {'retry-after': '120'}))).eq(120);
+            expect(getRetryAfter(responseError(429))).is.undefined;
+        });
+
+        it('Backs off exponentially for transient failures', function() {
+            const now = dayjs();
+            expect(getNextDeadLetterRetry('network', 0, 1, undefined, now).diff(now, 's')).eq(NETWORK_BASE_DELAY);
+            expect(getNextDeadLetterRetry('network', 2, 1, undefined, now).diff(now, 's')).eq(NETWORK_BASE_DELAY * 4);
+            expect(getNextDeadLetterRetry('network', 20, 1, undefined, now).diff(now, 's')).eq(NETWORK_MAX_DELAY);
+            expect(getNextDeadLetterRetry('network', 0, 1, 600, now).diff(now, 's')).eq(600);
+
+            const rateLimited = getNextDeadLetterRetry('rateLimit', 1, 1, undefined, now).diff(now, 's');
+            expect(rateLimited).gte(Math.floor(RATE_LIMIT_BASE_DELAY * 2 * (1 - RATE_LIMIT_JITTER)));
+            expect(rateLimited).lte(Math.ceil(RATE_LIMIT_BASE_DELAY * 2 * (1 + RATE_LIMIT_JITTER)));
+        });
+
+        it('Stops retrying transient failures after max retries', function() {
+            expect(getNextDeadLetterRetry('network', BACKOFF_MAX_RETRIES - 1, 1)).to.not.be.undefined;
+            expect(getNextDeadLetterRetry('network', BACKOFF_MAX_RETRIES, 1)).is.undefined;
+            expect(getNextDeadLetterRetry('rateLimit', BACKOFF_MAX_RETRIES, 1)).is.undefined;
+        });
+
+        it('Does not schedule retries for rejected or auth failures', function() {
+            expect(getNextDeadLetterRetry('rejected', 0, 5)).is.undefined;
+            expect(getNextDeadLetterRetry('auth', 0, 5)).is.undefined;
+            expect(getNextDeadLetterRetry('unknown', 0, 1)).to.not.be.undefined;
+            expect(getNextDeadLetterRetry('unknown', 1, 1)).is.undefined;
+        });
+
+        it('Only processes dead scrobbles that are due on heartbeat', async function() {
+            this.timeout(3500);
+            const scrobbler = await generateDeadScrobbler([generatePlay(), generatePlay(), generatePlay(), generatePlay(), generatePlay()]);
+            scrobbler.config.options = {...(scrobbler.config.options ?? {}), deadLetterRetries: 1};
+            const [rejected, backoff, due, auth, outOfRetries] = scrobbler.deadLetterScrobbles;
+            rejected.errorCategory = 'rejected';
+            backoff.errorCategory = 'network';
+            backoff.nextRetry = dayjs().add(5, 'minutes');
+            due.errorCategory = 'rateLimit';
+            due.retries = 10;
+            due.nextRetry = dayjs().subtract(1, 'minute');
+            auth.errorCategory = 'auth';
+            auth.erroredAt = dayjs().add(1, 'minute');
+            outOfRetries.errorCategory = 'unknown';
+
+            await scrobbler.processDeadLetterQueue();
+            expect(scrobbler.deadLetterScrobbles.map(x => x.id)).eql([rejected.id, backoff.id, auth.id, outOfRetries.id]);
+        });
+
+        it('Retries auth failures after client re-authenticates', async function() {
+            this.timeout(3500);
+            const scrobbler = await generateDeadScrobbler([generatePlay()]);
+            scrobbler.deadLetterScrobbles[0].errorCategory = 'auth';
+            scrobbler.deadLetterScrobbles[0].erroredAt = dayjs().subtract(1, 'minute');
+            scrobbler.authedAt = dayjs();
+
+            await scrobbler.processDeadLetterQueue();
+            expect(scrobbler.deadLetterScrobbles).length(0);
+        });
+    });
+});
+
 describe('Now Playing', function() {
 
     describe('Filtering Aggregated Updates', function() {
@@ -0,0 +1,174 @@
+import { loggerTest } from "@foxxmd/logging";
+import chai, { expect } from 'chai';
+import asPromised from 'chai-as-promised';
+import { describe, it } from 'mocha';
+import { http, HttpResponse } from "msw";
+import { Cacheable } from "cacheable";
+import { initMemoryCache } from "../../common/Cache.js";
+import SpotifyTransformer, { scoreSpotifyCandidate, SpotifyTransformerDataStage } from "../../common/transforms/SpotifyTransformer.js";
+import { buildSearchQuery, trackToPlay } from "../../common/vendor/spotify/SpotifyApiClient.js";
+import { withRequestInterception } from '../utils/networking.js';
+import { generatePlay } from '../utils/PlayTestUtils.js';
+import TrackObjectFull = SpotifyApi.TrackObjectFull;
+
+chai.use(asPromised);
+
+const memorycache = () => new Cacheable({ primary: initMemoryCache({ ttl: '1ms' }) });
+
+const createSpotifyTransformer = () => new SpotifyTransformer({
+    name: 'test',
+    type: 'spotify',
+    data: {
+        clientId: 'testId',
+        clientSecret: 'testSecret',
+        ttl: '1ms'
+    },
+    options: {
+        ttl: '1ms'
+    }
+}, {
+    logger: loggerTest,
+    cache: memorycache()
+});
+
+const generateTrack = (data: {name: string, artists: string[], album: string, isrc?: string, duration?: number}): TrackObjectFull => {
+    const artists = data.artists.map((x, i) => ({id: `artist${i}`, name: x, type: 'artist', href: '', uri: '', external_urls: {spotify: ''}}));
+    return {
+        id: 'track1',
+        name: data.name,
+        artists,
+        duration_ms: (data.duration ?? 200) * 1000,
+        external_ids: data.isrc !== undefined ? {isrc: data.isrc} : {},
+        external_urls: {spotify: 'https://open.spotify.com/track/track1'},
+        album: {
+            id: 'album1',
+            name: data.album,
+            artists,
+        }
+    } as unknown as TrackObjectFull;
+}
+
+const tokenHandler = http.post('https://accounts.spotify.com/api/token', () => HttpResponse.json({access_token: 'abc', token_type: 'Bearer', expires_in: 3600}));
+
+const searchHandler = (tracks: TrackObjectFull[], onQuery?: (q: string) => void) => http.get('https://api.spotify.com/v1/search', ({request}) => {
+    if(onQuery !== undefined) {
+        onQuery(new URL(request.url).searchParams.get('q'));
+    }
+    return HttpResponse.json({tracks: {items: tracks}});
+});
+
+const stage = (data: Partial<SpotifyTransformerDataStage> = {}): SpotifyTransformerDataStage => ({type: 'spotify', ...data});
+
+describe('Spotify Transformer', function () {
+
+    describe('Search Query', function () {
+
+        it('Uses field filters for title, primary artist, and album', function () {
+            const play = generatePlay({track: 'My Song', artists: ['Foo', 'Bar'], album: 'My Album'});
+            expect(buildSearchQuery(play)).eq('track:"My Song" artist:"Foo" album:"My Album"');
+        });
+
+        it('Uses ISRC filter', function () {
+            const play = generatePlay({isrc: 'GBAHT1600302'});
+            expect(buildSearchQuery(play, {using: ['isrc']})).eq('isrc:GBAHT1600302');
+        });
+
+        it('Uses freetext without filters', function () {
+            const play = generatePlay({track: 'My Song', artists: ['Foo'], album: 'My Album'});
+            expect(buildSearchQuery(play, {freetext: true})).eq('My Song Foo My Album');
+        });
+    });
+
+    describe('Scoring', function () {
+
+        it('Scores exact matches highly', function () {
+            const play = generatePlay({track: 'My Song', artists: ['Foo'], album: 'My Album'});
+            const candidate = trackToPlay(generateTrack({name: 'My Song', artists: ['Foo'], album: 'My Album'}));
+            expect(scoreSpotifyCandidate(play, candidate)).gte(99);
+        });
+
+        it('Does not penalize candidates when Play has no album', function () {
+            const play = generatePlay({track: 'My Song', artists: ['Foo'], album: undefined});
+            const candidate = trackToPlay(generateTrack({name: 'My Song', artists: ['Foo'], album: 'My Album'}));
+            expect(scoreSpotifyCandidate(play, candidate)).gte(99);
+        });
+
+        it('Scores unrelated tracks poorly', function () {
+            const play = generatePlay({track: 'My Song', artists: ['Foo'], album: 'My Album'});
+            const candidate = trackToPlay(generateTrack({name: 'Completely Different', artists: ['Nobody'], album: 'Elsewhere'}));
+            expect(scoreSpotifyCandidate(play, candidate)).lt(50);
+        });
+
+        it('Scores matching ISRC as exact', function () {
+            const play = generatePlay({track: 'Wrong', artists: ['Wrong'], isrc: 'GBAHT1600302'});
+            const candidate = trackToPlay(generateTrack({name: 'My Song', artists: ['Foo'], album: 'My Album', isrc: 'GBAHT1600302'}));
+            expect(scoreSpotifyCandidate(play, candidate)).eq(100);
+        });
+    });
+
+    describe('Transforming', function () {
+
+        it('Replaces play data and fills spotify meta and ISRC from best match',
+            withRequestInterception([
+                tokenHandler,
+                searchHandler([generateTrack({name: 'My Song (feat. Bar)', artists: ['Foo', 'Bar'], album: 'My Album', isrc: 'GBAHT1600302', duration: 180})])
+            ], async function () {
+                const t = createSpotifyTransformer();
+                await t.tryInitialize();
+                const play = generatePlay({track: 'My Song (feat. Bar)', artists: ['Foo, Bar'], album: 'My Album', duration: 179, isrc: undefined});
+                const transformed = await t.handle(t.parseConfig(stage()), play);
+
+                expect(transformed.data.artists).eql(['Foo', 'Bar']);
+                expect(transformed.data.duration).eq(180);
+                expect(transformed.data.isrc).eq('GBAHT1600302');
+                expect(transformed.data.meta.spotify.track).eq('track1');
+                expect(transformed.data.meta.spotify.album).eq('album1');
+            }));
+
+        it('Does not transform when best match is below score threshold',
+            withRequestInterception([
+                tokenHandler,
+                searchHandler([generateTrack({name: 'Completely Different', artists: ['Nobody'], album: 'Elsewhere'})])
+            ], async function () {
+                const t = createSpotifyTransformer();
+                await t.tryInitialize();
+                const play = generatePlay({track: 'My Song', artists: ['Foo'], album: 'My Album'});
+                await expect(t.handle(t.parseConfig(stage()), play)).to.be.rejectedWith('postFetch did not pass');
+            }));
+
+        it('Respects false parts',
+            withRequestInterception([
+                tokenHandler,
+                searchHandler([generateTrack({name: 'My Song', artists: ['Foo', 'Bar'], album: 'My Album'})])
+            ], async function () {
+                const t = createSpotifyTransformer();
+                await t.tryInitialize();
+                const play = generatePlay({track: 'My Song', artists: ['Foo'], album: 'My Album'});
+                const transformed = await t.handle(t.parseConfig(stage({artists: false})), play);
+                expect(transformed.data.artists).eql(['Foo']);
+                expect(transformed.data.meta.spotify.track).eq('track1');
+            }));
+
+        it('Skips search when play already has a spotify track id', async function () {
+            const t = createSpotifyTransformer();
+            await t.buildInitData();
+            const play = generatePlay({track: 'My Song', artists: ['Foo'], meta: {spotify: {track: 'existing'}}});
+            await expect(t.handle(t.parseConfig(stage()), play)).to.be.rejectedWith('preFetch check did not pass');
+        });
+
+        it('Searches ISRC first when play has one',
+            async function () {
+                const queries: string[] = [];
+                await withRequestInterception([
+                    tokenHandler,
+                    searchHandler([generateTrack({name: 'My Song', artists: ['Foo'], album: 'My Album', isrc: 'GBAHT1600302'})], (q) => queries.push(q))
+                ], async function () {
+                    const t = createSpotifyTransformer();
+                    await t.tryInitialize();
+                    const play = generatePlay({track: 'My Song', artists: ['Foo'], album: 'My Album', isrc: 'GBAHT1600302'});
+                    await t.handle(t.parseConfig(stage()), play);
+                    expect(queries).eql(['isrc:GBAHT1600302']);
+                })();
+            });
+    });
+});
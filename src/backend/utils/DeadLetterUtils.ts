@@ -0,0 +1,145 @@
+import dayjs, { Dayjs } from "dayjs";
+import { DeadLetterErrorCategory } from "../../core/Atomic.js";
+import { hasNodeNetworkException } from "../common/errors/NodeErrors.js";
+import { LastFMIgnoredScrobble } from "../common/vendor/LastfmApiClient.js";
+import { findCauseByFunc, findCauseByReference, messageWithCauses } from "./ErrorUtils.js";
+
+const REJECTED_STATUSES = [400, 413, 422];
+const AUTH_STATUSES = [401, 403];
+// usually a misconfigured url or a conflict upstream, not a problem with the scrobble itself
+const NETWORK_STATUSES = [404, 409];
+
+const REJECTED_MESSAGES = ['ignored'];
+const AUTH_MESSAGES = ['invalid session key', 'invalid api key', 'api key suspended', 'authentication failed', 'unauthorized', 'invalid token'];
+const RATE_LIMIT_MESSAGES = ['rate limit', 'too many requests'];
+const NETWORK_MESSAGES = ['temporarily unavailable', 'service offline', 'operation failed', 'timed out', 'timeout'];
+
+/** Delay, in seconds, before the first retry of a rate limited scrobble. Doubled for each failed retry. */
+export const RATE_LIMIT_BASE_DELAY = 60;
+export const RATE_LIMIT_MAX_DELAY = 3600;
+/** Randomize rate limit delays by up to this fraction so scrobbles are not all retried at the same time */
+export const RATE_LIMIT_JITTER = 0.25;
+/** Delay, in seconds, before the first retry of a scrobble that failed due to a network or upstream outage. Doubled for each failed retry. */
+export const NETWORK_BASE_DELAY = 30;
+export const NETWORK_MAX_DELAY = 900;
+/** Stop retrying rate limited or network failures automatically after this many retries (about 11 hours for network, 2 days for rate limits) */
+export const BACKOFF_MAX_RETRIES = 50;
+
+interface ResponseLike {
+    status?: number
+    statusCode?: number
+    headers?: Record<string, string | string[] | undefined>
+    header?: Record<string, string | string[] | undefined>
+}
+
+const getResponse = (e: any): ResponseLike | undefined => {
+    if(e === null || typeof e !== 'object') {
+        return undefined;
+    }
+    if(e.response !== null && typeof e.response === 'object' && (typeof e.response.status === 'number' || typeof e.response.statusCode === 'number')) {
+        return e.response;
+    }
+    if(typeof e.status === 'number' || typeof e.statusCode === 'number') {
+        return e;
+    }
+    return undefined;
+}
+
+/**
+ * Find the first HTTP response (superagent or node) in an error or its causes
+ * */
+export const findErrorResponse = (err: unknown): ResponseLike | undefined => {
+    const errWithResponse = findCauseByFunc(err, (e) => getResponse(e) !== undefined);
+    return errWithResponse !== undefined ? getResponse(errWithResponse) : undefined;
+}
+
+/**
+ * Get the number of seconds to wait from a Retry-After header, if the error has a response that includes one
+ * */
+export const getRetryAfter = (err: unknown): number | undefined => {
+    const response = findErrorResponse(err);
+    const headers = response?.headers ?? response?.header;
+    if(headers === undefined) {
+        return undefined;
+    }
+    const val = headers['retry-after'] ?? headers['Retry-After'];
+    const str = Array.isArray(val) ? val[0] : val;
+    if(str === undefined) {
+        return undefined;
+    }
+    if(/^\d+$/.test(str.trim())) {
+        return Number.parseInt(str);
+    }
+    const date = dayjs(new Date(str));
+    return date.isValid() ? Math.max(date.diff(dayjs(), 's'), 0) : undefined;
+}
+
+/**
+ * Classify why a scrobble failed so the dead letter queue can decide when, or if, to retry it
+ *
+ * * `rejected` - the Client will never accept the scrobble as-is (ignored by Last.fm, HTTP 400/413/422 validation errors)
+ * * `auth` - the Client's credentials are not valid
+ * * `rateLimit` - the Client is refusing requests because too many were made
+ * * `network` - the Client could not be reached, had a server error, or returned 404/409
+ * * `unknown` - anything else
+ * */
+export const classifyScrobbleError = (err: Error | string): DeadLetterErrorCategory => {
+    const message = (typeof err === 'string' ? err : messageWithCauses(err)).toLocaleLowerCase();
+
+    if(typeof err !== 'string' && findCauseByReference(err, LastFMIgnoredScrobble) !== undefined) {
+        return 'rejected';
+    }
+
+    const status = typeof err === 'string' ? undefined : findErrorResponse(err);
+    const statusCode = status?.status ?? status?.statusCode;
+
+    if(statusCode === 429 || RATE_LIMIT_MESSAGES.some(x => message.includes(x))) {
+        return 'rateLimit';
+    }
+    if(AUTH_STATUSES.includes(statusCode) || AUTH_MESSAGES.some(x => message.includes(x))) {
+        return 'auth';
+    }
+    if(REJECTED_STATUSES.includes(statusCode) || REJECTED_MESSAGES.some(x => message.includes(x))) {
+        return 'rejected';
+    }
+    if((statusCode !== undefined && (statusCode >= 500 || NETWORK_STATUSES.includes(statusCode)))
+        || (typeof err !== 'string' && hasNodeNetworkException(err))
+        || NETWORK_MESSAGES.some(x => message.includes(x))) {
+        return 'network';
+    }
+    return 'unknown';
+}
+
+const exponentialDelay = (base: number, max: number, attempt: number): number => Math.min(base * Math.pow(2, Math.max(attempt - 1, 0)), max);
+
+/**
+ * Determine when a failed dead letter scrobble should next be retried automatically
+ *
+ * @param category Category of the error the scrobble failed with
+ * @param retries Number of times the scrobble has been retried, including the attempt that just failed
+ * @param maxRetries Maximum number of retries for scrobbles that failed for an unknown reason. Rate limited and network failures are retried up to BACKOFF_MAX_RETRIES
+ * @param retryAfter Seconds the Client asked to wait before trying again, if any
+ * @returns undefined if the scrobble should not be retried automatically
+ * */
+export const getNextDeadLetterRetry = (category: DeadLetterErrorCategory, retries: number, maxRetries: number, retryAfter?: number, now: Dayjs = dayjs()): Dayjs | undefined => {
+    switch (category) {
+        case 'rejected':
+        case 'auth':
+            return undefined;
+        case 'rateLimit': {
+            if(retries >= BACKOFF_MAX_RETRIES) {
+                return undefined;
+            }
+            const delay = exponentialDelay(RATE_LIMIT_BASE_DELAY, RATE_LIMIT_MAX_DELAY, retries + 1);
+            const jittered = delay * (1 + ((Math.random() * 2) - 1) * RATE_LIMIT_JITTER);
+            return now.add(Math.round(Math.max(jittered, retryAfter ?? 0)), 's');
+        }
+        case 'network':
+            if(retries >= BACKOFF_MAX_RETRIES) {
+                return undefined;
+            }
+            return now.add(Math.max(exponentialDelay(NETWORK_BASE_DELAY, NETWORK_MAX_DELAY, retries + 1), retryAfter ?? 0), 's');
+        default:
+            return retries < maxRetries ? now : undefined;
+    }
+}
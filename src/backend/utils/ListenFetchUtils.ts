@@ -18,12 +18,11 @@ export const createGetScrobblesForTimeRangeFunc = <T extends PaginatedTimeRangeS
     const logger = childLogger(pLogger, ['Pagination']); 
     const reqLabel = () => `Request ${requestCount}`;
     const reqLogger = childLogger(logger, [reqLabel]);
- 
-    let plays: PlayObject[] = [];
 
     if (hasPagelessTimeRangeListens(fetcher)) {
         return async (opts: PaginatedTimeRangeCommonOptions): Promise<PlayObject[]> => {
             requestCount = 0;
+            let plays: PlayObject[] = [];
             let more = true;
             let currOpts = { ...opts };
             let initial = true;
@@ -108,6 +107,7 @@ export const createGetScrobblesForTimeRangeFunc = <T extends PaginatedTimeRangeS
     } else if (hasPaginatedTimeRangeListens(fetcher)) {
         return async (opts: PaginatedListensTimeRangeOptions): Promise<PlayObject[]> => {
             requestCount = 0;
+            let plays: PlayObject[] = [];
             let more = true;
             let currOpts: PaginatedListensTimeRangeOptions = opts;
             let initial = true;
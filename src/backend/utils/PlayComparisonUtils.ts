@@ -1,5 +1,5 @@
 import { getListDiff, ListDiff } from "@donedeal0/superdiff";
-import { PlayObject, PlayObjectLifecycleless, TA_CLOSE, TA_DEFAULT_ACCURACY, TA_EXACT, TemporalAccuracy } from "../../core/Atomic.js";
+import { PlayObject, PlayObjectLifecycleless, TA_CLOSE, TA_DEFAULT_ACCURACY, TA_EXACT, TA_FUZZY, TemporalAccuracy } from "../../core/Atomic.js";
 import { buildTrackString } from "../../core/StringUtils.js";
 import { playObjDataMatch, setIntersection } from "../utils.js";
 import { comparePlayTemporally, hasAcceptableTemporalAccuracy, TemporalPlayComparisonOptions } from "./TimeUtils.js";
@@ -265,6 +265,40 @@ export const genericSourcePlayMatch = (a: PlayObject, b: PlayObject, t?: Tempora
     playObjDataMatch(a, b)
     && hasAcceptableTemporalAccuracy(comparePlayTemporally(a, b, temporalOptions).match, t);
 
+export const CROSS_SOURCE_DEDUPE_WINDOW = 60;
+
+/**
+ * Determine if Plays reported by different Sources are likely the same listen
+ *
+ * Sources often present metadata differently (only primary artist, etc...) so this is looser than playObjDataMatch
+ * */
+export const crossSourcePlayMatch = (existing: PlayObject, candidate: PlayObject, options: {window?: number} = {}): boolean => {
+    const {window = CROSS_SOURCE_DEDUPE_WINDOW} = options;
+    const [titleMatch] = comparePlayTracksNormalized(existing, candidate);
+    if(titleMatch < 0.9) {
+        return false;
+    }
+    const [artistMatch, wholeMatches] = comparePlayArtistsNormalized(existing, candidate);
+    if(artistMatch < 0.7 && wholeMatches === 0) {
+        return false;
+    }
+    // a repeat could fuzzy match the end of the previous play so only allow close timestamps
+    const accuracy = existing.data.repeat || candidate.data.repeat ? TA_DEFAULT_ACCURACY : [TA_EXACT, TA_CLOSE, TA_FUZZY];
+    return hasAcceptableTemporalAccuracy(comparePlayTemporally(existing, candidate, {diffThreshold: window, duringReferences: []}).match, accuracy);
+}
+
+/**
+ * Get priority of a Source identifier (`Type - Name`) based on a list of Source names/identifiers
+ *
+ * Lower is higher priority. Sources not in the list have the lowest priority.
+ * */
+export const getSourcePriority = (source: string, priority: string[] = []): number => {
+    const identifier = source.toLocaleLowerCase();
+    const name = identifier.includes(' - ') ? identifier.slice(identifier.indexOf(' - ') + 3) : identifier;
+    const index = priority.findIndex(x => [identifier, name].includes(x.toLocaleLowerCase()));
+    return index === -1 ? priority.length : index;
+}
+
 export const comparePlayArtistsNormalized = (existing: PlayObject, candidate: PlayObject): [number, number] => {
     const {
         data: {
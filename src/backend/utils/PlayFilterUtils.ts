@@ -0,0 +1,174 @@
+import { testMaybeRegex as testMaybeRegexFunc } from "@foxxmd/regex-buddy-core";
+import { PlayObject } from "../../core/Atomic.js";
+import { FILTER_DAYS, FilterDay, PlayFilterOptions, PlayFilterRule, PlayFilterRules } from "../common/infrastructure/Filter.js";
+import { SuppliedRegex, testWhen } from "./PlayTransformUtils.js";
+
+const FILTER_TIME_REGEX = new RegExp(/^(\d{1,2}):(\d{2})$/);
+
+/**
+ * Parse HH:mm into minutes since midnight
+ * */
+export const parseFilterTime = (val: string): number => {
+    const match = FILTER_TIME_REGEX.exec(val.trim());
+    if (match === null) {
+        throw new Error(`'${val}' is not a valid time, must be in HH:mm format`);
+    }
+    const hours = Number.parseInt(match[1]);
+    const minutes = Number.parseInt(match[2]);
+    if (hours > 23 || minutes > 59) {
+        throw new Error(`'${val}' is not a valid time, must be in HH:mm format`);
+    }
+    return (hours * 60) + minutes;
+}
+
+const validateFilterRule = (rule: PlayFilterRule) => {
+    if (rule === null || typeof rule !== 'object' || Array.isArray(rule)) {
+        throw new Error('Rule must be an object');
+    }
+    for (const k of ['title', 'artists', 'album', 'deviceId', 'user']) {
+        if (rule[k] !== undefined && typeof rule[k] !== 'string') {
+            throw new Error(`Property '${k}' must be a string`);
+        }
+    }
+    if (rule.mediaType !== undefined) {
+        const types = Array.isArray(rule.mediaType) ? rule.mediaType : [rule.mediaType];
+        if (types.some(x => typeof x !== 'string')) {
+            throw new Error(`Property 'mediaType' must be a string or list of strings`);
+        }
+    }
+    if (rule.duration !== undefined) {
+        for (const k of ['min', 'max']) {
+            if (rule.duration[k] !== undefined && typeof rule.duration[k] !== 'number') {
+                throw new Error(`Property 'duration.${k}' must be a number`);
+            }
+        }
+    }
+    if (rule.time !== undefined) {
+        if (rule.time.from === undefined || rule.time.to === undefined) {
+            throw new Error(`Property 'time' must have both 'from' and 'to'`);
+        }
+        parseFilterTime(rule.time.from);
+        parseFilterTime(rule.time.to);
+    }
+    if (rule.days !== undefined) {
+        if (!Array.isArray(rule.days)) {
+            throw new Error(`Property 'days' must be a list`);
+        }
+        const invalid = rule.days.filter(x => typeof x !== 'string' || !FILTER_DAYS.includes(x.toLowerCase() as FilterDay));
+        if (invalid.length > 0) {
+            throw new Error(`Property 'days' has invalid values: ${invalid.join(', ')} -- must be one of: ${FILTER_DAYS.join(', ')}`);
+        }
+    }
+}
+
+export const buildFilterRules = (options?: PlayFilterOptions): PlayFilterRules => {
+    const rules: PlayFilterRules = {include: [], exclude: []};
+    if (options === undefined || options === null) {
+        return rules;
+    }
+    for (const type of ['include', 'exclude'] as const) {
+        const list = options[type];
+        if (list === undefined) {
+            continue;
+        }
+        if (!Array.isArray(list)) {
+            throw new Error(`'${type}' must be a list of rules`);
+        }
+        list.forEach((rule, index) => {
+            try {
+                validateFilterRule(rule);
+            } catch (e) {
+                throw new Error(`${type} rule ${getFilterRuleName(rule, type, index)} is not valid`, {cause: e});
+            }
+        });
+        rules[type] = list;
+    }
+    return rules;
+}
+
+export const getFilterRuleName = (rule: PlayFilterRule, type: 'include' | 'exclude', index: number): string => rule?.name ?? `${type} #${index + 1}`;
+
+/**
+ * Returns true if every defined property of the rule matches the Play
+ * */
+export const testFilterRule = (rule: PlayFilterRule, play: PlayObject, options?: SuppliedRegex): boolean => {
+    const {
+        testMaybeRegex = testMaybeRegexFunc,
+    } = options || {};
+
+    if (!testWhen({title: rule.title, artists: rule.artists, album: rule.album}, play, {testMaybeRegex})) {
+        return false;
+    }
+
+    if (rule.duration !== undefined) {
+        const {duration} = play.data;
+        if (duration === undefined) {
+            return false;
+        }
+        if (rule.duration.min !== undefined && duration < rule.duration.min) {
+            return false;
+        }
+        if (rule.duration.max !== undefined && duration > rule.duration.max) {
+            return false;
+        }
+    }
+
+    if (rule.mediaType !== undefined) {
+        const types = (Array.isArray(rule.mediaType) ? rule.mediaType : [rule.mediaType]).map(x => x.toLowerCase());
+        if (play.meta.mediaType === undefined || !types.includes(play.meta.mediaType.toLowerCase())) {
+            return false;
+        }
+    }
+
+    if (rule.deviceId !== undefined) {
+        if (!testMaybeRegex(rule.deviceId, play.meta.deviceId ?? '')[0]) {
+            return false;
+        }
+    }
+    if (rule.user !== undefined) {
+        if (!testMaybeRegex(rule.user, play.meta.user ?? '')[0]) {
+            return false;
+        }
+    }
+
+    if (rule.time !== undefined || rule.days !== undefined) {
+        const {playDate} = play.data;
+        if (playDate === undefined) {
+            return false;
+        }
+        if (rule.days !== undefined && !rule.days.map(x => x.toLowerCase()).includes(FILTER_DAYS[playDate.day()])) {
+            return false;
+        }
+        if (rule.time !== undefined) {
+            const from = parseFilterTime(rule.time.from);
+            const to = parseFilterTime(rule.time.to);
+            const minutes = (playDate.hour() * 60) + playDate.minute();
+            const inRange = from <= to
+                ? minutes >= from && minutes < to
+                // wraps past midnight
+                : minutes >= from || minutes < to;
+            if (!inRange) {
+                return false;
+            }
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Test a Play against include/exclude rules
+ *
+ * @returns undefined if the Play should be kept, otherwise the name of the deciding rule (if any) and a human readable reason
+ * */
+export const filterPlay = (rules: PlayFilterRules, play: PlayObject, options?: SuppliedRegex): { rule?: string, reason: string } | undefined => {
+    if (rules.include.length > 0 && !rules.include.some(x => testFilterRule(x, play, options))) {
+        return {reason: 'Did not match any include rules'};
+    }
+    const excludeIndex = rules.exclude.findIndex(x => testFilterRule(x, play, options));
+    if (excludeIndex !== -1) {
+        const rule = getFilterRuleName(rules.exclude[excludeIndex], 'exclude', excludeIndex);
+        return {rule, reason: `Matched exclude rule '${rule}'`};
+    }
+    return undefined;
+}
@@ -0,0 +1,281 @@
+import dayjs, { Dayjs } from "dayjs";
+import { PlayObject } from "../../core/Atomic.js";
+import { FileClientFormat } from "../common/infrastructure/config/client/file.js";
+import { FileSourceFormat } from "../common/infrastructure/config/source/file.js";
+import { listenPayloadToPlay } from "../common/vendor/ListenbrainzApiClient.js";
+import { ListenPayload } from "../common/vendor/listenbrainz/interfaces.js";
+import { rehydratePlay } from "./CacheUtils.js";
+import { baseFormatPlayObj } from "./PlayTransformUtils.js";
+
+export const FILE_SOURCE_NAME = 'File';
+
+/**
+ * Determine format from file name, returns undefined if file is not a supported format
+ * */
+export const getScrobbleFileFormat = (fileName: string): FileSourceFormat | undefined => {
+    const lower = fileName.toLocaleLowerCase();
+    if (lower.endsWith('.scrobbler.log') || lower === 'scrobbler.log') {
+        return 'scrobblerlog';
+    }
+    if (lower.endsWith('.csv')) {
+        return 'lastfm';
+    }
+    if (lower.endsWith('.plays.jsonl')) {
+        return 'plays';
+    }
+    if (lower.endsWith('.json') || lower.endsWith('.jsonl')) {
+        return 'listenbrainz';
+    }
+    return undefined;
+}
+
+export const parseScrobbleFile = (content: string, format: FileSourceFormat): PlayObject[] => {
+    switch (format) {
+        case 'scrobblerlog':
+            return parseScrobblerLog(content);
+        case 'lastfm':
+            return parseLastfmCsv(content);
+        case 'listenbrainz':
+            return parseListenbrainzExport(content);
+        case 'plays':
+            return parsePlaysJsonl(content).map((x) => {
+                // lifecycle is from when the Play was originally discovered, importing starts a new one
+                const {lifecycle, ...meta} = x.meta;
+                return baseFormatPlayObj(x, {data: x.data, meta: {...meta, source: FILE_SOURCE_NAME}});
+            });
+    }
+}
+
+/**
+ * Audioscrobbler portable player log, as written by Rockbox and other DAPs
+ *
+ * https://web.archive.org/web/20170107015006/http://www.audioscrobbler.net/wiki/Portable_Player_Logging
+ *
+ * Skipped tracks (rating S) are not returned
+ * */
+export const parseScrobblerLog = (content: string): PlayObject[] => {
+    const plays: PlayObject[] = [];
+    let utc = true;
+    for (const [index, line] of content.split(/\r?\n/).entries()) {
+        if (line.trim() === '') {
+            continue;
+        }
+        if (line.startsWith('#')) {
+            if (line.toUpperCase().startsWith('#TZ/')) {
+                utc = line.slice(4).trim().toUpperCase() === 'UTC';
+            }
+            continue;
+        }
+        // ARTIST ALBUM TITLE TRACKNUM LENGTH RATING TIMESTAMP MBTRACKID
+        const [artist, album, title, trackNum, length, rating, timestamp, mbid] = line.split('\t');
+        if (title === undefined || timestamp === undefined) {
+            throw new Error(`Line ${index + 1} does not have enough fields`);
+        }
+        if (rating !== undefined && rating.trim().toUpperCase() === 'S') {
+            continue;
+        }
+        const ts = Number.parseInt(timestamp);
+        if (Number.isNaN(ts)) {
+            throw new Error(`Line ${index + 1} has an invalid timestamp '${timestamp}'`);
+        }
+        let playDate = dayjs.unix(ts);
+        if (!utc) {
+            // device clock was not UTC so timestamp is local time
+            playDate = playDate.subtract(playDate.utcOffset(), 'minute');
+        }
+        const duration = Number.parseInt(length);
+        plays.push(baseFormatPlayObj(line, {
+            data: {
+                artists: nonEmpty(artist) !== undefined ? [artist.trim()] : [],
+                album: nonEmpty(album),
+                track: title.trim(),
+                duration: Number.isNaN(duration) ? undefined : duration,
+                playDate,
+                meta: nonEmpty(mbid) !== undefined || nonEmpty(trackNum) !== undefined ? {
+                    brainz: {
+                        recording: nonEmpty(mbid),
+                        trackNumber: nonEmpty(trackNum) !== undefined ? Number.parseInt(trackNum) : undefined,
+                    }
+                } : undefined
+            },
+            meta: {
+                source: FILE_SOURCE_NAME,
+            }
+        }));
+    }
+    return plays;
+}
+
+/**
+ * Parses CSV text into rows of fields, supporting quoted fields with escaped quotes and newlines
+ * */
+export const parseCsv = (content: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"') {
+                if (content[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    quoted = false;
+                }
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(x => x.some(y => y.trim() !== ''));
+}
+
+// lastfm-to-csv style exports use dates like "31 Jan 2024 12:34" in UTC
+const LASTFM_CSV_DATE_REGEX = new RegExp(/^\d{1,2} \w{3} \d{4},? \d{1,2}:\d{2}$/);
+
+const parseCsvDate = (val: string): Dayjs | undefined => {
+    const str = val.trim();
+    if (/^\d+$/.test(str)) {
+        const num = Number.parseInt(str);
+        // assume milliseconds if too large to be seconds
+        return num > 100000000000 ? dayjs(num) : dayjs.unix(num);
+    }
+    const date = LASTFM_CSV_DATE_REGEX.test(str) ? dayjs(new Date(`${str.replace(',', '')} UTC`)) : dayjs(str);
+    return date.isValid() ? date : undefined;
+}
+
+/**
+ * Last.fm CSV export with `artist,album,track,timestamp` columns and an optional header row
+ * */
+export const parseLastfmCsv = (content: string): PlayObject[] => {
+    const rows = parseCsv(content);
+    if (rows.length > 0 && rows[0][0]?.trim().toLocaleLowerCase() === 'artist') {
+        rows.shift();
+    }
+    return rows.map((row, index) => {
+        const [artist, album, track, timestamp] = row;
+        if (track === undefined || timestamp === undefined) {
+            throw new Error(`Row ${index + 1} does not have enough columns`);
+        }
+        const playDate = parseCsvDate(timestamp);
+        if (playDate === undefined) {
+            throw new Error(`Row ${index + 1} has an invalid timestamp '${timestamp}'`);
+        }
+        return baseFormatPlayObj(row, {
+            data: {
+                artists: nonEmpty(artist) !== undefined ? [artist.trim()] : [],
+                album: nonEmpty(album),
+                track: track.trim(),
+                playDate,
+            },
+            meta: {
+                source: FILE_SOURCE_NAME,
+            }
+        });
+    });
+}
+
+/**
+ * ListenBrainz listens as either JSON lines (one listen per line) or a JSON array of listens
+ * */
+export const parseListenbrainzExport = (content: string): PlayObject[] => {
+    const trimmed = content.trim();
+    if (trimmed === '') {
+        return [];
+    }
+    let listens: ListenPayload[];
+    let data: any;
+    try {
+        data = JSON.parse(trimmed);
+    } catch (e) {
+        // not a single JSON document, try JSON lines
+    }
+    if (Array.isArray(data)) {
+        listens = data;
+    } else if (data !== undefined) {
+        // payload from listenbrainz api responses
+        listens = data.payload?.listens ?? [data];
+    } else {
+        listens = trimmed.split(/\r?\n/).filter(x => x.trim() !== '').map((x, index) => {
+            try {
+                return JSON.parse(x);
+            } catch (e) {
+                throw new Error(`Line ${index + 1} is not valid JSON`, {cause: e});
+            }
+        });
+    }
+    return listens.map((x) => {
+        if (x.listened_at === undefined) {
+            throw new Error(`Listen for '${x.track_metadata?.track_name}' is missing 'listened_at'`);
+        }
+        const play = listenPayloadToPlay(x);
+        play.meta.source = FILE_SOURCE_NAME;
+        return play;
+    });
+}
+
+/**
+ * multi-scrobbler Plays as JSON lines (one PlayObject per line), IE the `.plays.jsonl` files written by the File Client
+ * */
+export const parsePlaysJsonl = (content: string): PlayObject[] => content.split(/\r?\n/).filter(x => x.trim() !== '').map((x, index) => {
+    let play: PlayObject;
+    try {
+        play = rehydratePlay(JSON.parse(x));
+    } catch (e) {
+        throw new Error(`Line ${index + 1} is not valid JSON`, {cause: e});
+    }
+    if (!dayjs.isDayjs(play.data?.playDate) || !play.data.playDate.isValid()) {
+        throw new Error(`Line ${index + 1} is missing a valid 'playDate'`);
+    }
+    return play;
+});
+
+const nonEmpty = (val?: string): string | undefined => val === undefined || val.trim() === '' ? undefined : val.trim();
+
+/**
+ * Extension (including leading dot) used for files written by the File Client
+ *
+ * scrobbler.log and listenbrainz files use extensions the File Source recognizes so they can be re-imported
+ * */
+export const getClientFileExtension = (format: FileClientFormat): string => {
+    switch (format) {
+        case 'jsonl':
+            return '.plays.jsonl';
+        case 'listenbrainz':
+            return '.listens.jsonl';
+        case 'scrobblerlog':
+            return '.scrobbler.log';
+    }
+}
+
+export const parseClientFile = (content: string, format: FileClientFormat): PlayObject[] => {
+    switch (format) {
+        case 'jsonl':
+            return parsePlaysJsonl(content);
+        case 'listenbrainz':
+            return parseListenbrainzExport(content);
+        case 'scrobblerlog':
+            return parseScrobblerLog(content);
+    }
+}
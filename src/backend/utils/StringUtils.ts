@@ -1,5 +1,6 @@
 import { strategies, stringSameness, StringSamenessResult } from "@foxxmd/string-sameness";
 import { hasher } from 'node-object-hash';
+import { createHash } from "node:crypto";
 import { PlayObject } from "../../core/Atomic.js";
 import { asPlayerStateData, DELIMITERS, DELIMITERS_NO_AMP, PlayerStateDataMaybePlay } from "../common/infrastructure/Atomic.js";
 import { genGroupIdStr, getPlatformIdFromData, intersect, parseBool, parseBoolStrict, parseRegexSingleOrFail } from "../utils.js";
@@ -427,6 +428,19 @@ export const parseBoolOrArrayFromMaybeString = (value: string | string[] | boole
     return parseArrayFromMaybeString(value, opts);
 }
 
+/**
+ * Convert a simple glob pattern into a case-insensitive, full-match RegExp
+ *
+ * Supports `*` (any number of characters) and `?` (exactly one character)
+ * */
+export const globToRegex = (glob: string): RegExp => {
+    const pattern = glob.trim()
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${pattern}$`, 'i');
+}
+
 export const firstNonEmptyStr = (vals: unknown[]): string | undefined => {
     for(const val of vals) {
         if(val !== undefined && val !== null && typeof val !== 'object') {
@@ -461,6 +475,8 @@ const defaultHasher = hasher();
 const defaultHashFunc: HashFunction = (obj) => defaultHasher.hash(obj);
 export const hashObject = (obj: object, h: HashFunction = defaultHashFunc): string => h(obj);
 
+export const md5 = (val: string): string => createHash('md5').update(val).digest('hex');
+
 const NON_ALPHANUMWHITESPACE_CHARS: RegExp = new RegExp(/[^a-zA-Z\d\s]/);
 export const hasNonAlphanumericChars = (str: string): boolean => {
     return NON_ALPHANUMWHITESPACE_CHARS.test(str);
@@ -101,3 +101,11 @@ const getSchemaFunc = async () => {
     return schemaFetchFunc;
 }
 
+
+/**
+ * Get the generated JSON Schema for a config interface by name, EX 'PlexApiSourceConfig'
+ * */
+export const getJsonSchema = async (schemaIdentifier: string, logger: Logger): Promise<object> => {
+    const func = await getSchemaFunc();
+    return await func(schemaIdentifier, logger);
+}
@@ -13,6 +13,9 @@ import Dashboard from "./dashboard/dashboard";
 import RecentPage from "./recent/RecentPage";
 import ScrobbledPage from "./scrobbled/ScrobbledPage";
 import DeadPage from "./deadLetter/DeadPage";
+import SettingsPage from "./settings/SettingsPage";
+import InspectorPage from "./inspector/InspectorPage";
+import TransformPage from "./transform/TransformPage";
 import {clientUpdate, sourceUpdate} from "./status/ducks";
 import {useEventSource, useEventSourceListener} from "@react-nano/use-event-source";
 import Version from "./Version";
@@ -70,6 +73,18 @@ const routes: RouteObject[] = [
         path: "/dead",
         element: <DeadPage/>,
     },
+    {
+        path: "/settings",
+        element: <SettingsPage/>,
+    },
+    {
+        path: "/inspect",
+        element: <InspectorPage/>,
+    },
+    {
+        path: "/transform",
+        element: <TransformPage/>,
+    },
     {
         path: "/docs",
         element: <MissingDocs/>
@@ -134,6 +149,9 @@ function App() {
                   <span className="space-x-3" style={{marginLeft: 'auto'}}>
                         <a target="_blank" href="https://status.multi-scrobbler.app">
                           Services Monitor
+                      </a>
+                       <a href="/settings">
+                          Settings
                       </a>
                        <a href="/docs">
                           Docs
@@ -9,7 +9,7 @@ import Player from "../player/Player";
 import {useStartSourceMutation, useListenSourceMutation} from "./sourceDucks";
 import './statusCard.scss';
 
-const ambiguousTypes = ['lastfm','listenbrainz','koito','librefm','maloja','rocksky'];
+const ambiguousTypes = ['lastfm','listenbrainz','koito','librefm','maloja','rocksky','funkwhale'];
 export interface SourceStatusCardData extends StatusCardSkeletonData, PropsFromRedux {
     loading?: boolean
 }
@@ -1,4 +1,7 @@
 import {createApi, fetchBaseQuery} from "@reduxjs/toolkit/dist/query/react";
+import {AmbPlayObject, JsonPlayObject, PlayMatchResult} from "../../../core/Atomic";
+
+export type MatchExplanation = PlayMatchResult & {play: JsonPlayObject};
 
 export const scrobblerApi = createApi({
     reducerPath: 'scrobblerApi',
@@ -16,8 +19,23 @@ export const scrobblerApi = createApi({
                     force: params.force
                 }
             })
+        }),
+        explainMatch: builder.mutation<MatchExplanation, {
+            name: string,
+            play: AmbPlayObject
+        }>({
+            query: (params) => ({
+                url: '/client/match',
+                method: 'POST',
+                params: {
+                    name: params.name
+                },
+                body: {
+                    play: params.play
+                }
+            })
         })
     })
 });
 
-export const {useStartClientMutation} = scrobblerApi;
+export const {useStartClientMutation, useExplainMatchMutation} = scrobblerApi;
@@ -1,20 +1,25 @@
-import React, {useCallback, useEffect, useState} from 'react';
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
 import PlayDisplay from "../components/PlayDisplay";
-import {recentIncludes} from "../../core/Atomic";
-import {useSearchParams} from "react-router-dom";
+import {DEAD_LETTER_ERROR_CATEGORIES, DeadLetterErrorCategory, DeadLetterScrobble, JsonPlayObject, recentIncludes} from "../../core/Atomic";
+import {Link, useSearchParams} from "react-router-dom";
 import {
     useGetDeadQuery,
     useRemoveDeadSingleMutation,
     useProcessDeadSingleMutation,
     useLazyProcessDeadQuery,
     useLazyRemoveDeadQuery,
+    useProcessDeadSelectedMutation,
+    useRemoveDeadSelectedMutation,
+    useEditDeadMutation,
     deadAdapter,
     clearDead,
+    DeadEdit,
+    DeadSelection,
 } from "./deadLetterDucks";
 import dayjs from "dayjs";
 import {RootState} from "../store";
 import {connect, ConnectedProps} from "react-redux";
-import { faBug } from "@fortawesome/free-solid-svg-icons";
+import { faBug, faMagnifyingGlass } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import clsx from "clsx";
 import { useCopyToClipboard } from '../components/copyToClipboardHook';
@@ -24,6 +29,114 @@ const displayOpts = {
     includeWeb: true
 }
 
+const buttonClass = 'capitalize underline cursor-pointer max-w-fit';
+const inputClass = 'w-full rounded bg-gray-700 text-white px-2 py-1';
+
+const responseError = (e: any): string => e?.data?.message ?? e?.error ?? 'Unknown error';
+
+const categoryLabels: Record<DeadLetterErrorCategory, string> = {
+    rejected: 'Rejected by Client',
+    auth: 'Authentication',
+    rateLimit: 'Rate Limited',
+    network: 'Network/Upstream Outage',
+    unknown: 'Unknown'
+};
+
+const nextRetryText = (dead: DeadLetterScrobble<JsonPlayObject, string>): string => {
+    if(dead.nextRetry !== undefined) {
+        return dayjs(dead.nextRetry).isAfter(dayjs()) ? dayjs.duration(dayjs(dead.nextRetry).diff(dayjs())).humanize(true) : 'Next heartbeat';
+    }
+    switch (dead.errorCategory) {
+        case 'auth':
+            return 'After Client is re-authenticated';
+        case 'rejected':
+        case 'unknown':
+            return 'Never (retry manually)';
+        default:
+            return 'Next heartbeat';
+    }
+}
+
+const listToText = (list?: string[]) => (list ?? []).join('\n');
+const textToList = (text: string) => text.split('\n').map(x => x.trim()).filter(x => x !== '');
+
+/**
+ * Only send the fields that were changed so untouched data is not modified
+ * */
+const buildEdit = (play: JsonPlayObject, form: Record<string, string>): DeadEdit => {
+    const {data} = play;
+    const edit: DeadEdit = {};
+    if(form.track !== (data.track ?? '')) {
+        edit.track = form.track;
+    }
+    if(form.artists !== listToText(data.artists)) {
+        edit.artists = textToList(form.artists);
+    }
+    if(form.album !== (data.album ?? '')) {
+        edit.album = form.album.trim() === '' ? null : form.album;
+    }
+    if(form.albumArtists !== listToText(data.albumArtists)) {
+        const albumArtists = textToList(form.albumArtists);
+        edit.albumArtists = albumArtists.length === 0 ? null : albumArtists;
+    }
+    if(form.duration !== (data.duration?.toString() ?? '')) {
+        edit.duration = form.duration.trim() === '' ? null : Number(form.duration);
+    }
+    if(form.playDate !== (data.playDate === undefined ? '' : dayjs(data.playDate).format())) {
+        edit.playDate = form.playDate;
+    }
+    return edit;
+}
+
+const DeadEditForm = (props: {dead: DeadLetterScrobble<JsonPlayObject, string>, name: string, type: string, onDone: () => void}) => {
+    const {dead: {id, play}, name, type, onDone} = props;
+
+    const [form, setForm] = useState<Record<string, string>>({
+        track: play.data.track ?? '',
+        artists: listToText(play.data.artists),
+        album: play.data.album ?? '',
+        albumArtists: listToText(play.data.albumArtists),
+        duration: play.data.duration?.toString() ?? '',
+        playDate: play.data.playDate === undefined ? '' : dayjs(play.data.playDate).format()
+    });
+    const [error, setError] = useState<string | undefined>();
+    const [editDead, {isLoading}] = useEditDeadMutation();
+
+    const save = useCallback(() => {
+        const edit = buildEdit(play, form);
+        if(Object.keys(edit).length === 0) {
+            onDone();
+            return;
+        }
+        setError(undefined);
+        editDead({name, type, id, data: edit})
+            .unwrap()
+            .then(() => onDone())
+            .catch(e => setError(responseError(e)));
+    }, [play, form, editDead, name, type, id, onDone]);
+
+    const field = (key: string, label: string, multiline = false) => <label className="block my-1">
+        <span className="font-semibold">{label}</span>
+        {multiline
+            ? <textarea className={inputClass} rows={2} value={form[key]} onChange={(e) => setForm({...form, [key]: e.target.value})}/>
+            : <input className={inputClass} value={form[key]} onChange={(e) => setForm({...form, [key]: e.target.value})}/>}
+    </label>;
+
+    return <div className="my-2 p-3 rounded bg-gray-600">
+        {field('track', 'Track')}
+        {field('artists', 'Artists (one per line)', true)}
+        {field('album', 'Album')}
+        {field('albumArtists', 'Album Artists (one per line)', true)}
+        {field('duration', 'Duration (seconds)')}
+        {field('playDate', 'Play Date (ISO8601)')}
+        {error !== undefined ? <div className="font-mono text-sm whitespace-pre-wrap text-red-300">{error}</div> : null}
+        <div className="mt-2">
+            <button className="rounded bg-gray-700 px-3 py-1 mr-2 disabled:opacity-50" disabled={isLoading} onClick={save}>{isLoading ? 'Saving...' : 'Save'}</button>
+            <span onClick={() => onDone()} className={buttonClass}>Cancel</span>
+        </div>
+    </div>;
+}
+
 const dead = (props: PropsFromRedux) => {
     const {
         data = [],
@@ -56,6 +169,31 @@ const dead = (props: PropsFromRedux) => {
     const removeAllDead = useCallback(() => removeAllDeadFetch({name: searchParams.get('name'), type: searchParams.get('type')}), [removeAllDeadFetch, searchParams]);
     const retryAllDead = useCallback(() => retryAllDeadFetch({name: searchParams.get('name'), type: searchParams.get('type')}), [retryAllDeadFetch, searchParams]);
 
+    const [editingId, setEditingId] = useState<string | undefined>();
+    const [selected, setSelected] = useState<string[]>([]);
+    const [retrySelectedFetch, {isLoading: isRetrying}] = useProcessDeadSelectedMutation();
+    const [removeSelectedFetch] = useRemoveDeadSelectedMutation();
+
+    // drop selections for scrobbles that no longer exist
+    useEffect(() => {
+        setSelected(selected.filter(x => data.some(y => y.id === x)));
+    }, [data]);
+
+    const sources = useMemo(() => Array.from(new Set<string>(data.map(x => x.source))), [data]);
+    const errors = useMemo(() => Array.from(new Set<string>(data.map(x => x.error))), [data]);
+
+    const selectBy = useCallback((filter: (x: DeadLetterScrobble<JsonPlayObject, string>) => boolean) => {
+        setSelected(Array.from(new Set(selected.concat(data.filter(filter).map(x => x.id)))));
+    }, [data, selected, setSelected]);
+
+    const toggleSelected = useCallback((id: string) => {
+        setSelected(selected.includes(id) ? selected.filter(x => x !== id) : selected.concat(id));
+    }, [selected, setSelected]);
+
+    const selection: DeadSelection = {ids: selected};
+    const retrySelected = useCallback(() => retrySelectedFetch({name: searchParams.get('name'), type: searchParams.get('type'), selection}), [retrySelectedFetch, searchParams, selected]);
+    const removeSelected = useCallback(() => removeSelectedFetch({name: searchParams.get('name'), type: searchParams.get('type'), selection}), [removeSelectedFetch, searchParams, selected]);
+
     return (
         <div className="grid">
             <div className="shadow-md rounded bg-gray-500 text-white">
@@ -65,19 +203,48 @@ const dead = (props: PropsFromRedux) => {
                     </h2>
                 </div>
                 <div className="p-5">
+                    {data.length > 0 ? <div className="mb-3">
+                        <span className="font-semibold mr-2">Select</span>
+                        <span onClick={() => setSelected(data.map(x => x.id))} className={buttonClass}>All</span>
+                        <span className="mx-2">|</span><span onClick={() => setSelected([])} className={buttonClass}>None</span>
+                        <select className="text-black rounded mx-2" value="" onChange={(e) => selectBy(x => x.source === e.target.value)}>
+                            <option value="">By Source...</option>
+                            {sources.map(x => <option key={x} value={x}>{x.replace('Source -', '')}</option>)}
+                        </select>
+                        <select className="text-black rounded mr-2" value="" onChange={(e) => selectBy(x => (x.errorCategory ?? 'unknown') === e.target.value)}>
+                            <option value="">By Error Type...</option>
+                            {DEAD_LETTER_ERROR_CATEGORIES.filter(x => data.some(y => (y.errorCategory ?? 'unknown') === x)).map(x => <option key={x} value={x}>{categoryLabels[x]}</option>)}
+                        </select>
+                        <select className="text-black rounded max-w-xs" value="" onChange={(e) => selectBy(x => x.error === e.target.value)}>
+                            <option value="">By Error...</option>
+                            {errors.map(x => <option key={x} value={x}>{x}</option>)}
+                        </select>
+                        {selected.length > 0 ? <div className="mt-2">
+                            <span className="mr-2">{selected.length} selected -</span>
+                            <span onClick={() => retrySelected()} className={buttonClass}>{isRetrying ? 'Retrying...' : 'Retry Selected'}</span>
+                            <span className="mx-2">|</span><span onClick={() => removeSelected()} className={buttonClass}>Remove Selected</span>
+                        </div> : null}
+                    </div> : null}
                     {isSuccess && !isLoading && data.length === 0 ? 'No failed scrobbles!' : null}
                     <ul>{data.map(x => 
                         {
                             const classes = [...baseClass].concat(copiedIndex !== x.id ? ['underline','cursor-pointer'] : []);
                             return (<li className="my-2.5" key={x.id}>
                         <div className="text-lg">
+                            <input className="mr-3" type="checkbox" checked={selected.includes(x.id)} onChange={() => toggleSelected(x.id)}/>
                             <button className={clsx(classes)} onClick={() => copyActionCB(x.play.meta.lifecycle, x.id)}>{copiedIndex === x.id ? 'Copied!' : <FontAwesomeIcon
                                                                             color="white" icon={faBug}/>}</button>
+                            <Link className="mr-3" to="/inspect" state={{play: x.play, from: 'Failed Scrobbles'}} title="Inspect"><FontAwesomeIcon color="white" icon={faMagnifyingGlass}/></Link>
                             <PlayDisplay data={x.play} buildOptions={displayOpts}/></div>
                         <div><span className="font-semibold">Source</span>:{x.source.replace('Source -', '')}</div>
                         <div><span className="font-semibold">Retries</span>: {x.retries}</div>
                         <div><span className="font-semibold">Last Retried</span>: {x.lastRetry === undefined ? 'Never' : dayjs.duration(dayjs(x.lastRetry).diff(dayjs())).humanize(true)}</div>
+                        <div><span className="font-semibold">Next Retry</span>: {nextRetryText(x)}</div>
+                        <div><span className="font-semibold">Error Type</span>: {categoryLabels[x.errorCategory ?? 'unknown']}</div>
                         <div><span className="font-semibold">Error</span>: <span className="font-mono text-sm">{x.error}</span></div>
+                        {editingId === x.id
+                            ? <DeadEditForm dead={x} name={searchParams.get('name')} type={searchParams.get('type')} onDone={() => setEditingId(undefined)}/>
+                            : <div onClick={() => setEditingId(x.id)} className="capitalize underline cursor-pointer max-w-fit">Edit</div>}
                         <div onClick={() => retryDead(x.id)} className="capitalize underline cursor-pointer max-w-fit">Retry</div>
                         <div onClick={() => removeDead(x.id)} className="capitalize underline cursor-pointer max-w-fit">Remove</div>
                     </li>)
@@ -1,9 +1,26 @@
 import {createApi, fetchBaseQuery} from "@reduxjs/toolkit/dist/query/react/index";
-import {DeadLetterScrobble, JsonPlayObject} from "../../core/Atomic";
+import {DeadLetterErrorCategory, DeadLetterScrobble, JsonPlayObject} from "../../core/Atomic";
 import {createAction, createEntityAdapter, createSlice} from "@reduxjs/toolkit";
 import {ApiEventPayload, clientUpdate} from "../status/ducks";
 
 type DeadResponse = DeadLetterScrobble<JsonPlayObject, string>[];
+
+export interface DeadSelection {
+    ids?: string[]
+    source?: string
+    error?: string
+    errorCategory?: DeadLetterErrorCategory
+}
+
+export interface DeadEdit {
+    track?: string
+    artists?: string[]
+    album?: string | null
+    albumArtists?: string[] | null
+    duration?: number | null
+    playDate?: string
+}
+
 export const deadApi = createApi({
     reducerPath: 'deadApi',
     baseQuery: fetchBaseQuery({baseUrl: './api/'}),
@@ -38,6 +55,44 @@ export const deadApi = createApi({
                 }
             })
         }),
+        processDeadSelected: builder.mutation<DeadResponse, { name: string, type: string, selection: DeadSelection }>({
+            query: (params) => ({
+                url: `dead`,
+                method: 'PUT',
+                params: {
+                    name: params.name,
+                    type: params.type
+                },
+                body: params.selection
+            })
+        }),
+        removeDeadSelected: builder.mutation<DeadResponse, { name: string, type: string, selection: DeadSelection }>({
+            query: (params) => ({
+                url: `dead`,
+                method: 'DELETE',
+                params: {
+                    name: params.name,
+                    type: params.type
+                },
+                body: params.selection
+            })
+        }),
+        editDead: builder.mutation<DeadLetterScrobble<JsonPlayObject, string>, {
+            name: string,
+            type: string,
+            id: string,
+            data: DeadEdit
+        }>({
+            query: (params) => ({
+                url: `/dead/${params.id}`,
+                method: 'PATCH',
+                params: {
+                    name: params.name,
+                    type: params.type
+                },
+                body: {data: params.data}
+            })
+        }),
         removeDead: builder.query<DeadResponse, { name: string, type: string }>({
             query: (params) => ({
                 url: `dead`,
@@ -92,7 +147,8 @@ export const deadSlice = createSlice({
             }
         )
         builder.addMatcher(
-            (action) => deadApi.endpoints.getDead.matchFulfilled(action) || deadApi.endpoints.processDead.matchFulfilled(action) || deadApi.endpoints.removeDead.matchFulfilled(action),
+            (action) => deadApi.endpoints.getDead.matchFulfilled(action) || deadApi.endpoints.processDead.matchFulfilled(action) || deadApi.endpoints.removeDead.matchFulfilled(action)
+                || deadApi.endpoints.processDeadSelected.matchFulfilled(action) || deadApi.endpoints.removeDeadSelected.matchFulfilled(action),
             (state, action) => {
                 deadAdapter.setAll(state, action.payload);
             }
@@ -114,6 +170,12 @@ export const deadSlice = createSlice({
                     }
                 }
             )
+            .addMatcher(
+                (action) => deadApi.endpoints.editDead.matchFulfilled(action),
+                (state, action) => {
+                    deadAdapter.setOne(state, action.payload);
+                }
+            )
             .addMatcher(
                 (action) => clearDead.match(action),
                 (state, action) => {
@@ -131,4 +193,13 @@ export const deadSlice = createSlice({
 
 export const clearDead = createAction('clearDead');
 
-export const {useGetDeadQuery, useProcessDeadSingleMutation, useRemoveDeadSingleMutation, useLazyProcessDeadQuery, useLazyRemoveDeadQuery} = deadApi;
+export const {
+    useGetDeadQuery,
+    useProcessDeadSingleMutation,
+    useRemoveDeadSingleMutation,
+    useLazyProcessDeadQuery,
+    useLazyRemoveDeadQuery,
+    useProcessDeadSelectedMutation,
+    useRemoveDeadSelectedMutation,
+    useEditDeadMutation
+} = deadApi;
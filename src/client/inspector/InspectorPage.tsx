@@ -0,0 +1,273 @@
+import React, {Fragment, PropsWithChildren, useCallback, useMemo, useState} from 'react';
+import {Link, useLocation} from "react-router-dom";
+import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
+import {faMagnifyingGlass} from "@fortawesome/free-solid-svg-icons";
+import {Delta, clone, patch} from 'jsondiffpatch';
+import {format} from 'jsondiffpatch/formatters/html';
+import 'jsondiffpatch/formatters/styles/html.css';
+import './inspector.css';
+import PlayDisplay from "../components/PlayDisplay";
+import {AmbPlayObject, JsonPlayObject, LifecycleStep, MatchScoreComponent, PlayLifecycle, PlayMatchResult, recentIncludes} from "../../core/Atomic";
+import {useCopyToClipboard} from '../components/copyToClipboardHook';
+import {useExplainMatchMutation} from "../components/statusCard/clientDucks";
+import {useGetStatusQuery} from "../status/statusApi";
+
+const displayOpts = {
+    include: recentIncludes,
+    includeWeb: true
+}
+
+export interface InspectorState {
+    play: JsonPlayObject
+    /** Name of the page the Play was inspected from */
+    from?: string
+}
+
+interface Stage {
+    step: LifecycleStep
+    before: object
+    after: object
+    delta?: Delta
+    error?: string
+}
+
+const buttonClass = 'capitalize underline cursor-pointer max-w-fit';
+
+export const Section = (props: PropsWithChildren<{title: string}>) => <div className="shadow-md rounded bg-gray-500 text-white mb-5">
+    <div className="p-3 font-semibold bg-gray-700 text-white">
+        <h2>{props.title}</h2>
+    </div>
+    <div className="p-5">
+        {props.children}
+    </div>
+</div>;
+
+export const JsonBlock = (props: {data: any}) => <pre className="font-mono text-sm whitespace-pre-wrap break-all bg-gray-700 rounded p-2 overflow-auto">{typeof props.data === 'string' ? props.data : JSON.stringify(props.data, null, 2)}</pre>;
+
+const Field = (props: PropsWithChildren<{name: string}>) => <div><span className="font-semibold">{props.name}</span>: {props.children}</div>;
+
+/**
+ * Removes lifecycle from a step patch so only changes to the Play itself are shown
+ * */
+const playDelta = (delta?: Delta): Delta | undefined => {
+    if(delta === undefined || delta === null || Array.isArray(delta)) {
+        return delta;
+    }
+    const {meta, ...rest} = delta as Record<string, any>;
+    const cleanDelta: Record<string, any> = {...rest};
+    if(meta !== undefined && !Array.isArray(meta)) {
+        const {lifecycle, ...metaRest} = meta;
+        if(Object.keys(metaRest).filter(x => x !== '_t').length > 0) {
+            cleanDelta.meta = metaRest;
+        }
+    }
+    return Object.keys(cleanDelta).length > 0 ? cleanDelta : undefined;
+}
+
+/**
+ * Rebuild the Play before and after each transform step by applying each step's patch, in order, to the original Play
+ * */
+export const buildStages = (lifecycle: PlayLifecycle): Stage[] => {
+    const {lifecycle: _, ...originalMeta} = lifecycle.original.meta ?? {};
+    let last: object = {data: lifecycle.original.data, meta: originalMeta};
+    return (lifecycle.steps ?? []).map((step) => {
+        const delta = playDelta(step.patch);
+        if(delta === undefined) {
+            return {step, before: last, after: last};
+        }
+        try {
+            const after = patch(clone(last), delta) as object;
+            const stage = {step, before: last, after, delta};
+            last = after;
+            return stage;
+        } catch (e) {
+            return {step, before: last, after: last, delta, error: e.message};
+        }
+    });
+}
+
+const scoreText = (x: MatchScoreComponent) => `${x.similarity.toFixed(2)} * ${x.weight} = ${x.score.toFixed(2)}`;
+
+export const MatchResultDisplay = (props: {result: PlayMatchResult}) => {
+    const {result} = props;
+    return <Fragment>
+        <Field name="Existing Scrobble Found">{result.match ? 'Yes' : 'No'}</Field>
+        <Field name="Score">{result.score.toFixed(2)}{result.threshold !== undefined ? ` (duplicate at ${result.threshold.toFixed(2)} or higher)` : ''}</Field>
+        {result.reason !== undefined ? <Field name="Reason">{result.reason}</Field> : null}
+        {result.closestMatchedPlay !== undefined ? <Field name="Closest Match"><PlayDisplay data={result.closestMatchedPlay as JsonPlayObject} buildOptions={displayOpts}/></Field> : null}
+        {result.comparisons !== undefined && result.comparisons.length > 0 ? <Fragment>
+            <div className="font-semibold mt-2">Compared Scrobbles</div>
+            <div className="overflow-auto">
+                <table className="table-auto text-sm w-full">
+                    <thead>
+                    <tr className="text-left">
+                        <th className="pr-3">Scrobble</th>
+                        <th className="pr-3">Artist</th>
+                        <th className="pr-3">Title</th>
+                        <th className="pr-3">Time</th>
+                        <th className="pr-3">Score</th>
+                        <th>Duplicate</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {result.comparisons.map((x, index) => <tr key={index} className={x.match ? 'font-semibold' : undefined}>
+                        <td className="pr-3 py-1"><PlayDisplay data={x.play as JsonPlayObject} buildOptions={displayOpts}/></td>
+                        <td className="pr-3 font-mono">{scoreText(x.artist)}{x.artist.wholeMatchBonus !== undefined ? ` (whole match bonus ${x.artist.wholeMatchBonus.toFixed(2)})` : ''}</td>
+                        <td className="pr-3 font-mono">{scoreText(x.title)}</td>
+                        <td className="pr-3 font-mono" title={x.time.detail}>{x.time.accuracyName}: {scoreText(x.time)}</td>
+                        <td className="pr-3 font-mono">{x.score.toFixed(2)}</td>
+                        <td>{x.match ? 'Yes' : 'No'}</td>
+                    </tr>)}
+                    </tbody>
+                </table>
+            </div>
+        </Fragment> : null}
+        {result.breakdowns !== undefined && result.breakdowns.length > 0 ? <Fragment>
+            <div className="font-semibold">Confidence Breakdown</div>
+            <JsonBlock data={result.breakdowns.join('\n')}/>
+        </Fragment> : null}
+    </Fragment>;
+}
+
+/**
+ * Check the Play, as it was discovered by its Source, against a Client's current scrobbles
+ * */
+const MatchCheck = (props: {play: JsonPlayObject}) => {
+    const {play} = props;
+    const [client, setClient] = useState('');
+    const {data: status} = useGetStatusQuery(undefined);
+    const [explain, {data: result, isLoading, error, reset}] = useExplainMatchMutation();
+
+    const check = useCallback(() => {
+        const {lifecycle, ...meta} = play.meta;
+        const candidate = (lifecycle?.original ?? {data: play.data, meta}) as AmbPlayObject;
+        explain({name: client, play: candidate});
+    }, [play, client, explain]);
+
+    return <Section title="Check Against Client">
+        <div className="mb-2">Compare this Play to a Client's existing scrobbles, as they are now, to see if it would be considered a duplicate. Nothing is scrobbled.</div>
+        <select className="text-black rounded mr-2" value={client} onChange={(e) => {
+            setClient(e.target.value);
+            reset();
+        }}>
+            <option value="">Select a Client...</option>
+            {(status?.clients ?? []).map(x => <option key={`${x.type}-${x.name}`} value={x.name}>{x.name} ({x.type})</option>)}
+        </select>
+        {client !== '' ? <span onClick={check} className={buttonClass}>{isLoading ? 'Checking...' : 'Check'}</span> : null}
+        {error !== undefined ? <div className="mt-2 font-mono text-sm whitespace-pre-wrap text-red-300">{(error as any)?.data?.message ?? (error as any)?.error ?? 'Unknown error'}</div> : null}
+        {result !== undefined && !isLoading ? <div className="mt-3"><MatchResultDisplay result={result}/></div> : null}
+    </Section>;
+}
+
+/**
+ * Accepts a Play or only its lifecycle, which is what the "copy" buttons on other pages provide
+ * */
+const parsePastedPlay = (val: string): JsonPlayObject => {
+    const obj = JSON.parse(val);
+    if(obj !== null && typeof obj === 'object' && 'original' in obj && 'steps' in obj) {
+        return {data: obj.original.data, meta: {...obj.original.meta, lifecycle: obj}};
+    }
+    if(obj === null || typeof obj !== 'object' || !('data' in obj) || !('meta' in obj)) {
+        throw new Error('JSON is not a Play or Play lifecycle');
+    }
+    return obj as JsonPlayObject;
+}
+
+export const StageDisplay = (props: {stage: Stage, index: number}) => {
+    const {stage: {step, before, after, delta, error}, index} = props;
+    const diffHtml = useMemo(() => delta !== undefined ? format(delta, before) : undefined, [delta, before]);
+    return <div className="mb-5">
+        <h3 className="font-semibold text-lg">{index + 1}. {step.name} <span className="font-normal">from {step.source}</span></h3>
+        {delta === undefined ? <div>No Change</div> : null}
+        {error !== undefined ? <div>Could not apply patch: <span className="font-mono text-sm">{error}</span></div> : null}
+        {diffHtml !== undefined ? <div className="inspector-diff rounded p-2 my-2" dangerouslySetInnerHTML={{__html: diffHtml}}/> : null}
+        {delta !== undefined ? <div className="grid grid-cols-2 gap-3">
+            <div><div className="font-semibold">Before</div><JsonBlock data={before}/></div>
+            <div><div className="font-semibold">After</div><JsonBlock data={after}/></div>
+        </div> : null}
+        {step.inputs !== undefined && step.inputs.length > 0 ? <details className="mt-2">
+            <summary className="cursor-pointer">Inputs</summary>
+            {step.inputs.map((x, i) => <Fragment key={i}><div className="font-semibold">{x.type}</div><JsonBlock data={x.input}/></Fragment>)}
+        </details> : null}
+    </div>;
+}
+
+const inspector = () => {
+    const location = useLocation();
+    const state = location.state as InspectorState | null;
+
+    const [pasted, setPasted] = useState<JsonPlayObject | undefined>();
+    const [pasteVal, setPasteVal] = useState('');
+    const [pasteError, setPasteError] = useState<string | undefined>();
+
+    const {copy, isCopied} = useCopyToClipboard();
+
+    const play = pasted ?? state?.play;
+    const lifecycle = play?.meta?.lifecycle;
+
+    const stages = useMemo(() => lifecycle !== undefined ? buildStages(lifecycle) : [], [lifecycle]);
+
+    const parsePaste = useCallback(() => {
+        try {
+            setPasted(parsePastedPlay(pasteVal));
+            setPasteError(undefined);
+        } catch (e) {
+            setPasteError(e.message);
+        }
+    }, [pasteVal, setPasted, setPasteError]);
+
+    if(play === undefined) {
+        return <Section title="Play Inspector">
+            <div className="font-semibold">No Play to inspect</div>
+            <div className="mt-2">The Play is not part of this page's link so opening a shared or bookmarked link, or opening it in a new tab, does not show a Play.</div>
+            <div className="mt-2">Open a Play using the inspect (<FontAwesomeIcon color="white" icon={faMagnifyingGlass}/>) button on the Recently Played, Recently Scrobbled, or Failed Scrobbles pages, or paste a Play (or its copied lifecycle) below.</div>
+            <textarea className="w-full h-48 font-mono text-sm text-black rounded p-2 mt-3" value={pasteVal} onChange={(e) => setPasteVal(e.target.value)}/>
+            {pasteError !== undefined ? <div className="font-mono text-sm">{pasteError}</div> : null}
+            <div onClick={parsePaste} className={buttonClass}>Inspect</div>
+        </Section>;
+    }
+
+    const {
+        filtered,
+        deduplicated,
+        scrobble,
+    } = lifecycle ?? {};
+
+    return (
+        <div className="grid">
+            <Section title="Play Inspector">
+                <div className="text-lg"><PlayDisplay data={play} buildOptions={displayOpts}/></div>
+                {state?.from !== undefined && pasted === undefined ? <Field name="From">{state.from}</Field> : null}
+                {play.meta.source !== undefined ? <Field name="Source">{play.meta.source}</Field> : null}
+                <div onClick={() => copy(JSON.stringify(play, null, 2))} className={buttonClass} title="Paste into the Inspector to view this Play again later or share it">{isCopied ? 'Copied!' : 'Copy JSON'}</div>
+                <Link className={buttonClass} to="/transform" state={{play}}>Try Transforms</Link>
+                {lifecycle === undefined ? <div className="mt-2">This Play does not have a lifecycle.</div> : null}
+            </Section>
+            {lifecycle !== undefined ? <Fragment>
+                <Section title="Original">
+                    <JsonBlock data={lifecycle.original}/>
+                </Section>
+                <Section title="Transforms">
+                    {stages.length === 0 ? 'No transform stages' : stages.map((x, index) => <StageDisplay key={index} stage={x} index={index}/>)}
+                </Section>
+                {filtered !== undefined || deduplicated !== undefined ? <Section title="Filtering">
+                    {filtered !== undefined ? <Field name="Filtered by">{filtered.source}{filtered.rule !== undefined ? ` (rule ${filtered.rule})` : ''} - {filtered.reason}</Field> : null}
+                    {deduplicated !== undefined ? <Field name="Duplicate of Play from">{deduplicated.source} - {deduplicated.reason}</Field> : null}
+                </Section> : null}
+                {scrobble?.match !== undefined ? <Section title="Match Result">
+                    <MatchResultDisplay result={scrobble.match}/>
+                </Section> : null}
+                {scrobble !== undefined && (scrobble.payload !== undefined || scrobble.response !== undefined || scrobble.error !== undefined) ? <Section title="Client Exchange">
+                    {scrobble.payload !== undefined ? <Fragment><div className="font-semibold">Payload</div><JsonBlock data={scrobble.payload}/></Fragment> : null}
+                    {scrobble.response !== undefined ? <Fragment><div className="font-semibold">Response</div><JsonBlock data={scrobble.response}/></Fragment> : null}
+                    {scrobble.error !== undefined ? <Fragment><div className="font-semibold">Error</div><JsonBlock data={scrobble.error}/></Fragment> : null}
+                    {scrobble.warnings !== undefined && scrobble.warnings.length > 0 ? <Fragment><div className="font-semibold">Warnings</div><JsonBlock data={scrobble.warnings.join('\n')}/></Fragment> : null}
+                    {scrobble.loved === true ? <Field name="Loved">Yes</Field> : null}
+                </Section> : null}
+            </Fragment> : null}
+            <MatchCheck play={play}/>
+        </div>
+    );
+}
+
+export default inspector;
@@ -1,10 +1,10 @@
 import React, { Fragment, useMemo, useCallback, useState } from 'react';
 import PlayDisplay from "../components/PlayDisplay";
 import { recentIncludes } from "../../core/Atomic";
-import { useSearchParams } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import { useGetRecentQuery } from "./recentDucks";
 import Tooltip from "../components/Tooltip";
-import { faQuestionCircle, faBug } from "@fortawesome/free-solid-svg-icons";
+import { faQuestionCircle, faBug, faMagnifyingGlass, faWandMagicSparkles } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { useCopyToClipboard } from '../components/copyToClipboardHook';
 import clsx from "clsx";
@@ -96,6 +96,8 @@ const recent = () => {
                         return <li key={x.index}>
                             <button className={clsx(classes)} onClick={() => copyActionCB(x.meta.lifecycle, x.index)}>{copiedIndex === x.index ? 'Copied!' : <FontAwesomeIcon
                         color="white" icon={faBug}/>}</button>
+                            <Link className="mr-3" to="/inspect" state={{play: x, from: 'Recently Played'}} title="Inspect"><FontAwesomeIcon color="white" icon={faMagnifyingGlass}/></Link>
+                            <Link className="mr-3" to="/transform" state={{play: x, source: searchParams.get('name'), sourceType: searchParams.get('type')}} title="Try Transforms"><FontAwesomeIcon color="white" icon={faWandMagicSparkles}/></Link>
                             <PlayDisplay data={x} buildOptions={displayOpts}/>
                         </li>
                 })}</ul>
@@ -1,10 +1,10 @@
 import React, {useCallback, useState} from 'react';
 import PlayDisplay from "../components/PlayDisplay";
 import {recentIncludes} from "../../core/Atomic";
-import {useSearchParams} from "react-router-dom";
+import {Link, useSearchParams} from "react-router-dom";
 import {useGetRecentQuery} from "./scrobbledDucks";
 import { useCopyToClipboard } from '../components/copyToClipboardHook';
-import { faBug } from "@fortawesome/free-solid-svg-icons";
+import { faBug, faMagnifyingGlass } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import clsx from "clsx";
 
@@ -13,14 +13,21 @@ const displayOpts = {
     includeWeb: true
 }
 
+const statusOptions = [
+    {value: 'scrobbled', label: 'Scrobbled'},
+    {value: 'duplicate', label: 'Skipped (Duplicate)'},
+    {value: 'scrobbled,duplicate', label: 'Scrobbled and Skipped'},
+];
+
 const scrobbled = () => {
     let [searchParams, setSearchParams] = useSearchParams();
+    const [status, setStatus] = useState('scrobbled');
     const {
         data = [],
         error,
         isLoading,
         isSuccess
-    } = useGetRecentQuery({name: searchParams.get('name'), type: searchParams.get('type')});
+    } = useGetRecentQuery({name: searchParams.get('name'), type: searchParams.get('type'), status});
 
     const { copy, isCopied } = useCopyToClipboard();
 
@@ -39,9 +46,13 @@ const scrobbled = () => {
             <div className="shadow-md rounded bg-gray-500 text-white">
                 <div className="p-3 font-semibold bg-gray-700 text-white">
                     <h2>Recently Scrobbled
+                        <select className="text-black rounded ml-3 font-normal" value={status} onChange={(e) => setStatus(e.target.value)}>
+                            {statusOptions.map(x => <option key={x.value} value={x.value}>{x.label}</option>)}
+                        </select>
                     </h2>
                 </div>
                 <div className="p-5">
+                    {status !== 'scrobbled' ? <div className="mb-3 text-sm">Skipped plays are only available when <a className="underline" target="_blank" href="https://foxxmd.github.io/multi-scrobbler/configuration#history">History</a> is enabled. Inspect a play to see every existing scrobble it was compared against.</div> : null}
                     {isSuccess && !isLoading && data.length === 0 ? 'No recently scrobbled tracks!' : null}
                     <ul>{data.map(x => {
                         const classes = [...baseClass].concat(copiedIndex !== x.index ? ['underline','cursor-pointer'] : []);
@@ -49,7 +60,9 @@ const scrobbled = () => {
                         return <li key={x.index}>
                             <button className={clsx(classes)} onClick={() => copyActionCB(x.meta.lifecycle, x.index)}>{copiedIndex === x.index ? 'Copied!' : <FontAwesomeIcon
                                                 color="white" icon={faBug}/>}</button>
+                                                <Link className="mr-3" to="/inspect" state={{play: x, from: 'Recently Scrobbled'}} title="Inspect"><FontAwesomeIcon color="white" icon={faMagnifyingGlass}/></Link>
                                                 <PlayDisplay data={x} buildOptions={displayOpts}/>
+                                                {x.meta.lifecycle?.scrobble?.match?.match === true ? <div className="ml-8 text-sm">Skipped: {x.meta.lifecycle.scrobble.match.reason}</div> : null}
                                 </li>;
                 })} </ul>
                 </div>
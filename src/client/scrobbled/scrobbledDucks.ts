@@ -6,8 +6,8 @@ export const scrobbledApi = createApi({
     reducerPath: 'scrobbledApi',
     baseQuery: fetchBaseQuery({ baseUrl: './api/' }),
     endpoints: (builder) => ({
-        getRecent: builder.query<ScrobbledResponse, {name: string, type: string}>({
-            query: (params) => `scrobbled?name=${params.name}&type=${params.type}`,
+        getRecent: builder.query<ScrobbledResponse, {name: string, type: string, status?: string}>({
+            query: (params) => `scrobbled?name=${params.name}&type=${params.type}${params.status !== undefined ? `&status=${params.status}` : ''}`,
             transformResponse: (response: ScrobbledResponse, meta, arg) => {
                 return response.map((x, index) => ({...x, index: index + 1}))
             }
@@ -0,0 +1,173 @@
+import React, {useEffect, useState} from 'react';
+
+type JsonSchema = Record<string, any>;
+
+const inputClass = 'w-full rounded bg-gray-700 text-white px-2 py-1';
+
+/**
+ * Follow $ref and merge allOf so the returned schema describes a single value
+ * */
+const resolveSchema = (schema: JsonSchema = {}, root: JsonSchema): JsonSchema => {
+    if (schema.$ref !== undefined) {
+        const name = (schema.$ref as string).replace('#/definitions/', '');
+        const {$ref, ...rest} = schema;
+        return resolveSchema({...root.definitions?.[name], ...rest}, root);
+    }
+    if (Array.isArray(schema.allOf)) {
+        const {allOf, ...rest} = schema;
+        return allOf.map(x => resolveSchema(x, root)).reduce((acc, curr) => ({
+            ...acc,
+            ...curr,
+            properties: {...acc.properties, ...curr.properties},
+            required: [...(acc.required ?? []), ...(curr.required ?? [])]
+        }), rest);
+    }
+    if (Array.isArray(schema.anyOf)) {
+        // nullable values are generated as anyOf [T, null]
+        const options = schema.anyOf.filter(x => x.type !== 'null');
+        if (options.length === 1) {
+            const {anyOf, ...rest} = schema;
+            return resolveSchema({...options[0], ...rest}, root);
+        }
+    }
+    return schema;
+}
+
+const valueType = (schema: JsonSchema): string | undefined => {
+    if (Array.isArray(schema.type)) {
+        const types = schema.type.filter(x => x !== 'null');
+        return types.length === 1 ? types[0] : undefined;
+    }
+    return schema.type;
+}
+
+interface FieldProps {
+    schema: JsonSchema
+    root: JsonSchema
+    value: any
+    onChange: (val: any) => void
+}
+
+/**
+ * Fallback for values the form cannot represent, edited as raw JSON
+ * */
+const JsonField = (props: Omit<FieldProps, 'schema' | 'root'> & { rows?: number }) => {
+    const {value, onChange, rows = 3} = props;
+    const [text, setText] = useState(value === undefined ? '' : JSON.stringify(value, null, 2));
+    const [invalid, setInvalid] = useState(false);
+
+    useEffect(() => {
+        // only replace text when value was changed somewhere else
+        try {
+            if (JSON.stringify(JSON.parse(text)) === JSON.stringify(value)) {
+                return;
+            }
+        } catch (e) {
+            // text is not valid JSON yet
+        }
+        if (!invalid) {
+            setText(value === undefined ? '' : JSON.stringify(value, null, 2));
+        }
+    }, [value]);
+
+    return (<div>
+        <textarea className={`${inputClass} font-mono text-sm`} rows={rows} value={text} onChange={(e) => {
+            setText(e.target.value);
+            if (e.target.value.trim() === '') {
+                setInvalid(false);
+                onChange(undefined);
+                return;
+            }
+            try {
+                onChange(JSON.parse(e.target.value));
+                setInvalid(false);
+            } catch (err) {
+                setInvalid(true);
+            }
+        }}/>
+        {invalid ? <div className="text-sm text-red-400">Not valid JSON</div> : null}
+    </div>);
+}
+
+const Field = (props: FieldProps) => {
+    const {root, value, onChange} = props;
+    const schema = resolveSchema(props.schema, root);
+    const type = valueType(schema);
+
+    if (type === 'object' && schema.properties !== undefined) {
+        return <ObjectFields schema={schema} root={root} value={value} onChange={onChange}/>;
+    }
+    if (Array.isArray(schema.enum)) {
+        return (<select className={inputClass} value={value ?? ''} onChange={(e) => onChange(e.target.value === '' ? undefined : schema.enum.find(x => String(x) === e.target.value))}>
+            <option value="">(not set)</option>
+            {schema.enum.map(x => <option key={String(x)} value={String(x)}>{String(x)}</option>)}
+        </select>);
+    }
+    switch (type) {
+        case 'string':
+            return <input className={inputClass} type="text" value={value ?? ''} onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}/>;
+        case 'number':
+        case 'integer':
+            return <input className={inputClass} type="number" value={value ?? ''} onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}/>;
+        case 'boolean':
+            return (<select className={inputClass} value={value === undefined ? '' : String(value)} onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value === 'true')}>
+                <option value="">(not set)</option>
+                <option value="true">true</option>
+                <option value="false">false</option>
+            </select>);
+        case 'array':
+            if (valueType(resolveSchema(schema.items, root)) === 'string' && (value === undefined || Array.isArray(value))) {
+                return <input className={inputClass} type="text" placeholder="Comma-separated values" value={(value ?? []).join(',')}
+                              onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value.split(',').map(x => x.trimStart()))}/>;
+            }
+            return <JsonField value={value} onChange={onChange}/>;
+        default:
+            return <JsonField value={value} onChange={onChange}/>;
+    }
+}
+
+const ObjectFields = (props: FieldProps) => {
+    const {schema, root, value = {}, onChange} = props;
+    const required: string[] = schema.required ?? [];
+
+    return (<div className="space-y-3">
+        {Object.entries(schema.properties as Record<string, JsonSchema>).map(([key, propSchema]) => {
+            const resolved = resolveSchema(propSchema, root);
+            const nested = valueType(resolved) === 'object' && resolved.properties !== undefined;
+            return (<div key={key} className={nested ? 'border-l-2 border-gray-600 pl-3' : undefined}>
+                <label className="block font-semibold" title={resolved.description}>
+                    {key}{required.includes(key) ? <span className="text-red-400"> *</span> : null}
+                </label>
+                {resolved.description !== undefined ? <div className="text-sm text-gray-300 mb-1 whitespace-pre-line">{resolved.description.split('\n')[0]}</div> : null}
+                <Field schema={propSchema} root={root} value={value?.[key]} onChange={(val) => {
+                    const newValue = {...value};
+                    if (val === undefined || (typeof val === 'object' && !Array.isArray(val) && Object.keys(val).length === 0)) {
+                        delete newValue[key];
+                    } else {
+                        newValue[key] = val;
+                    }
+                    onChange(newValue);
+                }}/>
+            </div>);
+        })}
+    </div>);
+}
+
+export interface SchemaFormProps {
+    schema: JsonSchema
+    value: Record<string, any>
+    onChange: (val: Record<string, any>) => void
+}
+
+/**
+ * Renders inputs for each property in a generated config schema
+ *
+ * Values that cannot be represented by a simple input (unions, arrays of objects) are edited as JSON
+ * */
+const SchemaForm = (props: SchemaFormProps) => {
+    const {schema, value, onChange} = props;
+    return <ObjectFields schema={resolveSchema(schema, schema)} root={schema} value={value} onChange={(val) => onChange(val ?? {})}/>;
+}
+
+export {JsonField};
+export default SchemaForm;
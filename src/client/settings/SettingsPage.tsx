@@ -0,0 +1,164 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {ComponentConfigEntry, ComponentConfigRole, REDACTED_CONFIG_VALUE} from "../../core/Atomic";
+import {capitalize} from "../../core/StringUtils";
+import SchemaForm, {JsonField} from "./SchemaForm";
+import {
+    useGetConfigSchemaQuery,
+    useGetConfigsQuery,
+    useRemoveConfigMutation,
+    useSaveConfigMutation,
+    useValidateConfigMutation
+} from "./settingsDucks";
+
+interface EditingConfig {
+    id?: string
+    role: ComponentConfigRole
+    type: string
+    /** file the config is saved to */
+    origin: string
+    config: Record<string, any>
+}
+
+const rewriteWarning = (file: string) => `Saving re-writes ${file} as plain JSON. Comments and formatting in the file are removed, if it has comments the original is copied to ${file}.bak`;
+
+const buttonClass = 'capitalize underline cursor-pointer max-w-fit';
+
+const responseError = (e: any): string => e?.data?.message ?? e?.error ?? 'Unknown error';
+
+const ConfigEditor = (props: { editing: EditingConfig, onDone: () => void }) => {
+    const {editing, onDone} = props;
+
+    const [config, setConfig] = useState(editing.config);
+    const [raw, setRaw] = useState(false);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [saveError, setSaveError] = useState<string | undefined>();
+
+    const {data: schema, isLoading, isError} = useGetConfigSchemaQuery({role: editing.role, type: editing.type});
+    const [validate] = useValidateConfigMutation();
+    const [save, {isLoading: isSaving}] = useSaveConfigMutation();
+
+    // validate as the user types, debounced so we do not validate on every keystroke
+    useEffect(() => {
+        const timeout = setTimeout(() => {
+            validate({role: editing.role, type: editing.type, config})
+                .unwrap()
+                .then(res => setErrors(res.errors))
+                .catch(e => setErrors([responseError(e)]));
+        }, 500);
+        return () => clearTimeout(timeout);
+    }, [config, editing.role, editing.type, validate]);
+
+    const saveConfig = useCallback(() => {
+        setSaveError(undefined);
+        save({id: editing.id, role: editing.role, type: editing.type, config})
+            .unwrap()
+            .then(() => onDone())
+            .catch(e => setSaveError(responseError(e)));
+    }, [save, editing, config, onDone]);
+
+    return (
+        <div className="shadow-md rounded bg-gray-500 text-white mt-5">
+            <div className="p-3 font-semibold bg-gray-700 text-white">
+                <h2>
+                    <span className="mr-1">{editing.id === undefined ? 'New' : 'Edit'} {capitalize(editing.type)} {capitalize(editing.role)} -</span>
+                    <span onClick={() => setRaw(!raw)} className={buttonClass}>{raw ? 'Form' : 'Raw JSON'}</span>
+                    <span className="mx-2">|</span><span onClick={() => onDone()} className={buttonClass}>Cancel</span>
+                </h2>
+            </div>
+            <div className="p-5">
+                {isLoading ? 'Loading schema...' : null}
+                {isError ? 'Could not load schema, editing as JSON' : null}
+                {raw || isError ? <JsonField value={config} onChange={(val) => setConfig(val ?? {})} rows={20}/> : null}
+                {!raw && schema !== undefined ? <SchemaForm schema={schema} value={config} onChange={setConfig}/> : null}
+                <div className="mt-5">
+                    {errors.length === 0 ? <div className="text-green-300">Config is valid</div> : (
+                        <div>
+                            <div className="font-semibold text-red-300">Config is not valid</div>
+                            <ul>{errors.map((x, index) => <li key={index} className="font-mono text-sm whitespace-pre-wrap my-1">{x}</li>)}</ul>
+                        </div>
+                    )}
+                </div>
+                {saveError !== undefined ? <div className="mt-3 font-mono text-sm whitespace-pre-wrap text-red-300">{saveError}</div> : null}
+                <div className="mt-3 text-sm text-yellow-200">{rewriteWarning(editing.origin)}</div>
+                <div className="mt-3">
+                    <button className="rounded bg-gray-700 px-3 py-1 disabled:opacity-50" disabled={isSaving || errors.length > 0} onClick={saveConfig}>
+                        {isSaving ? 'Saving...' : 'Save and Restart'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+const ConfigList = (props: { role: ComponentConfigRole, entries: ComponentConfigEntry[], types: string[], onEdit: (editing: EditingConfig) => void }) => {
+    const {role, entries, types, onEdit} = props;
+
+    const [newType, setNewType] = useState(types[0]);
+    const [remove] = useRemoveConfigMutation();
+    const [removeError, setRemoveError] = useState<string | undefined>();
+
+    const removeConfig = useCallback((entry: ComponentConfigEntry) => {
+        if (!window.confirm(`Remove ${entry.type} ${role} '${entry.name}' from ${entry.origin}?\n\n${rewriteWarning(entry.origin)}`)) {
+            return;
+        }
+        setRemoveError(undefined);
+        remove({id: entry.id}).unwrap().catch(e => setRemoveError(responseError(e)));
+    }, [remove, role]);
+
+    return (
+        <div className="shadow-md rounded bg-gray-500 text-white">
+            <div className="p-3 font-semibold bg-gray-700 text-white">
+                <h2>{capitalize(role)}s</h2>
+            </div>
+            <div className="p-5">
+                {entries.length === 0 ? `No ${role}s configured` : null}
+                <ul>{entries.map(x => (
+                    <li className="my-2.5" key={x.id}>
+                        <div className="text-lg">{capitalize(x.type)} - {x.name}</div>
+                        <div><span className="font-semibold">From</span>: {x.origin}</div>
+                        <div><span className="font-semibold">Running</span>: {x.running ? 'Yes' : 'No'}</div>
+                        {x.editable ? (<div>
+                            <span onClick={() => onEdit({id: x.id, role, type: x.type, origin: x.origin, config: x.config})} className={buttonClass}>Edit</span>
+                            <span className="mx-2">|</span>
+                            <span onClick={() => removeConfig(x)} className={buttonClass}>Remove</span>
+                        </div>) : <div className="text-sm text-gray-300">Configured with ENVs, cannot be edited here</div>}
+                    </li>
+                ))}</ul>
+                {removeError !== undefined ? <div className="font-mono text-sm text-red-300">{removeError}</div> : null}
+                <div className="mt-3">
+                    <select className="rounded bg-gray-700 text-white px-2 py-1 mr-2" value={newType} onChange={(e) => setNewType(e.target.value)}>
+                        {types.map(x => <option key={x} value={x}>{x}</option>)}
+                    </select>
+                    <span onClick={() => onEdit({role, type: newType, origin: `${newType}.json`, config: {name: ''}})} className={buttonClass}>Add {capitalize(role)}</span>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+const settings = () => {
+    const {data, isLoading, isError} = useGetConfigsQuery();
+    const [editing, setEditing] = useState<EditingConfig | undefined>();
+
+    if (isLoading) {
+        return <div>Loading...</div>;
+    }
+    if (isError || data === undefined) {
+        return <div>Could not load configuration</div>;
+    }
+
+    return (
+        <div className="grid">
+            <div className="grid gap-5 md:grid-cols-2">
+                <ConfigList role="source" entries={data.entries.filter(x => x.role === 'source')} types={data.types.source} onEdit={setEditing}/>
+                <ConfigList role="client" entries={data.entries.filter(x => x.role === 'client')} types={data.types.client} onEdit={setEditing}/>
+            </div>
+            {editing !== undefined ? <ConfigEditor key={`${editing.id ?? 'new'}-${editing.role}-${editing.type}`} editing={editing} onDone={() => setEditing(undefined)}/> : null}
+            <div className="text-sm mt-3">
+                Changes are written to the config directory and the Source/Client is restarted immediately. ENV placeholders like <code>[[MY_ENV]]</code> are kept as written. Passwords, tokens, and other secrets are shown as <code>{REDACTED_CONFIG_VALUE}</code> -- leave them unchanged to keep the saved value. Edited files are re-written as plain JSON so comments in them are not preserved.
+            </div>
+        </div>
+    );
+}
+
+export default settings;
@@ -0,0 +1,58 @@
+import {createApi, fetchBaseQuery} from "@reduxjs/toolkit/dist/query/react/index";
+import {ComponentConfigEntry, ComponentConfigRole, ComponentConfigTypes} from "../../core/Atomic";
+
+interface ConfigResponse {
+    types: ComponentConfigTypes
+    entries: ComponentConfigEntry[]
+}
+
+interface ConfigBody {
+    role: ComponentConfigRole
+    type: string
+    config: Record<string, any>
+}
+
+export const settingsApi = createApi({
+    reducerPath: 'settingsApi',
+    baseQuery: fetchBaseQuery({baseUrl: './api/'}),
+    tagTypes: ['Configs'],
+    endpoints: (builder) => ({
+        getConfigs: builder.query<ConfigResponse, void>({
+            query: () => 'config',
+            providesTags: ['Configs']
+        }),
+        getConfigSchema: builder.query<Record<string, any>, { role: ComponentConfigRole, type: string }>({
+            query: (params) => `config/schema/${params.role}/${params.type}`,
+        }),
+        validateConfig: builder.mutation<{ errors: string[] }, ConfigBody>({
+            query: (body) => ({
+                url: 'config/validate',
+                method: 'POST',
+                body
+            })
+        }),
+        saveConfig: builder.mutation<ComponentConfigEntry, ConfigBody & { id?: string }>({
+            query: ({id, ...body}) => ({
+                url: id === undefined ? 'config' : `config/${encodeURIComponent(id)}`,
+                method: id === undefined ? 'POST' : 'PUT',
+                body
+            }),
+            invalidatesTags: ['Configs']
+        }),
+        removeConfig: builder.mutation<undefined, { id: string }>({
+            query: (params) => ({
+                url: `config/${encodeURIComponent(params.id)}`,
+                method: 'DELETE',
+            }),
+            invalidatesTags: ['Configs']
+        }),
+    }),
+});
+
+export const {
+    useGetConfigsQuery,
+    useGetConfigSchemaQuery,
+    useValidateConfigMutation,
+    useSaveConfigMutation,
+    useRemoveConfigMutation
+} = settingsApi;
@@ -8,8 +8,10 @@ import { logsReducer } from "./logs/logDucks";
 import { logsApi } from "./logs/logsApi";
 import { recentApi } from "./recent/recentDucks";
 import { scrobbledApi } from "./scrobbled/scrobbledDucks";
+import { settingsApi } from "./settings/settingsDucks";
 import { clientSlice, sourceSlice } from "./status/ducks";
 import { statusApi } from './status/statusApi';
+import { transformApi } from "./transform/transformDucks";
 import { versionApi } from "./Version";
 
 export const store = configureStore({
@@ -23,6 +25,8 @@ export const store = configureStore({
         [scrobblerApi.reducerPath]: scrobblerApi.reducer,
         [sourceApi.reducerPath]: sourceApi.reducer,
         [versionApi.reducerPath]: versionApi.reducer,
+        [settingsApi.reducerPath]: settingsApi.reducer,
+        [transformApi.reducerPath]: transformApi.reducer,
         //parts: statusReducer
         clients: clientSlice.reducer,
         sources: sourceSlice.reducer,
@@ -32,7 +36,7 @@ export const store = configureStore({
     // Adding the api middleware enables caching, invalidation, polling,
     // and other useful features of `rtk-query`.
     middleware: (getDefaultMiddleware) =>
-        getDefaultMiddleware().concat([statusApi.middleware, logsApi.middleware, recentApi.middleware, scrobbledApi.middleware, deadApi.middleware, scrobblerApi.middleware, sourceApi.middleware, versionApi.middleware]),
+        getDefaultMiddleware().concat([statusApi.middleware, logsApi.middleware, recentApi.middleware, scrobbledApi.middleware, deadApi.middleware, scrobblerApi.middleware, sourceApi.middleware, versionApi.middleware, settingsApi.middleware, transformApi.middleware]),
 })
 
 // optional, but required for refetchOnFocus/refetchOnReconnect behaviors
@@ -0,0 +1,131 @@
+import React, {Fragment, useEffect, useMemo, useState} from 'react';
+import {useLocation} from "react-router-dom";
+import PlayDisplay from "../components/PlayDisplay";
+import {AmbPlayObject, JsonPlayObject, recentIncludes} from "../../core/Atomic";
+import {JsonField} from "../settings/SchemaForm";
+import {buildStages, JsonBlock, Section, StageDisplay} from "../inspector/InspectorPage";
+import {useGetStatusQuery} from "../status/statusApi";
+import {usePreviewTransformMutation} from "./transformDucks";
+
+const displayOpts = {
+    include: recentIncludes,
+    includeWeb: true
+}
+
+export interface TransformState {
+    play: JsonPlayObject
+    /** Name of the Source the Play was discovered by */
+    source?: string
+    sourceType?: string
+}
+
+const HOOKS = ['preCompare', 'candidate', 'existing', 'postCompare'];
+
+const responseError = (e: any): string => e?.data?.message ?? e?.error ?? 'Unknown error';
+
+const examplePlay: AmbPlayObject = {
+    data: {
+        artists: ['My Artist feat. Another Artist'],
+        track: 'My Track (Remastered)',
+        album: 'My Album',
+        duration: 180
+    },
+    meta: {}
+};
+
+/**
+ * Use the Play as it was before any transforms were applied, if its lifecycle is present
+ * */
+const untransformedPlay = (play: JsonPlayObject): AmbPlayObject => {
+    const {lifecycle, ...meta} = play.meta;
+    if(lifecycle?.original !== undefined) {
+        return lifecycle.original as AmbPlayObject;
+    }
+    return {data: play.data, meta};
+}
+
+const transform = () => {
+    const location = useLocation();
+    const state = location.state as TransformState | null;
+
+    const [play, setPlay] = useState<AmbPlayObject | undefined>(state?.play !== undefined ? untransformedPlay(state.play) : examplePlay);
+    const [playTransform, setPlayTransform] = useState<Record<string, any> | undefined>();
+    const [component, setComponent] = useState<string>(state?.source !== undefined ? `source:${state.sourceType ?? ''}:${state.source}` : '');
+    const [hooks, setHooks] = useState<string[]>(['preCompare', 'postCompare']);
+    const [error, setError] = useState<string | undefined>();
+
+    const {data: status} = useGetStatusQuery(undefined);
+    const [preview, {data: result, isLoading}] = usePreviewTransformMutation();
+
+    // preview as the user types, debounced so we do not run transforms on every keystroke
+    useEffect(() => {
+        if(play === undefined || hooks.length === 0) {
+            return;
+        }
+        const timeout = setTimeout(() => {
+            const [role, type, ...name] = component.split(':');
+            preview({
+                play,
+                playTransform,
+                hooks: HOOKS.filter(x => hooks.includes(x)),
+                source: role === 'source' ? name.join(':') : undefined,
+                sourceType: role === 'source' && type !== '' ? type : undefined,
+                client: role === 'client' ? name.join(':') : undefined,
+            })
+                .unwrap()
+                .then(() => setError(undefined))
+                .catch(e => setError(responseError(e)));
+        }, 500);
+        return () => clearTimeout(timeout);
+    }, [play, playTransform, component, hooks, preview]);
+
+    const stages = useMemo(() => result?.play?.meta?.lifecycle !== undefined ? buildStages(result.play.meta.lifecycle) : [], [result]);
+
+    return (
+        <div className="grid">
+            <Section title="Transform Playground">
+                <div className="mb-3">Try out <a className="underline" target="_blank" href="https://foxxmd.github.io/multi-scrobbler/configuration/transforms">playTransform</a> rules on a Play. Nothing is scrobbled and no configuration is changed.</div>
+                <div className="font-semibold">Play</div>
+                <JsonField value={play} onChange={(val) => setPlay(val)} rows={10}/>
+                <div className="font-semibold mt-3">playTransform</div>
+                <div className="text-sm">Leave empty to use the rules configured for the selected Source or Client.</div>
+                <JsonField value={playTransform} onChange={(val) => setPlayTransform(val)} rows={15}/>
+                <div className="mt-3">
+                    <span className="font-semibold mr-2">Use Rules From</span>
+                    <select className="text-black rounded" value={component} onChange={(e) => setComponent(e.target.value)}>
+                        <option value="">None</option>
+                        {(status?.sources ?? []).map(x => <option key={`source-${x.type}-${x.name}`} value={`source:${x.type}:${x.name}`}>Source - {x.name} ({x.type})</option>)}
+                        {(status?.clients ?? []).map(x => <option key={`client-${x.type}-${x.name}`} value={`client:${x.type}:${x.name}`}>Client - {x.name} ({x.type})</option>)}
+                    </select>
+                </div>
+                <div className="mt-3">
+                    <span className="font-semibold mr-2">Hooks</span>
+                    {HOOKS.map(x => <label key={x} className="mr-3">
+                        <input className="mr-1" type="checkbox" checked={hooks.includes(x)} onChange={(e) => setHooks(e.target.checked ? hooks.concat(x) : hooks.filter(y => y !== x))}/>
+                        {x}
+                    </label>)}
+                </div>
+                {error !== undefined ? <div className="mt-3 font-mono text-sm whitespace-pre-wrap text-red-300">{error}</div> : null}
+            </Section>
+            {result !== undefined ? <Fragment>
+                <Section title={isLoading ? 'Result (updating...)' : 'Result'}>
+                    <div className="text-lg"><PlayDisplay data={result.play} buildOptions={displayOpts}/></div>
+                    <JsonBlock data={result.play.data}/>
+                </Section>
+                <Section title="Stages">
+                    {result.stages.length === 0 ? 'No stages were run' : <ul>
+                        {result.stages.map((x, index) => <li key={index}>
+                            <span className="font-semibold">{x.hook}</span> {x.type}-{x.name}: {x.status}
+                            {x.error !== undefined ? <div className="font-mono text-sm whitespace-pre-wrap">{x.error}</div> : null}
+                        </li>)}
+                    </ul>}
+                </Section>
+                <Section title="Hooks">
+                    {stages.length === 0 ? 'No hooks were run' : stages.map((x, index) => <StageDisplay key={index} stage={x} index={index}/>)}
+                </Section>
+            </Fragment> : null}
+        </div>
+    );
+}
+
+export default transform;
@@ -0,0 +1,27 @@
+import {createApi, fetchBaseQuery} from "@reduxjs/toolkit/dist/query/react/index";
+import {AmbPlayObject, JsonPlayObject, TransformPreviewResult} from "../../core/Atomic";
+
+export interface TransformPreviewBody {
+    play: AmbPlayObject
+    source?: string
+    sourceType?: string
+    client?: string
+    playTransform?: Record<string, any>
+    hooks?: string[]
+}
+
+export const transformApi = createApi({
+    reducerPath: 'transformApi',
+    baseQuery: fetchBaseQuery({baseUrl: './api/'}),
+    endpoints: (builder) => ({
+        previewTransform: builder.mutation<TransformPreviewResult<JsonPlayObject>, TransformPreviewBody>({
+            query: (body) => ({
+                url: 'transform/preview',
+                method: 'POST',
+                body
+            })
+        }),
+    }),
+});
+
+export const {usePreviewTransformMutation} = transformApi;
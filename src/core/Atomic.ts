@@ -37,7 +37,14 @@ export interface SourceStatusData {
     | 'koito'
     | 'tealfm'
     | 'rocksky'
-    | 'sonos';
+    | 'sonos'
+    | 'file'
+    | 'emby'
+    | 'lyrion'
+    | 'homeassistant'
+    | 'beefweb'
+    | 'endpointas'
+    | 'funkwhale';
     display: string;
     tracksDiscovered: number;
     name: string;
@@ -55,7 +62,7 @@ export interface SourceStatusData {
 
 export interface ClientStatusData {
     status: string;
-    type: "maloja" | "lastfm" | "librefm" | "listenbrainz" | "koito" | "tealfm" | "rocksky" | "discord";
+    type: "maloja" | "lastfm" | "librefm" | "listenbrainz" | "koito" | "tealfm" | "rocksky" | "discord" | "funkwhale" | "file";
     display: string;
     scrobbled: number;
     deadLetterScrobbles: number
@@ -67,6 +74,46 @@ export interface ClientStatusData {
     initialized: boolean;
 }
 
+export type ComponentConfigRole = 'source' | 'client';
+
+export interface ComponentConfigEntry {
+    /**
+     * File the config is in and a hash of its role, type, and name, EX 'plex.json:5d41402abc4b' or 'config.json:sources:7d793037a076'
+     * */
+    id: string
+    role: ComponentConfigRole
+    type: string
+    name: string
+    /**
+     * File the config was read from or 'ENV'
+     * */
+    origin: string
+    /**
+     * Configs built from ENVs cannot be edited
+     * */
+    editable: boolean
+    /**
+     * A Source/Client with this type and name is currently running
+     * */
+    running: boolean
+    /**
+     * Config as written in the file, ENV interpolation (`[[MY_ENV]]`) is not applied
+     *
+     * Secrets (passwords, tokens, keys...) are replaced with REDACTED_CONFIG_VALUE
+     * */
+    config?: Record<string, any>
+}
+
+export interface ComponentConfigTypes {
+    source: string[]
+    client: string[]
+}
+
+/**
+ * Placeholder for secret config values returned by the config editor. Saving a config with this value keeps the existing secret.
+ * */
+export const REDACTED_CONFIG_VALUE = '[REDACTED]';
+
 export type PlayObjectIncludeTypes = 'album' | 'time' | 'artist' | 'track' | 'timeFromNow' | 'trackId' | 'comment' | 'platform' | 'session';
 export const recentIncludes: PlayObjectIncludeTypes[] = ['time', 'timeFromNow', 'track', 'album', 'artist', 'comment'];
 
@@ -269,6 +316,13 @@ export interface PlayMeta {
 
     comment?: string
 
+    /**
+     * Whether the user has loved/favorited/liked this track in the Source service
+     *
+     * Undefined if the Source does not report this
+     * */
+    loved?: boolean
+
     lifecycle: PlayLifecycle
     lifecycleInputs?: LifecycleInput[]
 
@@ -294,6 +348,8 @@ export interface PlayLifecycle {
     input?: object
     original: PlayObjectLifecycleless
     steps: LifecycleStep[]
+    filtered?: PlayFilterResult
+    deduplicated?: PlayDedupeResult
     scrobble?: {
         match?: PlayMatchResult
         payload?: ScrobblePayload
@@ -301,9 +357,25 @@ export interface PlayLifecycle {
         error?: Error | ErrorObject
         response?: ScrobbleResponse
         mergedScrobble?: PlayObjectLifecycleless
+        /** True if the Play was also loved on the Client */
+        loved?: boolean
     }
 }
 
+export interface PlayFilterResult {
+    /** Identifier of the Source/Client that filtered the Play */
+    source: string
+    /** Name or index of the matching rule, if any */
+    rule?: string
+    reason: string
+}
+
+export interface PlayDedupeResult {
+    /** Identifier of the Source whose Play was kept */
+    source: string
+    reason: string
+}
+
 export interface LifecycleStep {
     name: string
     source: string
@@ -321,6 +393,37 @@ export interface ScrobbleActionResult {
     warnings?: string[]
 }
 
+export interface MatchScoreComponent {
+    /** How similar the candidate and existing scrobble are, from 0 to 1 */
+    similarity: number
+    weight: number
+    /** Weighted contribution to the total score */
+    score: number
+}
+
+/**
+ * Score components for one existing (upstream) scrobble compared against a candidate Play
+ * */
+export interface ScrobbleMatchComparison {
+    /** The existing scrobble, after existing transforms were applied */
+    play: PlayObjectLifecycleless
+    artist: MatchScoreComponent & {
+        /** Number of artists that matched exactly */
+        wholeMatches: number
+        /** Bonus added to similarity when plays have multiple artists with at least one whole match */
+        wholeMatchBonus?: number
+    }
+    title: MatchScoreComponent
+    time: MatchScoreComponent & {
+        accuracy: TemporalAccuracy
+        accuracyName: string
+        detail: string
+    }
+    score: number
+    /** Whether the score met the duplicate threshold */
+    match: boolean
+}
+
 export interface PlayMatchResult {
     match: boolean
     score: number
@@ -329,6 +432,10 @@ export interface PlayMatchResult {
     closestMatchedPlay?: PlayObjectLifecycleless
     transformedPlay?: PlayObjectLifecycleless
     summary?: String
+    /** Score a comparison must meet to be considered a duplicate */
+    threshold?: number
+    /** Every existing scrobble compared against the candidate, in the order they were compared. Only included when explaining a match, never stored in a lifecycle */
+    comparisons?: ScrobbleMatchComparison[]
 }
 
 export type ScrobbleTsSOC = 1 | 2;
@@ -406,11 +513,28 @@ export interface QueuedScrobble<PlayType> extends SourceScrobble<PlayType> {
 
 export type NowPlayingUpdateThreshold = (play?: PlayObject) => number;
 
+/**
+ * Why a dead letter scrobble failed
+ *
+ * * `rejected` - Client will not accept the scrobble as-is, it is never retried automatically
+ * * `auth` - Client credentials were invalid, retried after the Client successfully re-authenticates
+ * * `rateLimit` - Client was rate limited, retried with exponential backoff
+ * * `network` - Client was unreachable or had a server error, retried soon with backoff
+ * * `unknown` - retried on each heartbeat until deadLetterRetries is reached
+ * */
+export type DeadLetterErrorCategory = 'rejected' | 'auth' | 'rateLimit' | 'network' | 'unknown';
+export const DEAD_LETTER_ERROR_CATEGORIES: DeadLetterErrorCategory[] = ['rejected', 'auth', 'rateLimit', 'network', 'unknown'];
+
 export interface DeadLetterScrobble<PlayType, RetryType = Dayjs> extends QueuedScrobble<PlayType> {
     id: string
     retries: number
     lastRetry?: RetryType
     error: string
+    errorCategory?: DeadLetterErrorCategory
+    /** When the scrobble last failed */
+    erroredAt?: RetryType
+    /** When the scrobble will next be retried automatically. Undefined if it will not be */
+    nextRetry?: RetryType
 }
 
 export type Second = number;
@@ -550,6 +674,28 @@ export interface TransformResult {
     play: PlayData
 }
 
+export type TransformStageStatus = 'success' | 'skipped' | 'failed';
+
+export interface TransformStageResult {
+    /** Transform hook the stage was run in */
+    hook: string
+    type: string
+    name: string
+    status: TransformStageStatus
+    /** Play data returned by the stage, if it was successful */
+    play?: PlayData
+    error?: string
+}
+
+export interface TransformPreviewResult<PlayType> {
+    /** Play after all hooks were run */
+    play: PlayType
+    /** Lifecycle steps recorded for each hook, starting from the previewed Play */
+    steps: LifecycleStep[]
+    /** Outcome of each stage, in the order they were run */
+    stages: TransformStageResult[]
+}
+
 export const KNOWN_MEDIA_PROVIDER_URLS = [
 'spotify.com',
 'bandcamp.com',